@@ -0,0 +1,15 @@
+CREATE TYPE "public"."task_status" AS ENUM('pending', 'running', 'completed', 'failed', 'cancelled');--> statement-breakpoint
+CREATE TABLE "api_keys" (
+	"id" text PRIMARY KEY NOT NULL,
+	"key_hash" text NOT NULL,
+	"key_prefix" text NOT NULL,
+	"agent_id" text NOT NULL,
+	"owner" text NOT NULL,
+	"name" text,
+	"createdAt" timestamp with time zone DEFAULT now() NOT NULL,
+	"lastUsedAt" timestamp with time zone,
+	"revokedAt" timestamp with time zone,
+	CONSTRAINT "api_keys_key_hash_unique" UNIQUE("key_hash")
+);
+--> statement-breakpoint
+ALTER TABLE "tasks" ALTER COLUMN "status" SET DATA TYPE "public"."task_status" USING "status"::"public"."task_status";
\ No newline at end of file
@@ -0,0 +1,13 @@
+CREATE TYPE "public"."task_agent_role" AS ENUM('owner', 'collaborator', 'reviewer', 'observer');--> statement-breakpoint
+CREATE TABLE "task_agents" (
+	"id" text PRIMARY KEY NOT NULL,
+	"task_id" text NOT NULL,
+	"agent_id" text NOT NULL,
+	"role" "task_agent_role" NOT NULL,
+	"attachedAt" timestamp with time zone DEFAULT now() NOT NULL,
+	"detachedAt" timestamp with time zone
+);
+--> statement-breakpoint
+ALTER TABLE "task_agents" ADD CONSTRAINT "task_agents_task_id_tasks_id_fk" FOREIGN KEY ("task_id") REFERENCES "public"."tasks"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "task_agents_task_id_idx" ON "task_agents" USING btree ("task_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "task_agents_active_idx" ON "task_agents" USING btree ("task_id","agent_id") WHERE "task_agents"."detachedAt" IS NULL;
\ No newline at end of file
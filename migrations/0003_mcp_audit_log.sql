@@ -0,0 +1,21 @@
+CREATE TYPE "public"."audit_outcome" AS ENUM('success', 'error', 'cancelled');--> statement-breakpoint
+CREATE TABLE "mcp_audit_log" (
+	"id" text PRIMARY KEY NOT NULL,
+	"request_id" text NOT NULL,
+	"session_id" text NOT NULL,
+	"key_id" text,
+	"agent_id" text,
+	"owner" text,
+	"tool" text NOT NULL,
+	"task_id" text,
+	"params" jsonb NOT NULL,
+	"outcome" "audit_outcome" NOT NULL,
+	"result_summary" jsonb,
+	"error" text,
+	"duration_ms" integer NOT NULL,
+	"createdAt" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX "mcp_audit_log_task_id_idx" ON "mcp_audit_log" USING btree ("task_id","createdAt");--> statement-breakpoint
+CREATE INDEX "mcp_audit_log_created_at_idx" ON "mcp_audit_log" USING btree ("createdAt");--> statement-breakpoint
+CREATE INDEX "mcp_audit_log_agent_id_idx" ON "mcp_audit_log" USING btree ("agent_id","createdAt");
\ No newline at end of file
@@ -0,0 +1,14 @@
+CREATE TABLE "mcp_idempotency_keys" (
+	"id" text PRIMARY KEY NOT NULL,
+	"scope" text NOT NULL,
+	"key" text NOT NULL,
+	"tool" text NOT NULL,
+	"request_hash" text NOT NULL,
+	"response" jsonb,
+	"createdAt" timestamp with time zone DEFAULT now() NOT NULL,
+	"completedAt" timestamp with time zone,
+	"expiresAt" timestamp with time zone NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX "mcp_idempotency_keys_scope_key_idx" ON "mcp_idempotency_keys" USING btree ("scope","key");--> statement-breakpoint
+CREATE INDEX "mcp_idempotency_keys_expires_at_idx" ON "mcp_idempotency_keys" USING btree ("expiresAt");
\ No newline at end of file
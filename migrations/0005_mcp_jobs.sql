@@ -0,0 +1,19 @@
+CREATE TYPE "public"."job_status" AS ENUM('running', 'completed', 'failed', 'cancelled', 'interrupted');--> statement-breakpoint
+CREATE TABLE "mcp_jobs" (
+	"id" text PRIMARY KEY NOT NULL,
+	"tool" text NOT NULL,
+	"status" "job_status" NOT NULL,
+	"owner" text,
+	"agent_id" text,
+	"session_id" text NOT NULL,
+	"params" jsonb NOT NULL,
+	"progress" jsonb,
+	"result" jsonb,
+	"error" text,
+	"createdAt" timestamp with time zone DEFAULT now() NOT NULL,
+	"updatedAt" timestamp with time zone DEFAULT now() NOT NULL,
+	"finishedAt" timestamp with time zone
+);
+--> statement-breakpoint
+CREATE INDEX "mcp_jobs_owner_idx" ON "mcp_jobs" USING btree ("owner","createdAt");--> statement-breakpoint
+CREATE INDEX "mcp_jobs_status_idx" ON "mcp_jobs" USING btree ("status");
\ No newline at end of file
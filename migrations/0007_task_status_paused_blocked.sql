@@ -0,0 +1,2 @@
+ALTER TYPE "public"."task_status" ADD VALUE 'paused';--> statement-breakpoint
+ALTER TYPE "public"."task_status" ADD VALUE 'blocked';
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "mcp_idempotency_keys" ADD COLUMN "heartbeatAt" timestamp with time zone DEFAULT now() NOT NULL;
\ No newline at end of file
@@ -0,0 +1,95 @@
+// Audit Redaction - What of a tool call is safe and useful to keep
+// Secrets are masked; large payloads are replaced by their size and hash
+
+import { createHash } from "crypto";
+
+const SECRET_KEY =
+  /password|passphrase|secret|token|api[-_]?key|authorization|credential|private[-_]?key|cookie/i;
+
+/** Strings longer than this are stored as a fingerprint */
+const MAX_STRING_LENGTH = 256;
+const MAX_SUMMARY_STRING_LENGTH = 200;
+const MAX_DEPTH = 5;
+
+export const REDACTED = "[REDACTED]";
+
+function fingerprint(value: string): string {
+  const hash = createHash("sha256").update(value).digest("hex").slice(0, 16);
+  return `[${value.length} chars, sha256:${hash}]`;
+}
+
+/**
+ * Copy of tool arguments fit for the audit trail: values under secret-looking
+ * keys (at any depth, e.g. in execute_in_task's env) are masked, and long
+ * strings such as file contents or patches become a length and hash
+ */
+export function redactParams(value: unknown, depth = 0): unknown {
+  if (typeof value === "string") {
+    return value.length > MAX_STRING_LENGTH ? fingerprint(value) : value;
+  }
+  if (typeof value !== "object" || value === null) {
+    return value;
+  }
+  if (depth >= MAX_DEPTH) {
+    return "[nested]";
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => redactParams(item, depth + 1));
+  }
+
+  const redacted: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(value)) {
+    redacted[key] = SECRET_KEY.test(key)
+      ? REDACTED
+      : redactParams(item, depth + 1);
+  }
+  return redacted;
+}
+
+/**
+ * Whether any key of the arguments looks like it holds a secret. Arguments
+ * nested too deep to check count as having one.
+ */
+export function hasSecretParams(value: unknown, depth = 0): boolean {
+  if (typeof value !== "object" || value === null) {
+    return false;
+  }
+  if (depth >= MAX_DEPTH) {
+    return true;
+  }
+  if (Array.isArray(value)) {
+    return value.some((item) => hasSecretParams(item, depth + 1));
+  }
+  return Object.entries(value).some(
+    ([key, item]) => SECRET_KEY.test(key) || hasSecretParams(item, depth + 1),
+  );
+}
+
+/**
+ * Top-level scalar fields of a tool result (IDs, status, exit code, counts);
+ * lists are reduced to their length and output text is truncated
+ */
+export function summarizeResult(
+  result: unknown,
+): Record<string, unknown> | null {
+  if (typeof result !== "object" || result === null || Array.isArray(result)) {
+    return result === undefined ? null : { value: redactParams(result) };
+  }
+
+  const summary: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(result)) {
+    if (SECRET_KEY.test(key)) {
+      summary[key] = REDACTED;
+    } else if (Array.isArray(value)) {
+      summary[key] = `[${value.length} items]`;
+    } else if (typeof value === "string") {
+      summary[key] =
+        value.length > MAX_SUMMARY_STRING_LENGTH
+          ? `${value.slice(0, MAX_SUMMARY_STRING_LENGTH)}… (${value.length} chars)`
+          : value;
+    } else if (typeof value !== "object" || value === null) {
+      summary[key] = value;
+    }
+  }
+  return summary;
+}
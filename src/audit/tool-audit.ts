@@ -0,0 +1,227 @@
+// Tool Audit Log - Durable record of every MCP tool call
+// Rows go to PostgreSQL (queryable, outlive the task) and to the task's logs.jsonl
+
+import { randomUUID } from "crypto";
+import { and, asc, eq, gt, gte, lt, or, SQL } from "drizzle-orm";
+import { logger } from "../util/logger";
+import { OpenCodeError } from "../types";
+import { DatabaseManager } from "../persistence/database";
+import { multiLayerPersistence } from "../persistence/multi-layer";
+import * as schema from "../persistence/schema";
+import type { McpAuditSelect } from "../persistence/schema";
+
+export type AuditOutcome = "success" | "error" | "cancelled";
+
+/**
+ * One tool call as stored; params and resultSummary are already redacted
+ */
+export interface ToolAuditRecord {
+  id: string;
+  requestId: string;
+  sessionId: string;
+  keyId?: string;
+  agentId?: string;
+  owner?: string;
+  tool: string;
+  taskId?: string;
+  params: unknown;
+  outcome: AuditOutcome;
+  resultSummary?: Record<string, unknown>;
+  error?: string;
+  durationMs: number;
+  /** When the call started */
+  createdAt: Date;
+}
+
+export type NewToolAuditRecord = Omit<ToolAuditRecord, "id">;
+
+export interface AuditFilters {
+  taskId?: string;
+  agentId?: string;
+  owner?: string;
+  tool?: string;
+  /** Inclusive lower bound on createdAt */
+  since?: Date;
+  /** Exclusive upper bound on createdAt */
+  until?: Date;
+}
+
+const EXPORT_BATCH_SIZE = 500;
+
+export class ToolAuditLog {
+  private static instance: ToolAuditLog;
+  private db: ReturnType<typeof DatabaseManager.prototype.getDatabase> | null =
+    null;
+
+  private constructor() {}
+
+  public static getInstance(): ToolAuditLog {
+    if (!ToolAuditLog.instance) {
+      ToolAuditLog.instance = new ToolAuditLog();
+    }
+    return ToolAuditLog.instance;
+  }
+
+  private getDb(): ReturnType<typeof DatabaseManager.prototype.getDatabase> {
+    if (!this.db) {
+      this.db = DatabaseManager.getInstance().getDatabase();
+    }
+    return this.db;
+  }
+
+  /**
+   * Store a tool call in both layers. Failures are logged, never thrown:
+   * an unavailable audit store must not change the outcome of the call.
+   */
+  public async record(entry: NewToolAuditRecord): Promise<ToolAuditRecord> {
+    const record: ToolAuditRecord = { id: randomUUID(), ...entry };
+
+    await Promise.all([this.insertRow(record), this.appendToTaskLog(record)]);
+    return record;
+  }
+
+  /**
+   * Matching records, oldest first, fetched in batches
+   */
+  public async *iterate(
+    filters: AuditFilters,
+  ): AsyncGenerator<ToolAuditRecord> {
+    let after: { createdAt: Date; id: string } | undefined;
+
+    for (;;) {
+      let rows: McpAuditSelect[];
+      try {
+        rows = await this.getDb()
+          .select()
+          .from(schema.mcpAuditLog)
+          .where(and(this.buildConditions(filters), this.afterCondition(after)))
+          .orderBy(
+            asc(schema.mcpAuditLog.createdAt),
+            asc(schema.mcpAuditLog.id),
+          )
+          .limit(EXPORT_BATCH_SIZE);
+      } catch (error) {
+        logger.error("Failed to query audit log", { filters, error });
+        throw new OpenCodeError(
+          "AUDIT_QUERY_FAILED",
+          "Failed to query audit log",
+          { filters, error },
+        );
+      }
+
+      for (const row of rows) {
+        yield this.rowToRecord(row);
+      }
+
+      const last = rows[rows.length - 1];
+      if (!last || rows.length < EXPORT_BATCH_SIZE) {
+        return;
+      }
+      after = { createdAt: last.createdAt, id: last.id };
+    }
+  }
+
+  private async insertRow(record: ToolAuditRecord): Promise<void> {
+    try {
+      await this.getDb()
+        .insert(schema.mcpAuditLog)
+        .values({
+          id: record.id,
+          requestId: record.requestId,
+          sessionId: record.sessionId,
+          keyId: record.keyId ?? null,
+          agentId: record.agentId ?? null,
+          owner: record.owner ?? null,
+          tool: record.tool,
+          taskId: record.taskId ?? null,
+          params: record.params ?? {},
+          outcome: record.outcome,
+          resultSummary: record.resultSummary ?? null,
+          error: record.error ?? null,
+          durationMs: record.durationMs,
+          createdAt: record.createdAt,
+        });
+    } catch (error) {
+      logger.error("Failed to store audit record", {
+        auditId: record.id,
+        tool: record.tool,
+        error,
+      });
+    }
+  }
+
+  /**
+   * Tasks without a persistence directory (never started, or just deleted)
+   * only get the database row
+   */
+  private async appendToTaskLog(record: ToolAuditRecord): Promise<void> {
+    if (!record.taskId) {
+      return;
+    }
+
+    try {
+      await multiLayerPersistence.appendLog(record.taskId, {
+        timestamp: record.createdAt.toISOString(),
+        level: record.outcome === "success" ? "info" : "warn",
+        message: `MCP tool ${record.tool}: ${record.outcome}`,
+        data: { audit: record },
+      });
+    } catch (error) {
+      if ((error as any).code !== "ENOENT") {
+        logger.error("Failed to append audit record to task log", {
+          auditId: record.id,
+          taskId: record.taskId,
+          error,
+        });
+      }
+    }
+  }
+
+  private buildConditions(filters: AuditFilters): SQL | undefined {
+    const table = schema.mcpAuditLog;
+    return and(
+      filters.taskId ? eq(table.taskId, filters.taskId) : undefined,
+      filters.agentId ? eq(table.agentId, filters.agentId) : undefined,
+      filters.owner ? eq(table.owner, filters.owner) : undefined,
+      filters.tool ? eq(table.tool, filters.tool) : undefined,
+      filters.since ? gte(table.createdAt, filters.since) : undefined,
+      filters.until ? lt(table.createdAt, filters.until) : undefined,
+    );
+  }
+
+  private afterCondition(after?: {
+    createdAt: Date;
+    id: string;
+  }): SQL | undefined {
+    if (!after) {
+      return undefined;
+    }
+    const table = schema.mcpAuditLog;
+    return or(
+      gt(table.createdAt, after.createdAt),
+      and(eq(table.createdAt, after.createdAt), gt(table.id, after.id)),
+    );
+  }
+
+  private rowToRecord(row: McpAuditSelect): ToolAuditRecord {
+    return {
+      id: row.id,
+      requestId: row.requestId,
+      sessionId: row.sessionId,
+      keyId: row.keyId ?? undefined,
+      agentId: row.agentId ?? undefined,
+      owner: row.owner ?? undefined,
+      tool: row.tool,
+      taskId: row.taskId ?? undefined,
+      params: row.params,
+      outcome: row.outcome,
+      resultSummary:
+        (row.resultSummary as Record<string, unknown> | null) ?? undefined,
+      error: row.error ?? undefined,
+      durationMs: row.durationMs,
+      createdAt: row.createdAt,
+    };
+  }
+}
+
+export const toolAuditLog = ToolAuditLog.getInstance();
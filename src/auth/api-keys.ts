@@ -0,0 +1,235 @@
+// API Key Store - MCP Server Authentication
+// Hashed API keys in PostgreSQL, each mapped to an agent identity and owner
+
+import { createHash, randomBytes, randomUUID } from "crypto";
+import { and, desc, eq, isNull } from "drizzle-orm";
+import { logger } from "../util/logger";
+import { OpenCodeError } from "../types";
+import { DatabaseManager } from "../persistence/database";
+import * as schema from "../persistence/schema";
+import type { ApiKeySelect } from "../persistence/schema";
+
+const KEY_PREFIX = "oc_";
+const DISPLAY_PREFIX_LENGTH = 11;
+
+/**
+ * The authenticated identity a request acts as
+ */
+export interface AuthPrincipal {
+  keyId: string;
+  agentId: string;
+  owner: string;
+}
+
+/**
+ * Stored key details; never includes the key itself
+ */
+export interface ApiKeyInfo {
+  id: string;
+  keyPrefix: string;
+  agentId: string;
+  owner: string;
+  name?: string;
+  createdAt: Date;
+  lastUsedAt?: Date;
+  revokedAt?: Date;
+}
+
+export interface CreateApiKeyOptions {
+  agentId: string;
+  owner: string;
+  name?: string;
+}
+
+/**
+ * Hash an API key for storage and lookup.
+ * Keys are 192 random bits, so a fast hash is sufficient.
+ */
+export function hashApiKey(key: string): string {
+  return createHash("sha256").update(key).digest("hex");
+}
+
+export function generateApiKey(): string {
+  return KEY_PREFIX + randomBytes(24).toString("base64url");
+}
+
+export class ApiKeyStore {
+  private static instance: ApiKeyStore;
+  private db: ReturnType<typeof DatabaseManager.prototype.getDatabase> | null =
+    null;
+
+  private constructor() {}
+
+  public static getInstance(): ApiKeyStore {
+    if (!ApiKeyStore.instance) {
+      ApiKeyStore.instance = new ApiKeyStore();
+    }
+    return ApiKeyStore.instance;
+  }
+
+  private getDb(): ReturnType<typeof DatabaseManager.prototype.getDatabase> {
+    if (!this.db) {
+      this.db = DatabaseManager.getInstance().getDatabase();
+    }
+    return this.db;
+  }
+
+  /**
+   * Create a key for an agent. The plaintext key is only returned here.
+   */
+  public async create(
+    options: CreateApiKeyOptions,
+  ): Promise<{ key: string; info: ApiKeyInfo }> {
+    const key = generateApiKey();
+
+    try {
+      const results = await this.getDb()
+        .insert(schema.apiKeys)
+        .values({
+          id: randomUUID(),
+          keyHash: hashApiKey(key),
+          keyPrefix: key.slice(0, DISPLAY_PREFIX_LENGTH),
+          agentId: options.agentId,
+          owner: options.owner,
+          name: options.name || null,
+          createdAt: new Date(),
+        })
+        .returning();
+
+      if (!results[0]) {
+        throw new Error("no result returned");
+      }
+
+      const info = this.rowToInfo(results[0]);
+      logger.info("API key created", {
+        keyId: info.id,
+        agentId: info.agentId,
+        owner: info.owner,
+      });
+
+      return { key, info };
+    } catch (error) {
+      logger.error("Failed to create API key", {
+        agentId: options.agentId,
+        error,
+      });
+      throw new OpenCodeError(
+        "API_KEY_CREATE_FAILED",
+        "Failed to create API key",
+        { agentId: options.agentId, error },
+      );
+    }
+  }
+
+  /**
+   * Resolve a presented key to its principal
+   * @returns null when the key is unknown or revoked
+   */
+  public async authenticate(key: string): Promise<AuthPrincipal | null> {
+    if (!key.startsWith(KEY_PREFIX)) {
+      return null;
+    }
+
+    const keyHash = hashApiKey(key);
+
+    try {
+      const results = await this.getDb()
+        .select()
+        .from(schema.apiKeys)
+        .where(
+          and(
+            eq(schema.apiKeys.keyHash, keyHash),
+            isNull(schema.apiKeys.revokedAt),
+          ),
+        )
+        .limit(1);
+
+      const row = results[0];
+      if (!row) {
+        return null;
+      }
+
+      // Usage tracking must not slow down or fail the request
+      this.getDb()
+        .update(schema.apiKeys)
+        .set({ lastUsedAt: new Date() })
+        .where(eq(schema.apiKeys.id, row.id))
+        .catch((error: unknown) => {
+          logger.warn("Failed to record API key usage", {
+            keyId: row.id,
+            error,
+          });
+        });
+
+      return { keyId: row.id, agentId: row.agentId, owner: row.owner };
+    } catch (error) {
+      logger.error("Failed to authenticate API key", { error });
+      throw new OpenCodeError(
+        "API_KEY_AUTH_FAILED",
+        "Failed to check API key",
+        { error },
+      );
+    }
+  }
+
+  public async list(owner?: string): Promise<ApiKeyInfo[]> {
+    try {
+      let query: any = this.getDb().select().from(schema.apiKeys);
+      if (owner) {
+        query = query.where(eq(schema.apiKeys.owner, owner));
+      }
+
+      const results = await query.orderBy(desc(schema.apiKeys.createdAt));
+      return results.map((row: ApiKeySelect) => this.rowToInfo(row));
+    } catch (error) {
+      logger.error("Failed to list API keys", { error });
+      throw new OpenCodeError(
+        "API_KEY_LIST_FAILED",
+        "Failed to list API keys",
+        { error },
+      );
+    }
+  }
+
+  /**
+   * Revoke a key; revoked keys stay listed for auditing
+   * @returns false when the key does not exist or is already revoked
+   */
+  public async revoke(id: string): Promise<boolean> {
+    try {
+      const results = await this.getDb()
+        .update(schema.apiKeys)
+        .set({ revokedAt: new Date() })
+        .where(and(eq(schema.apiKeys.id, id), isNull(schema.apiKeys.revokedAt)))
+        .returning();
+
+      const revoked = results.length > 0;
+      if (revoked) {
+        logger.info("API key revoked", { keyId: id });
+      }
+      return revoked;
+    } catch (error) {
+      logger.error("Failed to revoke API key", { keyId: id, error });
+      throw new OpenCodeError(
+        "API_KEY_REVOKE_FAILED",
+        "Failed to revoke API key",
+        { keyId: id, error },
+      );
+    }
+  }
+
+  private rowToInfo(row: ApiKeySelect): ApiKeyInfo {
+    return {
+      id: row.id,
+      keyPrefix: row.keyPrefix,
+      agentId: row.agentId,
+      owner: row.owner,
+      name: row.name || undefined,
+      createdAt: row.createdAt,
+      lastUsedAt: row.lastUsedAt || undefined,
+      revokedAt: row.revokedAt || undefined,
+    };
+  }
+}
+
+export const apiKeyStore = ApiKeyStore.getInstance();
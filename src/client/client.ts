@@ -0,0 +1,489 @@
+// OpenCode Client - Typed calls to the MCP server's tools
+// Parameter and result types come from TOOL_DEFINITIONS, so client and server cannot drift apart
+
+import { randomUUID } from "crypto";
+import {
+  JSON_RPC_ERRORS,
+  JsonRpcId,
+  JsonRpcResponse,
+  LATEST_PROTOCOL_VERSION,
+} from "../mcp/protocol";
+import type { ToolProgress } from "../mcp/server";
+import type { ToolName, ToolParams, ToolResult } from "../mcp/tools";
+import { MCPError } from "./errors";
+import type { ClientTransport } from "./transport";
+
+/**
+ * A value as it arrives over JSON: dates become ISO strings
+ */
+export type Jsonified<T> = T extends Date
+  ? string
+  : T extends readonly (infer U)[]
+    ? Jsonified<U>[]
+    : T extends object
+      ? { [K in keyof T]: Jsonified<T[K]> }
+      : T;
+
+export type ToolResponse<N extends ToolName> = Jsonified<ToolResult<N>>;
+
+/**
+ * Result of a call made with startJob; poll getJob with the jobId
+ */
+export interface JobStarted {
+  success: boolean;
+  jobId: string;
+  tool: ToolName;
+  status: "running";
+  createdAt: string;
+}
+
+export interface InitializeResult {
+  protocolVersion: string;
+  capabilities: Record<string, any>;
+  serverInfo: { name: string; version: string };
+}
+
+export interface OpenCodeClientOptions {
+  transport: ClientTransport;
+  /** Per attempt; the server is asked to cancel a request that runs over (default: 30000) */
+  timeoutMs?: number;
+  /** Extra attempts after a retryable failure (default: 2) */
+  retries?: number;
+  /** First retry delay, doubled per attempt unless the server names one (default: 500) */
+  retryDelayMs?: number;
+  clientInfo?: { name: string; version: string };
+}
+
+export interface CallOptions {
+  timeoutMs?: number;
+  retries?: number;
+  signal?: AbortSignal;
+  /** Reported progress of long-running tools such as execute_in_task */
+  onProgress?: (progress: ToolProgress) => void;
+}
+
+type IdempotentToolName = {
+  [N in ToolName]: "idempotencyKey" extends keyof ToolParams<N> ? N : never;
+}[ToolName];
+
+/**
+ * Tools that change state; calls get an idempotencyKey (unless one is
+ * given) so a retry after a lost response cannot apply the change twice
+ */
+const IDEMPOTENT_TOOLS: ReadonlySet<string> = new Set<IdempotentToolName>([
+  "create_task_sandbox",
+  "attach_agent_to_task",
+  "detach_agent_from_task",
+  "execute_in_task",
+  "stop_task",
+  "pause_task",
+  "resume_task",
+  "block_task",
+  "delete_task",
+  "write_file",
+  "apply_patch",
+  "create_checkpoint",
+  "restore_checkpoint",
+  "git_commit",
+  "git_branch",
+  "expose_port",
+]);
+
+const DEFAULT_TIMEOUT_MS = 30000;
+const DEFAULT_RETRIES = 2;
+const DEFAULT_RETRY_DELAY_MS = 500;
+
+export class OpenCodeClient {
+  private readonly transport: ClientTransport;
+  private readonly timeoutMs: number;
+  private readonly retries: number;
+  private readonly retryDelayMs: number;
+  private readonly clientInfo: { name: string; version: string };
+  private nextId = 1;
+  private connecting?: Promise<InitializeResult>;
+
+  constructor(options: OpenCodeClientOptions) {
+    this.transport = options.transport;
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    this.retries = options.retries ?? DEFAULT_RETRIES;
+    this.retryDelayMs = options.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS;
+    this.clientInfo = options.clientInfo ?? {
+      name: "opencode-client",
+      version: "0.1.0",
+    };
+  }
+
+  /**
+   * Run the initialize handshake; calls connect on first use, so calling
+   * this is only needed to fail early or read the server's capabilities
+   */
+  public connect(): Promise<InitializeResult> {
+    if (!this.connecting) {
+      this.connecting = this.initialize().catch((error: unknown) => {
+        this.connecting = undefined;
+        throw error;
+      });
+    }
+    return this.connecting;
+  }
+
+  public async close(): Promise<void> {
+    this.connecting = undefined;
+    await this.transport.close();
+  }
+
+  /**
+   * Call a tool and return its result
+   * @throws MCPError of kind tool when the tool fails, rpc for protocol
+   *   errors (e.g. invalid arguments), transport when the server is unreachable
+   */
+  public async callTool<N extends ToolName>(
+    name: N,
+    params: ToolParams<N>,
+    options: CallOptions = {},
+  ): Promise<ToolResponse<N>> {
+    return (await this.invoke(
+      name,
+      this.withIdempotencyKey(name, params),
+      options,
+      true,
+    )) as ToolResponse<N>;
+  }
+
+  /**
+   * Run a tool as a background job (arguments.async); the job's outcome is
+   * read with getJob. Only retried when the server did not accept the call,
+   * since a retry could start a second job.
+   */
+  public async startJob<N extends ToolName>(
+    name: N,
+    params: ToolParams<N>,
+    options: Omit<CallOptions, "onProgress"> = {},
+  ): Promise<JobStarted> {
+    const args = { ...this.withIdempotencyKey(name, params), async: true };
+    return (await this.invoke(name, args, options, false)) as JobStarted;
+  }
+
+  /**
+   * Call a tool the typed methods do not know, such as one a server plugin
+   * adds. Transport errors are not retried, since the tool's effects are
+   * unknown.
+   */
+  public async callUntypedTool(
+    name: string,
+    params: Record<string, unknown> = {},
+    options: CallOptions = {},
+  ): Promise<unknown> {
+    return this.invoke(name, params, options, false);
+  }
+
+  public createTaskSandbox(
+    params: ToolParams<"create_task_sandbox">,
+    options?: CallOptions,
+  ) {
+    return this.callTool("create_task_sandbox", params, options);
+  }
+
+  public attachAgentToTask(
+    params: ToolParams<"attach_agent_to_task">,
+    options?: CallOptions,
+  ) {
+    return this.callTool("attach_agent_to_task", params, options);
+  }
+
+  public detachAgentFromTask(
+    params: ToolParams<"detach_agent_from_task">,
+    options?: CallOptions,
+  ) {
+    return this.callTool("detach_agent_from_task", params, options);
+  }
+
+  public executeInTask(
+    params: ToolParams<"execute_in_task">,
+    options?: CallOptions,
+  ) {
+    return this.callTool("execute_in_task", params, options);
+  }
+
+  public listTasks(
+    params: ToolParams<"list_tasks"> = {},
+    options?: CallOptions,
+  ) {
+    return this.callTool("list_tasks", params, options);
+  }
+
+  public getTaskStatus(
+    params: ToolParams<"get_task_status">,
+    options?: CallOptions,
+  ) {
+    return this.callTool("get_task_status", params, options);
+  }
+
+  public stopTask(params: ToolParams<"stop_task">, options?: CallOptions) {
+    return this.callTool("stop_task", params, options);
+  }
+
+  public pauseTask(params: ToolParams<"pause_task">, options?: CallOptions) {
+    return this.callTool("pause_task", params, options);
+  }
+
+  public resumeTask(params: ToolParams<"resume_task">, options?: CallOptions) {
+    return this.callTool("resume_task", params, options);
+  }
+
+  public blockTask(params: ToolParams<"block_task">, options?: CallOptions) {
+    return this.callTool("block_task", params, options);
+  }
+
+  public deleteTask(params: ToolParams<"delete_task">, options?: CallOptions) {
+    return this.callTool("delete_task", params, options);
+  }
+
+  public readFile(params: ToolParams<"read_file">, options?: CallOptions) {
+    return this.callTool("read_file", params, options);
+  }
+
+  public writeFile(params: ToolParams<"write_file">, options?: CallOptions) {
+    return this.callTool("write_file", params, options);
+  }
+
+  public listDirectory(
+    params: ToolParams<"list_directory">,
+    options?: CallOptions,
+  ) {
+    return this.callTool("list_directory", params, options);
+  }
+
+  public searchFiles(
+    params: ToolParams<"search_files">,
+    options?: CallOptions,
+  ) {
+    return this.callTool("search_files", params, options);
+  }
+
+  public applyPatch(params: ToolParams<"apply_patch">, options?: CallOptions) {
+    return this.callTool("apply_patch", params, options);
+  }
+
+  public createCheckpoint(
+    params: ToolParams<"create_checkpoint">,
+    options?: CallOptions,
+  ) {
+    return this.callTool("create_checkpoint", params, options);
+  }
+
+  public listCheckpoints(
+    params: ToolParams<"list_checkpoints">,
+    options?: CallOptions,
+  ) {
+    return this.callTool("list_checkpoints", params, options);
+  }
+
+  public restoreCheckpoint(
+    params: ToolParams<"restore_checkpoint">,
+    options?: CallOptions,
+  ) {
+    return this.callTool("restore_checkpoint", params, options);
+  }
+
+  public diffCheckpoints(
+    params: ToolParams<"diff_checkpoints">,
+    options?: CallOptions,
+  ) {
+    return this.callTool("diff_checkpoints", params, options);
+  }
+
+  public getJob(params: ToolParams<"get_job">, options?: CallOptions) {
+    return this.callTool("get_job", params, options);
+  }
+
+  public listJobs(params: ToolParams<"list_jobs"> = {}, options?: CallOptions) {
+    return this.callTool("list_jobs", params, options);
+  }
+
+  public cancelJob(params: ToolParams<"cancel_job">, options?: CallOptions) {
+    return this.callTool("cancel_job", params, options);
+  }
+
+  public gitStatus(params: ToolParams<"git_status">, options?: CallOptions) {
+    return this.callTool("git_status", params, options);
+  }
+
+  public gitDiff(params: ToolParams<"git_diff">, options?: CallOptions) {
+    return this.callTool("git_diff", params, options);
+  }
+
+  public gitCommit(params: ToolParams<"git_commit">, options?: CallOptions) {
+    return this.callTool("git_commit", params, options);
+  }
+
+  public gitLog(params: ToolParams<"git_log">, options?: CallOptions) {
+    return this.callTool("git_log", params, options);
+  }
+
+  public gitBranch(params: ToolParams<"git_branch">, options?: CallOptions) {
+    return this.callTool("git_branch", params, options);
+  }
+
+  public exposePort(params: ToolParams<"expose_port">, options?: CallOptions) {
+    return this.callTool("expose_port", params, options);
+  }
+
+  private async initialize(): Promise<InitializeResult> {
+    const result = (await this.request(
+      "initialize",
+      {
+        protocolVersion: LATEST_PROTOCOL_VERSION,
+        capabilities: {},
+        clientInfo: this.clientInfo,
+      },
+      {},
+      true,
+    )) as InitializeResult;
+
+    await this.transport.notify({
+      jsonrpc: "2.0",
+      method: "notifications/initialized",
+    });
+    return result;
+  }
+
+  private withIdempotencyKey<N extends ToolName>(
+    name: N,
+    params: ToolParams<N>,
+  ): Record<string, unknown> {
+    const args = { ...(params as Record<string, unknown>) };
+    if (IDEMPOTENT_TOOLS.has(name) && args.idempotencyKey === undefined) {
+      args.idempotencyKey = randomUUID();
+    }
+    return args;
+  }
+
+  private async invoke(
+    name: string,
+    args: Record<string, unknown>,
+    options: CallOptions,
+    retryTransportErrors: boolean,
+  ): Promise<unknown> {
+    await this.connect();
+
+    const result = await this.request(
+      "tools/call",
+      { name, arguments: args },
+      options,
+      retryTransportErrors,
+    );
+    if (result.isError) {
+      const text = result.content?.[0]?.text;
+      throw new MCPError(
+        "tool",
+        typeof text === "string" ? text : "Tool failed",
+      );
+    }
+    return result.structuredContent ?? JSON.parse(result.content?.[0]?.text);
+  }
+
+  /**
+   * Send a request, retrying retryable failures with backoff. Each attempt
+   * has its own request ID, since the server rejects an ID still in use.
+   */
+  private async request(
+    method: string,
+    params: Record<string, any>,
+    options: CallOptions,
+    retryTransportErrors: boolean,
+  ): Promise<any> {
+    const retries = options.retries ?? this.retries;
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.attempt(method, params, options);
+      } catch (error: unknown) {
+        const retry =
+          error instanceof MCPError &&
+          error.retryable &&
+          (retryTransportErrors || error.kind !== "transport") &&
+          attempt < retries &&
+          !options.signal?.aborted;
+        if (!retry) {
+          throw error;
+        }
+
+        const delayMs = error.retryAfterMs ?? this.retryDelayMs * 2 ** attempt;
+        await new Promise((resolve) => setTimeout(resolve, delayMs));
+      }
+    }
+  }
+
+  private async attempt(
+    method: string,
+    params: Record<string, any>,
+    options: CallOptions,
+  ): Promise<any> {
+    const id: JsonRpcId = this.nextId++;
+    const onProgress = options.onProgress;
+    const message = {
+      jsonrpc: "2.0" as const,
+      id,
+      method,
+      params: onProgress ? { ...params, _meta: { progressToken: id } } : params,
+    };
+
+    const controller = new AbortController();
+    const timeoutMs = options.timeoutMs ?? this.timeoutMs;
+    const timer = setTimeout(
+      () =>
+        controller.abort(
+          new MCPError("transport", `Request timed out after ${timeoutMs}ms`, {
+            code: JSON_RPC_ERRORS.REQUEST_TIMEOUT,
+          }),
+        ),
+      timeoutMs,
+    );
+    const onAbort = () =>
+      controller.abort(
+        new MCPError("transport", "Request cancelled", {
+          code: JSON_RPC_ERRORS.REQUEST_CANCELLED,
+        }),
+      );
+    options.signal?.addEventListener("abort", onAbort, { once: true });
+    if (options.signal?.aborted) {
+      onAbort();
+    }
+
+    let response: JsonRpcResponse;
+    try {
+      response = await this.transport.request(message, {
+        signal: controller.signal,
+        onNotification: onProgress
+          ? (notification) => {
+              if (
+                notification.method === "notifications/progress" &&
+                notification.params?.progressToken === id
+              ) {
+                const { progressToken: _token, ...progress } =
+                  notification.params;
+                onProgress(progress as ToolProgress);
+              }
+            }
+          : undefined,
+      });
+    } catch (error: unknown) {
+      if (controller.signal.aborted) {
+        // Stop the server-side work too; it may already have finished
+        const reason = controller.signal.reason as MCPError;
+        this.transport.cancel(id, reason.message).catch(() => {});
+        throw reason;
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+      options.signal?.removeEventListener("abort", onAbort);
+    }
+
+    if ("error" in response) {
+      throw MCPError.fromRpcError(response.error);
+    }
+    return response.result;
+  }
+}
@@ -0,0 +1,78 @@
+// MCP Client Errors - Decoded failures of calls to the MCP server
+// JSON-RPC errors keep their code and data; tool failures and transport problems get their own kinds
+
+import { JSON_RPC_ERRORS, JsonRpcErrorObject } from "../mcp/protocol";
+
+/**
+ * - rpc: the server answered with a JSON-RPC error (code and data as sent)
+ * - tool: the tool ran and failed (result with isError: true)
+ * - transport: no usable answer (connection, HTTP status, closed process)
+ */
+export type MCPErrorKind = "rpc" | "tool" | "transport";
+
+export class MCPError extends Error {
+  public readonly kind: MCPErrorKind;
+  /** JSON-RPC error code; set for rpc errors and client-side timeouts */
+  public readonly code?: number;
+  public readonly data?: any;
+  /** HTTP status of the failed response, when there was one */
+  public readonly status?: number;
+
+  constructor(
+    kind: MCPErrorKind,
+    message: string,
+    options: { code?: number; data?: any; status?: number } = {},
+  ) {
+    super(message);
+    this.name = "MCPError";
+    this.kind = kind;
+    this.code = options.code;
+    this.data = options.data;
+    this.status = options.status;
+  }
+
+  public static fromRpcError(
+    error: JsonRpcErrorObject,
+    status?: number,
+  ): MCPError {
+    return new MCPError("rpc", error.message, {
+      code: error.code,
+      data: error.data,
+      status,
+    });
+  }
+
+  /**
+   * Whether sending the same request again may succeed: transport failures,
+   * server overload and rate limits, and idempotent calls still running.
+   * Quota rejections and tool failures are not retryable.
+   */
+  public get retryable(): boolean {
+    switch (this.kind) {
+      case "transport":
+        // Client-side timeouts and cancellations carry a code
+        return (
+          this.code === undefined &&
+          (this.status === undefined || this.status >= 500)
+        );
+      case "rpc":
+        if (this.code === JSON_RPC_ERRORS.RATE_LIMITED) {
+          return ["rate_limit", "connections"].includes(this.data?.reason);
+        }
+        if (this.code === JSON_RPC_ERRORS.IDEMPOTENCY_CONFLICT) {
+          return this.data?.reason === "in_progress";
+        }
+        return false;
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Delay the server asked for before retrying, if any
+   */
+  public get retryAfterMs(): number | undefined {
+    const value = this.data?.retryAfterMs;
+    return typeof value === "number" ? value : undefined;
+  }
+}
@@ -0,0 +1,195 @@
+// MCP Client HTTP Transport - JSON-RPC over POST with the Mcp-Session-Id header
+// Responses are JSON, or an SSE stream when the request asked for notifications
+
+import type {
+  JsonRpcId,
+  JsonRpcNotification,
+  JsonRpcRequest,
+  JsonRpcResponse,
+} from "../mcp/protocol";
+import { MCPError } from "./errors";
+import {
+  ClientTransport,
+  isJsonRpcResponse,
+  TransportRequestOptions,
+} from "./transport";
+
+export interface HttpClientTransportOptions {
+  /** Server URL, e.g. http://localhost:3000 */
+  url: string;
+  /** Sent as "Authorization: Bearer <key>" */
+  apiKey?: string;
+  /** Replacement for the global fetch (e.g. for proxies or tests) */
+  fetch?: typeof fetch;
+}
+
+export class HttpClientTransport implements ClientTransport {
+  private readonly url: string;
+  private readonly apiKey?: string;
+  private readonly fetchImpl: typeof fetch;
+  private sessionId?: string;
+
+  constructor(options: HttpClientTransportOptions) {
+    this.url = options.url;
+    this.apiKey = options.apiKey;
+    this.fetchImpl = options.fetch ?? fetch;
+  }
+
+  /**
+   * Session assigned by the server in the initialize response
+   */
+  public getSessionId(): string | undefined {
+    return this.sessionId;
+  }
+
+  public async request(
+    message: JsonRpcRequest,
+    options: TransportRequestOptions = {},
+  ): Promise<JsonRpcResponse> {
+    const streaming = options.onNotification !== undefined;
+    const response = await this.post(message, streaming, options.signal);
+
+    if (
+      (response.headers.get("content-type") || "").includes("text/event-stream")
+    ) {
+      return this.readEventStream(response, message.id, options);
+    }
+
+    const text = await response.text();
+    let body: unknown;
+    try {
+      body = text ? JSON.parse(text) : undefined;
+    } catch {
+      body = undefined;
+    }
+    if (!isJsonRpcResponse(body)) {
+      throw new MCPError(
+        "transport",
+        `HTTP ${response.status} without a JSON-RPC response`,
+        { status: response.status },
+      );
+    }
+    return body;
+  }
+
+  public async notify(message: JsonRpcNotification): Promise<void> {
+    const response = await this.post(message, false);
+    if (!response.ok) {
+      throw new MCPError(
+        "transport",
+        `HTTP ${response.status} for notification ${message.method}`,
+        { status: response.status },
+      );
+    }
+  }
+
+  public async cancel(id: JsonRpcId): Promise<void> {
+    const url = new URL(
+      "/requests/" + encodeURIComponent(String(id)),
+      this.url,
+    );
+    // 404 means the request already finished, which is fine
+    await this.fetchImpl(url, { method: "DELETE", headers: this.headers() });
+  }
+
+  public async close(): Promise<void> {
+    this.sessionId = undefined;
+  }
+
+  private async post(
+    message: JsonRpcRequest | JsonRpcNotification,
+    streaming: boolean,
+    signal?: AbortSignal,
+  ): Promise<Response> {
+    const headers = this.headers();
+    headers["Content-Type"] = "application/json";
+    headers.Accept = streaming
+      ? "application/json, text/event-stream"
+      : "application/json";
+
+    let response: Response;
+    try {
+      response = await this.fetchImpl(this.url, {
+        method: "POST",
+        headers,
+        body: JSON.stringify(message),
+        signal,
+      });
+    } catch (error: unknown) {
+      if (signal?.aborted) {
+        throw signal.reason;
+      }
+      throw new MCPError(
+        "transport",
+        `Request to ${this.url} failed: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+
+    const sessionId = response.headers.get("mcp-session-id");
+    if (sessionId) {
+      this.sessionId = sessionId;
+    }
+    return response;
+  }
+
+  private headers(): Record<string, string> {
+    const headers: Record<string, string> = {};
+    if (this.apiKey) {
+      headers.Authorization = `Bearer ${this.apiKey}`;
+    }
+    if (this.sessionId) {
+      headers["Mcp-Session-Id"] = this.sessionId;
+    }
+    return headers;
+  }
+
+  /**
+   * Hand notifications to the caller until the response for the request
+   * arrives on the stream
+   */
+  private async readEventStream(
+    response: Response,
+    id: JsonRpcId,
+    options: TransportRequestOptions,
+  ): Promise<JsonRpcResponse> {
+    if (!response.body) {
+      throw new MCPError("transport", "Event stream without a body", {
+        status: response.status,
+      });
+    }
+
+    const decoder = new TextDecoder();
+    let buffer = "";
+    for await (const chunk of response.body) {
+      buffer += decoder.decode(chunk, { stream: true });
+
+      let end: number;
+      while ((end = buffer.indexOf("\n\n")) !== -1) {
+        const event = buffer.slice(0, end);
+        buffer = buffer.slice(end + 2);
+
+        const data = event
+          .split("\n")
+          .filter((line) => line.startsWith("data:"))
+          .map((line) => line.slice(5).trimStart())
+          .join("\n");
+        if (!data) {
+          continue;
+        }
+
+        const message = JSON.parse(data);
+        if (isJsonRpcResponse(message)) {
+          if (message.id === id) {
+            return message;
+          }
+        } else {
+          options.onNotification?.(message as JsonRpcNotification);
+        }
+      }
+    }
+
+    throw new MCPError("transport", "Event stream ended without a response", {
+      status: response.status,
+    });
+  }
+}
@@ -0,0 +1,24 @@
+// OpenCode Client - Public entry point for agent harnesses
+// Import from here rather than the server modules, which start the server on load
+
+export {
+  OpenCodeClient,
+  type CallOptions,
+  type InitializeResult,
+  type JobStarted,
+  type Jsonified,
+  type OpenCodeClientOptions,
+  type ToolResponse,
+} from "./client";
+export { MCPError, type MCPErrorKind } from "./errors";
+export type { ClientTransport, TransportRequestOptions } from "./transport";
+export {
+  HttpClientTransport,
+  type HttpClientTransportOptions,
+} from "./http-transport";
+export {
+  StdioClientTransport,
+  type StdioClientTransportOptions,
+} from "./stdio-transport";
+export type { ToolName, ToolParams, ToolResult } from "../mcp/tools";
+export type { ToolProgress } from "../mcp/server";
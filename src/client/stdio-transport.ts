@@ -0,0 +1,171 @@
+// MCP Client stdio Transport - Newline-delimited JSON-RPC to a spawned server
+// Matches responses to requests by id and routes progress by progress token
+
+import { ChildProcess, spawn } from "child_process";
+import { createInterface, Interface } from "readline";
+import { Readable, Writable } from "stream";
+import type {
+  JsonRpcId,
+  JsonRpcNotification,
+  JsonRpcRequest,
+  JsonRpcResponse,
+} from "../mcp/protocol";
+import { MCPError } from "./errors";
+import {
+  abortPromise,
+  ClientTransport,
+  isJsonRpcResponse,
+  TransportRequestOptions,
+} from "./transport";
+
+export type StdioClientTransportOptions =
+  | {
+      /** Server command, e.g. "node" with args ["dist/index.js", "mcp", "serve", "--transport", "stdio"] */
+      command: string;
+      args?: string[];
+      /** MCP_API_KEY authenticates the stdio session */
+      env?: NodeJS.ProcessEnv;
+      cwd?: string;
+    }
+  | {
+      /** Streams of a server started elsewhere */
+      input: Readable;
+      output: Writable;
+    };
+
+interface PendingRequest {
+  resolve: (response: JsonRpcResponse) => void;
+  reject: (error: unknown) => void;
+  onNotification?: (notification: JsonRpcNotification) => void;
+  progressToken?: unknown;
+}
+
+export class StdioClientTransport implements ClientTransport {
+  private readonly child?: ChildProcess;
+  private readonly output: Writable;
+  private readonly reader: Interface;
+  private pending: Map<string, PendingRequest> = new Map();
+  private closedError?: MCPError;
+
+  constructor(options: StdioClientTransportOptions) {
+    let input: Readable;
+    if ("command" in options) {
+      const child = spawn(options.command, options.args ?? [], {
+        cwd: options.cwd,
+        env: { ...process.env, MCP_TRANSPORT: "stdio", ...options.env },
+        stdio: ["pipe", "pipe", "inherit"],
+      });
+      child.on("error", (error) => this.fail(error.message));
+      child.on("exit", (code) =>
+        this.fail(`Server process exited with code ${code}`),
+      );
+      this.child = child;
+      input = child.stdout!;
+      this.output = child.stdin!;
+    } else {
+      input = options.input;
+      this.output = options.output;
+    }
+
+    this.reader = createInterface({ input, crlfDelay: Infinity });
+    this.reader.on("line", (line) => this.handleLine(line));
+    this.reader.on("close", () => this.fail("Server output closed"));
+  }
+
+  public async request(
+    message: JsonRpcRequest,
+    options: TransportRequestOptions = {},
+  ): Promise<JsonRpcResponse> {
+    const key = String(message.id);
+    const response = new Promise<JsonRpcResponse>((resolve, reject) => {
+      this.pending.set(key, {
+        resolve,
+        reject,
+        onNotification: options.onNotification,
+        progressToken: message.params?._meta?.progressToken,
+      });
+    });
+
+    try {
+      await this.write(message);
+      return await Promise.race([response, abortPromise(options.signal)]);
+    } finally {
+      this.pending.delete(key);
+    }
+  }
+
+  public async notify(message: JsonRpcNotification): Promise<void> {
+    await this.write(message);
+  }
+
+  public async cancel(id: JsonRpcId, reason?: string): Promise<void> {
+    await this.notify({
+      jsonrpc: "2.0",
+      method: "notifications/cancelled",
+      params: { requestId: id, reason },
+    });
+  }
+
+  public async close(): Promise<void> {
+    this.fail("Transport closed");
+    this.reader.close();
+    this.output.end();
+    this.child?.kill();
+  }
+
+  private write(message: JsonRpcRequest | JsonRpcNotification): Promise<void> {
+    if (this.closedError) {
+      return Promise.reject(this.closedError);
+    }
+    return new Promise<void>((resolve, reject) => {
+      this.output.write(JSON.stringify(message) + "\n", (error) =>
+        error
+          ? reject(new MCPError("transport", `Write failed: ${error.message}`))
+          : resolve(),
+      );
+    });
+  }
+
+  private handleLine(line: string): void {
+    if (line.trim().length === 0) {
+      return;
+    }
+
+    let messages: unknown;
+    try {
+      messages = JSON.parse(line);
+    } catch {
+      // Not protocol output (e.g. a stray log line)
+      return;
+    }
+
+    for (const message of Array.isArray(messages) ? messages : [messages]) {
+      if (isJsonRpcResponse(message)) {
+        this.pending.get(String(message.id))?.resolve(message);
+        continue;
+      }
+
+      const notification = message as JsonRpcNotification;
+      const token = notification.params?.progressToken;
+      for (const request of this.pending.values()) {
+        if (token !== undefined && request.progressToken === token) {
+          request.onNotification?.(notification);
+        }
+      }
+    }
+  }
+
+  /**
+   * Reject every waiting request; later requests fail at once
+   */
+  private fail(reason: string): void {
+    if (this.closedError) {
+      return;
+    }
+    this.closedError = new MCPError("transport", reason);
+    for (const request of this.pending.values()) {
+      request.reject(this.closedError);
+    }
+    this.pending.clear();
+  }
+}
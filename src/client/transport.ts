@@ -0,0 +1,67 @@
+// MCP Client Transport - How OpenCodeClient reaches the server
+// Implemented for HTTP (HttpClientTransport) and stdio (StdioClientTransport)
+
+import type {
+  JsonRpcId,
+  JsonRpcNotification,
+  JsonRpcRequest,
+  JsonRpcResponse,
+} from "../mcp/protocol";
+
+export interface TransportRequestOptions {
+  /** Stop waiting for the response (the server is told separately) */
+  signal?: AbortSignal;
+  /**
+   * Notifications the server sends while the request runs, e.g. progress.
+   * Over HTTP this switches the response to a Server-Sent Events stream.
+   */
+  onNotification?: (notification: JsonRpcNotification) => void;
+}
+
+export interface ClientTransport {
+  /**
+   * Send one request and wait for its response
+   * @throws MCPError of kind transport when no response arrives
+   */
+  request(
+    message: JsonRpcRequest,
+    options?: TransportRequestOptions,
+  ): Promise<JsonRpcResponse>;
+  notify(message: JsonRpcNotification): Promise<void>;
+  /**
+   * Ask the server to stop a request: DELETE /requests/<id> over HTTP,
+   * notifications/cancelled on stdio. Finished requests are ignored.
+   */
+  cancel(id: JsonRpcId, reason?: string): Promise<void>;
+  close(): Promise<void>;
+}
+
+/**
+ * Rejects once the signal aborts, with its reason
+ */
+export function abortPromise(signal?: AbortSignal): Promise<never> {
+  return new Promise<never>((_, reject) => {
+    if (!signal) {
+      return;
+    }
+    if (signal.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    signal.addEventListener("abort", () => reject(signal.reason), {
+      once: true,
+    });
+  });
+}
+
+/**
+ * Whether a parsed JSON value is a response (rather than a notification)
+ */
+export function isJsonRpcResponse(value: unknown): value is JsonRpcResponse {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    "id" in value &&
+    ("result" in value || "error" in value)
+  );
+}
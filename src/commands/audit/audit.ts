@@ -0,0 +1,138 @@
+// Audit Command - MCP Tool Audit Trail
+// Export the recorded tool calls for a task or a time window
+
+import { createWriteStream } from "fs";
+import { Command } from "commander";
+import { toolAuditLog, ToolAuditRecord } from "../../audit/tool-audit";
+import { getErrorMessage } from "../../util/errors";
+
+const CSV_COLUMNS = [
+  "createdAt",
+  "id",
+  "requestId",
+  "sessionId",
+  "keyId",
+  "agentId",
+  "owner",
+  "tool",
+  "taskId",
+  "outcome",
+  "durationMs",
+  "error",
+  "params",
+  "resultSummary",
+] as const;
+
+function csvCell(value: unknown): string {
+  if (value === undefined || value === null) {
+    return "";
+  }
+  const text =
+    value instanceof Date
+      ? value.toISOString()
+      : typeof value === "object"
+        ? JSON.stringify(value)
+        : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function formatRecord(record: ToolAuditRecord, format: string): string {
+  if (format === "csv") {
+    return CSV_COLUMNS.map((column) => csvCell(record[column])).join(",");
+  }
+  return JSON.stringify(record);
+}
+
+function parseDate(
+  value: string | undefined,
+  option: string,
+): Date | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    console.error(`❌ Invalid date for ${option}: ${value}`);
+    process.exit(1);
+  }
+  return date;
+}
+
+const exportCommand = new Command("export")
+  .description("Export recorded MCP tool calls, oldest first")
+  .option("-t, --task <string>", "Only calls against this task")
+  .option("--since <date>", "Calls at or after this time (ISO 8601)")
+  .option("--until <date>", "Calls before this time (ISO 8601)")
+  .option("-a, --agent <string>", "Only calls by this agent")
+  .option("--owner <string>", "Only calls for this owner")
+  .option("--tool <string>", "Only calls of this tool")
+  .option("-f, --format <format>", "jsonl or csv", "jsonl")
+  .option("-o, --output <file>", "Write to a file instead of stdout")
+  .action(
+    async (options: {
+      task?: string;
+      since?: string;
+      until?: string;
+      agent?: string;
+      owner?: string;
+      tool?: string;
+      format: string;
+      output?: string;
+    }) => {
+      if (!options.task && !options.since && !options.until) {
+        console.error("❌ Specify --task or a time window (--since/--until)");
+        process.exit(1);
+      }
+      if (options.format !== "jsonl" && options.format !== "csv") {
+        console.error(`❌ Unknown format: ${options.format}`);
+        process.exit(1);
+      }
+
+      const filters = {
+        taskId: options.task,
+        agentId: options.agent,
+        owner: options.owner,
+        tool: options.tool,
+        since: parseDate(options.since, "--since"),
+        until: parseDate(options.until, "--until"),
+      };
+
+      const out = options.output
+        ? createWriteStream(options.output, { encoding: "utf-8" })
+        : process.stdout;
+
+      try {
+        let count = 0;
+        if (options.format === "csv") {
+          out.write(CSV_COLUMNS.join(",") + "\n");
+        }
+        for await (const record of toolAuditLog.iterate(filters)) {
+          out.write(formatRecord(record, options.format) + "\n");
+          count++;
+        }
+
+        if (options.output) {
+          await new Promise<void>((resolve, reject) => {
+            out.once("error", reject);
+            out.end(resolve);
+          });
+          console.log("✅ Audit trail exported");
+          console.log(`   Records: ${count}`);
+          console.log(`   File: ${options.output}`);
+        }
+      } catch (error: unknown) {
+        console.error(
+          "❌ Failed to export audit trail:",
+          getErrorMessage(error),
+        );
+        process.exit(1);
+      }
+    },
+  );
+
+/**
+ * Inspect the MCP tool audit trail
+ */
+export const auditCommand = new Command("audit")
+  .description("Inspect the MCP tool audit trail")
+  .addCommand(exportCommand);
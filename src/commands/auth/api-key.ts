@@ -0,0 +1,94 @@
+// API Key Command - MCP Server Authentication
+// Create, list and revoke the API keys agents use to call the MCP server
+
+import { Command } from "commander";
+import { apiKeyStore } from "../../auth/api-keys";
+import { getErrorMessage } from "../../util/errors";
+
+const createCommand = new Command("create")
+  .description("Create an API key for an agent (the key is shown once)")
+  .requiredOption("-a, --agent <string>", "Agent ID the key authenticates as")
+  .requiredOption("-o, --owner <string>", "Owner the agent acts for")
+  .option("-n, --name <string>", "Label for the key")
+  .action(async (options: { agent: string; owner: string; name?: string }) => {
+    try {
+      const { key, info } = await apiKeyStore.create({
+        agentId: options.agent,
+        owner: options.owner,
+        name: options.name,
+      });
+
+      console.log("✅ API key created");
+      console.log(`   Key ID: ${info.id}`);
+      console.log(`   Agent: ${info.agentId}`);
+      console.log(`   Owner: ${info.owner}`);
+      console.log(`   Key: ${key}`);
+      console.log("   Store this key now; it cannot be shown again.");
+    } catch (error: unknown) {
+      console.error("❌ Failed to create API key:", getErrorMessage(error));
+      process.exit(1);
+    }
+  });
+
+const listCommand = new Command("list")
+  .description("List API keys")
+  .option("-o, --owner <string>", "Filter by owner")
+  .action(async (options: { owner?: string }) => {
+    try {
+      const keys = await apiKeyStore.list(options.owner);
+
+      if (keys.length === 0) {
+        console.log("No API keys found");
+        return;
+      }
+
+      console.log(`\nFound ${keys.length} API key(s):\n`);
+      keys.forEach((info) => {
+        const state = info.revokedAt
+          ? `revoked ${info.revokedAt.toISOString()}`
+          : "active";
+        console.log(`${info.keyPrefix}... (${info.id})`);
+        console.log(`   Agent: ${info.agentId}`);
+        console.log(`   Owner: ${info.owner}`);
+        if (info.name) {
+          console.log(`   Name: ${info.name}`);
+        }
+        console.log(`   Created: ${info.createdAt.toISOString()}`);
+        console.log(
+          `   Last used: ${info.lastUsedAt ? info.lastUsedAt.toISOString() : "never"}`,
+        );
+        console.log(`   State: ${state}`);
+      });
+    } catch (error: unknown) {
+      console.error("❌ Failed to list API keys:", getErrorMessage(error));
+      process.exit(1);
+    }
+  });
+
+const revokeCommand = new Command("revoke")
+  .description("Revoke an API key")
+  .argument("<keyId>", "Key ID")
+  .action(async (keyId: string) => {
+    try {
+      const revoked = await apiKeyStore.revoke(keyId);
+      if (!revoked) {
+        console.error("❌ API key not found or already revoked");
+        process.exit(1);
+      }
+
+      console.log("✅ API key revoked");
+      console.log(`   Key ID: ${keyId}`);
+    } catch (error: unknown) {
+      console.error("❌ Failed to revoke API key:", getErrorMessage(error));
+      process.exit(1);
+    }
+  });
+
+/**
+ * Manage MCP server API keys
+ */
+export const apiKeyCommand = new Command("api-key")
+  .description("Manage MCP server API keys")
+  .addCommand(createCommand)
+  .addCommand(listCommand)
+  .addCommand(revokeCommand);
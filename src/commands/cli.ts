@@ -6,10 +6,15 @@ import packageJson from "../../package.json";
 import {
   createTaskCommand,
   resumeTaskCommand,
+  pauseTaskCommand,
+  blockTaskCommand,
   listTasksCommand,
   detachCommand,
   completeTaskCommand,
   cleanupTaskCommand,
+  exposePortCommand,
+  taskGraphCommand,
+  queueCommand,
   checkpointCommand,
   restoreCheckpointCommand,
   taskHistoryCommand,
@@ -19,6 +24,9 @@ import {
   taskStatsCommand,
   metricsCommand,
   healthCommand,
+  serveCommand,
+  apiKeyCommand,
+  auditCommand,
 } from "./index";
 
 // Main CLI program
@@ -31,10 +39,15 @@ program
 // Add task management commands
 program.addCommand(createTaskCommand);
 program.addCommand(resumeTaskCommand);
+program.addCommand(pauseTaskCommand);
+program.addCommand(blockTaskCommand);
 program.addCommand(listTasksCommand);
 program.addCommand(detachCommand);
 program.addCommand(completeTaskCommand);
 program.addCommand(cleanupTaskCommand);
+program.addCommand(exposePortCommand);
+program.addCommand(taskGraphCommand);
+program.addCommand(queueCommand);
 
 // Add checkpoint commands
 program.addCommand(checkpointCommand);
@@ -51,6 +64,15 @@ program.addCommand(taskStatsCommand);
 program.addCommand(metricsCommand);
 program.addCommand(healthCommand);
 
+// Add MCP server commands
+program.addCommand(serveCommand);
+
+// Add auth commands
+program.addCommand(apiKeyCommand);
+
+// Add audit commands
+program.addCommand(auditCommand);
+
 // Parse CLI arguments
 program.parse(process.argv);
 
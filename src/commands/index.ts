@@ -4,10 +4,15 @@
 // Task Management Commands
 export { createTaskCommand } from "./task-management/create-task";
 export { resumeTaskCommand } from "./task-management/resume-task";
+export { pauseTaskCommand } from "./task-management/pause-task";
+export { blockTaskCommand } from "./task-management/block-task";
 export { listTasksCommand } from "./task-management/list-tasks";
 export { detachCommand } from "./task-management/detach";
 export { completeTaskCommand } from "./task-management/complete-task";
 export { cleanupTaskCommand } from "./task-management/cleanup-task";
+export { exposePortCommand } from "./task-management/expose-port";
+export { taskGraphCommand } from "./task-management/task-graph";
+export { queueCommand } from "./task-management/queue";
 
 // Checkpoint Commands
 export { checkpointCommand } from "./checkpoint/checkpoint";
@@ -23,3 +28,12 @@ export { taskStatsCommand } from "./memory/task-stats";
 // Monitoring Commands
 export { metricsCommand } from "./monitoring/metrics";
 export { healthCommand } from "./monitoring/health";
+
+// MCP Server Commands
+export { serveCommand } from "./mcp/serve";
+
+// Auth Commands
+export { apiKeyCommand } from "./auth/api-key";
+
+// Audit Commands
+export { auditCommand } from "./audit/audit";
@@ -0,0 +1,64 @@
+// Serve Command - MCP Server
+// Start the MCP server over HTTP or stdio
+
+import { Command } from "commander";
+import {
+  MCPServerEnhanced,
+  MCPTransportType,
+  mcpServerReady,
+} from "../../mcp/server";
+import { taskScheduler } from "../../task/scheduler";
+import { taskWatchdog } from "../../task/watchdog";
+import {
+  MCP_HOST,
+  MCP_PORT,
+  MCP_TRANSPORT,
+  MCP_TRANSPORTS,
+  SCHEDULER_ENABLED,
+  TASK_WATCHDOG_ENABLED,
+} from "../../config";
+import { getErrorMessage } from "../../util/errors";
+
+/**
+ * Start the MCP server, the task scheduler when SCHEDULER_ENABLED is set and
+ * the task watchdog unless TASK_WATCHDOG_ENABLED is false.
+ * For editor integrations, spawn with `MCP_TRANSPORT=stdio` so startup logs
+ * are written to stderr as well.
+ */
+export const serveCommand = new Command("serve")
+  .description("Start the MCP server")
+  .option(
+    "-t, --transport <transport>",
+    "Transport to serve on (http or stdio)",
+    MCP_TRANSPORT,
+  )
+  .action(async (options: { transport: string }) => {
+    try {
+      if (!(MCP_TRANSPORTS as readonly string[]).includes(options.transport)) {
+        console.error(
+          `❌ Invalid transport: ${options.transport} (expected ${MCP_TRANSPORTS.join(" or ")})`,
+        );
+        process.exit(1);
+      }
+
+      const transport = options.transport as MCPTransportType;
+
+      await mcpServerReady;
+      await MCPServerEnhanced.getInstance().start(transport);
+      if (SCHEDULER_ENABLED) {
+        taskScheduler.start();
+      }
+      if (TASK_WATCHDOG_ENABLED) {
+        taskWatchdog.start();
+      }
+
+      // stdout belongs to the protocol on stdio, so only announce HTTP
+      if (transport === "http") {
+        console.log("✅ MCP server listening");
+        console.log(`   URL: http://${MCP_HOST}:${MCP_PORT}`);
+      }
+    } catch (error: unknown) {
+      console.error("❌ Failed to start MCP server:", getErrorMessage(error));
+      process.exit(1);
+    }
+  });
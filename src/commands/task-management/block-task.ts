@@ -0,0 +1,29 @@
+// Block Task Command - Block a task on something outside the task graph
+// Records why the task waits; resume-task unblocks it
+
+import { Command } from "commander";
+import { taskLifecycle } from "../../task/lifecycle";
+import { getErrorMessage } from "../../util/errors";
+
+/**
+ * Block a pending, running or paused task until it is resumed
+ */
+export const blockTaskCommand = new Command("block-task")
+  .description("Block a task until it is resumed")
+  .argument("<taskId>", "Task ID")
+  .requiredOption("-r, --reason <string>", "What the task is waiting for")
+  .action(async (taskId: string, options: { reason: string }) => {
+    try {
+      const task = await taskLifecycle.blockTask(taskId, options.reason);
+
+      console.log("✅ Task blocked");
+      console.log(`   Task ID: ${task.id}`);
+      console.log(`   Task Name: ${task.name}`);
+      console.log(`   Status: ${task.status}`);
+      console.log(`   Reason: ${options.reason}`);
+      console.log(`\n💡 Unblock it with: resume-task ${task.id}`);
+    } catch (error: unknown) {
+      console.error("❌ Failed to block task:", getErrorMessage(error));
+      process.exit(1);
+    }
+  });
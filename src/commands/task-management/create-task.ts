@@ -3,7 +3,7 @@
 
 import { Command } from "commander";
 import { taskLifecycle } from "../../task/lifecycle";
-import type { TaskConfig } from "../../types/lifecycle";
+import type { TaskConfig, TaskTimeoutAction } from "../../types/lifecycle";
 
 /**
  * Create a new task with specified configuration
@@ -14,6 +14,20 @@ export const createTaskCommand = new Command("create-task")
   .option("-d, --description <string>", "Task description")
   .option("-o, --owner <string>", "Task owner")
   .option("-m, --metadata <JSON>", "Task metadata as JSON")
+  .option(
+    "--depends-on <taskIds>",
+    "Comma-separated IDs of tasks that must complete first",
+  )
+  .option("--deadline <time>", "Time by which the task must be done (ISO 8601)")
+  .option(
+    "--max-duration <minutes>",
+    "Longest a single run may stay running, in minutes",
+  )
+  .option(
+    "--on-timeout <action>",
+    "What to do with an overdue task: fail or cancel",
+    "fail",
+  )
   .action(
     async (
       name: string,
@@ -21,6 +35,10 @@ export const createTaskCommand = new Command("create-task")
         description?: string;
         owner?: string;
         metadata?: string;
+        dependsOn?: string;
+        deadline?: string;
+        maxDuration?: string;
+        onTimeout: string;
       },
     ) => {
       try {
@@ -29,6 +47,15 @@ export const createTaskCommand = new Command("create-task")
           description: options.description,
           owner: options.owner,
           metadata: options.metadata ? JSON.parse(options.metadata) : undefined,
+          dependsOn: options.dependsOn
+            ?.split(",")
+            .map((id) => id.trim())
+            .filter(Boolean),
+          deadline: options.deadline,
+          maxRunningMs: options.maxDuration
+            ? Math.round(Number(options.maxDuration) * 60 * 1000)
+            : undefined,
+          onTimeout: options.onTimeout as TaskTimeoutAction,
         };
 
         const task = await taskLifecycle.createTask(config);
@@ -41,6 +68,17 @@ export const createTaskCommand = new Command("create-task")
         if (task.description) {
           console.log(`   Description: ${task.description}`);
         }
+        if (task.metadata?.blockedBy?.length) {
+          console.log(`   Blocked By: ${task.metadata.blockedBy.join(", ")}`);
+        }
+        if (task.metadata?.deadline) {
+          console.log(`   Deadline: ${task.metadata.deadline}`);
+        }
+        if (task.metadata?.maxRunningMs) {
+          console.log(
+            `   Max Duration: ${task.metadata.maxRunningMs / 60000} min`,
+          );
+        }
 
         console.log("\n💡 Found a bug or have feedback?");
         console.log(
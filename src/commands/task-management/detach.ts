@@ -2,36 +2,31 @@
 // Week 13, Task 13.4: Implement /detach Command
 
 import { Command } from "commander";
-import { taskRegistry } from "../../task-registry/registry";
-import { logger } from "../../util/logger";
+import { taskLifecycle } from "../../task/lifecycle";
 
 /**
- * Detach an agent from a task (keeps task in current state)
+ * Detach an agent from a task; the task pauses when its last writer leaves
  */
 export const detachCommand = new Command("detach")
   .description("Detach agent from task")
   .argument("<taskId>", "Task ID")
-  .option("-a, --agent <string>", "Agent ID to detach")
-  .action(async (taskId: string, options: { agent?: string }) => {
+  .requiredOption("-a, --agent <string>", "Agent ID to detach")
+  .action(async (taskId: string, options: { agent: string }) => {
     try {
-      // Validate task exists
-      const task = await taskRegistry.getById(taskId);
-      if (!task) {
-        console.error("❌ Task not found");
-        process.exit(1);
-      }
-
-      // Log detachment (actual detachment handled by MCP tool in real implementation)
-      logger.info("Agent detached from task", {
+      const { task, attachment, paused } = await taskLifecycle.detachAgent(
         taskId,
-        agentId: options.agent,
-      });
+        options.agent,
+      );
 
       console.log("✅ Agent detached from task");
       console.log(`   Task ID: ${task.id}`);
       console.log(`   Task Name: ${task.name}`);
-      console.log(`   Agent: ${options.agent || "current agent"}`);
-      console.log(`   Task Status: ${task.status} (unchanged)`);
+      console.log(`   Agent: ${attachment.agentId} (${attachment.role})`);
+      console.log(
+        paused
+          ? `   Task Status: ${task.status} (no writer agents attached)`
+          : `   Task Status: ${task.status} (unchanged)`,
+      );
     } catch (error: unknown) {
       const errorMessage =
         error instanceof Error ? error.message : String(error);
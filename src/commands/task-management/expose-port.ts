@@ -0,0 +1,92 @@
+// Expose Port Command - Service previews
+// Publish a task container port on the host, list exposed ports, or unmap them
+
+import { Command } from "commander";
+import { taskRegistry } from "../../task-registry/registry";
+import {
+  getExposedPorts,
+  portPreview,
+  previewUrl,
+  PortProtocol,
+} from "../../docker/port-preview";
+import type { ExposedPort } from "../../types";
+
+function describePort(port: ExposedPort): string {
+  const target = `${port.hostIp}:${port.hostPort}`;
+  const url = port.protocol === "tcp" ? `  ${previewUrl(port)}` : "";
+  return `${port.containerPort}/${port.protocol} -> ${target}${url}`;
+}
+
+/**
+ * Expose a port of a running task's container; without a port, list the
+ * task's exposed ports. Ports are unmapped automatically when the task stops.
+ */
+export const exposePortCommand = new Command("expose-port")
+  .description("Expose a task container port on the host")
+  .argument("<taskId>", "Task ID")
+  .argument("[containerPort]", "Port inside the container")
+  .option("-p, --protocol <protocol>", "tcp or udp", "tcp")
+  .option("-r, --remove", "Unmap the port (all ports if none is given)")
+  .action(
+    async (
+      taskId: string,
+      containerPort: string | undefined,
+      options: { protocol: string; remove?: boolean },
+    ) => {
+      try {
+        if (!["tcp", "udp"].includes(options.protocol)) {
+          throw new Error(`Invalid protocol: ${options.protocol}`);
+        }
+        const protocol = options.protocol as PortProtocol;
+
+        const port =
+          containerPort === undefined ? undefined : Number(containerPort);
+        if (
+          port !== undefined &&
+          (!Number.isInteger(port) || port < 1 || port > 65535)
+        ) {
+          throw new Error(`Invalid port: ${containerPort}`);
+        }
+
+        const task = await taskRegistry.getById(taskId);
+        if (!task) {
+          throw new Error(`Task not found: ${taskId}`);
+        }
+
+        if (options.remove) {
+          const removed = await portPreview.unexpose(taskId, port, protocol);
+          console.log(`✅ Unmapped ${removed.length} port(s)`);
+          removed.forEach((exposed) =>
+            console.log(`   ${describePort(exposed)}`),
+          );
+          return;
+        }
+
+        if (port === undefined) {
+          const exposed = getExposedPorts(task);
+          console.log(`Exposed ports of ${task.id}: ${exposed.length}`);
+          exposed.forEach((entry) => console.log(`   ${describePort(entry)}`));
+          return;
+        }
+
+        if (task.status !== "running") {
+          throw new Error(
+            `Cannot expose ports of task with status: ${task.status}`,
+          );
+        }
+
+        const { port: exposed, created } = await portPreview.expose(
+          taskId,
+          port,
+          protocol,
+        );
+        console.log(created ? "✅ Port exposed" : "ℹ️  Port already exposed");
+        console.log(`   ${describePort(exposed)}`);
+      } catch (error: unknown) {
+        const errorMessage =
+          error instanceof Error ? error.message : String(error);
+        console.error("❌ Failed to expose port:", errorMessage);
+        process.exit(1);
+      }
+    },
+  );
@@ -12,7 +12,7 @@ export const listTasksCommand = new Command("list-tasks")
   .description("List all tasks")
   .option(
     "-s, --status <status>",
-    "Filter by status (pending, running, completed, failed)",
+    "Filter by status (pending, running, paused, blocked, completed, failed)",
   )
   .option("-o, --owner <string>", "Filter by owner")
   .option("-l, --limit <number>", "Limit results", "100")
@@ -0,0 +1,27 @@
+// Pause Task Command - Pause a running task
+// Freezes the task's container until resume-task
+
+import { Command } from "commander";
+import { taskLifecycle } from "../../task/lifecycle";
+import { getErrorMessage } from "../../util/errors";
+
+/**
+ * Pause a running task and its container
+ */
+export const pauseTaskCommand = new Command("pause-task")
+  .description("Pause a running task until it is resumed")
+  .argument("<taskId>", "Task ID")
+  .action(async (taskId: string) => {
+    try {
+      const task = await taskLifecycle.pauseTask(taskId);
+
+      console.log("✅ Task paused");
+      console.log(`   Task ID: ${task.id}`);
+      console.log(`   Task Name: ${task.name}`);
+      console.log(`   Status: ${task.status}`);
+      console.log(`\n💡 Resume it with: resume-task ${task.id}`);
+    } catch (error: unknown) {
+      console.error("❌ Failed to pause task:", getErrorMessage(error));
+      process.exit(1);
+    }
+  });
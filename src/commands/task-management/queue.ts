@@ -0,0 +1,149 @@
+// Queue Command - Task scheduler queue
+// Show pending tasks in start order, change their priority or pin them to the front
+
+import { Command } from "commander";
+import { taskRegistry } from "../../task-registry/registry";
+import {
+  TASK_PRIORITIES,
+  TaskPriority,
+  taskScheduler,
+} from "../../task/scheduler";
+import { getErrorMessage } from "../../util/errors";
+
+/**
+ * Load a task that is still waiting in the queue
+ */
+async function getQueuedTask(taskId: string) {
+  const task = await taskRegistry.getById(taskId);
+  if (!task) {
+    throw new Error(`Task not found: ${taskId}`);
+  }
+  if (task.status !== "pending") {
+    throw new Error(`Task is not queued (status: ${task.status})`);
+  }
+  return task;
+}
+
+const listCommand = new Command("list")
+  .description("List queued tasks in the order they will start")
+  .option("-o, --owner <string>", "Filter by owner")
+  .action(async (options: { owner?: string }) => {
+    try {
+      const queue = (await taskScheduler.getQueue()).filter(
+        (entry) => !options.owner || entry.task.owner === options.owner,
+      );
+
+      if (queue.length === 0) {
+        console.log("The queue is empty");
+        return;
+      }
+
+      console.log(`\n${queue.length} queued task(s):\n`);
+      queue.forEach((entry) => {
+        const flags = [
+          entry.pinned ? "pinned" : "",
+          entry.blockedBy.length > 0
+            ? `blocked by ${entry.blockedBy.join(", ")}`
+            : "",
+          entry.retryAt && entry.retryAt.getTime() > Date.now()
+            ? `retry at ${entry.retryAt.toISOString()}`
+            : "",
+          entry.deadline && entry.deadline.getTime() <= Date.now()
+            ? "deadline passed"
+            : "",
+        ].filter(Boolean);
+        console.log(
+          `${String(entry.position).padStart(3)}. ${entry.task.id}  ${entry.task.name}${flags.length > 0 ? `  (${flags.join("; ")})` : ""}`,
+        );
+        console.log(
+          `     Priority: ${entry.priority} (score ${entry.score})  Owner: ${entry.task.owner || "system"}  Waiting: ${Math.floor(entry.waitingMs / 60000)} min`,
+        );
+      });
+    } catch (error: unknown) {
+      console.error("❌ Failed to list queue:", getErrorMessage(error));
+      process.exit(1);
+    }
+  });
+
+const priorityCommand = new Command("priority")
+  .description("Change the priority of a queued task")
+  .argument("<taskId>", "Task ID")
+  .argument("<priority>", TASK_PRIORITIES.join(", "))
+  .action(async (taskId: string, priority: string) => {
+    try {
+      if (!TASK_PRIORITIES.includes(priority as TaskPriority)) {
+        throw new Error(`Invalid priority: ${priority}`);
+      }
+      const task = await getQueuedTask(taskId);
+      await taskRegistry.update(taskId, {
+        metadata: { ...task.metadata, priority },
+      });
+
+      console.log(`✅ Priority of ${taskId} set to ${priority}`);
+    } catch (error: unknown) {
+      console.error("❌ Failed to change priority:", getErrorMessage(error));
+      process.exit(1);
+    }
+  });
+
+const pinCommand = new Command("pin")
+  .description("Move a queued task to the front of the queue")
+  .argument("<taskId>", "Task ID")
+  .action(async (taskId: string) => {
+    try {
+      const task = await getQueuedTask(taskId);
+      await taskRegistry.update(taskId, {
+        metadata: { ...task.metadata, queuePinnedAt: new Date().toISOString() },
+      });
+
+      console.log(`✅ ${taskId} pinned to the front of the queue`);
+    } catch (error: unknown) {
+      console.error("❌ Failed to pin task:", getErrorMessage(error));
+      process.exit(1);
+    }
+  });
+
+const unpinCommand = new Command("unpin")
+  .description("Return a pinned task to its priority order")
+  .argument("<taskId>", "Task ID")
+  .action(async (taskId: string) => {
+    try {
+      const task = await getQueuedTask(taskId);
+      const { queuePinnedAt, ...metadata } = task.metadata ?? {};
+      await taskRegistry.update(taskId, { metadata });
+
+      console.log(
+        queuePinnedAt
+          ? `✅ ${taskId} unpinned`
+          : `ℹ️  ${taskId} was not pinned`,
+      );
+    } catch (error: unknown) {
+      console.error("❌ Failed to unpin task:", getErrorMessage(error));
+      process.exit(1);
+    }
+  });
+
+const runCommand = new Command("run")
+  .description("Start the queued tasks the limits allow now, once")
+  .action(async () => {
+    try {
+      const started = await taskScheduler.runOnce();
+
+      console.log(`✅ Started ${started.length} task(s)`);
+      started.forEach((taskId) => console.log(`   ${taskId}`));
+    } catch (error: unknown) {
+      console.error("❌ Failed to run scheduler:", getErrorMessage(error));
+      process.exit(1);
+    }
+  });
+
+/**
+ * Inspect and reorder the queue of pending tasks the scheduler starts
+ */
+export const queueCommand = new Command("queue")
+  .description("Inspect and reorder the task queue")
+  .addCommand(listCommand)
+  .addCommand(priorityCommand)
+  .addCommand(pinCommand)
+  .addCommand(unpinCommand)
+  .addCommand(runCommand);
@@ -3,13 +3,14 @@
 
 import { Command } from "commander";
 import { taskLifecycle } from "../../task/lifecycle";
+import { taskRegistry } from "../../task-registry/registry";
 import { multiLayerPersistence } from "../../persistence/multi-layer";
 
 /**
- * Resume a pending task and attach an agent
+ * Resume a paused or blocked task, or start a pending one with an agent
  */
 export const resumeTaskCommand = new Command("resume-task")
-  .description("Resume a pending task")
+  .description("Resume a paused, blocked or pending task")
   .argument("<taskId>", "Task ID to resume")
   .option("-a, --agent <string>", "Agent ID", "system")
   .option("-c, --checkpoint <string>", "Checkpoint ID to restore")
@@ -31,10 +32,11 @@ export const resumeTaskCommand = new Command("resume-task")
           console.log(`   Checkpoint ${options.checkpoint} restored`);
         }
 
-        const task = await taskLifecycle.startTask(
-          taskId,
-          options.agent || "system",
-        );
+        const current = await taskRegistry.getById(taskId);
+        const task =
+          current?.status === "paused" || current?.status === "blocked"
+            ? await taskLifecycle.resumeTask(taskId, options.agent || "system")
+            : await taskLifecycle.startTask(taskId, options.agent || "system");
 
         console.log("✅ Task resumed successfully");
         console.log(`   Task ID: ${task.id}`);
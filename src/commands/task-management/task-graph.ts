@@ -0,0 +1,67 @@
+// Task Graph Command - Task dependencies
+// Print the tasks that wait for a root task, or the ones it waits for, as a tree
+
+import { Command } from "commander";
+import { taskRegistry } from "../../task-registry/registry";
+import { taskDependencyRegistry } from "../../task-registry/task-dependencies";
+
+function describeTask(
+  taskId: string,
+  task: Awaited<ReturnType<typeof taskRegistry.getById>>,
+): string {
+  if (!task) {
+    return `${taskId}  [missing]`;
+  }
+  const blocked = task.metadata?.blockedBy?.length ? ", blocked" : "";
+  return `${task.id}  [${task.status}${blocked}]  ${task.name}`;
+}
+
+/**
+ * Print the dependency DAG below a root task. A task reachable along more
+ * than one path is expanded only the first time.
+ */
+export const taskGraphCommand = new Command("task-graph")
+  .description("Show the dependency graph of a task")
+  .argument("<taskId>", "Root task ID")
+  .option(
+    "-p, --prerequisites",
+    "Walk up to the tasks the root waits for instead of its dependents",
+  )
+  .action(async (taskId: string, options: { prerequisites?: boolean }) => {
+    try {
+      const root = await taskRegistry.getById(taskId);
+      if (!root) {
+        throw new Error(`Task not found: ${taskId}`);
+      }
+
+      const next = (id: string) =>
+        options.prerequisites
+          ? taskDependencyRegistry.listPrerequisites(id)
+          : taskDependencyRegistry.listDependents(id);
+      const expanded = new Set<string>([taskId]);
+
+      const printChildren = async (id: string, prefix: string) => {
+        const children = await next(id);
+        for (const [index, childId] of children.entries()) {
+          const last = index === children.length - 1;
+          const child = await taskRegistry.getById(childId);
+          const seen = expanded.has(childId);
+          console.log(
+            `${prefix}${last ? "└── " : "├── "}${describeTask(childId, child)}${seen ? "  (see above)" : ""}`,
+          );
+          if (!seen) {
+            expanded.add(childId);
+            await printChildren(childId, prefix + (last ? "    " : "│   "));
+          }
+        }
+      };
+
+      console.log(describeTask(taskId, root));
+      await printChildren(taskId, "");
+    } catch (error: unknown) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      console.error("❌ Failed to show task graph:", errorMessage);
+      process.exit(1);
+    }
+  });
@@ -4,12 +4,19 @@ import { config } from 'dotenv';
 // Load environment variables
 config();
 
+/** Transports the MCP server can serve on */
+export const MCP_TRANSPORTS = ['http', 'stdio'] as const;
+
 // Configuration schema
 const configSchema = z.object({
   // Docker Configuration
   DOCKER_SOCKET: z.string().default('/var/run/docker.sock'),
   DOCKER_NETWORK_PREFIX: z.string().default('opencode_'),
   DOCKER_CONTAINER_PREFIX: z.string().default('opencode_'),
+  PREVIEW_PORT_RANGE_START: z.number().default(20000),
+  PREVIEW_PORT_RANGE_END: z.number().default(20999),
+  PREVIEW_HOST_IP: z.string().default('127.0.0.1'),
+  PREVIEW_PROXY_IMAGE: z.string().default('alpine/socat:latest'),
 
   // Database Configuration
   DATABASE_PATH: z.string().default('./data/opencode.db'),
@@ -20,6 +27,41 @@ const configSchema = z.object({
   MCP_HOST: z.string().default('localhost'),
   MCP_MAX_CONNECTIONS: z.number().default(50),
   MCP_REQUEST_TIMEOUT_MS: z.number().default(30000),
+  MCP_TRANSPORT: z
+    .enum(MCP_TRANSPORTS, {
+      errorMap: () => ({ message: `MCP_TRANSPORT must be one of: ${MCP_TRANSPORTS.join(', ')}` }),
+    })
+    .default('http'),
+  MCP_AUTH_REQUIRED: z.boolean().default(true),
+  MCP_API_KEY: z.string().optional(),
+  MCP_CORS_ORIGINS: z.string().default(''),
+  MCP_RATE_LIMIT_PER_MINUTE: z.number().default(120),
+  MCP_RATE_LIMIT_BURST: z.number().default(30),
+  MCP_MAX_TASKS_PER_OWNER: z.number().default(50),
+  MCP_MAX_CONTAINERS_PER_OWNER: z.number().default(10),
+  MCP_IDEMPOTENCY_TTL_SECONDS: z.number().default(86400),
+  MCP_REQUEST_JOURNAL_PATH: z.string().default('./data/mcp-request-journal.jsonl'),
+  MCP_SESSION_IDLE_TIMEOUT_MS: z.number().default(1800000),
+
+  // Task Agent Configuration
+  TASK_MAX_WRITERS: z.number().default(2),
+
+  // Task Scheduler Configuration
+  SCHEDULER_ENABLED: z.boolean().default(false),
+  SCHEDULER_INTERVAL_MS: z.number().default(5000),
+  SCHEDULER_MAX_RUNNING: z.number().default(10),
+  SCHEDULER_MAX_RUNNING_PER_OWNER: z.number().default(3),
+  SCHEDULER_AGING_MS: z.number().default(600000),
+  SCHEDULER_TASK_IMAGE: z.string().default('node:20-alpine'),
+  SCHEDULER_ALLOWED_IMAGES: z.string().default(''),
+  SCHEDULER_AGENT_POOL: z.string().default('scheduler:owner'),
+  TASK_WATCHDOG_ENABLED: z.boolean().default(true),
+  TASK_WATCHDOG_INTERVAL_MS: z.number().default(30000),
+
+  // Plugin Configuration
+  PLUGIN_DIR: z.string().default('./plugins'),
+  PLUGIN_PACKAGES: z.string().default(''),
+  PLUGINS_DISABLED: z.string().default(''),
 
   // Logging Configuration
   LOG_LEVEL: z.enum(['error', 'warn', 'info', 'debug']).default('info'),
@@ -47,12 +89,41 @@ export const CONFIG = configSchema.parse({
   DOCKER_SOCKET: process.env.DOCKER_SOCKET,
   DOCKER_NETWORK_PREFIX: process.env.DOCKER_NETWORK_PREFIX,
   DOCKER_CONTAINER_PREFIX: process.env.DOCKER_CONTAINER_PREFIX,
+  PREVIEW_PORT_RANGE_START: process.env.PREVIEW_PORT_RANGE_START ? parseInt(process.env.PREVIEW_PORT_RANGE_START) : undefined,
+  PREVIEW_PORT_RANGE_END: process.env.PREVIEW_PORT_RANGE_END ? parseInt(process.env.PREVIEW_PORT_RANGE_END) : undefined,
+  PREVIEW_HOST_IP: process.env.PREVIEW_HOST_IP,
+  PREVIEW_PROXY_IMAGE: process.env.PREVIEW_PROXY_IMAGE,
   DATABASE_PATH: process.env.DATABASE_PATH,
   DATABASE_MIGRATIONS_PATH: process.env.DATABASE_MIGRATIONS_PATH,
   MCP_PORT: process.env.MCP_PORT ? parseInt(process.env.MCP_PORT) : undefined,
   MCP_HOST: process.env.MCP_HOST,
   MCP_MAX_CONNECTIONS: process.env.MCP_MAX_CONNECTIONS ? parseInt(process.env.MCP_MAX_CONNECTIONS) : undefined,
   MCP_REQUEST_TIMEOUT_MS: process.env.MCP_REQUEST_TIMEOUT_MS ? parseInt(process.env.MCP_REQUEST_TIMEOUT_MS) : undefined,
+  MCP_TRANSPORT: process.env.MCP_TRANSPORT || undefined,
+  MCP_AUTH_REQUIRED: process.env.MCP_AUTH_REQUIRED !== 'false',
+  MCP_API_KEY: process.env.MCP_API_KEY || undefined,
+  MCP_CORS_ORIGINS: process.env.MCP_CORS_ORIGINS,
+  MCP_RATE_LIMIT_PER_MINUTE: process.env.MCP_RATE_LIMIT_PER_MINUTE ? parseInt(process.env.MCP_RATE_LIMIT_PER_MINUTE) : undefined,
+  MCP_RATE_LIMIT_BURST: process.env.MCP_RATE_LIMIT_BURST ? parseInt(process.env.MCP_RATE_LIMIT_BURST) : undefined,
+  MCP_MAX_TASKS_PER_OWNER: process.env.MCP_MAX_TASKS_PER_OWNER ? parseInt(process.env.MCP_MAX_TASKS_PER_OWNER) : undefined,
+  MCP_MAX_CONTAINERS_PER_OWNER: process.env.MCP_MAX_CONTAINERS_PER_OWNER ? parseInt(process.env.MCP_MAX_CONTAINERS_PER_OWNER) : undefined,
+  MCP_IDEMPOTENCY_TTL_SECONDS: process.env.MCP_IDEMPOTENCY_TTL_SECONDS ? parseInt(process.env.MCP_IDEMPOTENCY_TTL_SECONDS) : undefined,
+  MCP_REQUEST_JOURNAL_PATH: process.env.MCP_REQUEST_JOURNAL_PATH,
+  MCP_SESSION_IDLE_TIMEOUT_MS: process.env.MCP_SESSION_IDLE_TIMEOUT_MS ? parseInt(process.env.MCP_SESSION_IDLE_TIMEOUT_MS) : undefined,
+  TASK_MAX_WRITERS: process.env.TASK_MAX_WRITERS ? parseInt(process.env.TASK_MAX_WRITERS) : undefined,
+  SCHEDULER_ENABLED: process.env.SCHEDULER_ENABLED === 'true',
+  SCHEDULER_INTERVAL_MS: process.env.SCHEDULER_INTERVAL_MS ? parseInt(process.env.SCHEDULER_INTERVAL_MS) : undefined,
+  SCHEDULER_MAX_RUNNING: process.env.SCHEDULER_MAX_RUNNING ? parseInt(process.env.SCHEDULER_MAX_RUNNING) : undefined,
+  SCHEDULER_MAX_RUNNING_PER_OWNER: process.env.SCHEDULER_MAX_RUNNING_PER_OWNER ? parseInt(process.env.SCHEDULER_MAX_RUNNING_PER_OWNER) : undefined,
+  SCHEDULER_AGING_MS: process.env.SCHEDULER_AGING_MS ? parseInt(process.env.SCHEDULER_AGING_MS) : undefined,
+  SCHEDULER_TASK_IMAGE: process.env.SCHEDULER_TASK_IMAGE,
+  SCHEDULER_ALLOWED_IMAGES: process.env.SCHEDULER_ALLOWED_IMAGES,
+  SCHEDULER_AGENT_POOL: process.env.SCHEDULER_AGENT_POOL,
+  TASK_WATCHDOG_ENABLED: process.env.TASK_WATCHDOG_ENABLED !== 'false',
+  TASK_WATCHDOG_INTERVAL_MS: process.env.TASK_WATCHDOG_INTERVAL_MS ? parseInt(process.env.TASK_WATCHDOG_INTERVAL_MS) : undefined,
+  PLUGIN_DIR: process.env.PLUGIN_DIR,
+  PLUGIN_PACKAGES: process.env.PLUGIN_PACKAGES,
+  PLUGINS_DISABLED: process.env.PLUGINS_DISABLED,
   LOG_LEVEL: process.env.LOG_LEVEL as any,
   LOG_FILE: process.env.LOG_FILE,
   LOG_MAX_SIZE: process.env.LOG_MAX_SIZE,
@@ -72,12 +143,41 @@ export const {
   DOCKER_SOCKET,
   DOCKER_NETWORK_PREFIX,
   DOCKER_CONTAINER_PREFIX,
+  PREVIEW_PORT_RANGE_START,
+  PREVIEW_PORT_RANGE_END,
+  PREVIEW_HOST_IP,
+  PREVIEW_PROXY_IMAGE,
   DATABASE_PATH,
   DATABASE_MIGRATIONS_PATH,
   MCP_PORT,
   MCP_HOST,
   MCP_MAX_CONNECTIONS,
   MCP_REQUEST_TIMEOUT_MS,
+  MCP_TRANSPORT,
+  MCP_AUTH_REQUIRED,
+  MCP_API_KEY,
+  MCP_CORS_ORIGINS,
+  MCP_RATE_LIMIT_PER_MINUTE,
+  MCP_RATE_LIMIT_BURST,
+  MCP_MAX_TASKS_PER_OWNER,
+  MCP_MAX_CONTAINERS_PER_OWNER,
+  MCP_IDEMPOTENCY_TTL_SECONDS,
+  MCP_REQUEST_JOURNAL_PATH,
+  MCP_SESSION_IDLE_TIMEOUT_MS,
+  TASK_MAX_WRITERS,
+  SCHEDULER_ENABLED,
+  SCHEDULER_INTERVAL_MS,
+  SCHEDULER_MAX_RUNNING,
+  SCHEDULER_MAX_RUNNING_PER_OWNER,
+  SCHEDULER_AGING_MS,
+  SCHEDULER_TASK_IMAGE,
+  SCHEDULER_ALLOWED_IMAGES,
+  SCHEDULER_AGENT_POOL,
+  TASK_WATCHDOG_ENABLED,
+  TASK_WATCHDOG_INTERVAL_MS,
+  PLUGIN_DIR,
+  PLUGIN_PACKAGES,
+  PLUGINS_DISABLED,
   LOG_LEVEL,
   LOG_FILE,
   LOG_MAX_SIZE,
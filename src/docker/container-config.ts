@@ -143,6 +143,32 @@ export interface LogStream {
   stderr: string[];
 }
 
+// Command execution options for exec inside a running container
+export interface ExecOptions {
+  workingDir?: string;
+  env?: Record<string, string>;
+  user?: string;
+  timeoutMs?: number; // Kill the process if it runs longer (default: 30000)
+  onOutput?: (chunk: ExecOutputChunk) => void; // Called as output arrives
+  signal?: AbortSignal; // Kill the process when aborted
+}
+
+// A piece of output produced by a running exec
+export interface ExecOutputChunk {
+  stream: "stdout" | "stderr";
+  data: string;
+}
+
+// Result of a command executed inside a container
+export interface ExecResult {
+  exitCode: number;
+  stdout: string;
+  stderr: string;
+  durationMs: number;
+  timedOut: boolean;
+  cancelled: boolean; // Killed because options.signal was aborted
+}
+
 // Container prune result
 export interface PruneResult {
   containersDeleted: string[];
@@ -2,6 +2,8 @@
 // Week 11, Task 11.1: Complete Docker Manager with Dockerode SDK
 
 import Dockerode from "dockerode";
+import { PassThrough } from "stream";
+import { StringDecoder } from "string_decoder";
 import { logger } from "../util/logger";
 import {
   DOCKER_SOCKET,
@@ -18,6 +20,8 @@ import type {
   LogStream,
   PruneResult,
   PortConfig,
+  ExecOptions,
+  ExecResult,
 } from "./container-config";
 import Docker from "dockerode";
 
@@ -86,6 +90,23 @@ interface DockerodeContainerStats {
   };
 }
 
+// Default time limit for commands executed inside a container
+const DEFAULT_EXEC_TIMEOUT_MS = 30000;
+
+// Exit code reported for commands killed after exceeding their timeout (128 + SIGKILL)
+const EXEC_TIMEOUT_EXIT_CODE = 137;
+
+// Records the command's PID in the file named by $0, then becomes the command
+const EXEC_RECORD_PID = 'echo $$ > "$0"; exec "$@"';
+
+// Runs the command as the leader of its own session and process group, so
+// a kill reaches everything it started. The shell forks setsid first, as
+// setsid only keeps the PID when it is not already a group leader; without
+// setsid the command runs in the exec's group and only its PID is killed.
+const EXEC_WRAPPER =
+  `if command -v setsid >/dev/null 2>&1; then ` +
+  `setsid sh -c '${EXEC_RECORD_PID}' "$0" "$@"; exit $?; fi; ${EXEC_RECORD_PID}`;
+
 /**
  * Docker Manager - Complete lifecycle implementation
  */
@@ -496,6 +517,72 @@ export class DockerManager {
     }
   }
 
+  /**
+   * Get the network and IP address other containers reach a container on
+   * @param containerId Container ID
+   * @returns First network with an address
+   */
+  public async getContainerAddress(
+    containerId: string,
+  ): Promise<{ network: string; ipAddress: string }> {
+    try {
+      await this.ensureInitialized();
+
+      const container = this.docker.getContainer(containerId);
+      const info = (await container.inspect()) as any;
+      const networks: Record<string, { IPAddress?: string }> =
+        info.NetworkSettings?.Networks || {};
+
+      for (const [network, settings] of Object.entries(networks)) {
+        if (settings.IPAddress) {
+          return { network, ipAddress: settings.IPAddress };
+        }
+      }
+    } catch (error: unknown) {
+      logger.error("Failed to get container address", {
+        containerId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+
+      throw new OpenCodeError(
+        "CONTAINER_INSPECT_FAILED",
+        `Failed to inspect container: ${containerId}`,
+        { containerId, error },
+      );
+    }
+
+    throw new OpenCodeError(
+      "CONTAINER_NOT_NETWORKED",
+      `Container has no network address: ${containerId}`,
+      { containerId },
+    );
+  }
+
+  /**
+   * Check that a container was created for a task, so a container ID read
+   * from task metadata cannot reach an unrelated container on the host
+   * @param containerId Container ID
+   * @param taskId Task the container must be labelled with
+   * @throws OpenCodeError CONTAINER_TASK_MISMATCH
+   */
+  public async assertTaskContainer(
+    containerId: string,
+    taskId: string,
+  ): Promise<void> {
+    const info = await this.inspectContainer(containerId);
+    if (info.labels?.["opencode.task.id"] !== taskId) {
+      logger.warn("Container does not belong to task", {
+        containerId,
+        taskId,
+      });
+      throw new OpenCodeError(
+        "CONTAINER_TASK_MISMATCH",
+        `Container ${containerId} does not belong to task ${taskId}`,
+        { containerId, taskId },
+      );
+    }
+  }
+
   /**
    * Get container status
    * @param containerId Container ID
@@ -510,7 +597,11 @@ export class DockerManager {
       const container = this.docker.getContainer(containerId);
       const info = (await container.inspect()) as any;
 
-      return this.mapContainerStatus(info.State || "unknown");
+      // Inspect reports State as an object; list reports it as a string
+      return this.mapContainerStatus(
+        (typeof info.State === "string" ? info.State : info.State?.Status) ||
+          "unknown",
+      );
     } catch (error: unknown) {
       logger.error("Failed to get container status", {
         containerId,
@@ -627,6 +718,161 @@ export class DockerManager {
     }
   }
 
+  // =========================================================================
+  // Exec Methods
+  // =========================================================================
+
+  /**
+   * Execute a command inside a running container
+   * @param containerId Container ID
+   * @param command Shell command string (run via `sh -c`) or argv array
+   * @param options Exec options (working directory, env, user, timeout, output callback, abort signal)
+   * @returns Exit code, separated stdout/stderr and measured duration
+   * @throws OpenCodeError CONTAINER_EXEC_CANCELLED if the signal was aborted before the command started
+   */
+  public async execCommand(
+    containerId: string,
+    command: string | string[],
+    options: ExecOptions = {},
+  ): Promise<ExecResult> {
+    const timeoutMs = options.timeoutMs ?? DEFAULT_EXEC_TIMEOUT_MS;
+    const argv = typeof command === "string" ? ["sh", "-c", command] : command;
+    const pidFile = `/tmp/.opencode-exec-${Date.now()}-${Math.random().toString(36).substring(2, 9)}.pid`;
+    const startTime = Date.now();
+
+    if (options.signal?.aborted) {
+      throw new OpenCodeError(
+        "CONTAINER_EXEC_CANCELLED",
+        `Command cancelled before it started in container: ${containerId}`,
+        { containerId, command: argv },
+      );
+    }
+
+    try {
+      await this.ensureInitialized();
+
+      const container = this.docker.getContainer(containerId);
+
+      logger.info("Executing command in container", {
+        containerId,
+        command: argv,
+        timeoutMs,
+      });
+
+      // The wrapper records the command's PID before exec'ing it, so a
+      // timed-out command can be killed from a second exec (Docker has no
+      // exec kill API)
+      const exec = await container.exec({
+        Cmd: ["sh", "-c", EXEC_WRAPPER, pidFile, ...argv],
+        AttachStdout: true,
+        AttachStderr: true,
+        Tty: false,
+        WorkingDir: options.workingDir,
+        Env: options.env
+          ? Object.entries(options.env).map(([key, value]) => `${key}=${value}`)
+          : undefined,
+        User: options.user,
+      });
+
+      const stream = await exec.start({ hijack: true, stdin: false });
+
+      const stdoutChunks: Buffer[] = [];
+      const stderrChunks: Buffer[] = [];
+      const stdout = new PassThrough();
+      const stderr = new PassThrough();
+      // Decoders keep multi-byte characters intact across chunk boundaries
+      const stdoutDecoder = new StringDecoder("utf-8");
+      const stderrDecoder = new StringDecoder("utf-8");
+      stdout.on("data", (chunk: Buffer) => {
+        stdoutChunks.push(chunk);
+        const data = stdoutDecoder.write(chunk);
+        if (data && options.onOutput) {
+          options.onOutput({ stream: "stdout", data });
+        }
+      });
+      stderr.on("data", (chunk: Buffer) => {
+        stderrChunks.push(chunk);
+        const data = stderrDecoder.write(chunk);
+        if (data && options.onOutput) {
+          options.onOutput({ stream: "stderr", data });
+        }
+      });
+      this.docker.modem.demuxStream(stream, stdout, stderr);
+
+      let timedOut = false;
+      let cancelled = false;
+      await new Promise<void>((resolve, reject) => {
+        const kill = () => {
+          clearTimeout(timer);
+          options.signal?.removeEventListener("abort", onAbort);
+          this.signalExecProcess(container, pidFile, "KILL").finally(() => {
+            stream.destroy();
+            resolve();
+          });
+        };
+        const onAbort = () => {
+          cancelled = true;
+          kill();
+        };
+        const timer = setTimeout(() => {
+          timedOut = true;
+          kill();
+        }, timeoutMs);
+        options.signal?.addEventListener("abort", onAbort, { once: true });
+
+        const finish = () => {
+          clearTimeout(timer);
+          options.signal?.removeEventListener("abort", onAbort);
+          resolve();
+        };
+        stream.on("end", finish);
+        stream.on("close", finish);
+        stream.on("error", (error: Error) => {
+          clearTimeout(timer);
+          options.signal?.removeEventListener("abort", onAbort);
+          reject(error);
+        });
+      });
+
+      const info = await exec.inspect();
+      const durationMs = Date.now() - startTime;
+      const killed = timedOut || cancelled;
+      const exitCode = killed ? EXEC_TIMEOUT_EXIT_CODE : (info.ExitCode ?? -1);
+
+      if (!killed) {
+        this.removeExecPidFile(container, pidFile);
+      }
+
+      logger.info("Command finished in container", {
+        containerId,
+        exitCode,
+        durationMs,
+        timedOut,
+        cancelled,
+      });
+
+      return {
+        exitCode,
+        stdout: Buffer.concat(stdoutChunks).toString("utf-8"),
+        stderr: Buffer.concat(stderrChunks).toString("utf-8"),
+        durationMs,
+        timedOut,
+        cancelled,
+      };
+    } catch (error: unknown) {
+      logger.error("Failed to execute command in container", {
+        containerId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+
+      throw new OpenCodeError(
+        "CONTAINER_EXEC_FAILED",
+        `Failed to execute command in container: ${containerId}`,
+        { containerId, command: argv, error },
+      );
+    }
+  }
+
   // =========================================================================
   // Batch Operations
   // =========================================================================
@@ -709,6 +955,57 @@ export class DockerManager {
     }
   }
 
+  /**
+   * Send a signal to an exec'd command's process group using the PID
+   * recorded by execCommand, falling back to the PID alone
+   */
+  private async signalExecProcess(
+    container: Docker.Container,
+    pidFile: string,
+    signal: string,
+  ): Promise<void> {
+    try {
+      const killer = await container.exec({
+        Cmd: [
+          "sh",
+          "-c",
+          // dash's kill does not take "--"; a negative PID after the
+          // signal names the process group
+          `pid=$(cat "$0") && { kill -${signal} "-$pid" 2>/dev/null || kill -${signal} "$pid" 2>/dev/null; }; rm -f "$0"`,
+          pidFile,
+        ],
+        AttachStdout: false,
+        AttachStderr: false,
+      });
+      await killer.start({ Detach: true });
+    } catch (error: unknown) {
+      logger.warn("Failed to signal exec process", {
+        containerId: container.id,
+        signal,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * Remove the PID file left behind by a completed exec (best effort)
+   */
+  private removeExecPidFile(container: Docker.Container, pidFile: string): void {
+    container
+      .exec({
+        Cmd: ["rm", "-f", pidFile],
+        AttachStdout: false,
+        AttachStderr: false,
+      })
+      .then((cleanup) => cleanup.start({ Detach: true }))
+      .catch((error: unknown) => {
+        logger.debug("Failed to remove exec PID file", {
+          containerId: container.id,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      });
+  }
+
   /**
    * Build Dockerode create options from ContainerConfig
    */
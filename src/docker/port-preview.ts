@@ -0,0 +1,271 @@
+// Port Preview - Publish task container ports on the host on demand
+// Docker cannot add bindings to a running container, so each port gets a small forwarder container
+
+import { DockerManager } from "./manager";
+import { taskRegistry } from "../task-registry/registry";
+import { lockManager } from "../util/lock-manager";
+import { logger } from "../util/logger";
+import { findAvailablePort } from "../util/ports";
+import {
+  DOCKER_CONTAINER_PREFIX,
+  PREVIEW_HOST_IP,
+  PREVIEW_PORT_RANGE_END,
+  PREVIEW_PORT_RANGE_START,
+  PREVIEW_PROXY_IMAGE,
+} from "../config";
+import { ExposedPort, OpenCodeError, Task } from "../types";
+
+// Host ports that may be taken between the free-port check and the bind
+const MAX_BIND_ATTEMPTS = 3;
+
+export type PortProtocol = ExposedPort["protocol"];
+
+export interface ExposePortResult {
+  port: ExposedPort;
+  /** False when the port was already exposed */
+  created: boolean;
+}
+
+/**
+ * Exposed ports recorded on a task
+ */
+export function getExposedPorts(task: Task): ExposedPort[] {
+  return Array.isArray(task.metadata?.exposedPorts)
+    ? task.metadata.exposedPorts
+    : [];
+}
+
+/**
+ * URL a human can open for an exposed TCP port
+ */
+export function previewUrl(port: ExposedPort): string {
+  const host = port.hostIp === "0.0.0.0" ? "localhost" : port.hostIp;
+  return `http://${host}:${port.hostPort}`;
+}
+
+export class PortPreview {
+  private static instance: PortPreview;
+  // Host ports between allocation and bind, across all tasks
+  private allocating: Set<number> = new Set();
+
+  private constructor() {}
+
+  public static getInstance(): PortPreview {
+    if (!PortPreview.instance) {
+      PortPreview.instance = new PortPreview();
+    }
+    return PortPreview.instance;
+  }
+
+  /**
+   * Publish a port of the task's container on a free host port from the
+   * preview range and record it in task metadata. Exposing a port again
+   * returns the existing mapping.
+   */
+  public async expose(
+    taskId: string,
+    containerPort: number,
+    protocol: PortProtocol = "tcp",
+  ): Promise<ExposePortResult> {
+    return lockManager.withLock(`ports:${taskId}`, "port-preview", async () => {
+      const task = await this.getTask(taskId);
+      const existing = getExposedPorts(task).find(
+        (port) =>
+          port.containerPort === containerPort && port.protocol === protocol,
+      );
+      if (existing) {
+        return { port: existing, created: false };
+      }
+
+      const containerId = task.metadata?.containerId;
+      if (!containerId) {
+        throw new OpenCodeError(
+          "TASK_HAS_NO_CONTAINER",
+          `Task has no container: ${taskId}`,
+          { taskId },
+        );
+      }
+
+      const port = await this.startForwarder(
+        taskId,
+        containerId,
+        containerPort,
+        protocol,
+      );
+
+      const exposedPorts = [...getExposedPorts(task), port];
+      try {
+        await this.saveExposedPorts(task, exposedPorts);
+      } catch (error: unknown) {
+        await this.removeForwarder(port);
+        throw error;
+      }
+
+      logger.info("Port exposed", {
+        taskId,
+        containerPort,
+        hostPort: port.hostPort,
+        protocol,
+      });
+
+      return { port, created: true };
+    });
+  }
+
+  /**
+   * Remove one exposed port, or all of them when containerPort is omitted
+   * @returns Ports that were unmapped
+   */
+  public async unexpose(
+    taskId: string,
+    containerPort?: number,
+    protocol?: PortProtocol,
+  ): Promise<ExposedPort[]> {
+    return lockManager.withLock(`ports:${taskId}`, "port-preview", async () => {
+      const task = await this.getTask(taskId);
+      const exposed = getExposedPorts(task);
+      const matches = (port: ExposedPort) =>
+        containerPort === undefined ||
+        (port.containerPort === containerPort &&
+          (protocol === undefined || port.protocol === protocol));
+
+      const removed = exposed.filter(matches);
+      if (removed.length === 0) {
+        return [];
+      }
+
+      await Promise.all(removed.map((port) => this.removeForwarder(port)));
+      await this.saveExposedPorts(
+        task,
+        exposed.filter((port) => !matches(port)),
+      );
+
+      logger.info("Ports unexposed", {
+        taskId,
+        ports: removed.map((port) => port.containerPort),
+      });
+
+      return removed;
+    });
+  }
+
+  private async getTask(taskId: string): Promise<Task> {
+    const task = await taskRegistry.getById(taskId);
+    if (!task) {
+      throw new Error(`Task not found: ${taskId}`);
+    }
+    return task;
+  }
+
+  private async saveExposedPorts(
+    task: Task,
+    exposedPorts: ExposedPort[],
+  ): Promise<void> {
+    const { exposedPorts: _previous, ...metadata } = task.metadata ?? {};
+    const updated = await taskRegistry.update(task.id, {
+      metadata:
+        exposedPorts.length > 0 ? { ...metadata, exposedPorts } : metadata,
+    });
+    if (!updated) {
+      throw new Error(`Failed to update task: ${task.id}`);
+    }
+  }
+
+  /**
+   * Run a forwarder on the task container's network that publishes the
+   * port on the host, retrying with another host port if the bind fails
+   */
+  private async startForwarder(
+    taskId: string,
+    containerId: string,
+    containerPort: number,
+    protocol: PortProtocol,
+  ): Promise<ExposedPort> {
+    const docker = DockerManager.getInstance();
+    await docker.assertTaskContainer(containerId, taskId);
+    const { network, ipAddress } =
+      await docker.getContainerAddress(containerId);
+    const socat = protocol === "udp" ? "UDP" : "TCP";
+    const tried: number[] = [];
+
+    for (let attempt = 1; ; attempt++) {
+      const hostPort = await findAvailablePort(
+        { start: PREVIEW_PORT_RANGE_START, end: PREVIEW_PORT_RANGE_END },
+        { host: PREVIEW_HOST_IP, exclude: [...this.allocating, ...tried] },
+      );
+      this.allocating.add(hostPort);
+      tried.push(hostPort);
+
+      let proxyContainerId: string | undefined;
+      try {
+        proxyContainerId = await docker.createContainer({
+          name: `${DOCKER_CONTAINER_PREFIX}port_${taskId}_${containerPort}_${Date.now().toString(36)}`,
+          image: PREVIEW_PROXY_IMAGE,
+          command: [
+            `${socat}-LISTEN:${containerPort},fork,reuseaddr`,
+            `${socat}:${ipAddress}:${containerPort}`,
+          ],
+          ports: [
+            { containerPort, hostPort, hostIp: PREVIEW_HOST_IP, protocol },
+          ],
+          network,
+          labels: {
+            // Lets the orphan detector remove forwarders of deleted tasks
+            "opencode.task.id": taskId,
+            "opencode.role": "port-preview",
+          },
+        });
+        await docker.startContainer(proxyContainerId);
+
+        return {
+          containerPort,
+          hostPort,
+          hostIp: PREVIEW_HOST_IP,
+          protocol,
+          proxyContainerId,
+          exposedAt: new Date().toISOString(),
+        };
+      } catch (error: unknown) {
+        if (proxyContainerId) {
+          await docker
+            .removeContainer(proxyContainerId, true)
+            .catch(() => undefined);
+        }
+        if (attempt >= MAX_BIND_ATTEMPTS) {
+          throw new OpenCodeError(
+            "PORT_EXPOSE_FAILED",
+            `Failed to expose port ${containerPort} of task ${taskId}`,
+            { taskId, containerPort, hostPort, error },
+          );
+        }
+        logger.warn("Port forwarder failed to start, trying another port", {
+          taskId,
+          containerPort,
+          hostPort,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      } finally {
+        this.allocating.delete(hostPort);
+      }
+    }
+  }
+
+  private async removeForwarder(port: ExposedPort): Promise<void> {
+    try {
+      await DockerManager.getInstance().removeContainer(
+        port.proxyContainerId,
+        true,
+      );
+    } catch (error: unknown) {
+      // The mapping is dropped anyway; a leftover forwarder is removed by
+      // the orphan detector once the task is gone
+      logger.error("Failed to remove port forwarder", {
+        proxyContainerId: port.proxyContainerId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+}
+
+// Export singleton instance
+export const portPreview = PortPreview.getInstance();
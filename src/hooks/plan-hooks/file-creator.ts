@@ -5,6 +5,7 @@ import { promises as fs } from 'fs';
 import { join } from 'path';
 import { taskRegistry } from '../../task-registry/registry';
 import { logger } from '../../util/logger';
+import { taskArtifactEvents } from '../../persistence/artifact-events';
 import { AfterTaskStartHook } from '../task-lifecycle';
 
 /**
@@ -31,6 +32,7 @@ export function createPlanFileCreatorHook(): AfterTaskStartHook {
       await fs.writeFile(planPath, planContent, 'utf-8');
 
       logger.info('Plan file created', { taskId, agentId, planPath });
+      taskArtifactEvents.changed(taskId, 'plan');
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
       logger.error('Failed to create plan file', {
@@ -1,6 +1,7 @@
 import { promises as fs } from 'fs';
 import { join } from 'path';
 import { logger } from '../../util/logger';
+import { taskArtifactEvents } from '../../persistence/artifact-events';
 import { AfterTaskCompleteHook } from '../task-lifecycle';
 import type { TaskResult } from '../../types/lifecycle';
 
@@ -38,6 +39,7 @@ export function createPlanFinalizerHook(): AfterTaskCompleteHook {
       await fs.writeFile(planPath, finalizedPlan, 'utf-8');
       
       logger.info('Plan finalized', { taskId, result });
+      taskArtifactEvents.changed(taskId, 'plan');
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
       logger.error('Failed to finalize plan', {
@@ -2,15 +2,21 @@
 // Week 12, Day 1-2: Task Lifecycle Hooks Implementation
 
 import { logger } from '../util/logger';
-import { TaskResult } from '../types/lifecycle';
+import { TaskFailReason, TaskPauseReason, TaskResult } from '../types/lifecycle';
 
 // Hook type definitions
 export type BeforeTaskStartHook = (taskId: string, agentId: string) => Promise<void>;
 export type AfterTaskStartHook = (taskId: string, agentId: string) => Promise<void>;
 export type BeforeTaskCompleteHook = (taskId: string, result: TaskResult) => Promise<void>;
 export type AfterTaskCompleteHook = (taskId: string, result: TaskResult) => Promise<void>;
-export type BeforeTaskFailHook = (taskId: string, error: string) => Promise<void>;
-export type AfterTaskFailHook = (taskId: string, error: string) => Promise<void>;
+export type BeforeTaskFailHook = (taskId: string, error: string, reason: TaskFailReason) => Promise<void>;
+export type AfterTaskFailHook = (taskId: string, error: string, reason: TaskFailReason) => Promise<void>;
+export type BeforeTaskPauseHook = (taskId: string, reason: TaskPauseReason) => Promise<void>;
+export type AfterTaskPauseHook = (taskId: string, reason: TaskPauseReason) => Promise<void>;
+export type BeforeTaskResumeHook = (taskId: string, agentId: string) => Promise<void>;
+export type AfterTaskResumeHook = (taskId: string, agentId: string) => Promise<void>;
+export type BeforeTaskBlockHook = (taskId: string, reason: string) => Promise<void>;
+export type AfterTaskBlockHook = (taskId: string, reason: string) => Promise<void>;
 
 interface Hook {
   id: string;
@@ -32,7 +38,7 @@ interface Hook {
  * 5. TaskLifecycle.completeTask() executes
  * 6. afterTaskComplete
  *
- * (Similar pattern for failTask)
+ * (Similar pattern for failTask, pauseTask, resumeTask and blockTask)
  */
 export class TaskLifecycleHooks {
   private static instance: TaskLifecycleHooks;
@@ -117,6 +123,72 @@ export class TaskLifecycleHooks {
     return hookId;
   }
 
+  /**
+   * Register a hook to execute before a task is paused
+   * @param hook - Hook function to execute
+   * @param priority - Lower numbers execute first (default: 10)
+   */
+  public registerBeforeTaskPause(hook: BeforeTaskPauseHook, priority: number = 10): string {
+    const hookId = this.registerHook('beforeTaskPause', hook, priority);
+    logger.info('BeforeTaskPause hook registered', { hookId, priority });
+    return hookId;
+  }
+
+  /**
+   * Register a hook to execute after a task is paused
+   * @param hook - Hook function to execute
+   * @param priority - Lower numbers execute first (default: 10)
+   */
+  public registerAfterTaskPause(hook: AfterTaskPauseHook, priority: number = 10): string {
+    const hookId = this.registerHook('afterTaskPause', hook, priority);
+    logger.info('AfterTaskPause hook registered', { hookId, priority });
+    return hookId;
+  }
+
+  /**
+   * Register a hook to execute before a task resumes
+   * @param hook - Hook function to execute
+   * @param priority - Lower numbers execute first (default: 10)
+   */
+  public registerBeforeTaskResume(hook: BeforeTaskResumeHook, priority: number = 10): string {
+    const hookId = this.registerHook('beforeTaskResume', hook, priority);
+    logger.info('BeforeTaskResume hook registered', { hookId, priority });
+    return hookId;
+  }
+
+  /**
+   * Register a hook to execute after a task resumes
+   * @param hook - Hook function to execute
+   * @param priority - Lower numbers execute first (default: 10)
+   */
+  public registerAfterTaskResume(hook: AfterTaskResumeHook, priority: number = 10): string {
+    const hookId = this.registerHook('afterTaskResume', hook, priority);
+    logger.info('AfterTaskResume hook registered', { hookId, priority });
+    return hookId;
+  }
+
+  /**
+   * Register a hook to execute before a task is blocked
+   * @param hook - Hook function to execute
+   * @param priority - Lower numbers execute first (default: 10)
+   */
+  public registerBeforeTaskBlock(hook: BeforeTaskBlockHook, priority: number = 10): string {
+    const hookId = this.registerHook('beforeTaskBlock', hook, priority);
+    logger.info('BeforeTaskBlock hook registered', { hookId, priority });
+    return hookId;
+  }
+
+  /**
+   * Register a hook to execute after a task is blocked
+   * @param hook - Hook function to execute
+   * @param priority - Lower numbers execute first (default: 10)
+   */
+  public registerAfterTaskBlock(hook: AfterTaskBlockHook, priority: number = 10): string {
+    const hookId = this.registerHook('afterTaskBlock', hook, priority);
+    logger.info('AfterTaskBlock hook registered', { hookId, priority });
+    return hookId;
+  }
+
   // Hook Execution (called by TaskLifecycle)
 
   /**
@@ -155,16 +227,72 @@ export class TaskLifecycleHooks {
    * Execute all beforeTaskFail hooks
    * Hooks execute in priority order (lowest first)
    */
-  public async executeBeforeTaskFail(taskId: string, error: string): Promise<void> {
-    await this.executeHooks('beforeTaskFail', taskId, error);
+  public async executeBeforeTaskFail(
+    taskId: string,
+    error: string,
+    reason: TaskFailReason = 'error',
+  ): Promise<void> {
+    await this.executeHooks('beforeTaskFail', taskId, error, reason);
   }
 
   /**
    * Execute all afterTaskFail hooks
    * Hooks execute in priority order (lowest first)
    */
-  public async executeAfterTaskFail(taskId: string, error: string): Promise<void> {
-    await this.executeHooks('afterTaskFail', taskId, error);
+  public async executeAfterTaskFail(
+    taskId: string,
+    error: string,
+    reason: TaskFailReason = 'error',
+  ): Promise<void> {
+    await this.executeHooks('afterTaskFail', taskId, error, reason);
+  }
+
+  /**
+   * Execute all beforeTaskPause hooks
+   * Hooks execute in priority order (lowest first)
+   */
+  public async executeBeforeTaskPause(taskId: string, reason: TaskPauseReason): Promise<void> {
+    await this.executeHooks('beforeTaskPause', taskId, reason);
+  }
+
+  /**
+   * Execute all afterTaskPause hooks
+   * Hooks execute in priority order (lowest first)
+   */
+  public async executeAfterTaskPause(taskId: string, reason: TaskPauseReason): Promise<void> {
+    await this.executeHooks('afterTaskPause', taskId, reason);
+  }
+
+  /**
+   * Execute all beforeTaskResume hooks
+   * Hooks execute in priority order (lowest first)
+   */
+  public async executeBeforeTaskResume(taskId: string, agentId: string): Promise<void> {
+    await this.executeHooks('beforeTaskResume', taskId, agentId);
+  }
+
+  /**
+   * Execute all afterTaskResume hooks
+   * Hooks execute in priority order (lowest first)
+   */
+  public async executeAfterTaskResume(taskId: string, agentId: string): Promise<void> {
+    await this.executeHooks('afterTaskResume', taskId, agentId);
+  }
+
+  /**
+   * Execute all beforeTaskBlock hooks
+   * Hooks execute in priority order (lowest first)
+   */
+  public async executeBeforeTaskBlock(taskId: string, reason: string): Promise<void> {
+    await this.executeHooks('beforeTaskBlock', taskId, reason);
+  }
+
+  /**
+   * Execute all afterTaskBlock hooks
+   * Hooks execute in priority order (lowest first)
+   */
+  public async executeAfterTaskBlock(taskId: string, reason: string): Promise<void> {
+    await this.executeHooks('afterTaskBlock', taskId, reason);
   }
 
   // Hook Management
@@ -17,9 +17,8 @@ const args = process.argv.slice(2);
 
 // Check if running CLI commands (has subcommand argument)
 if (args.length > 0 && args[0] && !args[0].startsWith('-')) {
-  // CLI mode - delegate to CLI
-  const { program } = require('./commands/cli');
-  program.parse(process.argv);
+  // CLI mode - delegate to CLI (the CLI module parses process.argv on load)
+  require('./commands/cli');
 } else {
   // Application mode - start OpenCode Tools application
   startApplication();
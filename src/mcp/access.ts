@@ -0,0 +1,132 @@
+// MCP Access - Scoping tool and resource calls to the authenticated principal
+// Without authentication (MCP_AUTH_REQUIRED=false) caller-supplied IDs are trusted
+
+import { taskRegistry } from "../task-registry/registry";
+import { taskAgentRegistry } from "../task-registry/task-agents";
+import { roleAllows, type TaskAgentPermission } from "../task/agent-roles";
+import { Task } from "../types";
+import { jobManager, JobInfo } from "./jobs";
+import type { ToolContext } from "./server";
+
+/**
+ * The agent a call acts as. With authentication the principal's agent is
+ * used and a different agentId argument is rejected; without it the
+ * argument is trusted.
+ */
+export function resolveAgentId(
+  requested: string | undefined,
+  context?: ToolContext,
+): string {
+  const principal = context?.principal;
+  if (principal) {
+    if (requested && requested !== principal.agentId) {
+      throw new Error(
+        `Authenticated as agent ${principal.agentId}, cannot act as ${requested}`,
+      );
+    }
+    return principal.agentId;
+  }
+
+  if (!requested) {
+    throw new Error("agentId is required");
+  }
+  return requested;
+}
+
+/**
+ * The owner a call acts for, following the same rules as resolveAgentId
+ */
+export function resolveOwner(
+  requested: string | undefined,
+  context?: ToolContext,
+): string | undefined {
+  const principal = context?.principal;
+  if (principal) {
+    if (requested && requested !== principal.owner) {
+      throw new Error(
+        `Authenticated for owner ${principal.owner}, cannot act for ${requested}`,
+      );
+    }
+    return principal.owner;
+  }
+  return requested;
+}
+
+/**
+ * Load a task the caller may act on; an authenticated principal may only
+ * touch tasks belonging to its owner, so tasks without one are denied
+ */
+export async function getAccessibleTask(
+  id: string,
+  context?: ToolContext,
+): Promise<Task> {
+  const task = await taskRegistry.getById(id);
+  if (!task) {
+    throw new Error(`Task not found: ${id}`);
+  }
+
+  const principal = context?.principal;
+  if (principal && task.owner !== principal.owner) {
+    throw new Error(`Access denied to task: ${id}`);
+  }
+  return task;
+}
+
+/**
+ * Check that an authenticated agent is attached to the task with a role
+ * that permits the action
+ */
+export async function assertAgentRole(
+  task: Task,
+  context: ToolContext | undefined,
+  permission: TaskAgentPermission,
+): Promise<void> {
+  const principal = context?.principal;
+  if (!principal) {
+    return;
+  }
+
+  const attachment = await taskAgentRegistry.getActive(
+    task.id,
+    principal.agentId,
+  );
+  if (!attachment) {
+    throw new Error(
+      `Agent ${principal.agentId} is not attached to task ${task.id}`,
+    );
+  }
+  if (!roleAllows(attachment.role, permission)) {
+    throw new Error(
+      `Agent ${principal.agentId} (${attachment.role}) may not ${permission} in task ${task.id}`,
+    );
+  }
+}
+
+/**
+ * Load a task whose workspace and artifacts the caller may read; unlike
+ * writes, this works while the task is paused or blocked
+ */
+export async function getReadableTask(
+  id: string,
+  context?: ToolContext,
+): Promise<Task> {
+  const task = await getAccessibleTask(id, context);
+  await assertAgentRole(task, context, "read");
+  return task;
+}
+
+/**
+ * Load a job the caller may see; jobs of another owner, or of none, are
+ * reported as missing, like unknown ones
+ */
+export async function getAccessibleJob(
+  id: string,
+  context?: ToolContext,
+): Promise<JobInfo> {
+  const job = await jobManager.get(id);
+  const principal = context?.principal;
+  if (!job || (principal && job.owner !== principal.owner)) {
+    throw new Error(`Job not found: ${id}`);
+  }
+  return job;
+}
@@ -0,0 +1,304 @@
+// MCP Idempotency - Replay the result of a retried mutating tool call
+// Results are stored in PostgreSQL per owner and key for MCP_IDEMPOTENCY_TTL_SECONDS
+
+import { createHash, randomUUID } from "crypto";
+import { and, eq, isNull, lt, or } from "drizzle-orm";
+import { logger } from "../util/logger";
+import { OpenCodeError } from "../types";
+import { DatabaseManager } from "../persistence/database";
+import * as schema from "../persistence/schema";
+import { MCP_IDEMPOTENCY_TTL_SECONDS, MCP_REQUEST_TIMEOUT_MS } from "../config";
+import { JSON_RPC_ERRORS, JsonRpcError } from "./protocol";
+
+export type IdempotencyConflictReason = "params_mismatch" | "in_progress";
+
+/** Expired keys are deleted at most this often */
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+/** How often a running call refreshes its claim */
+const HEARTBEAT_INTERVAL_MS = MCP_REQUEST_TIMEOUT_MS / 2;
+
+/** A claim whose heartbeat is older than this belongs to a lost call */
+const ABANDONED_AFTER_MS = MCP_REQUEST_TIMEOUT_MS * 2;
+
+/**
+ * JSON with object keys sorted, so argument order does not change the hash
+ */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(",")}]`;
+  }
+  if (typeof value === "object" && value !== null) {
+    const entries = Object.entries(value)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([key, item]) => `${JSON.stringify(key)}:${canonicalJson(item)}`);
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+}
+
+/**
+ * Fingerprint of a call; the idempotency key itself is not part of it
+ */
+export function hashToolRequest(
+  tool: string,
+  params: Record<string, unknown>,
+): string {
+  const { idempotencyKey: _key, ...rest } = params;
+  return createHash("sha256")
+    .update(canonicalJson({ tool, params: rest }))
+    .digest("hex");
+}
+
+function conflict(
+  reason: IdempotencyConflictReason,
+  message: string,
+  key: string,
+): JsonRpcError {
+  logger.warn("Idempotency key conflict", { reason, key });
+  return new JsonRpcError(JSON_RPC_ERRORS.IDEMPOTENCY_CONFLICT, message, {
+    reason,
+    idempotencyKey: key,
+  });
+}
+
+export class IdempotencyStore {
+  private static instance: IdempotencyStore;
+  private db: ReturnType<typeof DatabaseManager.prototype.getDatabase> | null =
+    null;
+  private lastPurgeAt = 0;
+
+  private constructor() {}
+
+  public static getInstance(): IdempotencyStore {
+    if (!IdempotencyStore.instance) {
+      IdempotencyStore.instance = new IdempotencyStore();
+    }
+    return IdempotencyStore.instance;
+  }
+
+  private getDb(): ReturnType<typeof DatabaseManager.prototype.getDatabase> {
+    if (!this.db) {
+      this.db = DatabaseManager.getInstance().getDatabase();
+    }
+    return this.db;
+  }
+
+  /**
+   * Run a tool call once per key. A retry with the same key and arguments
+   * gets the stored result; failed calls are not stored, so they can be
+   * retried with the same key. The claim is kept alive for as long as the
+   * call runs, which for async jobs and long exec calls can be well past the
+   * request timeout.
+   * @param scope - Owner the key belongs to ("" without authentication)
+   * @throws JsonRpcError IDEMPOTENCY_CONFLICT when the key was used with other
+   *   arguments or its first call is still running
+   */
+  public async run<T>(
+    scope: string,
+    key: string,
+    tool: string,
+    params: Record<string, unknown>,
+    execute: () => Promise<T>,
+  ): Promise<T> {
+    this.purgeExpiredInBackground();
+
+    const requestHash = hashToolRequest(tool, params);
+    const claim = await this.claim(scope, key, tool, requestHash);
+    if (!claim.claimed) {
+      logger.info("Replaying idempotent tool result", { tool, key });
+      return claim.response as T;
+    }
+
+    const heartbeat = setInterval(
+      () => void this.heartbeat(claim.id),
+      HEARTBEAT_INTERVAL_MS,
+    );
+    heartbeat.unref();
+
+    let result: T;
+    try {
+      result = await execute();
+    } catch (error) {
+      await this.release(claim.id);
+      throw error;
+    } finally {
+      clearInterval(heartbeat);
+    }
+
+    await this.complete(claim.id, result);
+    return result;
+  }
+
+  /**
+   * Free a key whose call was interrupted by a crash, so the call can be
+   * replayed right away instead of after it is considered abandoned.
+   * Completed keys are kept; a replay then gets the stored result.
+   */
+  public async releaseInterrupted(scope: string, key: string): Promise<void> {
+    const table = schema.mcpIdempotencyKeys;
+    await this.getDb()
+      .delete(table)
+      .where(
+        and(
+          eq(table.scope, scope),
+          eq(table.key, key),
+          isNull(table.completedAt),
+        ),
+      );
+  }
+
+  /**
+   * Delete keys past their window
+   * @returns Number of keys deleted
+   */
+  public async purgeExpired(): Promise<number> {
+    const table = schema.mcpIdempotencyKeys;
+    const deleted = await this.getDb()
+      .delete(table)
+      .where(lt(table.expiresAt, new Date()))
+      .returning({ id: table.id });
+    return deleted.length;
+  }
+
+  private async claim(
+    scope: string,
+    key: string,
+    tool: string,
+    requestHash: string,
+  ): Promise<
+    { claimed: true; id: string } | { claimed: false; response: unknown }
+  > {
+    const table = schema.mcpIdempotencyKeys;
+    const match = and(eq(table.scope, scope), eq(table.key, key));
+    const now = new Date();
+    // A running call refreshes its heartbeat; one that stopped doing so was
+    // lost (e.g. the server restarted), so its key may be claimed again
+    const abandonedBefore = new Date(now.getTime() - ABANDONED_AFTER_MS);
+
+    try {
+      const db = this.getDb();
+      await db
+        .delete(table)
+        .where(
+          and(
+            match,
+            or(
+              lt(table.expiresAt, now),
+              and(
+                isNull(table.completedAt),
+                lt(table.heartbeatAt, abandonedBefore),
+              ),
+            ),
+          ),
+        );
+
+      const id = randomUUID();
+      const inserted = await db
+        .insert(table)
+        .values({
+          id,
+          scope,
+          key,
+          tool,
+          requestHash,
+          createdAt: now,
+          heartbeatAt: now,
+          expiresAt: new Date(
+            now.getTime() + MCP_IDEMPOTENCY_TTL_SECONDS * 1000,
+          ),
+        })
+        .onConflictDoNothing()
+        .returning({ id: table.id });
+      if (inserted.length > 0) {
+        return { claimed: true, id };
+      }
+
+      const [existing] = await db.select().from(table).where(match).limit(1);
+      if (existing && existing.requestHash !== requestHash) {
+        throw conflict(
+          "params_mismatch",
+          `Idempotency key ${key} was already used with different arguments`,
+          key,
+        );
+      }
+      // Also covers a row deleted between the insert and the select, which
+      // means another call is claiming the key right now
+      if (!existing?.completedAt) {
+        throw conflict(
+          "in_progress",
+          `A call with idempotency key ${key} is still in progress`,
+          key,
+        );
+      }
+      return { claimed: false, response: existing.response };
+    } catch (error) {
+      if (error instanceof JsonRpcError) {
+        throw error;
+      }
+      logger.error("Failed to claim idempotency key", { tool, key, error });
+      throw new OpenCodeError(
+        "IDEMPOTENCY_STORE_FAILED",
+        "Failed to claim idempotency key",
+        { tool, key, error },
+      );
+    }
+  }
+
+  /**
+   * Store the result. A failure here leaves the key claimed until it is
+   * considered abandoned; the call itself already succeeded.
+   */
+  private async complete(id: string, response: unknown): Promise<void> {
+    try {
+      await this.getDb()
+        .update(schema.mcpIdempotencyKeys)
+        .set({ response: response ?? null, completedAt: new Date() })
+        .where(eq(schema.mcpIdempotencyKeys.id, id));
+    } catch (error) {
+      logger.error("Failed to store idempotent tool result", { id, error });
+    }
+  }
+
+  private async heartbeat(id: string): Promise<void> {
+    try {
+      await this.getDb()
+        .update(schema.mcpIdempotencyKeys)
+        .set({ heartbeatAt: new Date() })
+        .where(eq(schema.mcpIdempotencyKeys.id, id));
+    } catch (error) {
+      logger.warn("Failed to refresh idempotency key", { id, error });
+    }
+  }
+
+  private async release(id: string): Promise<void> {
+    try {
+      await this.getDb()
+        .delete(schema.mcpIdempotencyKeys)
+        .where(eq(schema.mcpIdempotencyKeys.id, id));
+    } catch (error) {
+      logger.error("Failed to release idempotency key", { id, error });
+    }
+  }
+
+  private purgeExpiredInBackground(): void {
+    const now = Date.now();
+    if (now - this.lastPurgeAt < PURGE_INTERVAL_MS) {
+      return;
+    }
+    this.lastPurgeAt = now;
+
+    this.purgeExpired()
+      .then((count) => {
+        if (count > 0) {
+          logger.info("Purged expired idempotency keys", { count });
+        }
+      })
+      .catch((error) => {
+        logger.warn("Failed to purge expired idempotency keys", { error });
+      });
+  }
+}
+
+export const idempotencyStore = IdempotencyStore.getInstance();
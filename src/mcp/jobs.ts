@@ -0,0 +1,344 @@
+// MCP Jobs - Tool calls that run in the background (tools/call with async: true)
+// Job rows live in PostgreSQL; the running handlers and their abort controllers in memory
+
+import { randomUUID } from "crypto";
+import { and, desc, eq, notInArray, SQL } from "drizzle-orm";
+import { logger } from "../util/logger";
+import { getErrorMessage } from "../util/errors";
+import { OpenCodeError } from "../types";
+import { DatabaseManager } from "../persistence/database";
+import * as schema from "../persistence/schema";
+import type { McpJobSelect } from "../persistence/schema";
+import { redactParams } from "../audit/redact";
+import { JSON_RPC_ERRORS, JsonRpcError } from "./protocol";
+import type { ToolContext, ToolProgress } from "./server";
+
+export type JobStatus =
+  | "running"
+  | "completed"
+  | "failed"
+  | "cancelled"
+  | "interrupted";
+
+export interface JobInfo {
+  id: string;
+  tool: string;
+  status: JobStatus;
+  owner?: string;
+  agentId?: string;
+  sessionId: string;
+  /** Redacted arguments */
+  params: unknown;
+  progress?: ToolProgress;
+  result?: unknown;
+  error?: string;
+  createdAt: Date;
+  updatedAt: Date;
+  finishedAt?: Date;
+}
+
+export interface JobFilters {
+  owner?: string;
+  status?: JobStatus;
+  tool?: string;
+  limit: number;
+}
+
+interface RunningJob {
+  controller: AbortController;
+  progress?: ToolProgress;
+  lastProgressWrite: number;
+}
+
+/** Progress is written to the database at most this often per job */
+const PROGRESS_WRITE_INTERVAL_MS = 1000;
+
+export class JobManager {
+  private static instance: JobManager;
+  private db: ReturnType<typeof DatabaseManager.prototype.getDatabase> | null =
+    null;
+  private running: Map<string, RunningJob> = new Map();
+
+  private constructor() {}
+
+  public static getInstance(): JobManager {
+    if (!JobManager.instance) {
+      JobManager.instance = new JobManager();
+    }
+    return JobManager.instance;
+  }
+
+  private getDb(): ReturnType<typeof DatabaseManager.prototype.getDatabase> {
+    if (!this.db) {
+      this.db = DatabaseManager.getInstance().getDatabase();
+    }
+    return this.db;
+  }
+
+  /**
+   * Store a job and start its handler without waiting for it
+   * @param run - Runs the tool with the job's context: its own abort signal,
+   *   and progress recorded on the job instead of sent to the client
+   * @throws OpenCodeError JOB_CREATE_FAILED when the job cannot be stored
+   */
+  public async start(
+    tool: string,
+    params: Record<string, unknown>,
+    context: ToolContext,
+    run: (context: ToolContext) => Promise<unknown>,
+  ): Promise<JobInfo> {
+    const now = new Date();
+    const job: JobInfo = {
+      id: randomUUID(),
+      tool,
+      status: "running",
+      owner: context.principal?.owner,
+      agentId: context.principal?.agentId,
+      sessionId: context.sessionId,
+      params: redactParams(params),
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    try {
+      await this.getDb()
+        .insert(schema.mcpJobs)
+        .values({
+          id: job.id,
+          tool,
+          status: job.status,
+          owner: job.owner ?? null,
+          agentId: job.agentId ?? null,
+          sessionId: job.sessionId,
+          params: job.params ?? {},
+          createdAt: now,
+          updatedAt: now,
+        });
+    } catch (error) {
+      logger.error("Failed to create job", { tool, error });
+      throw new OpenCodeError("JOB_CREATE_FAILED", "Failed to create job", {
+        tool,
+        error,
+      });
+    }
+
+    const entry: RunningJob = {
+      controller: new AbortController(),
+      lastProgressWrite: 0,
+    };
+    this.running.set(job.id, entry);
+
+    const jobContext: ToolContext = {
+      ...context,
+      signal: entry.controller.signal,
+      onProgress: (update) => this.recordProgress(job.id, entry, update),
+    };
+
+    logger.info("Job started", { jobId: job.id, tool });
+    run(jobContext).then(
+      (result) => this.finish(job.id, entry, "completed", { result }),
+      (error) =>
+        this.finish(job.id, entry, "failed", {
+          error: getErrorMessage(error),
+        }),
+    );
+
+    return job;
+  }
+
+  /**
+   * Load a job; progress of a running job is taken from memory, so it may be
+   * newer than the stored row
+   */
+  public async get(id: string): Promise<JobInfo | null> {
+    let row: McpJobSelect | undefined;
+    try {
+      [row] = await this.getDb()
+        .select()
+        .from(schema.mcpJobs)
+        .where(eq(schema.mcpJobs.id, id))
+        .limit(1);
+    } catch (error) {
+      logger.error("Failed to load job", { jobId: id, error });
+      throw new OpenCodeError("JOB_QUERY_FAILED", "Failed to load job", {
+        jobId: id,
+        error,
+      });
+    }
+    return row ? this.rowToJob(row) : null;
+  }
+
+  /**
+   * Jobs matching the filters, newest first
+   */
+  public async list(filters: JobFilters): Promise<JobInfo[]> {
+    const table = schema.mcpJobs;
+    const conditions: (SQL | undefined)[] = [
+      filters.owner ? eq(table.owner, filters.owner) : undefined,
+      filters.status ? eq(table.status, filters.status) : undefined,
+      filters.tool ? eq(table.tool, filters.tool) : undefined,
+    ];
+
+    try {
+      const rows = await this.getDb()
+        .select()
+        .from(table)
+        .where(and(...conditions))
+        .orderBy(desc(table.createdAt))
+        .limit(filters.limit);
+      return rows.map((row) => this.rowToJob(row));
+    } catch (error) {
+      logger.error("Failed to list jobs", { filters, error });
+      throw new OpenCodeError("JOB_QUERY_FAILED", "Failed to list jobs", {
+        filters,
+        error,
+      });
+    }
+  }
+
+  /**
+   * Abort a running job. The job is marked cancelled at once; its handler
+   * sees the abort signal and whatever it returns afterwards is discarded.
+   * @returns false when the job is not running in this process
+   */
+  public async cancel(id: string, reason?: string): Promise<boolean> {
+    const entry = this.running.get(id);
+    if (!entry) {
+      return false;
+    }
+
+    const message = reason || "cancelled by client";
+    entry.controller.abort(
+      new JsonRpcError(JSON_RPC_ERRORS.REQUEST_CANCELLED, "Job cancelled", {
+        reason: message,
+      }),
+    );
+    await this.finish(id, entry, "cancelled", { error: message });
+    return true;
+  }
+
+  /**
+   * Mark jobs left running by an earlier process (or a crashed server
+   * instance) as interrupted; jobs still running here are left alone
+   * @returns Number of jobs marked
+   */
+  public async recoverInterrupted(): Promise<number> {
+    const table = schema.mcpJobs;
+    const now = new Date();
+    const runningHere = Array.from(this.running.keys());
+
+    const rows = await this.getDb()
+      .update(table)
+      .set({
+        status: "interrupted",
+        error: "Interrupted by a server restart",
+        updatedAt: now,
+        finishedAt: now,
+      })
+      .where(
+        and(
+          eq(table.status, "running"),
+          runningHere.length > 0
+            ? notInArray(table.id, runningHere)
+            : undefined,
+        ),
+      )
+      .returning({ id: table.id });
+
+    if (rows.length > 0) {
+      logger.warn("Marked interrupted jobs", { count: rows.length });
+    }
+    return rows.length;
+  }
+
+  /**
+   * IDs of the jobs whose handlers are running in this process
+   */
+  public getRunningJobIds(): string[] {
+    return Array.from(this.running.keys());
+  }
+
+  private recordProgress(
+    id: string,
+    entry: RunningJob,
+    update: ToolProgress,
+  ): void {
+    entry.progress = update;
+    const now = Date.now();
+    if (now - entry.lastProgressWrite < PROGRESS_WRITE_INTERVAL_MS) {
+      return;
+    }
+    entry.lastProgressWrite = now;
+
+    this.getDb()
+      .update(schema.mcpJobs)
+      .set({ progress: update, updatedAt: new Date(now) })
+      .where(
+        and(eq(schema.mcpJobs.id, id), eq(schema.mcpJobs.status, "running")),
+      )
+      .catch((error: unknown) => {
+        logger.warn("Failed to store job progress", { jobId: id, error });
+      });
+  }
+
+  /**
+   * Store the outcome; only the first outcome of a job is kept, so a handler
+   * finishing after its job was cancelled does not overwrite it
+   */
+  private async finish(
+    id: string,
+    entry: RunningJob,
+    status: Exclude<JobStatus, "running">,
+    outcome: { result?: unknown; error?: string },
+  ): Promise<void> {
+    if (this.running.get(id) !== entry) {
+      return;
+    }
+    this.running.delete(id);
+
+    const now = new Date();
+    try {
+      await this.getDb()
+        .update(schema.mcpJobs)
+        .set({
+          status,
+          progress: entry.progress ?? null,
+          result: outcome.result ?? null,
+          error: outcome.error ?? null,
+          updatedAt: now,
+          finishedAt: now,
+        })
+        .where(
+          and(eq(schema.mcpJobs.id, id), eq(schema.mcpJobs.status, "running")),
+        );
+      logger.info("Job finished", { jobId: id, status });
+    } catch (error) {
+      logger.error("Failed to store job outcome", { jobId: id, status, error });
+    }
+  }
+
+  private rowToJob(row: McpJobSelect): JobInfo {
+    const progress =
+      this.running.get(row.id)?.progress ??
+      (row.progress as ToolProgress | null) ??
+      undefined;
+
+    return {
+      id: row.id,
+      tool: row.tool,
+      status: row.status,
+      owner: row.owner ?? undefined,
+      agentId: row.agentId ?? undefined,
+      sessionId: row.sessionId,
+      params: row.params,
+      progress,
+      result: row.result ?? undefined,
+      error: row.error ?? undefined,
+      createdAt: row.createdAt,
+      updatedAt: row.updatedAt,
+      finishedAt: row.finishedAt ?? undefined,
+    };
+  }
+}
+
+export const jobManager = JobManager.getInstance();
@@ -0,0 +1,29 @@
+// MCP Limits - Connection, rate and quota rejections
+// Builds the RATE_LIMITED error every limit uses and counts the rejection
+
+import { logger } from "../util/logger";
+import { mcpMetrics } from "../monitoring/metrics";
+import { JSON_RPC_ERRORS, JsonRpcError } from "./protocol";
+
+export type LimitReason =
+  | "connections"
+  | "rate_limit"
+  | "task_quota"
+  | "container_quota";
+
+/**
+ * Record a rejection and build the error returned to the client
+ * @param data - Extra error data, e.g. limit and retryAfterMs
+ */
+export function limitExceeded(
+  reason: LimitReason,
+  message: string,
+  data: Record<string, any> = {},
+): JsonRpcError {
+  mcpMetrics.rejected(reason);
+  logger.warn("MCP request rejected", { reason, ...data });
+  return new JsonRpcError(JSON_RPC_ERRORS.RATE_LIMITED, message, {
+    reason,
+    ...data,
+  });
+}
@@ -0,0 +1,221 @@
+// MCP Protocol - JSON-RPC 2.0 framing for the Model Context Protocol
+// Message types, error codes and parsing shared by all MCP transports
+
+export const JSON_RPC_VERSION = "2.0";
+
+/**
+ * Protocol versions this server can speak, newest first.
+ * The first entry is offered when a client requests an unknown version.
+ */
+export const SUPPORTED_PROTOCOL_VERSIONS = [
+  "2025-06-18",
+  "2025-03-26",
+  "2024-11-05",
+] as const;
+
+export const LATEST_PROTOCOL_VERSION = SUPPORTED_PROTOCOL_VERSIONS[0];
+
+export const SERVER_INFO = {
+  name: "opencode-tools",
+  version: "0.1.0",
+};
+
+/**
+ * JSON-RPC 2.0 error codes.
+ * -32768 to -32000 is reserved by the spec; server errors use -32000 to -32099.
+ */
+export const JSON_RPC_ERRORS = {
+  PARSE_ERROR: -32700,
+  INVALID_REQUEST: -32600,
+  METHOD_NOT_FOUND: -32601,
+  INVALID_PARAMS: -32602,
+  INTERNAL_ERROR: -32603,
+  REQUEST_TIMEOUT: -32001,
+  SERVER_NOT_INITIALIZED: -32002,
+  UNAUTHORIZED: -32003,
+  RATE_LIMITED: -32004,
+  RESOURCE_NOT_FOUND: -32005,
+  REQUEST_CANCELLED: -32006,
+  IDEMPOTENCY_CONFLICT: -32007,
+  REQUEST_INTERRUPTED: -32008,
+} as const;
+
+export type JsonRpcId = string | number;
+
+export interface JsonRpcRequest {
+  jsonrpc: typeof JSON_RPC_VERSION;
+  id: JsonRpcId;
+  method: string;
+  params?: Record<string, any>;
+}
+
+export interface JsonRpcNotification {
+  jsonrpc: typeof JSON_RPC_VERSION;
+  method: string;
+  params?: Record<string, any>;
+}
+
+export interface JsonRpcErrorObject {
+  code: number;
+  message: string;
+  data?: any;
+}
+
+export interface JsonRpcSuccessResponse {
+  jsonrpc: typeof JSON_RPC_VERSION;
+  id: JsonRpcId;
+  result: any;
+}
+
+export interface JsonRpcErrorResponse {
+  jsonrpc: typeof JSON_RPC_VERSION;
+  id: JsonRpcId | null;
+  error: JsonRpcErrorObject;
+}
+
+export type JsonRpcResponse = JsonRpcSuccessResponse | JsonRpcErrorResponse;
+
+export type JsonRpcMessage = JsonRpcRequest | JsonRpcNotification;
+
+/**
+ * Error carrying a JSON-RPC error code, thrown by method handlers and
+ * converted to an error response by the server
+ */
+export class JsonRpcError extends Error {
+  public readonly code: number;
+  public readonly data?: any;
+
+  constructor(code: number, message: string, data?: any) {
+    super(message);
+    this.code = code;
+    this.data = data;
+    this.name = "JsonRpcError";
+  }
+}
+
+/**
+ * Check whether a message expects a response (has an id)
+ */
+export function isJsonRpcRequest(
+  message: JsonRpcMessage,
+): message is JsonRpcRequest {
+  return "id" in message && message.id !== undefined && message.id !== null;
+}
+
+/**
+ * Parse a raw payload into its JSON-RPC entries (one, or several for a batch).
+ * Entries are not validated here so each can fail independently.
+ * @throws JsonRpcError with PARSE_ERROR or INVALID_REQUEST
+ */
+export function parseJsonRpcPayload(raw: string): {
+  entries: unknown[];
+  isBatch: boolean;
+} {
+  let payload: unknown;
+  try {
+    payload = JSON.parse(raw);
+  } catch (error: unknown) {
+    throw new JsonRpcError(JSON_RPC_ERRORS.PARSE_ERROR, "Parse error", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+
+  if (Array.isArray(payload)) {
+    if (payload.length === 0) {
+      throw new JsonRpcError(
+        JSON_RPC_ERRORS.INVALID_REQUEST,
+        "Invalid Request: empty batch",
+      );
+    }
+    return { entries: payload, isBatch: true };
+  }
+
+  return { entries: [payload], isBatch: false };
+}
+
+/**
+ * Validate the shape of a single JSON-RPC request or notification
+ * @throws JsonRpcError with INVALID_REQUEST
+ */
+export function validateJsonRpcMessage(value: unknown): JsonRpcMessage {
+  if (typeof value !== "object" || value === null) {
+    throw new JsonRpcError(
+      JSON_RPC_ERRORS.INVALID_REQUEST,
+      "Invalid Request: message must be an object",
+    );
+  }
+
+  const message = value as Record<string, any>;
+
+  if (message.jsonrpc !== JSON_RPC_VERSION) {
+    throw new JsonRpcError(
+      JSON_RPC_ERRORS.INVALID_REQUEST,
+      'Invalid Request: jsonrpc must be "2.0"',
+    );
+  }
+
+  if (typeof message.method !== "string" || message.method.length === 0) {
+    throw new JsonRpcError(
+      JSON_RPC_ERRORS.INVALID_REQUEST,
+      "Invalid Request: method must be a non-empty string",
+    );
+  }
+
+  if (
+    message.id !== undefined &&
+    message.id !== null &&
+    typeof message.id !== "string" &&
+    typeof message.id !== "number"
+  ) {
+    throw new JsonRpcError(
+      JSON_RPC_ERRORS.INVALID_REQUEST,
+      "Invalid Request: id must be a string or number",
+    );
+  }
+
+  if (
+    message.params !== undefined &&
+    (typeof message.params !== "object" || message.params === null)
+  ) {
+    throw new JsonRpcError(
+      JSON_RPC_ERRORS.INVALID_REQUEST,
+      "Invalid Request: params must be an object",
+    );
+  }
+
+  return message as JsonRpcMessage;
+}
+
+export function createSuccessResponse(
+  id: JsonRpcId,
+  result: any,
+): JsonRpcSuccessResponse {
+  return { jsonrpc: JSON_RPC_VERSION, id, result };
+}
+
+export function createErrorResponse(
+  id: JsonRpcId | null,
+  code: number,
+  message: string,
+  data?: any,
+): JsonRpcErrorResponse {
+  const error: JsonRpcErrorObject = { code, message };
+  if (data !== undefined) {
+    error.data = data;
+  }
+  return { jsonrpc: JSON_RPC_VERSION, id, error };
+}
+
+/**
+ * Pick the protocol version to use for a session.
+ * Echo the client's version when supported, otherwise offer our latest.
+ */
+export function negotiateProtocolVersion(requested: unknown): string {
+  if (
+    typeof requested === "string" &&
+    (SUPPORTED_PROTOCOL_VERSIONS as readonly string[]).includes(requested)
+  ) {
+    return requested;
+  }
+  return LATEST_PROTOCOL_VERSION;
+}
@@ -0,0 +1,60 @@
+// MCP Quotas - Per-owner limits on active tasks and containers
+// Checked by tools before they create resources
+
+import { taskRegistry } from "../task-registry/registry";
+import type { Task, TaskStatus } from "../types";
+import {
+  MCP_MAX_CONTAINERS_PER_OWNER,
+  MCP_MAX_TASKS_PER_OWNER,
+} from "../config";
+import { limitExceeded } from "./limits";
+
+// Paused and blocked tasks keep their containers, so they count too
+const ACTIVE_STATUSES: TaskStatus[] = [
+  "pending",
+  "running",
+  "paused",
+  "blocked",
+];
+
+/**
+ * Check an owner can create another task (and, with a container, another
+ * container). Pending (including those waiting for prerequisites), running,
+ * paused and blocked tasks count against the quota.
+ * @throws JsonRpcError RATE_LIMITED when a quota is used up
+ */
+export async function assertOwnerQuota(
+  owner: string | undefined,
+  options: { container: boolean },
+): Promise<void> {
+  if (!owner || (!MCP_MAX_TASKS_PER_OWNER && !MCP_MAX_CONTAINERS_PER_OWNER)) {
+    return;
+  }
+
+  // Active tasks are bounded by the quota, so listing them stays cheap
+  const active: Task[] = [];
+  for (const status of ACTIVE_STATUSES) {
+    active.push(...(await taskRegistry.list({ owner, status })));
+  }
+
+  if (MCP_MAX_TASKS_PER_OWNER && active.length >= MCP_MAX_TASKS_PER_OWNER) {
+    throw limitExceeded(
+      "task_quota",
+      `Task quota exceeded for owner ${owner}`,
+      { owner, limit: MCP_MAX_TASKS_PER_OWNER, current: active.length },
+    );
+  }
+
+  if (options.container && MCP_MAX_CONTAINERS_PER_OWNER) {
+    const containers = active.filter(
+      (task) => task.metadata?.containerId,
+    ).length;
+    if (containers >= MCP_MAX_CONTAINERS_PER_OWNER) {
+      throw limitExceeded(
+        "container_quota",
+        `Container quota exceeded for owner ${owner}`,
+        { owner, limit: MCP_MAX_CONTAINERS_PER_OWNER, current: containers },
+      );
+    }
+  }
+}
@@ -0,0 +1,245 @@
+// MCP Request Journal - Accepted tool calls and their responses, appended to a file
+// After a crash the server answers finished calls from it and replays or fails the rest
+
+import * as fs from "fs";
+import * as path from "path";
+import { logger } from "../util/logger";
+import { MCP_REQUEST_JOURNAL_PATH } from "../config";
+import { hasSecretParams } from "../audit/redact";
+import type { AuthPrincipal } from "../auth/api-keys";
+import type { JsonRpcId, JsonRpcResponse } from "./protocol";
+import type { MCPTransportType } from "./server";
+
+/** Recovered answers are kept this long for clients to come back for them */
+const RECOVERED_RETENTION_MS = 15 * 60 * 1000;
+
+export interface JournalEntry {
+  /** sessionId:requestId */
+  key: string;
+  sessionId: string;
+  requestId: JsonRpcId;
+  transport: MCPTransportType;
+  /** Lets the session be restored, so HTTP clients can keep using it */
+  protocolVersion?: string;
+  principal?: AuthPrincipal;
+  tool: string;
+  /**
+   * The tools/call params; only kept for idempotent calls without secrets,
+   * which are replayed when they did not finish
+   */
+  params?: Record<string, any>;
+  idempotent: boolean;
+  acceptedAt: string;
+  response?: JsonRpcResponse;
+  finishedAt?: string;
+}
+
+/** A line is an entry snapshot (the last one per key wins) or a removal */
+type JournalRecord = JournalEntry | { key: string; removed: true };
+
+export class RequestJournal {
+  private static instance: RequestJournal;
+  private readonly filePath: string | null;
+  // Calls accepted by this process that have not finished
+  private pending: Map<string, JournalEntry> = new Map();
+  // Calls of a previous process whose answer was not delivered yet
+  private recovered: Map<string, JournalEntry> = new Map();
+  private recoveredAt = 0;
+  private dirty = false;
+  private directoryReady = false;
+  private loaded = false;
+
+  private constructor() {
+    this.filePath = MCP_REQUEST_JOURNAL_PATH
+      ? path.resolve(MCP_REQUEST_JOURNAL_PATH)
+      : null;
+  }
+
+  public static getInstance(): RequestJournal {
+    if (!RequestJournal.instance) {
+      RequestJournal.instance = new RequestJournal();
+    }
+    return RequestJournal.instance;
+  }
+
+  public get enabled(): boolean {
+    return this.filePath !== null;
+  }
+
+  /**
+   * Record a call before it runs. Arguments holding secrets (e.g. an exec
+   * call's env) are never written; such a call is not replayed but answered
+   * as interrupted.
+   */
+  public accept(entry: Omit<JournalEntry, "acceptedAt">): void {
+    if (!this.enabled) {
+      return;
+    }
+    const replayable = entry.idempotent && !hasSecretParams(entry.params);
+    const accepted: JournalEntry = {
+      ...entry,
+      params: replayable ? entry.params : undefined,
+      idempotent: replayable,
+      acceptedAt: new Date().toISOString(),
+    };
+    this.pending.set(entry.key, accepted);
+    this.append(accepted);
+  }
+
+  /**
+   * Record the response of a call, whether it was accepted by this process
+   * or recovered from a previous one
+   */
+  public finish(key: string, response: JsonRpcResponse): void {
+    if (!this.enabled) {
+      return;
+    }
+    const entry = this.pending.get(key) ?? this.recovered.get(key);
+    if (!entry) {
+      return;
+    }
+
+    const finished: JournalEntry = {
+      ...entry,
+      response,
+      finishedAt: new Date().toISOString(),
+    };
+    if (this.pending.delete(key)) {
+      // Answered by this process; the line only matters if it dies before
+      // the response is sent
+      this.append(finished);
+      return;
+    }
+    this.recovered.set(key, finished);
+    this.append(finished);
+  }
+
+  /**
+   * Load the calls a previous process accepted but whose answers were never
+   * delivered, and compact the file
+   * @returns Entries with a response (finished before the crash) and without
+   *   one (interrupted)
+   */
+  public recover(): JournalEntry[] {
+    // After an in-process restart the file also holds this process's calls,
+    // which are running or were answered
+    if (this.loaded) {
+      return [...this.recovered.values()];
+    }
+    this.loaded = true;
+    if (!this.filePath || !fs.existsSync(this.filePath)) {
+      return [];
+    }
+
+    const entries = new Map<string, JournalEntry>();
+    let corrupt = 0;
+    for (const line of fs.readFileSync(this.filePath, "utf8").split("\n")) {
+      if (!line.trim()) {
+        continue;
+      }
+      try {
+        const record = JSON.parse(line) as JournalRecord;
+        if ("removed" in record) {
+          entries.delete(record.key);
+        } else {
+          entries.set(record.key, record);
+        }
+      } catch {
+        // A crash can leave the last line half written
+        corrupt++;
+      }
+    }
+    if (corrupt > 0) {
+      logger.warn("Skipped unreadable request journal lines", { corrupt });
+    }
+
+    this.recovered = entries;
+    this.recoveredAt = Date.now();
+    this.dirty = true;
+    this.compact();
+
+    return [...entries.values()];
+  }
+
+  /**
+   * A recovered call, if its answer has not been delivered yet
+   */
+  public getRecovered(key: string): JournalEntry | undefined {
+    return this.recovered.get(key);
+  }
+
+  /**
+   * Recovered calls of one session
+   */
+  public getRecoveredForSession(sessionId: string): JournalEntry[] {
+    return [...this.recovered.values()].filter(
+      (entry) => entry.sessionId === sessionId,
+    );
+  }
+
+  /**
+   * Forget a recovered call once its answer was sent
+   */
+  public delivered(key: string): void {
+    if (this.recovered.delete(key)) {
+      this.append({ key, removed: true });
+    }
+  }
+
+  /**
+   * Rewrite the file with only the calls still needed: those in flight and
+   * recovered ones within their retention
+   */
+  public compact(): void {
+    if (!this.filePath || !this.dirty) {
+      return;
+    }
+    if (
+      this.recovered.size > 0 &&
+      Date.now() - this.recoveredAt > RECOVERED_RETENTION_MS
+    ) {
+      logger.info("Dropping undelivered recovered requests", {
+        count: this.recovered.size,
+      });
+      this.recovered.clear();
+    }
+
+    try {
+      const lines = [...this.recovered.values(), ...this.pending.values()].map(
+        (entry) => JSON.stringify(entry) + "\n",
+      );
+      const tempFile = path.join(
+        path.dirname(this.filePath),
+        `.tmp-${path.basename(this.filePath)}-${Date.now()}`,
+      );
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      fs.writeFileSync(tempFile, lines.join(""));
+      fs.renameSync(tempFile, this.filePath);
+      this.dirty = false;
+    } catch (error: unknown) {
+      logger.warn("Failed to compact request journal", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  private append(record: JournalRecord): void {
+    try {
+      if (!this.directoryReady) {
+        fs.mkdirSync(path.dirname(this.filePath!), { recursive: true });
+        this.directoryReady = true;
+      }
+      fs.appendFileSync(this.filePath!, JSON.stringify(record) + "\n");
+      this.dirty = true;
+    } catch (error: unknown) {
+      // The call itself goes on; it just cannot be recovered after a crash
+      logger.warn("Failed to write request journal", {
+        key: record.key,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+}
+
+// Export singleton instance
+export const requestJournal = RequestJournal.getInstance();
@@ -0,0 +1,240 @@
+// MCP Resources - Task artifacts addressed as task://<taskId>/<artifact>
+// Plan, logs, decisions, state and checkpoint manifests from MultiLayerPersistence
+
+import { taskRegistry } from "../task-registry/registry";
+import { multiLayerPersistence } from "../persistence/multi-layer";
+import type { TaskArtifact } from "../persistence/artifact-events";
+import { OpenCodeError } from "../types";
+import { getReadableTask, resolveOwner } from "./access";
+import { JSON_RPC_ERRORS, JsonRpcError } from "./protocol";
+import type { ToolContext } from "./server";
+
+/** Tasks per resources/list page; each task contributes every artifact */
+const TASKS_PER_PAGE = 20;
+
+const TASK_ARTIFACTS: Record<
+  TaskArtifact,
+  { description: string; mimeType: string }
+> = {
+  plan: { description: "Task plan (Plan.md)", mimeType: "text/markdown" },
+  logs: {
+    description: "Task log entries, one JSON object per line",
+    mimeType: "application/x-ndjson",
+  },
+  decisions: {
+    description: "Agent decisions (decisions.md)",
+    mimeType: "text/markdown",
+  },
+  state: {
+    description: "Current task state (state.json)",
+    mimeType: "application/json",
+  },
+  checkpoints: {
+    description: "Checkpoint manifests, newest first",
+    mimeType: "application/json",
+  },
+};
+
+export const TASK_RESOURCE_TEMPLATES = [
+  {
+    uriTemplate: "task://{taskId}/{artifact}",
+    name: "Task artifact",
+    description:
+      "artifact is one of plan, logs, decisions, state or checkpoints",
+  },
+  {
+    uriTemplate: "task://{taskId}/checkpoints/{checkpointId}",
+    name: "Checkpoint manifest",
+    mimeType: "application/json",
+  },
+];
+
+export interface TaskResourceRef {
+  taskId: string;
+  artifact: TaskArtifact;
+  /** Only for task://<taskId>/checkpoints/<checkpointId> */
+  checkpointId?: string;
+}
+
+export interface ResourceContents {
+  uri: string;
+  mimeType: string;
+  text: string;
+}
+
+export function taskResourceUri(
+  taskId: string,
+  artifact: TaskArtifact,
+  checkpointId?: string,
+): string {
+  const uri = `task://${encodeURIComponent(taskId)}/${artifact}`;
+  return checkpointId ? `${uri}/${encodeURIComponent(checkpointId)}` : uri;
+}
+
+/**
+ * @throws JsonRpcError INVALID_PARAMS for URIs outside the task:// scheme
+ */
+export function parseTaskResourceUri(uri: unknown): TaskResourceRef {
+  const match =
+    typeof uri === "string"
+      ? /^task:\/\/([^/]+)\/([a-z]+)(?:\/([^/]+))?$/.exec(uri)
+      : null;
+  const artifact = match?.[2];
+
+  if (
+    !match ||
+    !artifact ||
+    !Object.hasOwn(TASK_ARTIFACTS, artifact) ||
+    (match[3] !== undefined && artifact !== "checkpoints")
+  ) {
+    throw new JsonRpcError(
+      JSON_RPC_ERRORS.INVALID_PARAMS,
+      `Unknown resource URI: ${String(uri)}`,
+      { uri },
+    );
+  }
+
+  try {
+    return {
+      taskId: decodeURIComponent(match[1] as string),
+      artifact: artifact as TaskArtifact,
+      checkpointId:
+        match[3] === undefined ? undefined : decodeURIComponent(match[3]),
+    };
+  } catch {
+    throw new JsonRpcError(
+      JSON_RPC_ERRORS.INVALID_PARAMS,
+      `Malformed resource URI: ${uri}`,
+      { uri },
+    );
+  }
+}
+
+/**
+ * Resolve a URI to a task the caller may read
+ * @throws JsonRpcError RESOURCE_NOT_FOUND for unknown or inaccessible tasks
+ */
+export async function resolveTaskResource(
+  uri: unknown,
+  context?: ToolContext,
+): Promise<TaskResourceRef> {
+  const ref = parseTaskResourceUri(uri);
+
+  try {
+    await getReadableTask(ref.taskId, context);
+  } catch (error) {
+    throw new JsonRpcError(
+      JSON_RPC_ERRORS.RESOURCE_NOT_FOUND,
+      error instanceof Error ? error.message : String(error),
+      { uri },
+    );
+  }
+
+  return ref;
+}
+
+/**
+ * One page of resources: every artifact of each task the caller can see
+ * @param cursor - nextCursor from the previous page
+ */
+export async function listTaskResources(
+  context?: ToolContext,
+  cursor?: unknown,
+): Promise<{ resources: Record<string, any>[]; nextCursor?: string }> {
+  if (cursor !== undefined && typeof cursor !== "string") {
+    throw new JsonRpcError(
+      JSON_RPC_ERRORS.INVALID_PARAMS,
+      "Invalid params: cursor must be a string",
+    );
+  }
+
+  let page;
+  try {
+    page = await taskRegistry.listPage({
+      owner: resolveOwner(undefined, context),
+      limit: TASKS_PER_PAGE,
+      cursor,
+    });
+  } catch (error) {
+    if (error instanceof OpenCodeError && error.code === "INVALID_CURSOR") {
+      throw new JsonRpcError(JSON_RPC_ERRORS.INVALID_PARAMS, error.message);
+    }
+    throw error;
+  }
+
+  const resources = page.tasks.flatMap((task) =>
+    (Object.keys(TASK_ARTIFACTS) as TaskArtifact[]).map((artifact) => ({
+      uri: taskResourceUri(task.id, artifact),
+      name: `${task.name}: ${artifact}`,
+      description: TASK_ARTIFACTS[artifact].description,
+      mimeType: TASK_ARTIFACTS[artifact].mimeType,
+    })),
+  );
+
+  return page.nextCursor
+    ? { resources, nextCursor: page.nextCursor }
+    : { resources };
+}
+
+/**
+ * Read a task artifact. Artifacts that were not written yet read as empty.
+ */
+export async function readTaskResource(
+  uri: unknown,
+  context?: ToolContext,
+): Promise<{ contents: ResourceContents[] }> {
+  const ref = await resolveTaskResource(uri, context);
+  const { taskId, checkpointId } = ref;
+  const contents = (text: string): { contents: ResourceContents[] } => ({
+    contents: [
+      {
+        uri: taskResourceUri(taskId, ref.artifact, checkpointId),
+        mimeType: checkpointId
+          ? "application/json"
+          : TASK_ARTIFACTS[ref.artifact].mimeType,
+        text,
+      },
+    ],
+  });
+
+  switch (ref.artifact) {
+    case "plan":
+      return contents((await multiLayerPersistence.loadPlan(taskId)) ?? "");
+    case "decisions":
+      return contents(
+        (await multiLayerPersistence.loadDecisionsMarkdown(taskId)) ?? "",
+      );
+    case "logs": {
+      const logs = await multiLayerPersistence.loadLogs(taskId);
+      return contents(
+        logs.map((entry) => JSON.stringify(entry) + "\n").join(""),
+      );
+    }
+    case "state":
+      return contents(
+        JSON.stringify(await multiLayerPersistence.loadState(taskId), null, 2),
+      );
+    case "checkpoints": {
+      const checkpoints = await multiLayerPersistence.listCheckpoints(taskId);
+      if (!checkpointId) {
+        return contents(
+          JSON.stringify(
+            checkpoints.map((checkpoint) => checkpoint.manifest),
+            null,
+            2,
+          ),
+        );
+      }
+
+      const checkpoint = checkpoints.find((item) => item.id === checkpointId);
+      if (!checkpoint) {
+        throw new JsonRpcError(
+          JSON_RPC_ERRORS.RESOURCE_NOT_FOUND,
+          `Checkpoint not found: ${checkpointId}`,
+          { uri },
+        );
+      }
+      return contents(JSON.stringify(checkpoint.manifest, null, 2));
+    }
+  }
+}
@@ -0,0 +1,145 @@
+// MCP Tool Schemas - zod input schemas published as JSON Schema
+// Converts the subset of zod used by tool definitions and formats validation errors
+
+import { z } from "zod";
+
+export type JsonSchema = Record<string, any>;
+
+/**
+ * A single field-level validation failure, reported in the error data
+ */
+export interface FieldError {
+  path: string;
+  message: string;
+  code: string;
+}
+
+/**
+ * Convert a zod schema to JSON Schema for tools/list.
+ * Supports the types tool inputs use; anything else becomes an open schema.
+ */
+export function zodToJsonSchema(schema: z.ZodTypeAny): JsonSchema {
+  const json = convert(schema);
+  if (schema.description && json.description === undefined) {
+    json.description = schema.description;
+  }
+  return json;
+}
+
+function convert(schema: z.ZodTypeAny): JsonSchema {
+  if (schema instanceof z.ZodOptional || schema instanceof z.ZodNullable) {
+    const inner = zodToJsonSchema(schema.unwrap());
+    return schema instanceof z.ZodNullable
+      ? { anyOf: [inner, { type: "null" }] }
+      : inner;
+  }
+
+  if (schema instanceof z.ZodDefault) {
+    return {
+      ...zodToJsonSchema(schema._def.innerType),
+      default: schema._def.defaultValue(),
+    };
+  }
+
+  if (schema instanceof z.ZodEffects) {
+    return zodToJsonSchema(schema.innerType());
+  }
+
+  if (schema instanceof z.ZodObject) {
+    const properties: Record<string, JsonSchema> = {};
+    const required: string[] = [];
+
+    for (const [key, value] of Object.entries(
+      schema.shape as Record<string, z.ZodTypeAny>,
+    )) {
+      properties[key] = zodToJsonSchema(value);
+      if (!value.isOptional()) {
+        required.push(key);
+      }
+    }
+
+    const json: JsonSchema = { type: "object", properties };
+    if (required.length > 0) {
+      json.required = required;
+    }
+    if (schema._def.unknownKeys === "strict") {
+      json.additionalProperties = false;
+    }
+    return json;
+  }
+
+  if (schema instanceof z.ZodString) {
+    const json: JsonSchema = { type: "string" };
+    for (const check of schema._def.checks) {
+      if (check.kind === "min") json.minLength = check.value;
+      if (check.kind === "max") json.maxLength = check.value;
+      if (check.kind === "regex") json.pattern = check.regex.source;
+      if (check.kind === "datetime") json.format = "date-time";
+    }
+    return json;
+  }
+
+  if (schema instanceof z.ZodNumber) {
+    const json: JsonSchema = { type: "number" };
+    for (const check of schema._def.checks) {
+      if (check.kind === "int") json.type = "integer";
+      if (check.kind === "min") {
+        json[check.inclusive ? "minimum" : "exclusiveMinimum"] = check.value;
+      }
+      if (check.kind === "max") {
+        json[check.inclusive ? "maximum" : "exclusiveMaximum"] = check.value;
+      }
+    }
+    return json;
+  }
+
+  if (schema instanceof z.ZodBoolean) {
+    return { type: "boolean" };
+  }
+
+  if (schema instanceof z.ZodArray) {
+    const json: JsonSchema = {
+      type: "array",
+      items: zodToJsonSchema(schema.element),
+    };
+    if (schema._def.minLength) json.minItems = schema._def.minLength.value;
+    if (schema._def.maxLength) json.maxItems = schema._def.maxLength.value;
+    return json;
+  }
+
+  if (schema instanceof z.ZodRecord) {
+    return {
+      type: "object",
+      additionalProperties: zodToJsonSchema(schema._def.valueType),
+    };
+  }
+
+  if (schema instanceof z.ZodEnum) {
+    return { type: "string", enum: [...schema.options] };
+  }
+
+  if (schema instanceof z.ZodLiteral) {
+    return { const: schema.value };
+  }
+
+  if (schema instanceof z.ZodUnion) {
+    return {
+      anyOf: (schema.options as z.ZodTypeAny[]).map((option) =>
+        zodToJsonSchema(option),
+      ),
+    };
+  }
+
+  return {};
+}
+
+/**
+ * Flatten zod issues into field-level errors ("command", "env.PATH", ...)
+ */
+export function formatValidationErrors(error: z.ZodError): FieldError[] {
+  return error.issues.map((issue) => ({
+    path: issue.path.length > 0 ? issue.path.join(".") : "(root)",
+    message: issue.message,
+    code: issue.code,
+  }));
+}
@@ -2,66 +2,137 @@
 // Enhanced server with crash recovery capabilities and tool registration
 
 import { createServer, Server as HttpServer, IncomingMessage, ServerResponse } from 'http';
-import { logger } from '../util/logger';
-import { MCP_PORT, MCP_HOST, MCP_MAX_CONNECTIONS, MCP_REQUEST_TIMEOUT_MS } from '../config';
+import { randomUUID } from 'crypto';
+import { z } from 'zod';
+import { logger, useStderrForConsole } from '../util/logger';
+import {
+  MCP_PORT,
+  MCP_HOST,
+  MCP_MAX_CONNECTIONS,
+  MCP_REQUEST_TIMEOUT_MS,
+  MCP_TRANSPORT,
+  MCP_AUTH_REQUIRED,
+  MCP_API_KEY,
+  MCP_CORS_ORIGINS,
+  MCP_RATE_LIMIT_BURST,
+  MCP_RATE_LIMIT_PER_MINUTE,
+  MCP_SESSION_IDLE_TIMEOUT_MS,
+} from '../config';
 import { stateValidator } from '../util/state-validator';
 import { OpenCodeError } from '../types';
+import { apiKeyStore, AuthPrincipal } from '../auth/api-keys';
+import { mcpMetrics } from '../monitoring/metrics';
+import { TokenBucketRateLimiter } from '../util/rate-limiter';
+import { taskArtifactEvents, TaskArtifactChange } from '../persistence/artifact-events';
+import { toolAuditLog } from '../audit/tool-audit';
+import { redactParams, summarizeResult } from '../audit/redact';
+import { TOOL_DEFINITIONS } from './tools';
+import { jobManager, JobInfo } from './jobs';
+import { idempotencyStore } from './idempotency';
+import { requestJournal, JournalEntry } from './request-journal';
+import { pluginLoader } from '../plugins/loader';
+import {
+  TASK_RESOURCE_TEMPLATES,
+  listTaskResources,
+  parseTaskResourceUri,
+  readTaskResource,
+  resolveTaskResource,
+  taskResourceUri,
+} from './resources';
+import { StdioTransport } from './stdio-transport';
+import { formatValidationErrors, zodToJsonSchema } from './schema';
+import { limitExceeded } from './limits';
+import {
+  JSON_RPC_ERRORS,
+  JsonRpcError,
+  JsonRpcId,
+  JsonRpcMessage,
+  JsonRpcNotification,
+  JsonRpcRequest,
+  JsonRpcResponse,
+  SERVER_INFO,
+  createErrorResponse,
+  createSuccessResponse,
+  isJsonRpcRequest,
+  negotiateProtocolVersion,
+  parseJsonRpcPayload,
+  validateJsonRpcMessage,
+} from './protocol';
+
+export type MCPTransportType = 'http' | 'stdio';
 
 export interface MCPRequest {
-  id: string;
+  id: JsonRpcId;
+  sessionId: string;
   method: string;
   params?: Record<string, any>;
   timestamp: Date;
-}
-
-export interface MCPResponse {
-  id: string;
-  result?: any;
-  error?: {
-    code: number;
-    message: string;
-    data?: any;
-  };
-  timestamp: Date;
+  /**
+   * A cancelled or timed-out request is answered at once but stays listed
+   * until its handler stops
+   */
+  status: 'running' | 'cancelled' | 'timed_out';
+  controller: AbortController;
 }
 
 export interface MCPTool {
   name: string;
   description: string;
-  execute: (params: Record<string, any>) => Promise<any>;
+  /** Arguments are validated against this before execute; published in tools/list */
+  inputSchema?: z.ZodTypeAny;
+  execute: (params: Record<string, any>, context?: ToolContext) => Promise<any>;
 }
 
-export const TOOL_DEFINITIONS: MCPTool[] = [
-  {
-    name: 'create_task_sandbox',
-    description: 'Create a new task sandbox with Docker container',
-    execute: async (params: Record<string, any>) => {
-      return { status: 'ok', taskId: params.taskId || 'default', message: 'Task sandbox created' };
-    }
-  },
-  {
-    name: 'attach_agent_to_task',
-    description: 'Attach an AI agent to an existing task',
-    execute: async (params: Record<string, any>) => {
-      return { status: 'ok', agentId: params.agentId || 'default', message: 'Agent attached' };
-    }
-  },
-  {
-    name: 'detach_agent_from_task',
-    description: 'Detach an agent from a task',
-    execute: async (params: Record<string, any>) => {
-      return { status: 'ok', message: 'Agent detached' };
-    }
-  },
-  {
-    name: 'execute_in_task',
-    description: 'Execute a command in a task container',
-    execute: async (params: Record<string, any>) => {
-      const command = params.command || 'echo hello';
-      return { status: 'ok', output: 'Executed: ' + command, message: 'Command executed' };
-    }
-  }
-];
+/**
+ * Per-call context handed to tool implementations
+ */
+export interface ToolContext {
+  requestId: JsonRpcId;
+  sessionId: string;
+  /** Authenticated caller; absent only when MCP_AUTH_REQUIRED is false */
+  principal?: AuthPrincipal;
+  /** Present only when the client sent params._meta.progressToken */
+  onProgress?: (update: ToolProgress) => void;
+  /** Aborted when the client cancels the request or it times out */
+  signal?: AbortSignal;
+}
+
+/**
+ * Payload of an MCP notifications/progress message (minus the token).
+ * progress must increase with every update.
+ */
+export interface ToolProgress {
+  progress: number;
+  total?: number;
+  message?: string;
+  _meta?: Record<string, any>;
+}
+
+/**
+ * Delivers server-to-client notifications on the transport a request came in on.
+ * Also carries responses recovered after a crash, whose original request is gone.
+ */
+export type NotificationSender = (message: JsonRpcNotification | JsonRpcResponse) => void;
+
+/**
+ * A negotiated MCP session (one per stdio connection, one per HTTP Mcp-Session-Id)
+ */
+export interface MCPSession {
+  id: string;
+  transport: MCPTransportType;
+  protocolVersion?: string;
+  clientInfo?: { name: string; version: string };
+  clientCapabilities?: Record<string, any>;
+  principal?: AuthPrincipal;
+  initialized: boolean;
+  createdAt: Date;
+  /** Last HTTP request on the session; idle HTTP sessions are closed */
+  lastActivityAt: Date;
+  /** Resource URIs the client subscribed to */
+  subscriptions: Set<string>;
+  /** Channel for server-initiated notifications: stdio, or the HTTP GET event stream */
+  notify?: NotificationSender;
+}
 
 export interface ServerState {
   tools: Record<string, MCPTool>;
@@ -71,9 +142,34 @@ export interface ServerState {
   crashCount: number;
 }
 
+const SESSION_HEADER = 'mcp-session-id';
+/** Tools that manage jobs answer at once and cannot run as one */
+const JOB_TOOLS = new Set(['get_job', 'list_jobs', 'cancel_job']);
+const API_KEY_HEADER = 'x-api-key';
+
+/**
+ * Answer to a tools/call accepted before a crash, waiting for its client
+ */
+interface RecoveredRequest {
+  sessionId: string;
+  tool: string;
+  /** Settles once an interrupted idempotent call has been run again */
+  response: Promise<JsonRpcResponse>;
+}
+
 export class MCPServerEnhanced {
   private static instance: MCPServerEnhanced;
   private server: HttpServer | null = null;
+  private stdioTransport: StdioTransport | null = null;
+  private transport: MCPTransportType = MCP_TRANSPORT;
+  private sessions: Map<string, MCPSession> = new Map();
+  private allowedOrigins: string[] = MCP_CORS_ORIGINS.split(',').map(origin => origin.trim()).filter(Boolean);
+  private rateLimiter = new TokenBucketRateLimiter(MCP_RATE_LIMIT_BURST, MCP_RATE_LIMIT_PER_MINUTE);
+  private openConnections = 0;
+  /** Open event streams by session ID */
+  private eventStreams: Map<string, ServerResponse> = new Map();
+  private stopArtifactEvents?: () => void;
+  private recoveredRequests: Map<string, RecoveredRequest> = new Map();
   private state: ServerState;
   private healthCheckInterval?: NodeJS.Timeout;
   private isShuttingDown = false;
@@ -115,26 +211,80 @@ export class MCPServerEnhanced {
       await this.loadState();
       
       TOOL_DEFINITIONS.forEach(tool => this.registerTool(tool));
+
+      await this.unloadPlugins();
+      await pluginLoader.loadAll({ reservedToolNames: TOOL_DEFINITIONS.map(tool => tool.name) });
+      pluginLoader.getTools().forEach(tool => this.registerTool(tool));
+
+      // Tools must be registered first, so interrupted calls can be run again
+      this.recoverRequests();
+
+      // Jobs left running by a crashed process will never finish
+      await jobManager.recoverInterrupted().catch(error => {
+        logger.warn('Failed to mark interrupted jobs', { error });
+      });
+
+      this.stopArtifactEvents?.();
+      this.stopArtifactEvents = taskArtifactEvents.onChange(change => this.publishResourceUpdate(change));
       
       this.server = createServer(this.handleRequest.bind(this));
+      this.server.on('connection', socket => {
+        this.openConnections++;
+        mcpMetrics.connections(this.openConnections);
+        socket.on('close', () => {
+          this.openConnections--;
+          mcpMetrics.connections(this.openConnections);
+        });
+      });
       
       this.startHealthMonitoring();
       
-      logger.info('Enhanced MCP Server initialized with ' + TOOL_DEFINITIONS.length + ' tools');
+      logger.info('Enhanced MCP Server initialized with ' + Object.keys(this.state.tools).length + ' tools');
     } catch (error) {
       logger.error('Failed to initialize Enhanced MCP Server', { error });
       throw error;
     }
   }
 
-  public async start(): Promise<void> {
+  /**
+   * Start serving on the given transport (defaults to MCP_TRANSPORT)
+   */
+  public async start(transport: MCPTransportType = this.transport): Promise<void> {
+    this.transport = transport;
+
+    if (transport === 'stdio') {
+      useStderrForConsole();
+      // stdio has no headers, so the key comes from the environment
+      const principal = MCP_API_KEY ? await apiKeyStore.authenticate(MCP_API_KEY) : null;
+      if (!principal && MCP_AUTH_REQUIRED) {
+        throw new OpenCodeError(
+          'UNAUTHORIZED',
+          MCP_API_KEY ? 'MCP_API_KEY is invalid or revoked' : 'MCP_API_KEY is required for the stdio transport',
+        );
+      }
+      const session = this.createSession('stdio', principal || undefined);
+      const stdioTransport = new StdioTransport();
+      this.stdioTransport = stdioTransport;
+      session.notify = message => stdioTransport.send(message);
+      stdioTransport.start(
+        line => this.handleRawMessage(line, session, message => stdioTransport.send(message)),
+        () => {
+          this.stop().catch(error => {
+            logger.error('Failed to stop MCP Server after stdio close', { error });
+          });
+        },
+      );
+      logger.info('Enhanced MCP Server started', { transport, tools: Object.keys(this.state.tools).length });
+      return;
+    }
+
     if (!this.server) {
       throw new OpenCodeError('SERVER_NOT_INITIALIZED', 'MCP Server not initialized');
     }
 
     return new Promise<void>((resolve, reject) => {
       this.server!.listen(MCP_PORT, MCP_HOST, () => {
-        logger.info('Enhanced MCP Server started', { port: MCP_PORT, tools: Object.keys(this.state.tools).length });
+        logger.info('Enhanced MCP Server started', { transport, port: MCP_PORT, tools: Object.keys(this.state.tools).length });
         resolve();
       });
 
@@ -145,6 +295,14 @@ export class MCPServerEnhanced {
     });
   }
 
+  /**
+   * Tear down plugins and drop their tools; a restart may load a different set
+   */
+  private async unloadPlugins(): Promise<void> {
+    pluginLoader.getTools().forEach(tool => delete this.state.tools[tool.name]);
+    await pluginLoader.unloadAll();
+  }
+
   public async stop(): Promise<void> {
     this.isShuttingDown = true;
     
@@ -153,8 +311,19 @@ export class MCPServerEnhanced {
     }
     
     await this.saveState();
+    await this.unloadPlugins();
+
+    if (this.stdioTransport) {
+      this.stdioTransport.close();
+      this.stdioTransport = null;
+    }
+
+    // Open event streams would keep server.close() waiting
+    this.eventStreams.forEach(stream => stream.end());
+    this.eventStreams.clear();
+    this.sessions.clear();
     
-    if (this.server) {
+    if (this.server && this.server.listening) {
       return new Promise<void>((resolve) => {
         this.server!.close(() => {
           logger.info('Enhanced MCP Server stopped');
@@ -164,16 +333,304 @@ export class MCPServerEnhanced {
     }
   }
 
+  /**
+   * Handle one raw JSON-RPC payload (single message or batch) for a session
+   * @param notify - Sends notifications (e.g. progress) while requests run
+   * @returns Serialized response(s), or null when nothing needs a reply
+   */
+  public async handleRawMessage(raw: string, session: MCPSession, notify?: NotificationSender): Promise<string | null> {
+    let entries: unknown[];
+    let isBatch: boolean;
+
+    try {
+      ({ entries, isBatch } = parseJsonRpcPayload(raw));
+    } catch (error) {
+      return JSON.stringify(this.toErrorResponse(null, error));
+    }
+
+    const responses = await this.handleEntries(entries, session, notify);
+
+    if (responses.length === 0) {
+      return null;
+    }
+    return JSON.stringify(isBatch ? responses : responses[0]);
+  }
+
+  private async handleEntries(entries: unknown[], session: MCPSession, notify?: NotificationSender): Promise<JsonRpcResponse[]> {
+    const responses = await Promise.all(entries.map(async entry => {
+      let message: JsonRpcMessage;
+      try {
+        message = validateJsonRpcMessage(entry);
+      } catch (error) {
+        return this.toErrorResponse(this.extractId(entry), error);
+      }
+
+      if (!isJsonRpcRequest(message)) {
+        this.handleNotification(message, session);
+        return null;
+      }
+
+      const rateLimitError = this.checkRateLimit(session);
+      if (rateLimitError) {
+        return this.toErrorResponse(message.id, rateLimitError);
+      }
+
+      return this.trackRequest(message, session, notify);
+    }));
+
+    return responses.filter((response): response is JsonRpcResponse => response !== null);
+  }
+
+  /**
+   * Spend one token from the caller's bucket (keyed by agent, or by session
+   * when authentication is off)
+   * @returns The error to send back, or null when the request may proceed
+   */
+  private checkRateLimit(session: MCPSession): JsonRpcError | null {
+    const key = session.principal ? 'agent:' + session.principal.agentId : 'session:' + session.id;
+    const result = this.rateLimiter.tryConsume(key);
+    if (result.allowed) {
+      return null;
+    }
+
+    return limitExceeded('rate_limit', 'Rate limit exceeded, retry in ' + Math.ceil(result.retryAfterMs / 1000) + 's', {
+      agentId: session.principal?.agentId,
+      limit: MCP_RATE_LIMIT_PER_MINUTE,
+      retryAfterMs: result.retryAfterMs,
+    });
+  }
+
+  private async trackRequest(request: JsonRpcRequest, session: MCPSession, notify?: NotificationSender): Promise<JsonRpcResponse> {
+    const key = this.getRequestKey(session.id, request.id);
+    const recovered = this.takeRecoveredResponse(key, request);
+    if (recovered) {
+      return recovered;
+    }
+    if (this.state.activeRequests.get(key)?.status === 'running') {
+      return createErrorResponse(request.id, JSON_RPC_ERRORS.INVALID_REQUEST, 'Request ID already in use: ' + String(request.id));
+    }
+
+    const tracked: MCPRequest = {
+      id: request.id,
+      sessionId: session.id,
+      method: request.method,
+      params: request.params,
+      timestamp: new Date(),
+      status: 'running',
+      controller: new AbortController(),
+    };
+    this.state.activeRequests.set(key, tracked);
+
+    // Tool calls are journaled, so they can be answered after a crash. A
+    // stdio session ends with the process, so its answers could never be
+    // delivered and its calls are not journaled.
+    const journaled = request.method === 'tools/call' && session.transport === 'http';
+    if (journaled) {
+      requestJournal.accept({
+        key,
+        sessionId: session.id,
+        requestId: request.id,
+        transport: session.transport,
+        protocolVersion: session.protocolVersion,
+        principal: session.principal,
+        tool: String(request.params?.name),
+        params: request.params,
+        idempotent: this.isIdempotentCall(request.params),
+      });
+    }
+
+    const { response, settled } = this.processRequest(request, session, tracked, notify);
+    settled.finally(() => {
+      if (this.state.activeRequests.get(key) === tracked) {
+        this.state.activeRequests.delete(key);
+      }
+    });
+    if (journaled) {
+      response.then(reply => requestJournal.finish(key, reply));
+    }
+    return response;
+  }
+
+  /**
+   * Whether running a tool call twice is safe: the tool takes an
+   * idempotencyKey and the call has one
+   */
+  private isIdempotentCall(params: Record<string, any> | undefined): boolean {
+    const tool = typeof params?.name === 'string' ? this.getTool(params.name) : undefined;
+    return (
+      tool?.inputSchema instanceof z.ZodObject &&
+      'idempotencyKey' in tool.inputSchema.shape &&
+      typeof params?.arguments?.idempotencyKey === 'string'
+    );
+  }
+
+  /**
+   * Answer the tool calls a crashed process accepted: finished ones from the
+   * journal, interrupted idempotent ones by running them again, and the rest
+   * with a REQUEST_INTERRUPTED error. HTTP sessions are restored, so clients
+   * collect the answers by sending the request again with the same ID or by
+   * opening the session's event stream.
+   * @returns Number of recovered calls
+   */
+  public recoverRequests(): number {
+    const entries = requestJournal.recover().filter(entry => !this.recoveredRequests.has(entry.key));
+
+    for (const entry of entries) {
+      if (entry.transport === 'http' && !this.sessions.has(entry.sessionId)) {
+        this.sessions.set(entry.sessionId, {
+          id: entry.sessionId,
+          transport: 'http',
+          protocolVersion: entry.protocolVersion,
+          principal: entry.principal,
+          initialized: true,
+          createdAt: new Date(),
+          lastActivityAt: new Date(),
+          subscriptions: new Set(),
+        });
+      }
+      this.recoveredRequests.set(entry.key, {
+        sessionId: entry.sessionId,
+        tool: entry.tool,
+        response: this.resolveRecoveredRequest(entry),
+      });
+    }
+
+    if (entries.length > 0) {
+      logger.warn('Recovered in-flight requests from the journal', {
+        finished: entries.filter(entry => entry.response).length,
+        replayed: entries.filter(entry => !entry.response && entry.idempotent).length,
+        interrupted: entries.filter(entry => !entry.response && !entry.idempotent).length,
+      });
+    }
+    return entries.length;
+  }
+
+  private resolveRecoveredRequest(entry: JournalEntry): Promise<JsonRpcResponse> {
+    if (entry.response) {
+      return Promise.resolve(entry.response);
+    }
+    if (entry.idempotent && entry.params) {
+      return this.replayRequest(entry, entry.params);
+    }
+
+    const response = createErrorResponse(
+      entry.requestId,
+      JSON_RPC_ERRORS.REQUEST_INTERRUPTED,
+      'Request was interrupted by a server restart and was not run again',
+      { reason: 'server_restart', tool: entry.tool, acceptedAt: entry.acceptedAt },
+    );
+    requestJournal.finish(entry.key, response);
+    return Promise.resolve(response);
+  }
+
+  /**
+   * Run an interrupted idempotent call again. Its idempotency key is still
+   * claimed by the lost call, so the claim is released first; a call that
+   * completed before the crash replays its stored result.
+   */
+  private async replayRequest(entry: JournalEntry, params: Record<string, any>): Promise<JsonRpcResponse> {
+    const context: ToolContext = {
+      requestId: entry.requestId,
+      sessionId: entry.sessionId,
+      principal: entry.principal,
+      signal: AbortSignal.timeout(MCP_REQUEST_TIMEOUT_MS),
+    };
+
+    let response: JsonRpcResponse;
+    try {
+      await idempotencyStore.releaseInterrupted(entry.principal?.owner ?? '', params.arguments.idempotencyKey);
+      response = createSuccessResponse(entry.requestId, await this.callTool(params, context));
+    } catch (error) {
+      response = this.toErrorResponse(entry.requestId, error);
+    }
+
+    logger.info('Interrupted request run again', { tool: entry.tool, requestId: entry.requestId });
+    requestJournal.finish(entry.key, response);
+    return response;
+  }
+
+  /**
+   * The recovered answer to a tools/call sent again with the same ID on its
+   * restored session
+   */
+  private takeRecoveredResponse(key: string, request: JsonRpcRequest): Promise<JsonRpcResponse> | null {
+    const recovered = this.recoveredRequests.get(key);
+    if (!recovered || request.method !== 'tools/call' || request.params?.name !== recovered.tool) {
+      return null;
+    }
+
+    this.recoveredRequests.delete(key);
+    return recovered.response.then(response => {
+      requestJournal.delivered(key);
+      return response;
+    });
+  }
+
+  /**
+   * Send a session's recovered answers on its event stream
+   */
+  private deliverRecoveredResponses(session: MCPSession): void {
+    for (const [key, recovered] of this.recoveredRequests) {
+      if (recovered.sessionId !== session.id) {
+        continue;
+      }
+
+      this.recoveredRequests.delete(key);
+      recovered.response.then(response => {
+        if (!session.notify) {
+          // The stream closed before a replay finished; wait for the next one
+          this.recoveredRequests.set(key, recovered);
+          return;
+        }
+        session.notify(response);
+        requestJournal.delivered(key);
+      });
+    }
+  }
+
+  /**
+   * Abort an in-flight request. Its handler sees context.signal fire and the
+   * client gets a REQUEST_CANCELLED error right away.
+   * @returns false when the request is unknown, already finished or cannot be cancelled
+   */
+  public cancelRequest(sessionId: string, requestId: JsonRpcId, reason?: string): boolean {
+    const tracked = this.state.activeRequests.get(this.getRequestKey(sessionId, requestId));
+    // The MCP spec forbids cancelling initialize
+    if (!tracked || tracked.status !== 'running' || tracked.method === 'initialize') {
+      return false;
+    }
+
+    tracked.status = 'cancelled';
+    tracked.controller.abort(new JsonRpcError(JSON_RPC_ERRORS.REQUEST_CANCELLED, 'Request cancelled', {
+      reason: reason || 'cancelled by client',
+    }));
+    mcpMetrics.cancelled(tracked.method, 'client');
+    logger.info('MCP request cancelled', { sessionId, requestId, method: tracked.method, reason });
+    return true;
+  }
+
   private async handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
     if (this.isShuttingDown) {
-      res.writeHead(503, { 'Content-Type': 'application/json' });
-      res.end(JSON.stringify({ error: 'Server shutting down' }));
+      this.sendJson(res, 503, createErrorResponse(null, JSON_RPC_ERRORS.INTERNAL_ERROR, 'Server shutting down'));
       return;
     }
 
-    res.setHeader('Access-Control-Allow-Origin', '*');
-    res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
-    res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+    // The socket serving this request is already counted
+    if (this.openConnections > MCP_MAX_CONNECTIONS) {
+      const error = limitExceeded('connections', 'Too many connections', { limit: MCP_MAX_CONNECTIONS });
+      res.setHeader('Connection', 'close');
+      this.sendJson(res, 429, this.toErrorResponse(null, error));
+      return;
+    }
+
+    const origin = req.headers.origin;
+    if (origin && this.allowedOrigins.includes(origin)) {
+      res.setHeader('Access-Control-Allow-Origin', origin);
+      res.setHeader('Vary', 'Origin');
+      res.setHeader('Access-Control-Allow-Methods', 'GET, POST, DELETE, OPTIONS');
+      res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, X-API-Key, Mcp-Session-Id, Mcp-Protocol-Version');
+      res.setHeader('Access-Control-Expose-Headers', 'Mcp-Session-Id');
+    }
 
     if (req.method === 'OPTIONS') {
       res.writeHead(200);
@@ -181,8 +638,23 @@ export class MCPServerEnhanced {
       return;
     }
 
+    if (req.method === 'GET') {
+      await this.openEventStream(req, res);
+      return;
+    }
+
+    if (req.method === 'DELETE') {
+      const pathname = new URL(req.url || '/', 'http://localhost').pathname;
+      if (pathname.startsWith('/requests/')) {
+        await this.cancelHttpRequest(req, res);
+      } else {
+        await this.deleteHttpSession(req, res);
+      }
+      return;
+    }
+
     if (req.method !== 'POST') {
-      res.writeHead(405);
+      res.writeHead(405, { Allow: 'GET, POST, DELETE, OPTIONS' });
       res.end(JSON.stringify({ error: 'Method not allowed' }));
       return;
     }
@@ -191,79 +663,694 @@ export class MCPServerEnhanced {
     req.on('data', chunk => body += chunk.toString());
     req.on('end', async () => {
       try {
-        const request: MCPRequest = JSON.parse(body);
-        request.timestamp = new Date();
-        
-        this.state.activeRequests.set(request.id, request);
-        
-        const response = await this.processRequest(request);
-        this.state.activeRequests.delete(request.id);
-        
-        res.writeHead(200, { 'Content-Type': 'application/json' });
-        res.end(JSON.stringify(response));
+        let entries: unknown[];
+        let isBatch: boolean;
+
+        try {
+          ({ entries, isBatch } = parseJsonRpcPayload(body));
+        } catch (error) {
+          this.sendJson(res, 400, this.toErrorResponse(null, error));
+          return;
+        }
+
+        const principal = await this.authenticateHttp(req, res);
+        if (principal === undefined) {
+          return;
+        }
+
+        const session = this.resolveHttpSession(req, entries, principal);
+        if (!this.checkHttpSession(req, res, session, principal)) {
+          return;
+        }
+
+        res.setHeader('Mcp-Session-Id', session.id);
+
+        // Clients that accept SSE get notifications on this response; the
+        // stream is only opened once there is something to send early
+        let streaming = false;
+        const writeEvent = (message: unknown) => {
+          if (!streaming) {
+            res.writeHead(200, {
+              'Content-Type': 'text/event-stream',
+              'Cache-Control': 'no-cache',
+              Connection: 'keep-alive',
+            });
+            streaming = true;
+          }
+          res.write('event: message\ndata: ' + JSON.stringify(message) + '\n\n');
+        };
+        const acceptsSse = (req.headers.accept || '').includes('text/event-stream');
+
+        const responses = await this.handleEntries(entries, session, acceptsSse ? writeEvent : undefined);
+
+        if (streaming) {
+          responses.forEach(response => writeEvent(response));
+          res.end();
+          return;
+        }
+
+        if (responses.length === 0) {
+          res.writeHead(202);
+          res.end();
+          return;
+        }
+
+        // Nothing was processed: answer like an HTTP rate limiter would
+        const retryAfterMs = this.getRetryAfterMs(responses);
+        if (retryAfterMs !== null) {
+          res.setHeader('Retry-After', String(Math.ceil(retryAfterMs / 1000)));
+          this.sendJson(res, 429, isBatch ? responses : responses[0]);
+          return;
+        }
+
+        this.sendJson(res, 200, isBatch ? responses : responses[0]);
       } catch (error) {
         logger.error('Request processing failed', { error });
-        res.writeHead(400);
-        res.end(JSON.stringify({ error: 'Request processing failed' }));
+        this.sendJson(res, 500, createErrorResponse(null, JSON_RPC_ERRORS.INTERNAL_ERROR, 'Request processing failed'));
       }
     });
   }
 
-  private async processRequest(request: MCPRequest): Promise<MCPResponse> {
-    return new Promise<MCPResponse>((resolve, reject) => {
-      const timeout = setTimeout(() => {
-        reject(new OpenCodeError('REQUEST_TIMEOUT', 'Request timed out'));
-      }, MCP_REQUEST_TIMEOUT_MS);
+  /**
+   * GET with an Mcp-Session-Id opens the session's event stream, which
+   * carries server-initiated notifications such as resource updates
+   */
+  private async openEventStream(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    try {
+      if (!(req.headers.accept || '').includes('text/event-stream')) {
+        this.sendJson(res, 406, createErrorResponse(null, JSON_RPC_ERRORS.INVALID_REQUEST, 'Accept must include text/event-stream'));
+        return;
+      }
 
-      setTimeout(async () => {
-        clearTimeout(timeout);
-        
-        if (request.method === 'tools/list') {
-          resolve({
-            id: request.id,
-            result: {
-              tools: Object.values(this.state.tools).map(tool => ({
-                name: tool.name,
-                description: tool.description,
-              })),
-            },
-            timestamp: new Date(),
-          });
-        } else {
-          const tool = this.getTool(request.method);
-          if (tool) {
-            try {
-              const result = await tool.execute(request.params || {});
-              resolve({
-                id: request.id,
-                result,
-                timestamp: new Date(),
-              });
-            } catch (error) {
-              resolve({
-                id: request.id,
-                error: {
-                  code: 500,
-                  message: error instanceof Error ? error.message : String(error),
-                },
-                timestamp: new Date(),
-              });
-            }
-          } else {
-            resolve({
-              id: request.id,
-              error: {
-                code: 404,
-                message: 'Tool not found: ' + request.method,
-              },
-              timestamp: new Date(),
-            });
-          }
+      const principal = await this.authenticateHttp(req, res);
+      if (principal === undefined) {
+        return;
+      }
+
+      const sessionId = req.headers[SESSION_HEADER];
+      const session = typeof sessionId === 'string' ? this.sessions.get(sessionId) || null : null;
+      if (!this.checkHttpSession(req, res, session, principal)) {
+        return;
+      }
+
+      if (session.notify) {
+        this.sendJson(res, 409, createErrorResponse(null, JSON_RPC_ERRORS.INVALID_REQUEST, 'Session already has an event stream'));
+        return;
+      }
+
+      res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        Connection: 'keep-alive',
+        'Mcp-Session-Id': session.id,
+      });
+      res.flushHeaders();
+
+      const notify: NotificationSender = message => {
+        res.write('event: message\ndata: ' + JSON.stringify(message) + '\n\n');
+      };
+      session.notify = notify;
+      this.eventStreams.set(session.id, res);
+
+      res.on('close', () => {
+        if (this.eventStreams.get(session.id) === res) {
+          this.eventStreams.delete(session.id);
+        }
+        session.lastActivityAt = new Date();
+        if (session.notify === notify) {
+          session.notify = undefined;
+        }
+      });
+
+      logger.info('MCP event stream opened', { sessionId: session.id });
+      this.deliverRecoveredResponses(session);
+    } catch (error) {
+      logger.error('Failed to open event stream', { error });
+      this.sendJson(res, 500, createErrorResponse(null, JSON_RPC_ERRORS.INTERNAL_ERROR, 'Failed to open event stream'));
+    }
+  }
+
+  /**
+   * DELETE /requests/<id> with an Mcp-Session-Id cancels that session's
+   * in-flight request, like notifications/cancelled
+   */
+  private async cancelHttpRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    try {
+      const match = /^\/requests\/([^/]+)$/.exec(new URL(req.url || '/', 'http://localhost').pathname);
+      if (!match) {
+        this.sendJson(res, 404, createErrorResponse(null, JSON_RPC_ERRORS.INVALID_REQUEST, 'Use DELETE /requests/<requestId>'));
+        return;
+      }
+
+      const principal = await this.authenticateHttp(req, res);
+      if (principal === undefined) {
+        return;
+      }
+
+      const sessionId = req.headers[SESSION_HEADER];
+      const session = typeof sessionId === 'string' ? this.sessions.get(sessionId) || null : null;
+      if (!this.checkHttpSession(req, res, session, principal)) {
+        return;
+      }
+
+      // Request keys use String(id), so "7" matches a numeric id 7 as well
+      const requestId = decodeURIComponent(match[1] as string);
+      if (!this.cancelRequest(session.id, requestId, 'cancelled over HTTP')) {
+        this.sendJson(res, 404, createErrorResponse(null, JSON_RPC_ERRORS.INVALID_REQUEST, 'No cancellable request: ' + requestId));
+        return;
+      }
+
+      this.sendJson(res, 202, { cancelled: true, requestId });
+    } catch (error) {
+      logger.error('Failed to cancel request', { error });
+      this.sendJson(res, 500, createErrorResponse(null, JSON_RPC_ERRORS.INTERNAL_ERROR, 'Failed to cancel request'));
+    }
+  }
+
+  /**
+   * DELETE with an Mcp-Session-Id ends that session; later requests with
+   * its ID get a 404
+   */
+  private async deleteHttpSession(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    try {
+      const principal = await this.authenticateHttp(req, res);
+      if (principal === undefined) {
+        return;
+      }
+
+      const sessionId = req.headers[SESSION_HEADER];
+      const session = typeof sessionId === 'string' ? this.sessions.get(sessionId) || null : null;
+      if (!this.checkHttpSession(req, res, session, principal)) {
+        return;
+      }
+
+      this.closeSession(session, 'session deleted by client');
+      res.writeHead(204);
+      res.end();
+    } catch (error) {
+      logger.error('Failed to delete session', { error });
+      this.sendJson(res, 500, createErrorResponse(null, JSON_RPC_ERRORS.INTERNAL_ERROR, 'Failed to delete session'));
+    }
+  }
+
+  /**
+   * Forget a session: cancel its in-flight requests, end its event stream
+   * and drop the answers recovered for it
+   */
+  private closeSession(session: MCPSession, reason: string): void {
+    this.sessions.delete(session.id);
+
+    for (const tracked of this.state.activeRequests.values()) {
+      if (tracked.sessionId === session.id) {
+        this.cancelRequest(session.id, tracked.id, reason);
+      }
+    }
+    for (const [key, recovered] of this.recoveredRequests) {
+      if (recovered.sessionId === session.id) {
+        this.recoveredRequests.delete(key);
+      }
+    }
+
+    session.notify = undefined;
+    this.eventStreams.get(session.id)?.end();
+    this.eventStreams.delete(session.id);
+
+    logger.info('MCP session closed', { sessionId: session.id, reason });
+  }
+
+  /**
+   * Authenticate the API key presented with an HTTP request
+   * @returns The principal, null when authentication is off and no key was
+   * sent, or undefined once a 401 response has been sent
+   */
+  private async authenticateHttp(req: IncomingMessage, res: ServerResponse): Promise<AuthPrincipal | null | undefined> {
+    let principal: AuthPrincipal | null = null;
+    const apiKey = this.getPresentedApiKey(req);
+    if (apiKey) {
+      principal = await apiKeyStore.authenticate(apiKey);
+    }
+    if (!principal && (apiKey || MCP_AUTH_REQUIRED)) {
+      res.setHeader('WWW-Authenticate', 'Bearer');
+      this.sendJson(
+        res,
+        401,
+        createErrorResponse(null, JSON_RPC_ERRORS.UNAUTHORIZED, apiKey ? 'Invalid API key' : 'Missing API key'),
+      );
+      return undefined;
+    }
+    return principal;
+  }
+
+  /**
+   * Reject requests without a usable session, or whose key did not open it
+   * @returns true when the request may use the session
+   */
+  private checkHttpSession(
+    req: IncomingMessage,
+    res: ServerResponse,
+    session: MCPSession | null,
+    principal: AuthPrincipal | null,
+  ): session is MCPSession {
+    if (!session) {
+      const hasSessionId = typeof req.headers[SESSION_HEADER] === 'string';
+      this.sendJson(
+        res,
+        hasSessionId ? 404 : 400,
+        createErrorResponse(
+          null,
+          JSON_RPC_ERRORS.INVALID_REQUEST,
+          hasSessionId ? 'Unknown session' : 'Missing Mcp-Session-Id header',
+        ),
+      );
+      return false;
+    }
+
+    // A session only accepts requests from the key that opened it
+    if (session.principal?.keyId !== principal?.keyId) {
+      this.sendJson(
+        res,
+        403,
+        createErrorResponse(null, JSON_RPC_ERRORS.UNAUTHORIZED, 'Session belongs to a different API key'),
+      );
+      return false;
+    }
+
+    session.lastActivityAt = new Date();
+    return true;
+  }
+
+  /**
+   * When every response is a rate-limit rejection, the longest retry delay
+   */
+  private getRetryAfterMs(responses: JsonRpcResponse[]): number | null {
+    let retryAfterMs = 0;
+    for (const response of responses) {
+      if (!('error' in response) || response.error.code !== JSON_RPC_ERRORS.RATE_LIMITED) {
+        return null;
+      }
+      retryAfterMs = Math.max(retryAfterMs, response.error.data?.retryAfterMs || 0);
+    }
+    return retryAfterMs;
+  }
+
+  /**
+   * Read the API key from "Authorization: Bearer <key>" or "X-API-Key: <key>"
+   */
+  private getPresentedApiKey(req: IncomingMessage): string | null {
+    const authorization = req.headers.authorization;
+    if (typeof authorization === 'string') {
+      const match = /^Bearer\s+(.+)$/i.exec(authorization.trim());
+      return match?.[1] ? match[1] : null;
+    }
+
+    const apiKey = req.headers[API_KEY_HEADER];
+    return typeof apiKey === 'string' && apiKey.length > 0 ? apiKey : null;
+  }
+
+  /**
+   * Find the session for an HTTP request; an initialize request opens a new one
+   */
+  private resolveHttpSession(req: IncomingMessage, entries: unknown[], principal: AuthPrincipal | null): MCPSession | null {
+    const isInitialize = entries.some(
+      entry => typeof entry === 'object' && entry !== null && (entry as Record<string, any>).method === 'initialize',
+    );
+    if (isInitialize) {
+      return this.createSession('http', principal || undefined);
+    }
+
+    const sessionId = req.headers[SESSION_HEADER];
+    if (typeof sessionId !== 'string') {
+      return null;
+    }
+    return this.sessions.get(sessionId) || null;
+  }
+
+  /**
+   * Open a new, not yet initialized session for a transport connection
+   * @param principal - Identity every request in the session acts as
+   */
+  public createSession(transport: MCPTransportType, principal?: AuthPrincipal): MCPSession {
+    const session: MCPSession = {
+      id: randomUUID(),
+      transport,
+      principal,
+      initialized: false,
+      createdAt: new Date(),
+      lastActivityAt: new Date(),
+      subscriptions: new Set(),
+    };
+    this.sessions.set(session.id, session);
+    return session;
+  }
+
+  /**
+   * Run a request against the timeout and its abort signal
+   * @returns The response, sent as soon as either fires, and a promise that
+   * settles once the handler itself has stopped
+   */
+  private processRequest(
+    request: JsonRpcRequest,
+    session: MCPSession,
+    tracked: MCPRequest,
+    notify?: NotificationSender,
+  ): { response: Promise<JsonRpcResponse>; settled: Promise<unknown> } {
+    let open = true;
+    const signal = tracked.controller.signal;
+
+    const context: ToolContext = { requestId: request.id, sessionId: session.id, principal: session.principal, signal };
+    const progressToken = request.params?._meta?.progressToken;
+    if (notify && (typeof progressToken === 'string' || typeof progressToken === 'number')) {
+      context.onProgress = update => {
+        // Progress after the response would reference a finished request
+        if (open) {
+          notify({ jsonrpc: '2.0', method: 'notifications/progress', params: { progressToken, ...update } });
         }
-      }, 100);
+      };
+    }
+
+    const work = this.dispatch(request, session, context);
+    const aborted = new Promise<never>((_, reject) => {
+      signal.addEventListener('abort', () => reject(signal.reason), { once: true });
+    });
+    // The timeout aborts the handler too, so its work does not carry on unobserved
+    const timeout = setTimeout(() => {
+      if (tracked.status === 'running') {
+        tracked.status = 'timed_out';
+        mcpMetrics.cancelled(request.method, 'timeout');
+        tracked.controller.abort(new JsonRpcError(JSON_RPC_ERRORS.REQUEST_TIMEOUT, 'Request timed out', {
+          timeoutMs: MCP_REQUEST_TIMEOUT_MS,
+        }));
+      }
+    }, MCP_REQUEST_TIMEOUT_MS);
+
+    const response = Promise.race([work, aborted])
+      .then(result => createSuccessResponse(request.id, result))
+      .catch(error => this.toErrorResponse(request.id, error))
+      .finally(() => {
+        open = false;
+        clearTimeout(timeout);
+      });
+
+    return { response, settled: work.catch(() => undefined) };
+  }
+
+  private async dispatch(request: JsonRpcRequest, session: MCPSession, context: ToolContext): Promise<any> {
+    if (request.method === 'initialize') {
+      return this.handleInitialize(request.params || {}, session);
+    }
+
+    if (request.method === 'ping') {
+      return {};
+    }
+
+    if (!session.protocolVersion) {
+      throw new JsonRpcError(JSON_RPC_ERRORS.SERVER_NOT_INITIALIZED, 'Session not initialized: send initialize first');
+    }
+
+    switch (request.method) {
+      case 'tools/list':
+        return {
+          tools: Object.values(this.state.tools).map(tool => ({
+            name: tool.name,
+            description: tool.description,
+            inputSchema: tool.inputSchema ? zodToJsonSchema(tool.inputSchema) : { type: 'object' },
+          })),
+        };
+      case 'tools/call':
+        return this.callTool(request.params || {}, context);
+      case 'resources/list':
+        return listTaskResources(context, request.params?.cursor);
+      case 'resources/templates/list':
+        return { resourceTemplates: TASK_RESOURCE_TEMPLATES };
+      case 'resources/read':
+        return readTaskResource(request.params?.uri, context);
+      case 'resources/subscribe': {
+        const ref = await resolveTaskResource(request.params?.uri, context);
+        const uri = taskResourceUri(ref.taskId, ref.artifact, ref.checkpointId);
+        session.subscriptions.add(uri);
+        logger.info('Resource subscribed', { sessionId: session.id, uri });
+        return {};
+      }
+      case 'resources/unsubscribe': {
+        const ref = parseTaskResourceUri(request.params?.uri);
+        session.subscriptions.delete(taskResourceUri(ref.taskId, ref.artifact, ref.checkpointId));
+        return {};
+      }
+      default:
+        throw new JsonRpcError(JSON_RPC_ERRORS.METHOD_NOT_FOUND, 'Method not found: ' + request.method);
+    }
+  }
+
+  private handleInitialize(params: Record<string, any>, session: MCPSession): Record<string, any> {
+    if (session.protocolVersion) {
+      throw new JsonRpcError(JSON_RPC_ERRORS.INVALID_REQUEST, 'Session already initialized');
+    }
+
+    session.protocolVersion = negotiateProtocolVersion(params.protocolVersion);
+    session.clientInfo = params.clientInfo;
+    session.clientCapabilities = params.capabilities || {};
+
+    logger.info('MCP session initialized', {
+      sessionId: session.id,
+      transport: session.transport,
+      agentId: session.principal?.agentId,
+      protocolVersion: session.protocolVersion,
+      client: session.clientInfo?.name,
+    });
+
+    return {
+      protocolVersion: session.protocolVersion,
+      capabilities: {
+        tools: { listChanged: false },
+        resources: { subscribe: true, listChanged: false },
+      },
+      serverInfo: SERVER_INFO,
+    };
+  }
+
+  /**
+   * Execute a tool; tool failures are reported in the result (isError) as the
+   * MCP spec requires, protocol problems as JSON-RPC errors.
+   * With arguments.async set to true the tool runs as a background job and
+   * the result only holds the job ID.
+   */
+  private async callTool(params: Record<string, any>, context: ToolContext): Promise<Record<string, any>> {
+    if (typeof params.name !== 'string') {
+      throw new JsonRpcError(JSON_RPC_ERRORS.INVALID_PARAMS, 'Invalid params: name must be a string');
+    }
+
+    const startedAt = new Date();
+    const { async: runAsync, rawArgs } = this.splitAsyncFlag(params.arguments);
+    let args: Record<string, any> | undefined;
+    let result: any;
+
+    try {
+      const tool = this.getTool(params.name);
+      if (!tool) {
+        throw new JsonRpcError(JSON_RPC_ERRORS.INVALID_PARAMS, 'Unknown tool: ' + params.name);
+      }
+      if (runAsync && JOB_TOOLS.has(tool.name)) {
+        throw new JsonRpcError(JSON_RPC_ERRORS.INVALID_PARAMS, tool.name + ' cannot run as a job');
+      }
+
+      args = this.validateArguments(tool, rawArgs);
+      if (runAsync) {
+        const job = await this.startJob(tool, args, params, context, startedAt);
+        result = { success: true, jobId: job.id, tool: job.tool, status: job.status, createdAt: job.createdAt.toISOString() };
+        return {
+          content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+          structuredContent: result,
+          isError: false,
+        };
+      }
+      result = await tool.execute(args, context);
+    } catch (error) {
+      await this.auditToolCall(params, args, context, startedAt, undefined, error);
+
+      // Unknown tools, invalid arguments and protocol errors raised by tools
+      // (e.g. quota rejections) are JsonRpcErrors
+      if (error instanceof JsonRpcError) {
+        throw error;
+      }
+
+      const message = error instanceof Error ? error.message : String(error);
+      logger.warn('Tool execution failed', { tool: params.name, error: message });
+      return {
+        content: [{ type: 'text', text: message }],
+        isError: true,
+      };
+    }
+
+    await this.auditToolCall(params, args, context, startedAt, result);
+    return {
+      content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+      structuredContent: result,
+      isError: false,
+    };
+  }
+
+  /**
+   * Take the async flag out of the tool arguments, so tools never see it
+   */
+  private splitAsyncFlag(args: unknown): { async: boolean; rawArgs: unknown } {
+    if (typeof args !== 'object' || args === null || Array.isArray(args) || !('async' in args)) {
+      return { async: false, rawArgs: args };
+    }
+    const { async: flag, ...rest } = args as Record<string, unknown>;
+    return { async: flag === true, rawArgs: rest };
+  }
+
+  /**
+   * Run a tool as a background job. The call is audited when the job's tool
+   * returns; the job has its own abort signal, so ending the request that
+   * started it does not stop it.
+   */
+  private startJob(
+    tool: MCPTool,
+    args: Record<string, any>,
+    params: Record<string, any>,
+    context: ToolContext,
+    startedAt: Date,
+  ): Promise<JobInfo> {
+    return jobManager.start(tool.name, args, context, async runContext => {
+      let result: any;
+      try {
+        result = await tool.execute(args, runContext);
+      } catch (error) {
+        await this.auditToolCall(params, args, runContext, startedAt, undefined, error);
+        throw error;
+      }
+      await this.auditToolCall(params, args, runContext, startedAt, result);
+      return result;
+    });
+  }
+
+  /**
+   * Record a finished tool call in the audit trail. Runs when the tool
+   * itself returns, so a cancelled call is recorded with its real duration.
+   */
+  private async auditToolCall(
+    params: Record<string, any>,
+    args: Record<string, any> | undefined,
+    context: ToolContext,
+    startedAt: Date,
+    result: any,
+    error?: unknown,
+  ): Promise<void> {
+    // Arguments that failed validation are recorded as sent
+    const recordedArgs = args ?? params.arguments;
+    const taskId = [recordedArgs?.taskId, result?.taskId].find(id => typeof id === 'string' && id.length > 0);
+
+    await toolAuditLog.record({
+      requestId: String(context.requestId),
+      sessionId: context.sessionId,
+      keyId: context.principal?.keyId,
+      agentId: context.principal?.agentId ?? (typeof recordedArgs?.agentId === 'string' ? recordedArgs.agentId : undefined),
+      owner: context.principal?.owner,
+      tool: params.name,
+      taskId,
+      params: redactParams(recordedArgs ?? {}),
+      outcome: context.signal?.aborted ? 'cancelled' : error === undefined ? 'success' : 'error',
+      resultSummary: error === undefined ? summarizeResult(result) ?? undefined : undefined,
+      error: error === undefined ? undefined : error instanceof Error ? error.message : String(error),
+      durationMs: Date.now() - startedAt.getTime(),
+      createdAt: startedAt,
     });
   }
 
+  /**
+   * Check tool arguments against the tool's input schema.
+   * Returns the parsed arguments (with defaults applied).
+   * @throws JsonRpcError INVALID_PARAMS with field-level errors
+   */
+  private validateArguments(tool: MCPTool, args: unknown): Record<string, any> {
+    const value = args === undefined ? {} : args;
+    if (!tool.inputSchema) {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        throw new JsonRpcError(JSON_RPC_ERRORS.INVALID_PARAMS, 'Invalid params: arguments must be an object');
+      }
+      return value as Record<string, any>;
+    }
+
+    const parsed = tool.inputSchema.safeParse(value);
+    if (!parsed.success) {
+      const errors = formatValidationErrors(parsed.error);
+      throw new JsonRpcError(
+        JSON_RPC_ERRORS.INVALID_PARAMS,
+        'Invalid arguments for ' + tool.name + ': ' + errors.map(e => e.path + ': ' + e.message).join('; '),
+        { tool: tool.name, errors },
+      );
+    }
+    return parsed.data;
+  }
+
+  /**
+   * Tell every session subscribed to a changed artifact, or to the checkpoint
+   * that was created or deleted; sessions without a notification channel
+   * (HTTP without an event stream) are skipped
+   */
+  private publishResourceUpdate(change: TaskArtifactChange): void {
+    const uris = [taskResourceUri(change.taskId, change.artifact)];
+    if (change.checkpointId) {
+      uris.push(taskResourceUri(change.taskId, change.artifact, change.checkpointId));
+    }
+    for (const session of this.sessions.values()) {
+      for (const uri of uris) {
+        if (session.notify && session.subscriptions.has(uri)) {
+          session.notify({ jsonrpc: '2.0', method: 'notifications/resources/updated', params: { uri } });
+        }
+      }
+    }
+  }
+
+  private handleNotification(notification: JsonRpcNotification, session: MCPSession): void {
+    switch (notification.method) {
+      case 'notifications/initialized':
+        session.initialized = true;
+        logger.info('MCP client ready', { sessionId: session.id });
+        break;
+      case 'notifications/cancelled': {
+        const requestId = notification.params?.requestId;
+        // Requests may already have finished; the spec says to ignore those
+        if (typeof requestId === 'string' || typeof requestId === 'number') {
+          this.cancelRequest(session.id, requestId, notification.params?.reason);
+        }
+        break;
+      }
+      default:
+        logger.debug('Ignoring notification', { method: notification.method, sessionId: session.id });
+    }
+  }
+
+  private toErrorResponse(id: JsonRpcId | null, error: unknown): JsonRpcResponse {
+    if (error instanceof JsonRpcError) {
+      return createErrorResponse(id, error.code, error.message, error.data);
+    }
+
+    const message = error instanceof Error ? error.message : String(error);
+    logger.error('Unhandled MCP request error', { id, error: message });
+    return createErrorResponse(id, JSON_RPC_ERRORS.INTERNAL_ERROR, message);
+  }
+
+  private extractId(entry: unknown): JsonRpcId | null {
+    if (typeof entry === 'object' && entry !== null) {
+      const id = (entry as Record<string, any>).id;
+      if (typeof id === 'string' || typeof id === 'number') {
+        return id;
+      }
+    }
+    return null;
+  }
+
+  private getRequestKey(sessionId: string, requestId: JsonRpcId): string {
+    return sessionId + ':' + String(requestId);
+  }
+
+  private sendJson(res: ServerResponse, status: number, body: unknown): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  }
+
   private startHealthMonitoring(): void {
     this.healthCheckInterval = setInterval(() => {
       this.performHealthCheck();
@@ -283,6 +1370,17 @@ export class MCPServerEnhanced {
         }
       }
       
+      this.rateLimiter.prune();
+      this.expireIdleSessions(now);
+
+      requestJournal.compact();
+      for (const key of this.recoveredRequests.keys()) {
+        // Undelivered answers past their retention were dropped by the journal
+        if (!requestJournal.getRecovered(key)) {
+          this.recoveredRequests.delete(key);
+        }
+      }
+
       this.saveState().catch(error => {
         logger.warn('Failed to save state during health check', { error });
       });
@@ -291,6 +1389,26 @@ export class MCPServerEnhanced {
     }
   }
 
+  /**
+   * Close HTTP sessions that have neither sent a request nor held an event
+   * stream for MCP_SESSION_IDLE_TIMEOUT_MS (0 keeps them until the server stops)
+   */
+  private expireIdleSessions(now: number): void {
+    if (MCP_SESSION_IDLE_TIMEOUT_MS <= 0) {
+      return;
+    }
+
+    for (const session of this.sessions.values()) {
+      if (
+        session.transport === 'http' &&
+        !this.eventStreams.has(session.id) &&
+        now - session.lastActivityAt.getTime() > MCP_SESSION_IDLE_TIMEOUT_MS
+      ) {
+        this.closeSession(session, 'idle timeout');
+      }
+    }
+  }
+
   private async loadState(): Promise<void> {
     try {
       const stateData = stateValidator.loadState('./data/mcp-server-state.json');
@@ -300,6 +1418,7 @@ export class MCPServerEnhanced {
           ...stateData,
           startTime: new Date(stateData.startTime),
           lastHealthCheck: new Date(stateData.lastHealthCheck),
+          tools: this.state.tools,
           activeRequests: new Map(),
         };
         
@@ -318,7 +1437,7 @@ export class MCPServerEnhanced {
   private async saveState(): Promise<void> {
     try {
       const stateToSave = {
-        tools: this.state.tools,
+        tools: Object.keys(this.state.tools),
         startTime: this.state.startTime,
         lastHealthCheck: this.state.lastHealthCheck,
         crashCount: this.state.crashCount,
@@ -342,6 +1461,7 @@ export class MCPServerEnhanced {
         crashCount: this.state.crashCount,
         uptime: Date.now() - this.state.startTime.getTime(),
         activeRequests: Array.from(this.state.activeRequests.entries()),
+        runningJobs: jobManager.getRunningJobIds(),
         tools: Object.keys(this.state.tools),
         nodeVersion: process.version,
         platform: process.platform,
@@ -380,7 +1500,8 @@ export class MCPServerEnhanced {
   }
 }
 
-MCPServerEnhanced.getInstance().initialize().catch((error) => {
+// Resolves once the module-level initialization attempt has finished
+export const mcpServerReady = MCPServerEnhanced.getInstance().initialize().catch((error) => {
   logger.error('Failed to initialize Enhanced MCP Server', { error });
   setTimeout(async () => {
     logger.warn('Attempting crash recovery restart...');
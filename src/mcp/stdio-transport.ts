@@ -0,0 +1,80 @@
+// MCP stdio Transport
+// Newline-delimited JSON-RPC over stdin/stdout so editors can spawn the server directly
+
+import { createInterface, Interface } from "readline";
+import { Readable, Writable } from "stream";
+import { logger } from "../util/logger";
+
+/**
+ * Handles one raw line and returns the serialized reply, or null when the
+ * line only carried notifications
+ */
+export type StdioMessageHandler = (line: string) => Promise<string | null>;
+
+export class StdioTransport {
+  private reader: Interface | null = null;
+  private onClose?: () => void;
+
+  constructor(
+    private readonly input: Readable = process.stdin,
+    private readonly output: Writable = process.stdout,
+  ) {}
+
+  /**
+   * Start reading messages from the input stream
+   * @param handler - Called once per non-empty line
+   * @param onClose - Called when the input stream ends (client went away)
+   */
+  public start(handler: StdioMessageHandler, onClose?: () => void): void {
+    if (this.reader) {
+      return;
+    }
+
+    this.onClose = onClose;
+    this.reader = createInterface({ input: this.input, crlfDelay: Infinity });
+
+    this.reader.on("line", (line: string) => {
+      if (line.trim().length === 0) {
+        return;
+      }
+
+      handler(line)
+        .then((reply) => {
+          if (reply !== null) {
+            this.send(reply);
+          }
+        })
+        .catch((error: unknown) => {
+          logger.error("Failed to handle stdio message", {
+            error: error instanceof Error ? error.message : String(error),
+          });
+        });
+    });
+
+    this.reader.on("close", () => {
+      logger.info("MCP stdio input closed");
+      this.reader = null;
+      this.onClose?.();
+    });
+
+    logger.info("MCP stdio transport started");
+  }
+
+  /**
+   * Write one message to the output stream.
+   * Messages must not contain embedded newlines, which JSON.stringify guarantees.
+   */
+  public send(message: string | object): void {
+    const line =
+      typeof message === "string" ? message : JSON.stringify(message);
+    this.output.write(line + "\n");
+  }
+
+  public close(): void {
+    if (this.reader) {
+      this.onClose = undefined;
+      this.reader.close();
+      this.reader = null;
+    }
+  }
+}
@@ -1,23 +1,279 @@
 // MCP Tools Implementation - Phase 2: MVP Core
 // Week 10, Day 4: Actual tool implementations with TaskRegistry and TaskLifecycle
 
+import { z } from "zod";
 import { logger } from "../util/logger";
 import { taskLifecycle } from "../task/lifecycle";
-import { TaskConfig, TaskResult, TaskStatus } from "../types";
+import { taskRegistry } from "../task-registry/registry";
+import { taskAgentRegistry } from "../task-registry/task-agents";
+import {
+  TASK_AGENT_ROLES,
+  type TaskAgentPermission,
+} from "../task/agent-roles";
+import { DockerManager } from "../docker/manager";
+import { isAllowedTaskImage } from "../task/scheduler";
+import {
+  getExposedPorts,
+  portPreview,
+  previewUrl,
+} from "../docker/port-preview";
+import { multiLayerPersistence } from "../persistence/multi-layer";
+import { checkpointOptimizer } from "../persistence/checkpoint-optimizer";
+import { diffCheckpoints, DiffSide } from "../persistence/checkpoint-diff";
+import {
+  applyWorkspacePatch,
+  listWorkspaceDirectory,
+  readWorkspaceFile,
+  resolveWorkspacePath,
+  searchWorkspaceFiles,
+  writeWorkspaceFile,
+} from "../util/workspace-files";
+import {
+  changeGitBranch,
+  commitGitChanges,
+  getGitDiff,
+  getGitLog,
+  getGitStatus,
+  listGitBranches,
+} from "../util/git-operations";
+import {
+  Task,
+  TaskAgentRole,
+  TaskConfig,
+  TaskResult,
+  TaskStatus,
+} from "../types";
+import type { MCPTool, ToolContext } from "./server";
+import { JsonRpcError } from "./protocol";
+import { assertOwnerQuota } from "./quotas";
+import { idempotencyStore } from "./idempotency";
+import {
+  assertAgentRole,
+  getAccessibleJob,
+  getAccessibleTask,
+  getReadableTask,
+  resolveAgentId,
+  resolveOwner,
+} from "./access";
+import { jobManager } from "./jobs";
+
+const taskId = z
+  .string()
+  .min(1)
+  .max(128)
+  .regex(
+    /^[A-Za-z0-9_-]+$/,
+    "Task IDs may only contain letters, digits, _ and -",
+  )
+  .describe("Task ID");
+const workspacePath = z
+  .string()
+  .min(1)
+  .describe("Path relative to the task workspace");
+const checkpointId = z.string().min(1).describe("Checkpoint ID");
+const jobId = z.string().min(1).describe("Job ID returned by an async call");
+const agentId = z
+  .string()
+  .min(1)
+  .optional()
+  .describe("Agent ID (defaults to the authenticated agent)");
+const idempotencyKey = z
+  .string()
+  .min(1)
+  .max(255)
+  .optional()
+  .describe(
+    "Retries with the same key and arguments return the first call's result",
+  );
+
+/**
+ * A tool that keeps its name, input schema and result type, so clients can
+ * derive typed calls from TOOL_DEFINITIONS (see ToolParams and ToolResult)
+ */
+export interface ToolDefinition<
+  N extends string,
+  S extends z.ZodTypeAny,
+  R,
+> extends MCPTool {
+  name: N;
+  inputSchema: S;
+  execute: (params: Record<string, any>, context?: ToolContext) => Promise<R>;
+}
+
+/**
+ * Declare a tool whose execute() receives arguments typed from its schema.
+ * The server validates arguments against inputSchema before calling execute.
+ * Calls of tools whose schema accepts an idempotencyKey run once per key.
+ */
+function defineTool<const N extends string, S extends z.ZodTypeAny, R>(tool: {
+  name: N;
+  description: string;
+  inputSchema: S;
+  execute: (params: z.infer<S>, context?: ToolContext) => Promise<R>;
+}): ToolDefinition<N, S, R> {
+  const execute = tool.execute;
+  return {
+    ...tool,
+    execute: (params: Record<string, any>, context?: ToolContext) =>
+      typeof params.idempotencyKey === "string"
+        ? idempotencyStore.run(
+            context?.principal?.owner ?? "",
+            params.idempotencyKey,
+            tool.name,
+            params,
+            () => execute(params, context),
+          )
+        : execute(params, context),
+  } as unknown as ToolDefinition<N, S, R>;
+}
+
+/**
+ * Load a task whose workspace the caller may modify (must be running)
+ */
+async function getWritableTask(
+  id: string,
+  context?: ToolContext,
+): Promise<Task> {
+  const task = await getAccessibleTask(id, context);
+  assertTaskNotStopped(task);
+  if (task.status !== "running") {
+    throw new Error(
+      `Cannot modify workspace of task with status: ${task.status}`,
+    );
+  }
+  await assertAgentCanAct(task, context, "write");
+  return task;
+}
+
+/**
+ * Load a task whose lifecycle the caller may change; stopping, pausing,
+ * resuming, blocking and deleting all take a writer role
+ */
+async function getManageableTask(
+  id: string,
+  context?: ToolContext,
+): Promise<Task> {
+  const task = await getAccessibleTask(id, context);
+  await assertAgentRole(task, context, "write");
+  return task;
+}
+
+/**
+ * Check pathspecs for the git tools against the workspace, passing them on
+ * as absolute paths so git never reads them as pathspec magic
+ */
+async function resolveGitPaths(
+  id: string,
+  paths?: string[],
+): Promise<string[] | undefined> {
+  return paths
+    ? Promise.all(paths.map((path) => resolveWorkspacePath(id, path)))
+    : undefined;
+}
+
+/**
+ * Reject work on a paused or blocked task, naming what it waits for
+ */
+function assertTaskNotStopped(task: Task): void {
+  if (task.status === "paused") {
+    throw new Error(
+      task.metadata?.pauseReason === "no_writers"
+        ? `Task is paused until a writer agent attaches: ${task.id}`
+        : `Task is paused until it is resumed: ${task.id}`,
+    );
+  }
+  if (task.status === "blocked") {
+    throw new Error(
+      `Task is blocked (${task.metadata?.blockReason ?? "no reason given"}): ${task.id}`,
+    );
+  }
+}
+
+/**
+ * Reject work on a paused or blocked task, and check that an authenticated
+ * agent is attached with a role that permits the action
+ */
+async function assertAgentCanAct(
+  task: Task,
+  context: ToolContext | undefined,
+  permission: TaskAgentPermission,
+): Promise<void> {
+  assertTaskNotStopped(task);
+  await assertAgentRole(task, context, permission);
+}
 
 export const TOOL_DEFINITIONS = [
-  {
+  defineTool({
     name: "create_task_sandbox",
     description: "Create a new task sandbox",
-    execute: async (params: Record<string, any>) => {
+    inputSchema: z.object({
+      taskId: taskId.optional().describe("Task ID (generated if omitted)"),
+      name: z.string().min(1).describe("Task name"),
+      owner: z
+        .string()
+        .min(1)
+        .optional()
+        .describe("Owner (defaults to the authenticated owner)"),
+      metadata: z
+        .record(z.any())
+        .optional()
+        .describe(
+          "Custom task metadata; containerId is set by the server and image must be an allowed task image",
+        ),
+      dependsOn: z
+        .array(taskId)
+        .optional()
+        .describe("IDs of tasks that must complete before this one starts"),
+      deadline: z
+        .string()
+        .datetime()
+        .optional()
+        .describe("Time by which the task must be done (ISO 8601)"),
+      maxRunningMs: z
+        .number()
+        .int()
+        .positive()
+        .optional()
+        .describe("Longest a single run may stay running, in milliseconds"),
+      onTimeout: z
+        .enum(["fail", "cancel"])
+        .optional()
+        .describe("What to do with an overdue task (default: fail)"),
+      idempotencyKey,
+    }),
+    execute: async (params, context) => {
       try {
+        // A caller-chosen container would let the task tools reach any
+        // container on the host
+        if (params.metadata?.containerId !== undefined) {
+          throw new Error("metadata.containerId is set by the server");
+        }
+        const image = params.metadata?.image;
+        if (
+          image !== undefined &&
+          (typeof image !== "string" || !isAllowedTaskImage(image))
+        ) {
+          throw new Error(`Image is not allowed for tasks: ${String(image)}`);
+        }
+
         const config: TaskConfig = {
           id: params.taskId,
           name: params.name,
-          owner: params.owner,
+          owner: resolveOwner(params.owner, context),
           metadata: params.metadata,
+          dependsOn: params.dependsOn,
+          deadline: params.deadline,
+          maxRunningMs: params.maxRunningMs,
+          onTimeout: params.onTimeout,
         };
 
+        for (const prerequisite of params.dependsOn ?? []) {
+          await getAccessibleTask(prerequisite, context);
+        }
+
+        // The scheduler gives every task it starts a container
+        await assertOwnerQuota(config.owner, { container: true });
+
         const task = await taskLifecycle.createTask(config);
 
         logger.info("Task sandbox created", {
@@ -29,35 +285,53 @@ export const TOOL_DEFINITIONS = [
           success: true,
           taskId: task.id,
           status: task.status,
+          blockedBy: (task.metadata?.blockedBy ?? []) as string[],
+          deadline: task.metadata?.deadline ?? null,
           createdAt: task.createdAt.toISOString(),
         };
       } catch (error: unknown) {
+        if (error instanceof JsonRpcError) {
+          throw error;
+        }
         const errorMessage =
           error instanceof Error ? error.message : String(error);
         logger.error("Failed to create task sandbox", { error: errorMessage });
         throw new Error(`Failed to create task: ${errorMessage}`);
       }
     },
-  },
-  {
+  }),
+  defineTool({
     name: "attach_agent_to_task",
-    description: "Attach an AI agent to an existing task",
-    execute: async (params: Record<string, any>) => {
+    description:
+      "Attach an AI agent to a task with a role; a writer starts a pending task",
+    inputSchema: z.object({
+      taskId,
+      agentId,
+      role: z
+        .enum(TASK_AGENT_ROLES as [TaskAgentRole, ...TaskAgentRole[]])
+        .default("collaborator")
+        .describe(
+          "owner and collaborator write; reviewer runs commands; observer reads",
+        ),
+      idempotencyKey,
+    }),
+    execute: async (params, context) => {
       try {
-        const task = await taskLifecycle.startTask(
+        const agentId = resolveAgentId(params.agentId, context);
+        await getAccessibleTask(params.taskId, context);
+        const { task, attachment } = await taskLifecycle.attachAgent(
           params.taskId,
-          params.agentId,
+          agentId,
+          params.role,
         );
 
-        logger.info("Agent attached to task", {
-          taskId: params.taskId,
-          agentId: params.agentId,
-        });
-
         return {
           success: true,
           taskId: task.id,
-          agentId: params.agentId,
+          agentId,
+          role: attachment.role,
+          status: task.status,
+          attachedAt: attachment.attachedAt.toISOString(),
           attached: true,
         };
       } catch (error: unknown) {
@@ -67,24 +341,28 @@ export const TOOL_DEFINITIONS = [
         throw new Error(`Failed to attach agent: ${errorMessage}`);
       }
     },
-  },
-  {
+  }),
+  defineTool({
     name: "detach_agent_from_task",
-    description: "Detach an agent from a task",
-    execute: async (params: Record<string, any>) => {
+    description:
+      "Detach an agent from a task; the task pauses when its last writer leaves",
+    inputSchema: z.object({ taskId, agentId, idempotencyKey }),
+    execute: async (params, context) => {
       try {
-        // For now, detach just logs the action
-        // In full implementation, we'd remove agent association from task metadata
-        logger.info("Agent detached from task", {
-          taskId: params.taskId,
-          agentId: params.agentId,
-        });
+        const agentId = resolveAgentId(params.agentId, context);
+        await getAccessibleTask(params.taskId, context);
+        const { task, attachment, paused } = await taskLifecycle.detachAgent(
+          params.taskId,
+          agentId,
+        );
 
         return {
           success: true,
-          taskId: params.taskId,
-          agentId: params.agentId,
+          taskId: task.id,
+          agentId,
+          role: attachment.role,
           detached: true,
+          paused,
         };
       } catch (error: unknown) {
         const errorMessage =
@@ -93,32 +371,101 @@ export const TOOL_DEFINITIONS = [
         throw new Error(`Failed to detach agent: ${errorMessage}`);
       }
     },
-  },
-  {
+  }),
+  defineTool({
     name: "execute_in_task",
     description: "Execute a command in a task",
-    execute: async (params: Record<string, any>) => {
+    inputSchema: z.object({
+      taskId: taskId.describe("Task ID (must be running)"),
+      command: z
+        .union([z.string().min(1), z.array(z.string()).min(1)])
+        .describe("Shell command or argv array"),
+      timeout: z
+        .number()
+        .int()
+        .positive()
+        .default(30000)
+        .describe("Timeout in ms"),
+      workingDir: z
+        .string()
+        .min(1)
+        .optional()
+        .describe("Working directory in the container"),
+      env: z
+        .record(z.string())
+        .optional()
+        .describe("Extra environment variables"),
+      stream: z
+        .boolean()
+        .optional()
+        .describe("Send output as progress notifications"),
+      idempotencyKey,
+    }),
+    execute: async (params, context) => {
       try {
-        // For now, just log the command execution
-        // In full implementation with Docker Manager, this would:
-        // 1. Verify task is running
-        // 2. Execute command in Docker container
-        // 3. Capture stdout/stderr
-        // 4. Return exit code and output
+        const task = await getAccessibleTask(params.taskId, context);
+
+        if (task.status !== "running") {
+          throw new Error(
+            `Cannot execute command in task with status: ${task.status}`,
+          );
+        }
+        await assertAgentCanAct(task, context, "execute");
+
+        const containerId = task.metadata?.containerId;
+        if (!containerId) {
+          throw new Error(`Task has no container: ${params.taskId}`);
+        }
+        await DockerManager.getInstance().assertTaskContainer(
+          containerId,
+          task.id,
+        );
+
+        // Streaming mode pushes output chunks as progress notifications;
+        // progress is the number of bytes streamed so far
+        const onProgress = params.stream ? context?.onProgress : undefined;
+        let bytesStreamed = 0;
+
+        const result = await DockerManager.getInstance().execCommand(
+          containerId,
+          params.command,
+          {
+            workingDir: params.workingDir,
+            env: params.env,
+            timeoutMs: params.timeout,
+            // Cancelling the MCP request kills the process in the container
+            signal: context?.signal,
+            onOutput: onProgress
+              ? (chunk) => {
+                  bytesStreamed += Buffer.byteLength(chunk.data);
+                  onProgress({
+                    progress: bytesStreamed,
+                    message: chunk.data,
+                    _meta: { "opencode/stream": chunk.stream },
+                  });
+                }
+              : undefined,
+          },
+        );
 
         logger.info("Command executed in task", {
           taskId: params.taskId,
-          command: params.command,
-          timeout: params.timeout || 30000,
+          containerId,
+          exitCode: result.exitCode,
+          duration: result.durationMs,
+          timedOut: result.timedOut,
+          cancelled: result.cancelled,
         });
 
         return {
-          success: true,
+          success: result.exitCode === 0 && !result.timedOut,
           taskId: params.taskId,
-          exitCode: 0,
-          stdout: `Executed: ${params.command}`,
-          stderr: "",
-          duration: 100, // Simulated duration
+          exitCode: result.exitCode,
+          stdout: result.stdout,
+          stderr: result.stderr,
+          duration: result.durationMs,
+          timedOut: result.timedOut,
+          streamed: onProgress !== undefined,
         };
       } catch (error: unknown) {
         const errorMessage =
@@ -127,20 +474,91 @@ export const TOOL_DEFINITIONS = [
         throw new Error(`Failed to execute command: ${errorMessage}`);
       }
     },
-  },
-  {
+  }),
+  defineTool({
     name: "list_tasks",
-    description: "List all tasks with optional filters",
-    execute: async (params: Record<string, any>) => {
+    description:
+      "List tasks with filters, sorting and cursor pagination, plus the total count",
+    inputSchema: z.object({
+      status: z
+        .enum([
+          "pending",
+          "running",
+          "paused",
+          "blocked",
+          "completed",
+          "failed",
+          "cancelled",
+        ])
+        .optional()
+        .describe(
+          "blocked only matches tasks blocked with block_task; a task waiting for prerequisites is pending with metadata.blockedBy (filter with metadata: { blockedBy: [] })",
+        ),
+      owner: z.string().min(1).optional().describe("Filter by owner"),
+      tags: z
+        .array(z.string().min(1))
+        .optional()
+        .describe("Only tasks tagged with all of these (metadata.tags)"),
+      createdAfter: z
+        .string()
+        .datetime({ offset: true })
+        .optional()
+        .describe("Only tasks created at or after this time"),
+      createdBefore: z
+        .string()
+        .datetime({ offset: true })
+        .optional()
+        .describe("Only tasks created before this time"),
+      metadata: z
+        .record(z.any())
+        .optional()
+        .describe("Only tasks whose metadata contains these values"),
+      sortBy: z.enum(["createdAt", "updatedAt", "name"]).default("createdAt"),
+      sortOrder: z.enum(["asc", "desc"]).default("desc"),
+      limit: z
+        .number()
+        .int()
+        .positive()
+        .max(500)
+        .default(50)
+        .describe("Maximum results to return"),
+      offset: z
+        .number()
+        .int()
+        .nonnegative()
+        .optional()
+        .describe("Pagination offset (prefer cursor)"),
+      cursor: z
+        .string()
+        .min(1)
+        .optional()
+        .describe("nextCursor from the previous page"),
+    }),
+    execute: async (params, context) => {
       try {
-        // This will be implemented with TaskRegistry.list()
-        // For now, return empty array
-        logger.info("Tasks listed", { filters: params });
+        const page = await taskRegistry.listPage({
+          ...params,
+          // Authenticated callers only see their owner's tasks
+          owner: resolveOwner(params.owner, context),
+          createdAfter: params.createdAfter
+            ? new Date(params.createdAfter)
+            : undefined,
+          createdBefore: params.createdBefore
+            ? new Date(params.createdBefore)
+            : undefined,
+        });
+
+        logger.info("Tasks listed", {
+          count: page.tasks.length,
+          total: page.total,
+        });
 
         return {
           success: true,
-          tasks: [],
-          count: 0,
+          tasks: page.tasks,
+          count: page.tasks.length,
+          total: page.total,
+          nextCursor: page.nextCursor,
         };
       } catch (error: unknown) {
         const errorMessage =
@@ -149,13 +567,16 @@ export const TOOL_DEFINITIONS = [
         throw new Error(`Failed to list tasks: ${errorMessage}`);
       }
     },
-  },
-  {
+  }),
+  defineTool({
     name: "get_task_status",
     description: "Get task status and details",
-    execute: async (params: Record<string, any>) => {
+    inputSchema: z.object({ taskId }),
+    execute: async (params, context) => {
       try {
+        const task = await getReadableTask(params.taskId, context);
         const status = await taskLifecycle.getTaskStatus(params.taskId);
+        const agents = await taskAgentRegistry.listActive(params.taskId);
 
         logger.info("Task status retrieved", { taskId: params.taskId, status });
 
@@ -163,6 +584,23 @@ export const TOOL_DEFINITIONS = [
           success: true,
           taskId: params.taskId,
           status: status,
+          paused: status === "paused",
+          pauseReason: task.metadata?.pauseReason ?? null,
+          blockReason: task.metadata?.blockReason ?? null,
+          blockedBy: (task.metadata?.blockedBy ?? []) as string[],
+          attempts: task.metadata?.attempts ?? [],
+          retryAt: task.metadata?.retryAt ?? null,
+          exposedPorts: getExposedPorts(task).map((port) => ({
+            containerPort: port.containerPort,
+            hostPort: port.hostPort,
+            hostIp: port.hostIp,
+            protocol: port.protocol,
+          })),
+          agents: agents.map((agent) => ({
+            agentId: agent.agentId,
+            role: agent.role,
+            attachedAt: agent.attachedAt.toISOString(),
+          })),
         };
       } catch (error: unknown) {
         const errorMessage =
@@ -171,19 +609,33 @@ export const TOOL_DEFINITIONS = [
         throw new Error(`Failed to get task status: ${errorMessage}`);
       }
     },
-  },
-  {
+  }),
+  defineTool({
     name: "stop_task",
     description: "Stop a running task",
-    execute: async (params: Record<string, any>) => {
+    inputSchema: z.object({ taskId, idempotencyKey }),
+    execute: async (params, context) => {
       try {
-        // For now, just cancel the task
-        // In full implementation with Docker Manager, this would:
-        // 1. Stop the Docker container
-        // 2. Update task status to cancelled
-
+        await getManageableTask(params.taskId, context);
         const task = await taskLifecycle.cancelTask(params.taskId);
 
+        // The task is cancelled either way; a container that will not stop
+        // is logged rather than reported as a failed call
+        const containerId = task.metadata?.containerId;
+        if (containerId) {
+          const docker = DockerManager.getInstance();
+          await docker
+            .assertTaskContainer(containerId, task.id)
+            .then(() => docker.stopContainer(containerId))
+            .catch((error: unknown) =>
+              logger.error("Failed to stop container of stopped task", {
+                taskId: task.id,
+                containerId,
+                error: error instanceof Error ? error.message : String(error),
+              }),
+            );
+        }
+
         logger.info("Task stopped", { taskId: params.taskId });
 
         return {
@@ -198,12 +650,97 @@ export const TOOL_DEFINITIONS = [
         throw new Error(`Failed to stop task: ${errorMessage}`);
       }
     },
-  },
-  {
+  }),
+  defineTool({
+    name: "pause_task",
+    description: "Pause a running task and its container until resumed",
+    inputSchema: z.object({ taskId, idempotencyKey }),
+    execute: async (params, context) => {
+      try {
+        await getManageableTask(params.taskId, context);
+        const task = await taskLifecycle.pauseTask(params.taskId);
+
+        logger.info("Task paused", { taskId: params.taskId });
+
+        return {
+          success: true,
+          taskId: task.id,
+          status: task.status,
+        };
+      } catch (error: unknown) {
+        const errorMessage =
+          error instanceof Error ? error.message : String(error);
+        logger.error("Failed to pause task", { error: errorMessage });
+        throw new Error(`Failed to pause task: ${errorMessage}`);
+      }
+    },
+  }),
+  defineTool({
+    name: "resume_task",
+    description: "Resume a paused or blocked task",
+    inputSchema: z.object({ taskId, idempotencyKey }),
+    execute: async (params, context) => {
+      try {
+        await getManageableTask(params.taskId, context);
+        const task = await taskLifecycle.resumeTask(
+          params.taskId,
+          context?.principal?.agentId,
+        );
+
+        logger.info("Task resumed", { taskId: params.taskId });
+
+        return {
+          success: true,
+          taskId: task.id,
+          status: task.status,
+        };
+      } catch (error: unknown) {
+        const errorMessage =
+          error instanceof Error ? error.message : String(error);
+        logger.error("Failed to resume task", { error: errorMessage });
+        throw new Error(`Failed to resume task: ${errorMessage}`);
+      }
+    },
+  }),
+  defineTool({
+    name: "block_task",
+    description: "Block a task until it is resumed, recording why",
+    inputSchema: z.object({
+      taskId,
+      reason: z.string().min(1).describe("What the task is waiting for"),
+      idempotencyKey,
+    }),
+    execute: async (params, context) => {
+      try {
+        await getManageableTask(params.taskId, context);
+        const task = await taskLifecycle.blockTask(
+          params.taskId,
+          params.reason,
+        );
+
+        logger.info("Task blocked", { taskId: params.taskId });
+
+        return {
+          success: true,
+          taskId: task.id,
+          status: task.status,
+          reason: params.reason,
+        };
+      } catch (error: unknown) {
+        const errorMessage =
+          error instanceof Error ? error.message : String(error);
+        logger.error("Failed to block task", { error: errorMessage });
+        throw new Error(`Failed to block task: ${errorMessage}`);
+      }
+    },
+  }),
+  defineTool({
     name: "delete_task",
     description: "Delete a task and cleanup",
-    execute: async (params: Record<string, any>) => {
+    inputSchema: z.object({ taskId, idempotencyKey }),
+    execute: async (params, context) => {
       try {
+        await getManageableTask(params.taskId, context);
         await taskLifecycle.deleteTask(params.taskId);
 
         logger.info("Task deleted", { taskId: params.taskId });
@@ -219,15 +756,729 @@ export const TOOL_DEFINITIONS = [
         throw new Error(`Failed to delete task: ${errorMessage}`);
       }
     },
-  },
-];
+  }),
+  defineTool({
+    name: "read_file",
+    description: "Read a text file from the task workspace",
+    inputSchema: z.object({
+      taskId,
+      path: workspacePath,
+      startLine: z
+        .number()
+        .int()
+        .positive()
+        .optional()
+        .describe("First line to return (1-based)"),
+      endLine: z
+        .number()
+        .int()
+        .positive()
+        .optional()
+        .describe("Last line to return (inclusive)"),
+    }),
+    execute: async (params, context) => {
+      try {
+        await getReadableTask(params.taskId, context);
+        const result = await readWorkspaceFile(params.taskId, params.path, {
+          startLine: params.startLine,
+          endLine: params.endLine,
+        });
+
+        return { success: true, taskId: params.taskId, ...result };
+      } catch (error: unknown) {
+        const errorMessage =
+          error instanceof Error ? error.message : String(error);
+        logger.error("Failed to read file", { error: errorMessage });
+        throw new Error(`Failed to read file: ${errorMessage}`);
+      }
+    },
+  }),
+  defineTool({
+    name: "write_file",
+    description: "Create or overwrite a file in the task workspace",
+    inputSchema: z.object({
+      taskId: taskId.describe("Task ID (must be running)"),
+      path: workspacePath,
+      content: z.string().describe("Full file content"),
+      idempotencyKey,
+    }),
+    execute: async (params, context) => {
+      try {
+        await getWritableTask(params.taskId, context);
+        const result = await writeWorkspaceFile(
+          params.taskId,
+          params.path,
+          params.content,
+        );
+
+        logger.info("File written in task workspace", {
+          taskId: params.taskId,
+          path: result.path,
+          bytes: result.bytesWritten,
+        });
+
+        return { success: true, taskId: params.taskId, ...result };
+      } catch (error: unknown) {
+        const errorMessage =
+          error instanceof Error ? error.message : String(error);
+        logger.error("Failed to write file", { error: errorMessage });
+        throw new Error(`Failed to write file: ${errorMessage}`);
+      }
+    },
+  }),
+  defineTool({
+    name: "list_directory",
+    description: "List files in the task workspace, optionally by glob",
+    inputSchema: z.object({
+      taskId,
+      path: workspacePath.default(".").describe("Directory to list"),
+      pattern: z
+        .string()
+        .min(1)
+        .optional()
+        .describe("Glob such as **/*.ts, relative to the directory"),
+      recursive: z.boolean().default(false),
+      maxEntries: z.number().int().positive().max(10000).default(1000),
+    }),
+    execute: async (params, context) => {
+      try {
+        await getReadableTask(params.taskId, context);
+        const result = await listWorkspaceDirectory(
+          params.taskId,
+          params.path,
+          {
+            pattern: params.pattern,
+            // A pattern spanning directories implies a recursive listing
+            recursive:
+              params.recursive || Boolean(params.pattern?.includes("/")),
+            maxEntries: params.maxEntries,
+          },
+        );
+
+        return {
+          success: true,
+          taskId: params.taskId,
+          entries: result.entries,
+          count: result.entries.length,
+          truncated: result.truncated,
+        };
+      } catch (error: unknown) {
+        const errorMessage =
+          error instanceof Error ? error.message : String(error);
+        logger.error("Failed to list directory", { error: errorMessage });
+        throw new Error(`Failed to list directory: ${errorMessage}`);
+      }
+    },
+  }),
+  defineTool({
+    name: "search_files",
+    description: "Search file contents in the task workspace with a regex",
+    inputSchema: z.object({
+      taskId,
+      pattern: z.string().min(1).describe("JavaScript regular expression"),
+      path: workspacePath.optional().describe("Directory to search"),
+      include: z
+        .string()
+        .min(1)
+        .optional()
+        .describe("Only search files matching this glob"),
+      caseSensitive: z.boolean().default(true),
+      maxResults: z.number().int().positive().max(5000).default(200),
+    }),
+    execute: async (params, context) => {
+      try {
+        await getReadableTask(params.taskId, context);
+        const result = await searchWorkspaceFiles(
+          params.taskId,
+          params.pattern,
+          {
+            path: params.path,
+            include: params.include,
+            caseSensitive: params.caseSensitive,
+            maxResults: params.maxResults,
+          },
+        );
+
+        return {
+          success: true,
+          taskId: params.taskId,
+          matches: result.matches,
+          count: result.matches.length,
+          truncated: result.truncated,
+        };
+      } catch (error: unknown) {
+        const errorMessage =
+          error instanceof Error ? error.message : String(error);
+        logger.error("Failed to search files", { error: errorMessage });
+        throw new Error(`Failed to search files: ${errorMessage}`);
+      }
+    },
+  }),
+  defineTool({
+    name: "apply_patch",
+    description: "Apply a unified diff to files in the task workspace",
+    inputSchema: z.object({
+      taskId: taskId.describe("Task ID (must be running)"),
+      patch: z
+        .string()
+        .min(1)
+        .describe("Unified diff (diff -u or git diff format)"),
+      idempotencyKey,
+    }),
+    execute: async (params, context) => {
+      try {
+        await getWritableTask(params.taskId, context);
+        const files = await applyWorkspacePatch(params.taskId, params.patch);
+
+        return { success: true, taskId: params.taskId, files };
+      } catch (error: unknown) {
+        const errorMessage =
+          error instanceof Error ? error.message : String(error);
+        logger.error("Failed to apply patch", { error: errorMessage });
+        throw new Error(`Failed to apply patch: ${errorMessage}`);
+      }
+    },
+  }),
+  defineTool({
+    name: "create_checkpoint",
+    description:
+      "Save the task's state and logs; returns the latest checkpoint instead when nothing changed since it",
+    inputSchema: z.object({
+      taskId,
+      description: z
+        .string()
+        .max(500)
+        .optional()
+        .describe("What the checkpoint captures"),
+      idempotencyKey,
+    }),
+    execute: async (params, context) => {
+      try {
+        const task = await getAccessibleTask(params.taskId, context);
+        await assertAgentCanAct(task, context, "write");
+
+        const [latest] = await multiLayerPersistence.listCheckpoints(
+          params.taskId,
+        );
+        const id = await checkpointOptimizer.createIncrementalCheckpoint(
+          params.taskId,
+          params.description,
+        );
+
+        logger.info("Checkpoint created via MCP", {
+          taskId: params.taskId,
+          checkpointId: id,
+        });
+
+        return {
+          success: true,
+          taskId: params.taskId,
+          checkpointId: id,
+          created: id !== latest?.id,
+        };
+      } catch (error: unknown) {
+        const errorMessage =
+          error instanceof Error ? error.message : String(error);
+        logger.error("Failed to create checkpoint", { error: errorMessage });
+        throw new Error(`Failed to create checkpoint: ${errorMessage}`);
+      }
+    },
+  }),
+  defineTool({
+    name: "list_checkpoints",
+    description: "List a task's checkpoints, newest first",
+    inputSchema: z.object({ taskId }),
+    execute: async (params, context) => {
+      try {
+        await getReadableTask(params.taskId, context);
+        const checkpoints = await multiLayerPersistence.listCheckpoints(
+          params.taskId,
+        );
+
+        return {
+          success: true,
+          taskId: params.taskId,
+          checkpoints: checkpoints.map((checkpoint) => ({
+            id: checkpoint.id,
+            timestamp: checkpoint.timestamp,
+            description: checkpoint.description,
+          })),
+        };
+      } catch (error: unknown) {
+        const errorMessage =
+          error instanceof Error ? error.message : String(error);
+        logger.error("Failed to list checkpoints", { error: errorMessage });
+        throw new Error(`Failed to list checkpoints: ${errorMessage}`);
+      }
+    },
+  }),
+  defineTool({
+    name: "restore_checkpoint",
+    description:
+      "Roll the task's state back to a checkpoint; the checkpoint's logs are appended to the log",
+    inputSchema: z.object({ taskId, checkpointId, idempotencyKey }),
+    execute: async (params, context) => {
+      try {
+        const task = await getAccessibleTask(params.taskId, context);
+        await assertAgentCanAct(task, context, "write");
+        await multiLayerPersistence.restoreCheckpoint(
+          params.taskId,
+          params.checkpointId,
+        );
+
+        logger.info("Checkpoint restored via MCP", {
+          taskId: params.taskId,
+          checkpointId: params.checkpointId,
+        });
+
+        return {
+          success: true,
+          taskId: params.taskId,
+          checkpointId: params.checkpointId,
+        };
+      } catch (error: unknown) {
+        const errorMessage =
+          error instanceof Error ? error.message : String(error);
+        logger.error("Failed to restore checkpoint", { error: errorMessage });
+        throw new Error(`Failed to restore checkpoint: ${errorMessage}`);
+      }
+    },
+  }),
+  defineTool({
+    name: "diff_checkpoints",
+    description:
+      "Compare task state between two checkpoints, or a checkpoint and the current state",
+    inputSchema: z.object({
+      taskId,
+      from: checkpointId.describe("Checkpoint to compare from"),
+      to: checkpointId
+        .optional()
+        .describe("Checkpoint to compare to (defaults to the current state)"),
+    }),
+    execute: async (params, context) => {
+      try {
+        await getReadableTask(params.taskId, context);
+
+        const load = async (id: string): Promise<DiffSide> => ({
+          id,
+          ...(await multiLayerPersistence.loadCheckpoint(params.taskId, id)),
+        });
+        const from = await load(params.from);
+        const to: DiffSide = params.to
+          ? await load(params.to)
+          : {
+              id: "current",
+              state: await multiLayerPersistence.loadState(params.taskId),
+              logs: await multiLayerPersistence.loadLogs(params.taskId),
+            };
+
+        return {
+          success: true,
+          taskId: params.taskId,
+          ...diffCheckpoints(from, to),
+        };
+      } catch (error: unknown) {
+        const errorMessage =
+          error instanceof Error ? error.message : String(error);
+        logger.error("Failed to diff checkpoints", { error: errorMessage });
+        throw new Error(`Failed to diff checkpoints: ${errorMessage}`);
+      }
+    },
+  }),
+  defineTool({
+    name: "get_job",
+    description:
+      "Get the status, progress and result of a tool call started with async: true",
+    inputSchema: z.object({ jobId }),
+    execute: async (params, context) => {
+      try {
+        const job = await getAccessibleJob(params.jobId, context);
+        return { success: true, job };
+      } catch (error: unknown) {
+        const errorMessage =
+          error instanceof Error ? error.message : String(error);
+        logger.error("Failed to get job", { error: errorMessage });
+        throw new Error(`Failed to get job: ${errorMessage}`);
+      }
+    },
+  }),
+  defineTool({
+    name: "list_jobs",
+    description: "List background tool jobs, newest first",
+    inputSchema: z.object({
+      status: z
+        .enum(["running", "completed", "failed", "cancelled", "interrupted"])
+        .optional(),
+      tool: z.string().min(1).optional().describe("Filter by tool name"),
+      owner: z.string().min(1).optional().describe("Filter by owner"),
+      limit: z
+        .number()
+        .int()
+        .positive()
+        .max(500)
+        .default(50)
+        .describe("Maximum results to return"),
+    }),
+    execute: async (params, context) => {
+      try {
+        const jobs = await jobManager.list({
+          ...params,
+          // Authenticated callers only see their owner's jobs
+          owner: resolveOwner(params.owner, context),
+        });
+        return { success: true, jobs, count: jobs.length };
+      } catch (error: unknown) {
+        const errorMessage =
+          error instanceof Error ? error.message : String(error);
+        logger.error("Failed to list jobs", { error: errorMessage });
+        throw new Error(`Failed to list jobs: ${errorMessage}`);
+      }
+    },
+  }),
+  defineTool({
+    name: "cancel_job",
+    description:
+      "Cancel a running background job; its tool sees the abort signal",
+    inputSchema: z.object({
+      jobId,
+      reason: z.string().min(1).optional().describe("Why the job is cancelled"),
+    }),
+    execute: async (params, context) => {
+      try {
+        const job = await getAccessibleJob(params.jobId, context);
+        const cancelled = await jobManager.cancel(job.id, params.reason);
+        if (!cancelled) {
+          throw new Error(`Job is not running: ${job.id} (${job.status})`);
+        }
+
+        logger.info("Job cancelled", { jobId: job.id, tool: job.tool });
+        return {
+          success: true,
+          jobId: job.id,
+          status: "cancelled",
+          cancelled: true,
+        };
+      } catch (error: unknown) {
+        const errorMessage =
+          error instanceof Error ? error.message : String(error);
+        logger.error("Failed to cancel job", { error: errorMessage });
+        throw new Error(`Failed to cancel job: ${errorMessage}`);
+      }
+    },
+  }),
+  defineTool({
+    name: "git_status",
+    description: "Show the branch and changed files of the task workspace",
+    inputSchema: z.object({ taskId }),
+    execute: async (params, context) => {
+      try {
+        await getReadableTask(params.taskId, context);
+        const root = await resolveWorkspacePath(params.taskId, ".");
+        const status = await getGitStatus(root);
+
+        return { success: true, taskId: params.taskId, ...status };
+      } catch (error: unknown) {
+        const errorMessage =
+          error instanceof Error ? error.message : String(error);
+        logger.error("Failed to get git status", { error: errorMessage });
+        throw new Error(`Failed to get git status: ${errorMessage}`);
+      }
+    },
+  }),
+  defineTool({
+    name: "git_diff",
+    description:
+      "Diff the task workspace: unstaged, staged, or everything since the base branch",
+    inputSchema: z.object({
+      taskId,
+      target: z
+        .enum(["unstaged", "staged", "base"])
+        .default("unstaged")
+        .describe("What to compare"),
+      base: z
+        .string()
+        .min(1)
+        .optional()
+        .describe(
+          "Base branch for target base (default: origin/HEAD, main or master)",
+        ),
+      paths: z
+        .array(workspacePath)
+        .optional()
+        .describe("Limit the diff to these paths"),
+    }),
+    execute: async (params, context) => {
+      try {
+        await getReadableTask(params.taskId, context);
+        const root = await resolveWorkspacePath(params.taskId, ".");
+        const result = await getGitDiff(root, {
+          target: params.target,
+          base: params.base,
+          paths: await resolveGitPaths(params.taskId, params.paths),
+        });
+
+        return { success: true, taskId: params.taskId, ...result };
+      } catch (error: unknown) {
+        const errorMessage =
+          error instanceof Error ? error.message : String(error);
+        logger.error("Failed to get git diff", { error: errorMessage });
+        throw new Error(`Failed to get git diff: ${errorMessage}`);
+      }
+    },
+  }),
+  defineTool({
+    name: "git_commit",
+    description:
+      "Commit changes in the task workspace, authored by the calling agent",
+    inputSchema: z.object({
+      taskId: taskId.describe("Task ID (must be running)"),
+      message: z.string().min(1).describe("Commit message"),
+      paths: z
+        .array(workspacePath)
+        .optional()
+        .describe("Stage these paths before committing"),
+      all: z
+        .boolean()
+        .default(false)
+        .describe("Stage every change, including new files"),
+      agentId,
+      idempotencyKey,
+    }),
+    execute: async (params, context) => {
+      try {
+        const resolvedAgentId = resolveAgentId(params.agentId, context);
+        await getWritableTask(params.taskId, context);
+        const root = await resolveWorkspacePath(params.taskId, ".");
+        const result = await commitGitChanges(root, {
+          message: params.message,
+          author: {
+            name: resolvedAgentId,
+            email: `${resolvedAgentId}@agents.opencode.local`,
+          },
+          paths: await resolveGitPaths(params.taskId, params.paths),
+          all: params.all,
+        });
+
+        return {
+          success: true,
+          taskId: params.taskId,
+          agentId: resolvedAgentId,
+          ...result,
+        };
+      } catch (error: unknown) {
+        const errorMessage =
+          error instanceof Error ? error.message : String(error);
+        logger.error("Failed to commit", { error: errorMessage });
+        throw new Error(`Failed to commit: ${errorMessage}`);
+      }
+    },
+  }),
+  defineTool({
+    name: "git_log",
+    description: "List recent commits in the task workspace, newest first",
+    inputSchema: z.object({
+      taskId,
+      ref: z
+        .string()
+        .min(1)
+        .optional()
+        .describe("Branch or commit to start from (default: HEAD)"),
+      path: workspacePath
+        .optional()
+        .describe("Only commits touching this path"),
+      maxCount: z.number().int().positive().max(500).default(20),
+    }),
+    execute: async (params, context) => {
+      try {
+        await getReadableTask(params.taskId, context);
+        const root = await resolveWorkspacePath(params.taskId, ".");
+        const [path] =
+          (await resolveGitPaths(
+            params.taskId,
+            params.path ? [params.path] : undefined,
+          )) ?? [];
+        const commits = await getGitLog(root, {
+          ref: params.ref,
+          path,
+          maxCount: params.maxCount,
+        });
+
+        return {
+          success: true,
+          taskId: params.taskId,
+          commits,
+          count: commits.length,
+        };
+      } catch (error: unknown) {
+        const errorMessage =
+          error instanceof Error ? error.message : String(error);
+        logger.error("Failed to get git log", { error: errorMessage });
+        throw new Error(`Failed to get git log: ${errorMessage}`);
+      }
+    },
+  }),
+  defineTool({
+    name: "git_branch",
+    description:
+      "List branches of the task workspace, or create or switch to one",
+    inputSchema: z.object({
+      taskId,
+      action: z.enum(["list", "create", "switch"]).default("list"),
+      name: z
+        .string()
+        .min(1)
+        .optional()
+        .describe("Branch name (required for create and switch)"),
+      startPoint: z
+        .string()
+        .min(1)
+        .optional()
+        .describe("Commit or branch to create from (default: HEAD)"),
+      idempotencyKey,
+    }),
+    execute: async (params, context) => {
+      try {
+        if (params.action === "list") {
+          await getReadableTask(params.taskId, context);
+          const root = await resolveWorkspacePath(params.taskId, ".");
+          const branches = await listGitBranches(root);
+          return {
+            success: true,
+            taskId: params.taskId,
+            branches,
+            current: branches.find((branch) => branch.current)?.name ?? null,
+          };
+        }
+
+        if (!params.name) {
+          throw new Error(`name is required to ${params.action} a branch`);
+        }
+        await getWritableTask(params.taskId, context);
+        const root = await resolveWorkspacePath(params.taskId, ".");
+        const branch = await changeGitBranch(
+          root,
+          params.action,
+          params.name,
+          params.startPoint,
+        );
+
+        return {
+          success: true,
+          taskId: params.taskId,
+          branches: [branch],
+          current: branch.name,
+        };
+      } catch (error: unknown) {
+        const errorMessage =
+          error instanceof Error ? error.message : String(error);
+        logger.error("Failed to manage git branch", { error: errorMessage });
+        throw new Error(`Failed to manage git branch: ${errorMessage}`);
+      }
+    },
+  }),
+  defineTool({
+    name: "expose_port",
+    description:
+      "Publish a port of the task container on the host so humans can open a dev server",
+    inputSchema: z.object({
+      taskId: taskId.describe("Task ID (must be running)"),
+      containerPort: z
+        .number()
+        .int()
+        .min(1)
+        .max(65535)
+        .describe("Port the service listens on inside the container"),
+      protocol: z.enum(["tcp", "udp"]).default("tcp"),
+      idempotencyKey,
+    }),
+    execute: async (params, context) => {
+      try {
+        await getWritableTask(params.taskId, context);
+        const { port, created } = await portPreview.expose(
+          params.taskId,
+          params.containerPort,
+          params.protocol,
+        );
+
+        return {
+          success: true,
+          taskId: params.taskId,
+          containerPort: port.containerPort,
+          hostPort: port.hostPort,
+          hostIp: port.hostIp,
+          protocol: port.protocol,
+          url: port.protocol === "tcp" ? previewUrl(port) : undefined,
+          created,
+        };
+      } catch (error: unknown) {
+        const errorMessage =
+          error instanceof Error ? error.message : String(error);
+        logger.error("Failed to expose port", { error: errorMessage });
+        throw new Error(`Failed to expose port: ${errorMessage}`);
+      }
+    },
+  }),
+] as const satisfies readonly MCPTool[];
+
+type AnyToolDefinition = (typeof TOOL_DEFINITIONS)[number];
+
+export type ToolName = AnyToolDefinition["name"];
+
+/**
+ * Arguments a caller may send to a tool (defaults are optional)
+ */
+export type ToolParams<N extends ToolName> = z.input<
+  Extract<AnyToolDefinition, { name: N }>["inputSchema"]
+>;
+
+/**
+ * What a tool returns, before JSON serialization
+ */
+export type ToolResult<N extends ToolName> = Awaited<
+  ReturnType<Extract<AnyToolDefinition, { name: N }>["execute"]>
+>;
+
+/**
+ * Look a tool up by name; positions in TOOL_DEFINITIONS shift as tools are
+ * added
+ */
+function getTool<N extends ToolName>(
+  name: N,
+): Extract<AnyToolDefinition, { name: N }> {
+  const tool = TOOL_DEFINITIONS.find((definition) => definition.name === name);
+  if (!tool) {
+    throw new Error(`Unknown tool: ${name}`);
+  }
+  return tool as Extract<AnyToolDefinition, { name: N }>;
+}
 
 // Export individual tools for registration
-export const createTaskSandboxTool = TOOL_DEFINITIONS[0];
-export const attachAgentTool = TOOL_DEFINITIONS[1];
-export const detachAgentTool = TOOL_DEFINITIONS[2];
-export const executeInTaskTool = TOOL_DEFINITIONS[3];
-export const listTasksTool = TOOL_DEFINITIONS[4];
-export const getTaskStatusTool = TOOL_DEFINITIONS[5];
-export const stopTaskTool = TOOL_DEFINITIONS[6];
-export const deleteTaskTool = TOOL_DEFINITIONS[7];
+export const createTaskSandboxTool = getTool("create_task_sandbox");
+export const attachAgentTool = getTool("attach_agent_to_task");
+export const detachAgentTool = getTool("detach_agent_from_task");
+export const executeInTaskTool = getTool("execute_in_task");
+export const listTasksTool = getTool("list_tasks");
+export const getTaskStatusTool = getTool("get_task_status");
+export const stopTaskTool = getTool("stop_task");
+export const pauseTaskTool = getTool("pause_task");
+export const resumeTaskTool = getTool("resume_task");
+export const blockTaskTool = getTool("block_task");
+export const deleteTaskTool = getTool("delete_task");
+export const readFileTool = getTool("read_file");
+export const writeFileTool = getTool("write_file");
+export const listDirectoryTool = getTool("list_directory");
+export const searchFilesTool = getTool("search_files");
+export const applyPatchTool = getTool("apply_patch");
+export const createCheckpointTool = getTool("create_checkpoint");
+export const listCheckpointsTool = getTool("list_checkpoints");
+export const restoreCheckpointTool = getTool("restore_checkpoint");
+export const diffCheckpointsTool = getTool("diff_checkpoints");
+export const getJobTool = getTool("get_job");
+export const listJobsTool = getTool("list_jobs");
+export const cancelJobTool = getTool("cancel_job");
+export const gitStatusTool = getTool("git_status");
+export const gitDiffTool = getTool("git_diff");
+export const gitCommitTool = getTool("git_commit");
+export const gitLogTool = getTool("git_log");
+export const gitBranchTool = getTool("git_branch");
+export const exposePortTool = getTool("expose_port");
@@ -75,6 +75,14 @@ class HealthChecker {
     });
   }
 
+  /**
+   * Remove a health check registered with registerCheck
+   */
+  public unregisterCheck(name: string): boolean {
+    this.config.delete(name);
+    return this.checks.delete(name);
+  }
+
   /**
    * Run all health checks
    */
@@ -307,6 +307,11 @@ class MetricsCollector {
       disk_usage_bytes: "Disk usage in bytes",
       database_connections_active: "Number of active database connections",
       docker_containers_running: "Number of running Docker containers",
+      mcp_requests_rejected_total:
+        "Total number of MCP requests rejected by connection, rate or quota limits",
+      mcp_connections_active: "Number of open MCP HTTP connections",
+      mcp_requests_cancelled_total:
+        "Total number of MCP requests aborted by the client or by the request timeout",
     };
     return helpMap[name] || `${name} metric`;
   }
@@ -342,4 +347,13 @@ export const lockMetrics = {
     metrics.increment("locks_released_total", { type: lockType }),
 };
 
+export const mcpMetrics = {
+  rejected: (reason: string) =>
+    metrics.increment("mcp_requests_rejected_total", { reason }),
+  connections: (count: number) =>
+    metrics.setGauge("mcp_connections_active", count),
+  cancelled: (method: string, reason: string) =>
+    metrics.increment("mcp_requests_cancelled_total", { method, reason }),
+};
+
 export default metrics;
@@ -0,0 +1,73 @@
+// Task Artifact Events - Change notifications for task persistence files
+// Emitted after a write completes so listeners always read the new content
+
+import { EventEmitter } from "events";
+import { logger } from "../util/logger";
+
+/** Files kept per task under data/tasks/<taskId>/ */
+export type TaskArtifact =
+  | "plan"
+  | "logs"
+  | "decisions"
+  | "state"
+  | "checkpoints";
+
+export interface TaskArtifactChange {
+  taskId: string;
+  artifact: TaskArtifact;
+  /** The checkpoint that was created or deleted */
+  checkpointId?: string;
+}
+
+class TaskArtifactEvents extends EventEmitter {
+  private static instance: TaskArtifactEvents;
+
+  private constructor() {
+    super();
+    // One listener per MCP server plus tests; not a leak
+    this.setMaxListeners(50);
+  }
+
+  public static getInstance(): TaskArtifactEvents {
+    if (!TaskArtifactEvents.instance) {
+      TaskArtifactEvents.instance = new TaskArtifactEvents();
+    }
+    return TaskArtifactEvents.instance;
+  }
+
+  /**
+   * Announce that an artifact was written. Listener failures are logged and
+   * never propagate to the writer.
+   */
+  public changed(
+    taskId: string,
+    artifact: TaskArtifact,
+    checkpointId?: string,
+  ): void {
+    try {
+      this.emit("change", {
+        taskId,
+        artifact,
+        checkpointId,
+      } satisfies TaskArtifactChange);
+    } catch (error) {
+      logger.warn("Task artifact listener failed", {
+        taskId,
+        artifact,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * @returns A function that removes the listener
+   */
+  public onChange(listener: (change: TaskArtifactChange) => void): () => void {
+    this.on("change", listener);
+    return () => {
+      this.off("change", listener);
+    };
+  }
+}
+
+export const taskArtifactEvents = TaskArtifactEvents.getInstance();
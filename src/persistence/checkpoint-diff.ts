@@ -0,0 +1,87 @@
+// Checkpoint Diff - What changed in task state between two snapshots
+// Pure comparison of CheckpointSnapshot values; loading is left to callers
+
+import type { CheckpointSnapshot, TaskState } from "./multi-layer";
+
+export interface StateChange {
+  /** Dot-separated path below state.data, e.g. "progress.step" */
+  path: string;
+  change: "added" | "removed" | "changed";
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface CheckpointDiff {
+  from: string;
+  /** Checkpoint ID, or "current" for the live task state */
+  to: string;
+  status: { before: string | null; after: string | null };
+  changes: StateChange[];
+  logs: { before: number; after: number };
+}
+
+/** A side of the comparison; the live state has no checkpoint */
+export type DiffSide = Pick<CheckpointSnapshot, "state" | "logs"> & {
+  id: string;
+};
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Walk both values and record leaf differences. Arrays are compared as a
+ * whole; element-wise diffs of reordered lists are more noise than signal.
+ */
+function collectChanges(
+  before: unknown,
+  after: unknown,
+  path: string,
+  changes: StateChange[],
+): void {
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+    for (const key of [...keys].sort()) {
+      const childPath = path ? `${path}.${key}` : key;
+      if (!Object.hasOwn(after, key)) {
+        changes.push({
+          path: childPath,
+          change: "removed",
+          before: before[key],
+        });
+      } else if (!Object.hasOwn(before, key)) {
+        changes.push({ path: childPath, change: "added", after: after[key] });
+      } else {
+        collectChanges(before[key], after[key], childPath, changes);
+      }
+    }
+    return;
+  }
+
+  if (JSON.stringify(before) !== JSON.stringify(after)) {
+    changes.push({ path, change: "changed", before, after });
+  }
+}
+
+function dataOf(state: TaskState | null): Record<string, unknown> {
+  return state?.data ?? {};
+}
+
+/**
+ * Compare the state and log count of two snapshots
+ */
+export function diffCheckpoints(from: DiffSide, to: DiffSide): CheckpointDiff {
+  const changes: StateChange[] = [];
+  collectChanges(dataOf(from.state), dataOf(to.state), "", changes);
+
+  return {
+    from: from.id,
+    to: to.id,
+    status: {
+      before: from.state?.status ?? null,
+      after: to.state?.status ?? null,
+    },
+    changes,
+    logs: { before: from.logs.length, after: to.logs.length },
+  };
+}
@@ -5,6 +5,7 @@ import { pipeline } from "stream/promises";
 import { createReadStream, createWriteStream } from "fs";
 import { logger } from "../util/logger";
 import { multiLayerPersistence, Checkpoint } from "./multi-layer";
+import { taskArtifactEvents } from "./artifact-events";
 
 export interface CompressionResult {
   checkpointId: string;
@@ -350,6 +351,7 @@ export class CheckpointOptimizer {
         );
         const size = await this.getCheckpointSize(taskId, checkpoint.id);
         await fs.rm(checkpointPath, { recursive: true, force: true });
+        taskArtifactEvents.changed(taskId, "checkpoints", checkpoint.id);
         currentBytes -= size;
         deletedCheckpoints.push(`${taskId}/${checkpoint.id}`);
 
@@ -459,6 +461,7 @@ export class CheckpointOptimizer {
           cp.id,
         );
         await fs.rm(checkpointPath, { recursive: true, force: true });
+        taskArtifactEvents.changed(taskId, "checkpoints", cp.id);
         deletedIds.push(cp.id);
 
         logger.info("Rotated out old checkpoint", {
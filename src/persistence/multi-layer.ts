@@ -2,9 +2,16 @@
 // Week 9, Day 3: 4-Layer Persistence Architecture
 
 import { promises as fs } from "fs";
-import { join, dirname } from "path";
+import { join, dirname, resolve } from "path";
+import { promisify } from "util";
+import { gunzip } from "zlib";
 import { logger } from "../util/logger";
 import { stateValidator } from "../util/state-validator";
+import { taskArtifactEvents } from "./artifact-events";
+
+// Checksum of every state.json written before checksums covered the state
+// (the validator's placeholder for non-object input)
+const LEGACY_STATE_CHECKSUM = "0".repeat(90);
 
 export interface TaskState {
   taskId: string;
@@ -37,6 +44,13 @@ export interface Checkpoint {
   manifest: Record<string, any>;
 }
 
+/** A checkpoint with the state and logs it captured */
+export interface CheckpointSnapshot {
+  checkpoint: Checkpoint;
+  state: TaskState | null;
+  logs: LogEntry[];
+}
+
 export interface LogOptions {
   limit?: number;
   offset?: number;
@@ -45,6 +59,8 @@ export interface LogOptions {
   endDate?: string;
 }
 
+const gunzipAsync = promisify(gunzip);
+
 export class MultiLayerPersistence {
   private static instance: MultiLayerPersistence;
   private basePath: string;
@@ -73,7 +89,7 @@ export class MultiLayerPersistence {
       // Add checksum
       const stateWithMeta = {
         ...state,
-        checksum: stateValidator.generateChecksum(JSON.stringify(state)),
+        checksum: stateValidator.generateChecksum(state),
       };
 
       // Write to temp file first (atomic write)
@@ -87,6 +103,7 @@ export class MultiLayerPersistence {
       await fs.rename(tempPath, statePath);
 
       logger.info("State saved", { taskId });
+      taskArtifactEvents.changed(taskId, "state");
     } catch (error) {
       logger.error("Failed to save state", { taskId, error });
       throw error;
@@ -98,13 +115,22 @@ export class MultiLayerPersistence {
 
     try {
       const data = await fs.readFile(statePath, "utf-8");
-      const state = JSON.parse(data) as TaskState;
+      const { checksum, ...state } = JSON.parse(data) as TaskState & {
+        checksum?: string;
+      };
 
-      // Validate checksum
-      const validation = stateValidator.validateSnapshot(data as any);
-      if (!validation.isValid) {
+      // Validate checksum written by saveState. Files saved before the
+      // checksum covered the state object hold the all-zero placeholder
+      // and are accepted as they are, since nothing can verify them.
+      const expected = stateValidator.generateChecksum(state);
+      if (checksum === LEGACY_STATE_CHECKSUM) {
+        logger.warn("Loaded state without a verifiable checksum", {
+          taskId,
+          statePath,
+        });
+      } else if (checksum !== expected) {
         throw new Error(
-          `State validation failed: ${validation.errors.join(", ")}`,
+          `State validation failed: checksum mismatch (expected ${expected}, got ${checksum})`,
         );
       }
 
@@ -129,6 +155,7 @@ export class MultiLayerPersistence {
         timestamp: entry.timestamp || new Date().toISOString(),
       });
       await fs.appendFile(logsPath, logLine + "\n", "utf-8");
+      taskArtifactEvents.changed(taskId, "logs");
     } catch (error) {
       logger.error("Failed to append log", { taskId, error });
       throw error;
@@ -154,6 +181,7 @@ export class MultiLayerPersistence {
       await fs.appendFile(logsPath, logLines + "\n", "utf-8");
 
       logger.info("Batch logs appended", { taskId, count: entries.length });
+      taskArtifactEvents.changed(taskId, "logs");
     } catch (error) {
       logger.error("Failed to batch append logs", {
         taskId,
@@ -222,6 +250,7 @@ export class MultiLayerPersistence {
 
       const decisionEntry = this.formatDecision(decision);
       await fs.appendFile(decisionsPath, decisionEntry + "\n\n", "utf-8");
+      taskArtifactEvents.changed(taskId, "decisions");
     } catch (error) {
       logger.error("Failed to append decision", { taskId, error });
       throw error;
@@ -247,6 +276,19 @@ export class MultiLayerPersistence {
     }
   }
 
+  /**
+   * decisions.md as written, for clients that render markdown
+   */
+  public async loadDecisionsMarkdown(taskId: string): Promise<string | null> {
+    return this.readTaskFile(taskId, "decisions.md");
+  }
+
+  // Plan.md - Written by the plan hooks when a task starts and completes
+
+  public async loadPlan(taskId: string): Promise<string | null> {
+    return this.readTaskFile(taskId, "Plan.md");
+  }
+
   // Layer 4: checkpoints - Filesystem snapshots (rare reads)
 
   public async createCheckpoint(
@@ -259,13 +301,23 @@ export class MultiLayerPersistence {
       // Ensure checkpoints directory exists
       await fs.mkdir(checkpointsPath, { recursive: true });
 
-      // Generate checkpoint ID
-      const checkpointId = `checkpoint_${Date.now()}`;
+      // Generate checkpoint ID; two checkpoints in the same millisecond
+      // must not share a directory
+      let stamp = Date.now();
+      let checkpointId = `checkpoint_${stamp}`;
+      for (;;) {
+        try {
+          await fs.mkdir(join(checkpointsPath, checkpointId));
+          break;
+        } catch (error) {
+          if ((error as any).code !== "EEXIST") {
+            throw error;
+          }
+          checkpointId = `checkpoint_${++stamp}`;
+        }
+      }
       const checkpointPath = join(checkpointsPath, checkpointId);
 
-      // Create checkpoint directory
-      await fs.mkdir(checkpointPath, { recursive: true });
-
       // Save state snapshot
       const state = await this.loadState(taskId);
       if (state) {
@@ -303,6 +355,7 @@ export class MultiLayerPersistence {
       );
 
       logger.info("Checkpoint created", { taskId, checkpointId });
+      taskArtifactEvents.changed(taskId, "checkpoints", checkpointId);
 
       return checkpointId;
     } catch (error) {
@@ -315,35 +368,17 @@ export class MultiLayerPersistence {
     taskId: string,
     checkpointId: string,
   ): Promise<void> {
-    const checkpointPath = join(this.getCheckpointsPath(taskId), checkpointId);
-
     try {
-      // Verify checkpoint exists
-      await fs.access(checkpointPath);
-
-      // Restore state
-      const statePath = join(checkpointPath, "state.json");
-      const stateData = await fs.readFile(statePath, "utf-8");
-      const state = JSON.parse(stateData) as TaskState;
+      const { state, logs } = await this.loadCheckpoint(taskId, checkpointId);
+      if (!state) {
+        throw new Error(`Checkpoint has no state: ${checkpointId}`);
+      }
 
       await this.saveState(taskId, state);
 
-      // Restore logs (optional - append to current logs)
-      const logsPath = join(checkpointPath, "logs.jsonl");
-      try {
-        const logsData = await fs.readFile(logsPath, "utf-8");
-        const logs = logsData
-          .trim()
-          .split("\n")
-          .filter((line) => line.length > 0);
-
-        const logEntries: LogEntry[] = logs.map((line) => JSON.parse(line));
-        await this.batchAppendLogs(taskId, logEntries);
-      } catch (logError) {
-        // Logs might not exist in checkpoint, that's OK
-        if ((logError as any).code !== "ENOENT") {
-          throw logError;
-        }
+      // Logs are append-only: the checkpoint's entries are appended again
+      if (logs.length > 0) {
+        await this.batchAppendLogs(taskId, logs);
       }
 
       logger.info("Checkpoint restored", { taskId, checkpointId });
@@ -357,6 +392,43 @@ export class MultiLayerPersistence {
     }
   }
 
+  /**
+   * Read a checkpoint's manifest, state and logs, whether or not
+   * CheckpointOptimizer compressed it
+   */
+  public async loadCheckpoint(
+    taskId: string,
+    checkpointId: string,
+  ): Promise<CheckpointSnapshot> {
+    const checkpointPath = this.getCheckpointPath(taskId, checkpointId);
+
+    const manifestData = await this.readCheckpointFile(
+      checkpointPath,
+      "manifest.json",
+    );
+    if (manifestData === null) {
+      throw new Error(`Checkpoint not found: ${checkpointId}`);
+    }
+
+    const stateData = await this.readCheckpointFile(
+      checkpointPath,
+      "state.json",
+    );
+    const logsData = await this.readCheckpointFile(
+      checkpointPath,
+      "logs.jsonl",
+    );
+
+    return {
+      checkpoint: this.manifestToCheckpoint(JSON.parse(manifestData)),
+      state: stateData === null ? null : (JSON.parse(stateData) as TaskState),
+      logs: (logsData ?? "")
+        .split("\n")
+        .filter((line) => line.trim().length > 0)
+        .map((line) => JSON.parse(line) as LogEntry),
+    };
+  }
+
   public async listCheckpoints(taskId: string): Promise<Checkpoint[]> {
     const checkpointsPath = this.getCheckpointsPath(taskId);
 
@@ -368,18 +440,15 @@ export class MultiLayerPersistence {
 
       for (const dir of dirs) {
         try {
-          const manifestPath = join(checkpointsPath, dir, "manifest.json");
-          const manifestData = await fs.readFile(manifestPath, "utf-8");
-          const manifest = JSON.parse(manifestData);
-
-          checkpoints.push({
-            id: manifest.id,
-            taskId: manifest.taskId,
-            timestamp: manifest.timestamp,
-            description: manifest.description,
-            files: manifest.files,
-            manifest,
-          });
+          const manifestData = await this.readCheckpointFile(
+            join(checkpointsPath, dir),
+            "manifest.json",
+          );
+          if (manifestData === null) {
+            throw new Error("manifest.json is missing");
+          }
+
+          checkpoints.push(this.manifestToCheckpoint(JSON.parse(manifestData)));
         } catch (error) {
           const errorObj =
             error instanceof Error ? error.message : String(error);
@@ -430,15 +499,86 @@ export class MultiLayerPersistence {
 
   // Helper Methods
 
+  /**
+   * Directory of a task's layers, or a file in it. The task ID must name a
+   * direct child of the base path, so cleanup never removes anything else.
+   */
   private getTaskPath(taskId: string, filename?: string): string {
-    const taskDir = join(this.basePath, taskId);
+    const base = resolve(this.basePath);
+    const taskDir = resolve(base, taskId);
+    if (dirname(taskDir) !== base || taskDir === base) {
+      throw new Error(`Invalid task ID: ${taskId}`);
+    }
     return filename ? join(taskDir, filename) : taskDir;
   }
 
+  private async readTaskFile(
+    taskId: string,
+    filename: string,
+  ): Promise<string | null> {
+    try {
+      return await fs.readFile(this.getTaskPath(taskId, filename), "utf-8");
+    } catch (error) {
+      if ((error as any).code === "ENOENT") {
+        return null;
+      }
+      logger.error("Failed to read task file", { taskId, filename, error });
+      throw error;
+    }
+  }
+
   private getCheckpointsPath(taskId: string): string {
     return this.getTaskPath(taskId, "checkpoints");
   }
 
+  private getCheckpointPath(taskId: string, checkpointId: string): string {
+    // IDs come from callers; keep them inside the checkpoints directory
+    if (!/^[\w-]+$/.test(checkpointId)) {
+      throw new Error(`Invalid checkpoint ID: ${checkpointId}`);
+    }
+    return join(this.getCheckpointsPath(taskId), checkpointId);
+  }
+
+  /**
+   * Read a checkpoint file, falling back to the .gz copy
+   * CheckpointOptimizer leaves after compressing
+   * @returns The content, or null when neither exists
+   */
+  private async readCheckpointFile(
+    checkpointPath: string,
+    filename: string,
+  ): Promise<string | null> {
+    const filePath = join(checkpointPath, filename);
+    try {
+      return await fs.readFile(filePath, "utf-8");
+    } catch (error) {
+      if ((error as any).code !== "ENOENT") {
+        throw error;
+      }
+    }
+
+    try {
+      const compressed = await fs.readFile(`${filePath}.gz`);
+      return (await gunzipAsync(compressed)).toString("utf-8");
+    } catch (error) {
+      if ((error as any).code === "ENOENT") {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  private manifestToCheckpoint(manifest: Record<string, any>): Checkpoint {
+    return {
+      id: manifest.id,
+      taskId: manifest.taskId,
+      timestamp: manifest.timestamp,
+      description: manifest.description,
+      files: manifest.files,
+      manifest,
+    };
+  }
+
   private formatDecision(decision: AgentDecision): string {
     const timestamp = decision.timestamp || new Date().toISOString();
     return `## ${timestamp}
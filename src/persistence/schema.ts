@@ -1,4 +1,14 @@
-import { pgTable, text, timestamp, jsonb, pgEnum } from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
+import {
+  pgTable,
+  text,
+  integer,
+  timestamp,
+  jsonb,
+  pgEnum,
+  index,
+  uniqueIndex,
+} from "drizzle-orm/pg-core";
 
 // Define PostgreSQL enum for task status
 // This ensures database-level constraint matching TypeScript TaskStatus union type
@@ -8,6 +18,8 @@ export const taskStatusEnum = pgEnum("task_status", [
   "completed",
   "failed",
   "cancelled",
+  "paused",
+  "blocked",
 ] as const);
 
 // Define tasks table for PostgreSQL
@@ -21,7 +33,177 @@ export const tasks = pgTable("tasks", {
   updatedAt: timestamp({ withTimezone: true }).notNull().defaultNow(),
 });
 
+// API keys for the MCP server; only the SHA-256 hash of each key is stored
+// Each key authenticates as one agent acting for one owner
+export const apiKeys = pgTable("api_keys", {
+  id: text("id").primaryKey(),
+  keyHash: text("key_hash").notNull().unique(),
+  keyPrefix: text("key_prefix").notNull(),
+  agentId: text("agent_id").notNull(),
+  owner: text("owner").notNull(),
+  name: text("name"),
+  createdAt: timestamp({ withTimezone: true }).notNull().defaultNow(),
+  lastUsedAt: timestamp({ withTimezone: true }),
+  revokedAt: timestamp({ withTimezone: true }),
+});
+
+// Roles an agent can hold on a task; owner and collaborator may write
+export const taskAgentRoleEnum = pgEnum("task_agent_role", [
+  "owner",
+  "collaborator",
+  "reviewer",
+  "observer",
+] as const);
+
+// Agent attachments to tasks; detached rows are kept as history
+export const taskAgents = pgTable(
+  "task_agents",
+  {
+    id: text("id").primaryKey(),
+    taskId: text("task_id")
+      .notNull()
+      .references(() => tasks.id, { onDelete: "cascade" }),
+    agentId: text("agent_id").notNull(),
+    role: taskAgentRoleEnum("role").notNull(),
+    attachedAt: timestamp({ withTimezone: true }).notNull().defaultNow(),
+    detachedAt: timestamp({ withTimezone: true }),
+  },
+  (table) => [
+    index("task_agents_task_id_idx").on(table.taskId),
+    // An agent holds at most one active attachment per task
+    uniqueIndex("task_agents_active_idx")
+      .on(table.taskId, table.agentId)
+      .where(sql`${table.detachedAt} IS NULL`),
+  ],
+);
+
+// Edges of the task dependency graph: task_id cannot start until
+// depends_on_task_id has completed. The graph is kept acyclic on insert
+export const taskDependencies = pgTable(
+  "task_dependencies",
+  {
+    id: text("id").primaryKey(),
+    taskId: text("task_id")
+      .notNull()
+      .references(() => tasks.id, { onDelete: "cascade" }),
+    dependsOnTaskId: text("depends_on_task_id")
+      .notNull()
+      .references(() => tasks.id, { onDelete: "cascade" }),
+    createdAt: timestamp({ withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => [
+    uniqueIndex("task_dependencies_edge_idx").on(
+      table.taskId,
+      table.dependsOnTaskId,
+    ),
+    index("task_dependencies_depends_on_idx").on(table.dependsOnTaskId),
+  ],
+);
+
+// How an audited MCP tool call ended
+export const auditOutcomeEnum = pgEnum("audit_outcome", [
+  "success",
+  "error",
+  "cancelled",
+] as const);
+
+// One row per MCP tools/call; task_id has no foreign key so the trail
+// outlives deleted tasks
+export const mcpAuditLog = pgTable(
+  "mcp_audit_log",
+  {
+    id: text("id").primaryKey(),
+    requestId: text("request_id").notNull(),
+    sessionId: text("session_id").notNull(),
+    keyId: text("key_id"),
+    agentId: text("agent_id"),
+    owner: text("owner"),
+    tool: text("tool").notNull(),
+    taskId: text("task_id"),
+    params: jsonb("params").notNull(),
+    outcome: auditOutcomeEnum("outcome").notNull(),
+    resultSummary: jsonb("result_summary"),
+    error: text("error"),
+    durationMs: integer("duration_ms").notNull(),
+    createdAt: timestamp({ withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => [
+    index("mcp_audit_log_task_id_idx").on(table.taskId, table.createdAt),
+    index("mcp_audit_log_created_at_idx").on(table.createdAt),
+    index("mcp_audit_log_agent_id_idx").on(table.agentId, table.createdAt),
+  ],
+);
+
+// Results of mutating MCP tool calls made with an idempotencyKey, replayed
+// to retries; a row without completedAt is a call still in progress
+export const mcpIdempotencyKeys = pgTable(
+  "mcp_idempotency_keys",
+  {
+    id: text("id").primaryKey(),
+    // Owner of the calling API key ("" without authentication)
+    scope: text("scope").notNull(),
+    key: text("key").notNull(),
+    tool: text("tool").notNull(),
+    // SHA-256 of the tool name and its arguments
+    requestHash: text("request_hash").notNull(),
+    response: jsonb("response"),
+    createdAt: timestamp({ withTimezone: true }).notNull().defaultNow(),
+    completedAt: timestamp({ withTimezone: true }),
+    expiresAt: timestamp({ withTimezone: true }).notNull(),
+    // Refreshed while the claiming call runs; a stale one means it was lost
+    heartbeatAt: timestamp({ withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => [
+    uniqueIndex("mcp_idempotency_keys_scope_key_idx").on(
+      table.scope,
+      table.key,
+    ),
+    index("mcp_idempotency_keys_expires_at_idx").on(table.expiresAt),
+  ],
+);
+
+// Lifecycle of a tool call run as a background job (tools/call with async: true)
+export const jobStatusEnum = pgEnum("job_status", [
+  "running",
+  "completed",
+  "failed",
+  "cancelled",
+  "interrupted",
+] as const);
+
+// Background MCP tool jobs; rows outlive the process so clients can still
+// read the outcome after a restart (running jobs become "interrupted")
+export const mcpJobs = pgTable(
+  "mcp_jobs",
+  {
+    id: text("id").primaryKey(),
+    tool: text("tool").notNull(),
+    status: jobStatusEnum("status").notNull(),
+    owner: text("owner"),
+    agentId: text("agent_id"),
+    sessionId: text("session_id").notNull(),
+    // Redacted like the audit log
+    params: jsonb("params").notNull(),
+    progress: jsonb("progress"),
+    result: jsonb("result"),
+    error: text("error"),
+    createdAt: timestamp({ withTimezone: true }).notNull().defaultNow(),
+    updatedAt: timestamp({ withTimezone: true }).notNull().defaultNow(),
+    finishedAt: timestamp({ withTimezone: true }),
+  },
+  (table) => [
+    index("mcp_jobs_owner_idx").on(table.owner, table.createdAt),
+    index("mcp_jobs_status_idx").on(table.status),
+  ],
+);
+
 // Schema types export
 export type TaskInsert = typeof tasks.$inferInsert;
 export type TaskSelect = typeof tasks.$inferSelect;
 export type TaskUpdate = Partial<typeof tasks.$inferInsert>;
+export type ApiKeySelect = typeof apiKeys.$inferSelect;
+export type TaskAgentSelect = typeof taskAgents.$inferSelect;
+export type TaskDependencySelect = typeof taskDependencies.$inferSelect;
+export type McpAuditSelect = typeof mcpAuditLog.$inferSelect;
+export type McpIdempotencySelect = typeof mcpIdempotencyKeys.$inferSelect;
+export type McpJobSelect = typeof mcpJobs.$inferSelect;
@@ -0,0 +1,15 @@
+// Plugins - Public surface for plugin authors and the MCP server
+// Plugin modules import their types from here
+
+export { PluginLoader, pluginLoader, definePlugin } from "./loader";
+export type { PluginLoadOptions } from "./loader";
+export type {
+  OpenCodePlugin,
+  PluginContext,
+  PluginHealthCheck,
+  PluginHealthResult,
+  PluginHooks,
+  PluginInfo,
+  PluginRegistration,
+  PluginStatus,
+} from "./types";
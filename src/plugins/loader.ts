@@ -0,0 +1,395 @@
+// Plugin Loader - Discovers and sets up third-party plugins
+// Plugins come from PLUGIN_DIR and PLUGIN_PACKAGES; PLUGINS_DISABLED skips them per deployment
+
+import * as fs from "fs";
+import * as path from "path";
+import { logger } from "../util/logger";
+import { taskRegistry } from "../task-registry/registry";
+import { DockerManager } from "../docker/manager";
+import { health } from "../monitoring/health";
+import { taskLifecycleHooks } from "../hooks/task-lifecycle";
+import { PLUGIN_DIR, PLUGIN_PACKAGES, PLUGINS_DISABLED } from "../config";
+import { OpenCodeError } from "../types";
+import type { MCPTool } from "../mcp/server";
+import type {
+  OpenCodePlugin,
+  PluginContext,
+  PluginHealthCheck,
+  PluginHooks,
+  PluginInfo,
+  PluginRegistration,
+} from "./types";
+
+const PLUGIN_EXTENSIONS = new Set([".js", ".cjs"]);
+
+type HookRegistrars = {
+  [K in keyof PluginHooks]-?: (hook: NonNullable<PluginHooks[K]>) => string;
+};
+
+const HOOK_REGISTRARS: HookRegistrars = {
+  beforeTaskStart: (hook) => taskLifecycleHooks.registerBeforeTaskStart(hook),
+  afterTaskStart: (hook) => taskLifecycleHooks.registerAfterTaskStart(hook),
+  beforeTaskComplete: (hook) =>
+    taskLifecycleHooks.registerBeforeTaskComplete(hook),
+  afterTaskComplete: (hook) =>
+    taskLifecycleHooks.registerAfterTaskComplete(hook),
+  beforeTaskFail: (hook) => taskLifecycleHooks.registerBeforeTaskFail(hook),
+  afterTaskFail: (hook) => taskLifecycleHooks.registerAfterTaskFail(hook),
+  beforeTaskPause: (hook) => taskLifecycleHooks.registerBeforeTaskPause(hook),
+  afterTaskPause: (hook) => taskLifecycleHooks.registerAfterTaskPause(hook),
+  beforeTaskResume: (hook) => taskLifecycleHooks.registerBeforeTaskResume(hook),
+  afterTaskResume: (hook) => taskLifecycleHooks.registerAfterTaskResume(hook),
+  beforeTaskBlock: (hook) => taskLifecycleHooks.registerBeforeTaskBlock(hook),
+  afterTaskBlock: (hook) => taskLifecycleHooks.registerAfterTaskBlock(hook),
+};
+
+export interface PluginLoadOptions {
+  /** Default: PLUGIN_DIR */
+  dir?: string;
+  /** Default: PLUGIN_PACKAGES */
+  packages?: string[];
+  /** Plugin names to skip. Default: PLUGINS_DISABLED */
+  disabled?: string[];
+  /** Tool names plugins may not register, i.e. the built-in tools */
+  reservedToolNames?: Iterable<string>;
+}
+
+interface LoadedPlugin {
+  plugin: OpenCodePlugin;
+  info: PluginInfo;
+  tools: MCPTool[];
+  hookIds: string[];
+}
+
+/**
+ * Identity helper that type-checks a plugin definition
+ */
+export function definePlugin(plugin: OpenCodePlugin): OpenCodePlugin {
+  return plugin;
+}
+
+function parseList(value: string): string[] {
+  return value
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+}
+
+export class PluginLoader {
+  private static instance: PluginLoader;
+  private loaded: Map<string, LoadedPlugin> = new Map();
+  private results: PluginInfo[] = [];
+
+  private constructor() {}
+
+  public static getInstance(): PluginLoader {
+    if (!PluginLoader.instance) {
+      PluginLoader.instance = new PluginLoader();
+    }
+    return PluginLoader.instance;
+  }
+
+  /**
+   * Unload any loaded plugins, then discover and set up every plugin that is
+   * not disabled. A plugin that fails to load is reported and skipped; it
+   * never stops the others.
+   */
+  public async loadAll(options: PluginLoadOptions = {}): Promise<PluginInfo[]> {
+    await this.unloadAll();
+
+    const disabled = new Set(options.disabled ?? parseList(PLUGINS_DISABLED));
+    const reservedToolNames = new Set(options.reservedToolNames ?? []);
+    const sources = [
+      ...this.discoverDirectory(options.dir ?? PLUGIN_DIR),
+      ...(options.packages ?? parseList(PLUGIN_PACKAGES)),
+    ];
+
+    this.results = [];
+    for (const source of sources) {
+      this.results.push(await this.load(source, disabled, reservedToolNames));
+    }
+
+    if (this.results.length > 0) {
+      logger.info("Plugins loaded", {
+        loaded: this.loaded.size,
+        disabled: this.results.filter((info) => info.status === "disabled")
+          .length,
+        failed: this.results.filter((info) => info.status === "failed").length,
+      });
+    }
+
+    return this.list();
+  }
+
+  /**
+   * Tear down every loaded plugin and remove its hooks and health checks
+   */
+  public async unloadAll(): Promise<void> {
+    for (const loaded of this.loaded.values()) {
+      await this.release(loaded);
+    }
+    this.loaded.clear();
+    this.results = [];
+  }
+
+  /**
+   * Outcome of the last loadAll, in discovery order
+   */
+  public list(): PluginInfo[] {
+    return this.results.map((info) => ({ ...info }));
+  }
+
+  /**
+   * Tools contributed by loaded plugins
+   */
+  public getTools(): MCPTool[] {
+    return [...this.loaded.values()].flatMap((loaded) => loaded.tools);
+  }
+
+  /**
+   * Plugin modules in the directory: *.js and *.cjs files, and
+   * subdirectories (loaded through their package.json main or index.js)
+   */
+  private discoverDirectory(dir: string): string[] {
+    const root = path.resolve(dir);
+    if (!fs.existsSync(root)) {
+      return [];
+    }
+
+    return fs
+      .readdirSync(root, { withFileTypes: true })
+      .filter(
+        (entry) =>
+          !entry.name.startsWith(".") &&
+          (entry.isDirectory() ||
+            (entry.isFile() &&
+              PLUGIN_EXTENSIONS.has(path.extname(entry.name)))),
+      )
+      .map((entry) => path.join(root, entry.name))
+      .sort();
+  }
+
+  private async load(
+    source: string,
+    disabled: Set<string>,
+    reservedToolNames: Set<string>,
+  ): Promise<PluginInfo> {
+    const info: PluginInfo = {
+      name: source,
+      source,
+      status: "failed",
+      tools: [],
+      hooks: [],
+      healthChecks: [],
+    };
+
+    // Disabled plugins are skipped before their module runs
+    const disabledName = this.getSourceNames(source).find((name) =>
+      disabled.has(name),
+    );
+    if (disabledName) {
+      info.name = disabledName;
+      info.status = "disabled";
+      logger.info("Plugin disabled", { plugin: disabledName, source });
+      return info;
+    }
+
+    let loaded: LoadedPlugin | undefined;
+    try {
+      const plugin = this.requirePlugin(source);
+      info.name = plugin.name;
+      info.version = plugin.version;
+      info.description = plugin.description;
+
+      if (disabled.has(plugin.name)) {
+        info.status = "disabled";
+        logger.info("Plugin disabled", { plugin: plugin.name, source });
+        return info;
+      }
+      if (this.loaded.has(plugin.name)) {
+        throw new Error(`Duplicate plugin name: ${plugin.name}`);
+      }
+
+      loaded = { plugin, info, tools: [], hookIds: [] };
+      const registration = await plugin.setup(this.createContext(plugin.name));
+      this.register(loaded, registration ?? {}, reservedToolNames);
+
+      info.status = "loaded";
+      this.loaded.set(plugin.name, loaded);
+      logger.info("Plugin loaded", {
+        plugin: plugin.name,
+        version: plugin.version,
+        source,
+        tools: info.tools,
+      });
+    } catch (error: unknown) {
+      info.status = "failed";
+      info.error = error instanceof Error ? error.message : String(error);
+      if (loaded) {
+        await this.release(loaded);
+      }
+      logger.error("Failed to load plugin", {
+        plugin: info.name,
+        source,
+        error: info.error,
+      });
+    }
+
+    return info;
+  }
+
+  /**
+   * Names a source can be disabled by without loading it: the package name,
+   * or the file name without extension and the package.json name for
+   * plugins in PLUGIN_DIR
+   */
+  private getSourceNames(source: string): string[] {
+    if (!path.isAbsolute(source)) {
+      return [source];
+    }
+
+    const names = [path.basename(source, path.extname(source))];
+    try {
+      const manifest = JSON.parse(
+        fs.readFileSync(path.join(source, "package.json"), "utf8"),
+      );
+      if (typeof manifest?.name === "string") {
+        names.push(manifest.name);
+      }
+    } catch {
+      // Single-file plugins and directories without a package.json
+    }
+    return names;
+  }
+
+  private requirePlugin(source: string): OpenCodePlugin {
+    const resolved = path.isAbsolute(source)
+      ? source
+      : require.resolve(source, { paths: [process.cwd()] });
+    const exported = require(resolved);
+    const plugin = exported?.default ?? exported?.plugin ?? exported;
+
+    if (
+      !plugin ||
+      typeof plugin.name !== "string" ||
+      plugin.name.length === 0 ||
+      typeof plugin.setup !== "function"
+    ) {
+      throw new OpenCodeError(
+        "INVALID_PLUGIN",
+        `Not a plugin (expected an export with a name and a setup function): ${source}`,
+        { source },
+      );
+    }
+    return plugin;
+  }
+
+  private createContext(name: string): PluginContext {
+    return {
+      name,
+      logger: logger.child({ plugin: name }),
+      taskRegistry,
+      docker: DockerManager.getInstance(),
+    };
+  }
+
+  /**
+   * Record a plugin's tools and register its hooks and health checks. Throws
+   * on the first invalid contribution; release undoes what was registered.
+   */
+  private register(
+    loaded: LoadedPlugin,
+    registration: PluginRegistration,
+    reservedToolNames: Set<string>,
+  ): void {
+    const { info } = loaded;
+    const pluginTools = new Set(this.getTools().map((tool) => tool.name));
+
+    for (const tool of registration.tools ?? []) {
+      if (
+        !tool ||
+        typeof tool.name !== "string" ||
+        typeof tool.execute !== "function"
+      ) {
+        throw new Error(
+          "Invalid tool: expected a name and an execute function",
+        );
+      }
+      if (
+        reservedToolNames.has(tool.name) ||
+        pluginTools.has(tool.name) ||
+        info.tools.includes(tool.name)
+      ) {
+        throw new Error(`Tool name already registered: ${tool.name}`);
+      }
+      loaded.tools.push(tool);
+      info.tools.push(tool.name);
+    }
+
+    for (const [type, hook] of Object.entries(registration.hooks ?? {})) {
+      if (!Object.hasOwn(HOOK_REGISTRARS, type)) {
+        throw new Error(`Unknown hook: ${type}`);
+      }
+      const registrar = HOOK_REGISTRARS[type as keyof PluginHooks] as (
+        hook: (...args: any[]) => Promise<void>,
+      ) => string;
+      if (typeof hook !== "function") {
+        throw new Error(`Hook ${type} is not a function`);
+      }
+      loaded.hookIds.push(registrar(hook));
+      info.hooks.push(type);
+    }
+
+    for (const check of registration.healthChecks ?? []) {
+      const checkName = `plugin:${info.name}:${check.name}`;
+      if (info.healthChecks.includes(checkName)) {
+        throw new Error(`Duplicate health check: ${check.name}`);
+      }
+      this.registerHealthCheck(checkName, check);
+      info.healthChecks.push(checkName);
+    }
+  }
+
+  private registerHealthCheck(
+    checkName: string,
+    check: PluginHealthCheck,
+  ): void {
+    health.registerCheck(
+      checkName,
+      async () => {
+        const startTime = Date.now();
+        const result = await check.check();
+        return {
+          name: checkName,
+          status: result.status,
+          message: result.message,
+          details: result.details,
+          timestamp: new Date().toISOString(),
+          durationMs: Date.now() - startTime,
+        };
+      },
+      check.timeoutMs ? { timeoutMs: check.timeoutMs } : undefined,
+    );
+  }
+
+  private async release(loaded: LoadedPlugin): Promise<void> {
+    loaded.hookIds.forEach((hookId) =>
+      taskLifecycleHooks.unregisterHook(hookId),
+    );
+    loaded.info.healthChecks.forEach((checkName) =>
+      health.unregisterCheck(checkName),
+    );
+
+    try {
+      await loaded.plugin.teardown?.();
+    } catch (error: unknown) {
+      logger.error("Plugin teardown failed", {
+        plugin: loaded.plugin.name,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+}
+
+// Export singleton instance
+export const pluginLoader = PluginLoader.getInstance();
@@ -0,0 +1,109 @@
+// Plugin Types - Contract between OpenCode and third-party plugins
+// A plugin module exports an OpenCodePlugin as its default (or `plugin`) export
+
+import type { Logger } from "winston";
+import type { MCPTool } from "../mcp/server";
+import type { TaskRegistry } from "../task-registry/registry";
+import type { DockerManager } from "../docker/manager";
+import type { HealthStatus } from "../monitoring/health";
+import type {
+  AfterTaskBlockHook,
+  AfterTaskCompleteHook,
+  AfterTaskFailHook,
+  AfterTaskPauseHook,
+  AfterTaskResumeHook,
+  AfterTaskStartHook,
+  BeforeTaskBlockHook,
+  BeforeTaskCompleteHook,
+  BeforeTaskFailHook,
+  BeforeTaskPauseHook,
+  BeforeTaskResumeHook,
+  BeforeTaskStartHook,
+} from "../hooks/task-lifecycle";
+
+/**
+ * Services handed to a plugin's setup
+ */
+export interface PluginContext {
+  /** Name the plugin was loaded under */
+  name: string;
+  /** Logger whose entries carry the plugin name */
+  logger: Logger;
+  taskRegistry: TaskRegistry;
+  docker: DockerManager;
+}
+
+/**
+ * Task lifecycle hooks a plugin can register (see TaskLifecycleHooks)
+ */
+export interface PluginHooks {
+  beforeTaskStart?: BeforeTaskStartHook;
+  afterTaskStart?: AfterTaskStartHook;
+  beforeTaskComplete?: BeforeTaskCompleteHook;
+  afterTaskComplete?: AfterTaskCompleteHook;
+  beforeTaskFail?: BeforeTaskFailHook;
+  afterTaskFail?: AfterTaskFailHook;
+  beforeTaskPause?: BeforeTaskPauseHook;
+  afterTaskPause?: AfterTaskPauseHook;
+  beforeTaskResume?: BeforeTaskResumeHook;
+  afterTaskResume?: AfterTaskResumeHook;
+  beforeTaskBlock?: BeforeTaskBlockHook;
+  afterTaskBlock?: AfterTaskBlockHook;
+}
+
+export interface PluginHealthResult {
+  status: HealthStatus;
+  message: string;
+  details?: Record<string, unknown>;
+}
+
+/**
+ * Health check reported as "plugin:<plugin>:<name>" by the health checker
+ */
+export interface PluginHealthCheck {
+  name: string;
+  check: () => Promise<PluginHealthResult>;
+  /** Default: 5000 */
+  timeoutMs?: number;
+}
+
+/**
+ * What a plugin contributes once set up
+ */
+export interface PluginRegistration {
+  /** MCP tools; names must not clash with built-in or other plugins' tools */
+  tools?: MCPTool[];
+  hooks?: PluginHooks;
+  healthChecks?: PluginHealthCheck[];
+}
+
+export interface OpenCodePlugin {
+  /** Unique name, also used by PLUGINS_DISABLED */
+  name: string;
+  version?: string;
+  description?: string;
+  setup(
+    context: PluginContext,
+  ): PluginRegistration | Promise<PluginRegistration>;
+  /** Called when the plugin is unloaded, e.g. when the server stops */
+  teardown?(): void | Promise<void>;
+}
+
+export type PluginStatus = "loaded" | "disabled" | "failed";
+
+/**
+ * Outcome of loading one discovered plugin module
+ */
+export interface PluginInfo {
+  /** Plugin name, or the module source when the module could not be read */
+  name: string;
+  version?: string;
+  description?: string;
+  /** File, directory or package the plugin was loaded from */
+  source: string;
+  status: PluginStatus;
+  error?: string;
+  tools: string[];
+  hooks: string[];
+  healthChecks: string[];
+}
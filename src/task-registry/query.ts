@@ -0,0 +1,153 @@
+// Task Query Building - Filters, sorting and cursors for TaskRegistry.list
+// Cursors are keyset positions over (sort column, id), so pages stay stable
+// while tasks are created or deleted between requests
+
+import { and, asc, desc, eq, gt, gte, lt, or, sql, SQL } from "drizzle-orm";
+import * as schema from "../persistence/schema";
+import { OpenCodeError, Task, TaskFilters, TaskSortField } from "../types";
+
+interface TaskCursor {
+  /** Sort column and direction the cursor was issued for */
+  s: TaskSortField;
+  o: "asc" | "desc";
+  /** Sort value of the last task on the page (ISO string for dates) */
+  v: string;
+  id: string;
+}
+
+const SORT_COLUMNS = {
+  createdAt: schema.tasks.createdAt,
+  updatedAt: schema.tasks.updatedAt,
+  name: schema.tasks.name,
+} as const;
+
+function sortOf(filters: TaskFilters): {
+  sortBy: TaskSortField;
+  sortOrder: "asc" | "desc";
+} {
+  return {
+    sortBy: filters.sortBy ?? "createdAt",
+    sortOrder: filters.sortOrder ?? "desc",
+  };
+}
+
+/**
+ * WHERE conditions for the filters, shared by list and count.
+ * Cursor position is not included; see buildCursorCondition.
+ */
+export function buildTaskConditions(filters: TaskFilters): SQL | undefined {
+  const conditions: (SQL | undefined)[] = [];
+
+  if (filters.status) {
+    conditions.push(eq(schema.tasks.status, filters.status));
+  }
+  if (filters.owner) {
+    conditions.push(eq(schema.tasks.owner, filters.owner));
+  }
+  if (filters.createdAfter) {
+    conditions.push(gte(schema.tasks.createdAt, filters.createdAfter));
+  }
+  if (filters.createdBefore) {
+    conditions.push(lt(schema.tasks.createdAt, filters.createdBefore));
+  }
+  if (filters.updatedAfter) {
+    conditions.push(gte(schema.tasks.updatedAt, filters.updatedAfter));
+  }
+  if (filters.updatedBefore) {
+    conditions.push(lt(schema.tasks.updatedAt, filters.updatedBefore));
+  }
+  if (filters.tags && filters.tags.length > 0) {
+    conditions.push(
+      sql`${schema.tasks.metadata} @> ${JSON.stringify({ tags: filters.tags })}::jsonb`,
+    );
+  }
+  if (filters.metadata && Object.keys(filters.metadata).length > 0) {
+    conditions.push(
+      sql`${schema.tasks.metadata} @> ${JSON.stringify(filters.metadata)}::jsonb`,
+    );
+  }
+
+  return conditions.length > 0 ? and(...conditions) : undefined;
+}
+
+/**
+ * ORDER BY for the requested sort, with the task ID as tie-breaker
+ */
+export function buildTaskOrder(filters: TaskFilters): SQL[] {
+  const { sortBy, sortOrder } = sortOf(filters);
+  const direction = sortOrder === "asc" ? asc : desc;
+  return [direction(SORT_COLUMNS[sortBy]), direction(schema.tasks.id)];
+}
+
+/**
+ * Condition selecting the tasks after the cursor position
+ * @throws OpenCodeError INVALID_CURSOR when the cursor is malformed, was
+ * issued for a different sort, or is combined with offset
+ */
+export function buildCursorCondition(filters: TaskFilters): SQL | undefined {
+  if (!filters.cursor) {
+    return undefined;
+  }
+  if (filters.offset) {
+    throw new OpenCodeError(
+      "INVALID_CURSOR",
+      "Use either cursor or offset, not both",
+    );
+  }
+
+  const cursor = decodeTaskCursor(filters.cursor);
+  const { sortBy, sortOrder } = sortOf(filters);
+  if (cursor.s !== sortBy || cursor.o !== sortOrder) {
+    throw new OpenCodeError(
+      "INVALID_CURSOR",
+      `Cursor was issued for sort ${cursor.s} ${cursor.o}`,
+      { sortBy, sortOrder },
+    );
+  }
+
+  const column = SORT_COLUMNS[sortBy];
+  const value = sortBy === "name" ? cursor.v : new Date(cursor.v);
+  const after = sortOrder === "asc" ? gt : lt;
+
+  return or(
+    after(column, value),
+    and(eq(column, value), after(schema.tasks.id, cursor.id)),
+  );
+}
+
+/**
+ * Cursor pointing just after the given task
+ */
+export function encodeTaskCursor(task: Task, filters: TaskFilters): string {
+  const { sortBy, sortOrder } = sortOf(filters);
+  const value = task[sortBy];
+  const cursor: TaskCursor = {
+    s: sortBy,
+    o: sortOrder,
+    v: value instanceof Date ? value.toISOString() : String(value),
+    id: task.id,
+  };
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+function decodeTaskCursor(encoded: string): TaskCursor {
+  let cursor: Partial<TaskCursor>;
+  try {
+    cursor = JSON.parse(Buffer.from(encoded, "base64url").toString("utf8"));
+  } catch {
+    throw new OpenCodeError("INVALID_CURSOR", "Malformed cursor");
+  }
+
+  if (
+    !cursor ||
+    typeof cursor.v !== "string" ||
+    typeof cursor.id !== "string" ||
+    !(cursor.s && Object.hasOwn(SORT_COLUMNS, cursor.s)) ||
+    (cursor.o !== "asc" && cursor.o !== "desc") ||
+    (cursor.s !== "name" && Number.isNaN(Date.parse(cursor.v)))
+  ) {
+    throw new OpenCodeError("INVALID_CURSOR", "Malformed cursor");
+  }
+
+  return cursor as TaskCursor;
+}
@@ -1,9 +1,15 @@
 // Task Registry - PostgreSQL Integration (Phase 1: Drizzle ORM)
 // Week 17, Day 2-3: Refactor TaskRegistry for PostgreSQL with Drizzle
 
-import { eq, and, or, desc, sql } from "drizzle-orm";
+import { eq, and, sql } from "drizzle-orm";
 import { logger } from "../util/logger";
-import { Task, TaskStatus, OpenCodeError, TaskFilters } from "../types";
+import {
+  Task,
+  TaskStatus,
+  OpenCodeError,
+  TaskFilters,
+  TaskPage,
+} from "../types";
 import { DatabaseManager } from "../persistence/database";
 import * as schema from "../persistence/schema";
 import type { TaskSelect } from "../persistence/schema";
@@ -14,6 +20,12 @@ import {
   isPostgresDate,
   convertPostgresDate,
 } from "./validators";
+import {
+  buildCursorCondition,
+  buildTaskConditions,
+  buildTaskOrder,
+  encodeTaskCursor,
+} from "./query";
 
 export class TaskRegistry {
   // Singleton instance for backward compatibility with existing code imports
@@ -145,23 +157,22 @@ export class TaskRegistry {
       );
     }
 
-    try {
-      const whereConditions: ReturnType<typeof and>[] = [];
-
-      if (filters.status) {
-        whereConditions.push(eq(schema.tasks.status, filters.status));
-      }
-      if (filters.owner) {
-        whereConditions.push(eq(schema.tasks.owner, filters.owner));
-      }
+    // Cursor errors surface as INVALID_CURSOR rather than TASK_LIST_FAILED
+    const whereCondition = and(
+      buildTaskConditions(filters),
+      buildCursorCondition(filters),
+    );
 
+    try {
       // Build query with optional conditions
       let query: any = this.db.select().from(schema.tasks);
 
-      if (whereConditions.length > 0) {
-        query = query.where(and(...whereConditions));
+      if (whereCondition) {
+        query = query.where(whereCondition);
       }
 
+      query = query.orderBy(...buildTaskOrder(filters));
+
       if (filters.limit) {
         query = query.limit(filters.limit);
       }
@@ -170,8 +181,6 @@ export class TaskRegistry {
         query = query.offset(filters.offset);
       }
 
-      query = query.orderBy(desc(schema.tasks.createdAt));
-
       const results = await query;
       return results.map((row: any) => this.rowToTask(row));
     } catch (error) {
@@ -182,6 +191,27 @@ export class TaskRegistry {
     }
   }
 
+  /**
+   * List one page of tasks with the total match count and a cursor for the
+   * next page. Without a limit every matching task is returned.
+   */
+  public async listPage(filters: TaskFilters = {}): Promise<TaskPage> {
+    // Fetch one extra row to learn whether another page follows
+    const rows = await this.list({
+      ...filters,
+      limit: filters.limit ? filters.limit + 1 : undefined,
+    });
+    const hasMore = filters.limit !== undefined && rows.length > filters.limit;
+    const tasks = hasMore ? rows.slice(0, filters.limit) : rows;
+    const last = tasks[tasks.length - 1];
+
+    return {
+      tasks,
+      total: await this.count(filters),
+      nextCursor: hasMore && last ? encodeTaskCursor(last, filters) : null,
+    };
+  }
+
   public async update(
     id: string,
     updates: Partial<Task>,
@@ -198,10 +228,11 @@ export class TaskRegistry {
     try {
       const results = await this.db
         .update(schema.tasks)
+        // Fields left undefined are not touched
         .set({
           status: updates.status,
-          owner: updates.owner || null,
-          metadata: updates.metadata ? (updates.metadata as any) : null,
+          owner: updates.owner,
+          metadata: updates.metadata as any,
           updatedAt: new Date(),
         })
         .where(eq(schema.tasks.id, id))
@@ -314,14 +345,12 @@ export class TaskRegistry {
 
     try {
       let query = this.db
-        .select({ count: sql`count(*)` })
+        .select({ count: sql<number>`count(*)::int` })
         .from(schema.tasks) as any;
 
-      if (filters.status) {
-        query = query.where(eq(schema.tasks.status, filters.status));
-      }
-      if (filters.owner) {
-        query = query.where(eq(schema.tasks.owner, filters.owner));
+      const whereCondition = buildTaskConditions(filters);
+      if (whereCondition) {
+        query = query.where(whereCondition);
       }
 
       const results = await query;
@@ -0,0 +1,162 @@
+// Task Agent Registry - Which agents are attached to which task
+// Attachments are never deleted; detaching stamps detachedAt to keep history
+
+import { randomUUID } from "crypto";
+import { and, asc, eq, isNull } from "drizzle-orm";
+import { logger } from "../util/logger";
+import { OpenCodeError, TaskAgent, TaskAgentRole } from "../types";
+import { DatabaseManager } from "../persistence/database";
+import * as schema from "../persistence/schema";
+import type { TaskAgentSelect } from "../persistence/schema";
+
+export class TaskAgentRegistry {
+  private static instance: TaskAgentRegistry;
+  private db: ReturnType<typeof DatabaseManager.prototype.getDatabase> | null =
+    null;
+
+  private constructor() {}
+
+  public static getInstance(): TaskAgentRegistry {
+    if (!TaskAgentRegistry.instance) {
+      TaskAgentRegistry.instance = new TaskAgentRegistry();
+    }
+    return TaskAgentRegistry.instance;
+  }
+
+  private getDb(): ReturnType<typeof DatabaseManager.prototype.getDatabase> {
+    if (!this.db) {
+      this.db = DatabaseManager.getInstance().getDatabase();
+    }
+    return this.db;
+  }
+
+  /**
+   * Record an active attachment. Policy checks (role limits, task status)
+   * belong to TaskLifecycle.attachAgent.
+   */
+  public async attach(
+    taskId: string,
+    agentId: string,
+    role: TaskAgentRole,
+  ): Promise<TaskAgent> {
+    try {
+      const [row] = await this.getDb()
+        .insert(schema.taskAgents)
+        .values({
+          id: randomUUID(),
+          taskId,
+          agentId,
+          role,
+          attachedAt: new Date(),
+        })
+        .returning();
+
+      if (!row) {
+        throw new Error("no result returned");
+      }
+
+      logger.info("Task agent attachment recorded", { taskId, agentId, role });
+      return this.rowToAgent(row);
+    } catch (error) {
+      logger.error("Failed to attach agent", { taskId, agentId, error });
+      throw new OpenCodeError(
+        "TASK_AGENT_ATTACH_FAILED",
+        "Failed to attach agent",
+        { taskId, agentId, error },
+      );
+    }
+  }
+
+  /**
+   * End an agent's active attachment
+   * @returns The closed attachment, or null if the agent was not attached
+   */
+  public async detach(
+    taskId: string,
+    agentId: string,
+  ): Promise<TaskAgent | null> {
+    try {
+      const [row] = await this.getDb()
+        .update(schema.taskAgents)
+        .set({ detachedAt: new Date() })
+        .where(this.activeCondition(taskId, agentId))
+        .returning();
+
+      return row ? this.rowToAgent(row) : null;
+    } catch (error) {
+      logger.error("Failed to detach agent", { taskId, agentId, error });
+      throw new OpenCodeError(
+        "TASK_AGENT_DETACH_FAILED",
+        "Failed to detach agent",
+        { taskId, agentId, error },
+      );
+    }
+  }
+
+  /**
+   * The agent's active attachment to the task, if any
+   */
+  public async getActive(
+    taskId: string,
+    agentId: string,
+  ): Promise<TaskAgent | null> {
+    const [row] = await this.getDb()
+      .select()
+      .from(schema.taskAgents)
+      .where(this.activeCondition(taskId, agentId))
+      .limit(1);
+
+    return row ? this.rowToAgent(row) : null;
+  }
+
+  /**
+   * Agents currently attached to the task, oldest first
+   */
+  public async listActive(taskId: string): Promise<TaskAgent[]> {
+    const rows = await this.getDb()
+      .select()
+      .from(schema.taskAgents)
+      .where(
+        and(
+          eq(schema.taskAgents.taskId, taskId),
+          isNull(schema.taskAgents.detachedAt),
+        ),
+      )
+      .orderBy(asc(schema.taskAgents.attachedAt));
+
+    return rows.map((row) => this.rowToAgent(row));
+  }
+
+  /**
+   * Every attachment the task has had, including detached ones
+   */
+  public async listHistory(taskId: string): Promise<TaskAgent[]> {
+    const rows = await this.getDb()
+      .select()
+      .from(schema.taskAgents)
+      .where(eq(schema.taskAgents.taskId, taskId))
+      .orderBy(asc(schema.taskAgents.attachedAt));
+
+    return rows.map((row) => this.rowToAgent(row));
+  }
+
+  private activeCondition(taskId: string, agentId: string) {
+    return and(
+      eq(schema.taskAgents.taskId, taskId),
+      eq(schema.taskAgents.agentId, agentId),
+      isNull(schema.taskAgents.detachedAt),
+    );
+  }
+
+  private rowToAgent(row: TaskAgentSelect): TaskAgent {
+    return {
+      taskId: row.taskId,
+      agentId: row.agentId,
+      role: row.role,
+      attachedAt: row.attachedAt,
+      detachedAt: row.detachedAt ?? undefined,
+    };
+  }
+}
+
+export const taskAgentRegistry = TaskAgentRegistry.getInstance();
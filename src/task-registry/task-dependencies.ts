@@ -0,0 +1,154 @@
+// Task Dependency Registry - Which tasks must complete before another may start
+// Edges form a DAG; an edge that would close a cycle is rejected before it is written
+
+import { randomUUID } from "crypto";
+import { asc, eq } from "drizzle-orm";
+import { logger } from "../util/logger";
+import { OpenCodeError, TaskDependency } from "../types";
+import { DatabaseManager } from "../persistence/database";
+import * as schema from "../persistence/schema";
+import type { TaskDependencySelect } from "../persistence/schema";
+
+export class TaskDependencyRegistry {
+  private static instance: TaskDependencyRegistry;
+  private db: ReturnType<typeof DatabaseManager.prototype.getDatabase> | null =
+    null;
+
+  private constructor() {}
+
+  public static getInstance(): TaskDependencyRegistry {
+    if (!TaskDependencyRegistry.instance) {
+      TaskDependencyRegistry.instance = new TaskDependencyRegistry();
+    }
+    return TaskDependencyRegistry.instance;
+  }
+
+  private getDb(): ReturnType<typeof DatabaseManager.prototype.getDatabase> {
+    if (!this.db) {
+      this.db = DatabaseManager.getInstance().getDatabase();
+    }
+    return this.db;
+  }
+
+  /**
+   * Record that a task waits for its prerequisites. Checks for cycles
+   * first; whether the tasks exist is up to TaskLifecycle.createTask.
+   */
+  public async add(
+    taskId: string,
+    dependsOn: string[],
+  ): Promise<TaskDependency[]> {
+    const prerequisites = [...new Set(dependsOn)];
+    if (prerequisites.length === 0) {
+      return [];
+    }
+    await this.assertAcyclic(taskId, prerequisites);
+
+    try {
+      const rows = await this.getDb()
+        .insert(schema.taskDependencies)
+        .values(
+          prerequisites.map((dependsOnTaskId) => ({
+            id: randomUUID(),
+            taskId,
+            dependsOnTaskId,
+            createdAt: new Date(),
+          })),
+        )
+        .onConflictDoNothing()
+        .returning();
+
+      logger.info("Task dependencies recorded", {
+        taskId,
+        dependsOn: prerequisites,
+      });
+      return rows.map((row) => this.rowToDependency(row));
+    } catch (error) {
+      logger.error("Failed to add task dependencies", {
+        taskId,
+        dependsOn: prerequisites,
+        error,
+      });
+      throw new OpenCodeError(
+        "TASK_DEPENDENCY_ADD_FAILED",
+        "Failed to add task dependencies",
+        { taskId, dependsOn: prerequisites, error },
+      );
+    }
+  }
+
+  /**
+   * IDs of the tasks this task waits for
+   */
+  public async listPrerequisites(taskId: string): Promise<string[]> {
+    const rows = await this.getDb()
+      .select()
+      .from(schema.taskDependencies)
+      .where(eq(schema.taskDependencies.taskId, taskId))
+      .orderBy(asc(schema.taskDependencies.createdAt));
+
+    return rows.map((row) => row.dependsOnTaskId);
+  }
+
+  /**
+   * IDs of the tasks waiting for this task
+   */
+  public async listDependents(taskId: string): Promise<string[]> {
+    const rows = await this.getDb()
+      .select()
+      .from(schema.taskDependencies)
+      .where(eq(schema.taskDependencies.dependsOnTaskId, taskId))
+      .orderBy(asc(schema.taskDependencies.createdAt));
+
+    return rows.map((row) => row.taskId);
+  }
+
+  /**
+   * Reject edges from taskId to prerequisites that already depend on
+   * taskId, directly or through other tasks
+   */
+  public async assertAcyclic(
+    taskId: string,
+    dependsOn: string[],
+  ): Promise<void> {
+    // Walk up from each prerequisite; reaching taskId closes a cycle
+    const parents = new Map<string, string>();
+    const queue = [...dependsOn];
+    dependsOn.forEach((id) => parents.set(id, taskId));
+
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      if (current === taskId) {
+        // parents point from a prerequisite back to the task waiting for it
+        const path: string[] = [];
+        for (let id = parents.get(taskId)!; id !== taskId; ) {
+          path.unshift(id);
+          id = parents.get(id)!;
+        }
+        const cycle = [taskId, ...path, taskId];
+        throw new OpenCodeError(
+          "TASK_DEPENDENCY_CYCLE",
+          `Task dependencies would form a cycle: ${cycle.join(" -> ")}`,
+          { taskId, cycle },
+        );
+      }
+
+      for (const next of await this.listPrerequisites(current)) {
+        if (!parents.has(next)) {
+          parents.set(next, current);
+          queue.push(next);
+        }
+      }
+    }
+  }
+
+  private rowToDependency(row: TaskDependencySelect): TaskDependency {
+    return {
+      taskId: row.taskId,
+      dependsOnTaskId: row.dependsOnTaskId,
+      createdAt: row.createdAt,
+    };
+  }
+}
+
+export const taskDependencyRegistry = TaskDependencyRegistry.getInstance();
@@ -9,6 +9,8 @@ const VALID_STATUS_VALUES = [
   "completed",
   "failed",
   "cancelled",
+  "paused",
+  "blocked",
 ] as const;
 
 export function validateTaskStatus(
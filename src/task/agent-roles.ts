@@ -0,0 +1,36 @@
+// Task Agent Roles - What each attached agent may do in a task
+// Writers hold the workspace; everyone else is limited to reading or reviewing
+
+import type { TaskAgentRole } from "../types";
+
+export const TASK_AGENT_ROLES: readonly TaskAgentRole[] = [
+  "owner",
+  "collaborator",
+  "reviewer",
+  "observer",
+] as const;
+
+/** Actions gated by role; reading is open to every attached agent */
+export type TaskAgentPermission = "read" | "write" | "execute";
+
+const ROLE_PERMISSIONS: Record<TaskAgentRole, TaskAgentPermission[]> = {
+  owner: ["read", "write", "execute"],
+  collaborator: ["read", "write", "execute"],
+  // Reviewers run tests and linters but do not edit files
+  reviewer: ["read", "execute"],
+  observer: ["read"],
+};
+
+/**
+ * Whether the role counts towards the writer limit and keeps the task running
+ */
+export function isWriterRole(role: TaskAgentRole): boolean {
+  return ROLE_PERMISSIONS[role].includes("write");
+}
+
+export function roleAllows(
+  role: TaskAgentRole,
+  permission: TaskAgentPermission,
+): boolean {
+  return ROLE_PERMISSIONS[role].includes(permission);
+}
@@ -2,13 +2,28 @@
 // Week 9, Day 4: Task Lifecycle Implementation
 // Week 12, Day 1: Hooks Integration
 
-import { Task, TaskStatus } from "../types";
-import type { TaskConfig, TaskResult } from "../types/lifecycle";
+import { Task, TaskAgent, TaskAgentRole, TaskStatus } from "../types";
+import type { TaskMetadata } from "../types/metadata";
+import type {
+  TaskConfig,
+  TaskFailReason,
+  TaskPauseReason,
+  TaskResult,
+} from "../types/lifecycle";
 import { taskRegistry } from "../task-registry/registry";
+import { taskAgentRegistry } from "../task-registry/task-agents";
+import { taskDependencyRegistry } from "../task-registry/task-dependencies";
+import { DockerManager } from "../docker/manager";
+import { TASK_MAX_WRITERS } from "../config";
+import { isWriterRole } from "./agent-roles";
+import { planRetry } from "./retry";
 import { multiLayerPersistence } from "../persistence/multi-layer";
 import { logger } from "../util/logger";
 import { lockManager } from "../util/lock-manager";
 import { taskLifecycleHooks } from "../hooks/task-lifecycle";
+import { getExposedPorts, portPreview } from "../docker/port-preview";
+
+const TERMINAL_STATUSES: TaskStatus[] = ["completed", "failed", "cancelled"];
 
 export class TaskLifecycle {
   private static instance: TaskLifecycle;
@@ -23,7 +38,8 @@ export class TaskLifecycle {
   }
 
   /**
-   * Create a new task
+   * Create a new task. A task with prerequisites (config.dependsOn) that
+   * have not completed is created blocked.
    */
   public async createTask(config: TaskConfig): Promise<Task> {
     const taskId = config.id || `task_${Date.now()}`;
@@ -33,13 +49,20 @@ export class TaskLifecycle {
       `task:${taskId}`,
       `lifecycle:${owner}`,
       async () => {
+        const dependsOn = [...new Set(config.dependsOn ?? [])];
+        const blockedBy = await this.checkPrerequisites(taskId, dependsOn);
+
         // Create task object
         const task: Task = {
           id: taskId,
           name: config.name,
           status: "pending",
           owner,
-          metadata: config.metadata || {},
+          metadata: {
+            ...config.metadata,
+            ...this.getTimeoutMetadata(config),
+            ...(blockedBy.length > 0 ? { blockedBy } : {}),
+          },
           createdAt: new Date(),
           updatedAt: new Date(),
         };
@@ -47,6 +70,15 @@ export class TaskLifecycle {
         // Save to registry
         await taskRegistry.create(task);
 
+        if (dependsOn.length > 0) {
+          try {
+            await taskDependencyRegistry.add(taskId, dependsOn);
+          } catch (error) {
+            await taskRegistry.delete(taskId);
+            throw error;
+          }
+        }
+
         // Initialize persistence layers
         await this.initializePersistence(taskId, task);
 
@@ -79,9 +111,17 @@ export class TaskLifecycle {
           throw new Error(`Cannot start task with status: ${task!.status}`);
         }
 
-        // Update task status
+        const unfinished = await this.listUnfinishedPrerequisites(taskId);
+        if (unfinished.length > 0) {
+          throw new Error(
+            `Task ${taskId} is blocked by unfinished prerequisites: ${unfinished.join(", ")}`,
+          );
+        }
+
+        // Update task status; maxRunningMs counts from here
         const updated = await taskRegistry.update(taskId, {
           status: "running",
+          metadata: { ...task.metadata, startedAt: new Date().toISOString() },
         });
         if (!updated) {
           throw new Error(`Failed to update task: ${taskId}`);
@@ -107,7 +147,8 @@ export class TaskLifecycle {
 
   /**
    * Complete a task (transition: running -> completed)
-   * Executes: beforeTaskComplete hooks -> complete -> afterTaskComplete hooks
+   * Executes: beforeTaskComplete hooks -> complete -> afterTaskComplete hooks,
+   * then unblocks dependents whose last prerequisite this was
    */
   public async completeTask(taskId: string, result: TaskResult): Promise<Task> {
     // Execute before hooks
@@ -118,7 +159,7 @@ export class TaskLifecycle {
       throw new Error(`Task not found: ${taskId}`);
     }
 
-    return lockManager.withLock(
+    const completed = await lockManager.withLock(
       `task:${taskId}`,
       `lifecycle:${task.owner || "system"}`,
       async () => {
@@ -127,6 +168,8 @@ export class TaskLifecycle {
           throw new Error(`Cannot complete task with status: ${task!.status}`);
         }
 
+        await this.releaseExposedPorts(task!);
+
         // Update task status
         const updated = await taskRegistry.update(taskId, {
           status: "completed",
@@ -151,22 +194,40 @@ export class TaskLifecycle {
         return updated!;
       },
     );
+
+    // Dependents take their own task locks
+    await this.refreshDependents(
+      await taskDependencyRegistry.listDependents(taskId),
+    );
+
+    return completed;
   }
 
   /**
    * Fail a task (transition: running -> failed)
-   * Executes: beforeTaskFail hooks -> fail -> afterTaskFail hooks
+   * Executes: beforeTaskFail hooks -> fail -> afterTaskFail hooks. The run is
+   * recorded in metadata.attempts; a task with a retryConfig is then
+   * re-queued (failed -> pending) until its attempts are used up or an
+   * error is not retryable.
+   * @param options.retryable Overrides the classification of the error
+   * @param options.reason Passed to the fail hooks (default: error)
    */
-  public async failTask(taskId: string, error: string): Promise<Task> {
+  public async failTask(
+    taskId: string,
+    error: string,
+    options: { retryable?: boolean; reason?: TaskFailReason } = {},
+  ): Promise<Task> {
+    const reason = options.reason ?? "error";
+
     // Execute before hooks
-    await taskLifecycleHooks.executeBeforeTaskFail(taskId, error);
+    await taskLifecycleHooks.executeBeforeTaskFail(taskId, error, reason);
 
     const task = await taskRegistry.getById(taskId);
     if (!task) {
       throw new Error(`Task not found: ${taskId}`);
     }
 
-    return lockManager.withLock(
+    const { failed, retry } = await lockManager.withLock(
       `task:${taskId}`,
       `lifecycle:${task.owner || "system"}`,
       async () => {
@@ -175,10 +236,22 @@ export class TaskLifecycle {
           throw new Error(`Cannot fail task with status: ${task!.status}`);
         }
 
+        const released = await this.releaseExposedPorts(task!);
+
+        const { attempt, retry } = planRetry(
+          released.metadata,
+          error,
+          options.retryable,
+        );
+
         // Update task status
         const updated = await taskRegistry.update(taskId, {
           status: "failed",
-          metadata: { error },
+          metadata: {
+            ...released.metadata,
+            error,
+            attempts: [...(released.metadata?.attempts ?? []), attempt],
+          },
         });
         if (!updated) {
           throw new Error(`Failed to update task: ${taskId}`);
@@ -189,21 +262,49 @@ export class TaskLifecycle {
           timestamp: new Date().toISOString(),
           level: "error",
           message: "Task failed",
-          data: { error },
+          data: {
+            error,
+            reason,
+            attempt: attempt.attempt,
+            retryable: attempt.retryable,
+          },
         });
 
-        logger.error("Task failed", { taskId, error });
+        logger.error("Task failed", {
+          taskId,
+          error,
+          reason,
+          attempt: attempt.attempt,
+        });
 
         // Execute after hooks
-        await taskLifecycleHooks.executeAfterTaskFail(taskId, error);
+        await taskLifecycleHooks.executeAfterTaskFail(taskId, error, reason);
 
-        return updated!;
+        return { failed: updated!, retry };
       },
     );
+
+    if (!retry) {
+      return failed;
+    }
+
+    // A retry that cannot be queued leaves the task failed
+    try {
+      return await this.requeueForRetry(failed);
+    } catch (requeueError: unknown) {
+      logger.error("Failed to re-queue task for retry", {
+        taskId,
+        error:
+          requeueError instanceof Error
+            ? requeueError.message
+            : String(requeueError),
+      });
+      return failed;
+    }
   }
 
   /**
-   * Cancel a task (transition: pending -> cancelled or running -> cancelled)
+   * Cancel a task (transition: pending, running, paused or blocked -> cancelled)
    */
   public async cancelTask(taskId: string): Promise<Task> {
     const task = await taskRegistry.getById(taskId);
@@ -216,10 +317,14 @@ export class TaskLifecycle {
       `lifecycle:${task!.owner || "system"}`,
       async () => {
         // Validate state transition
-        if (!["pending", "running"].includes(task!.status)) {
+        if (
+          !["pending", "running", "paused", "blocked"].includes(task!.status)
+        ) {
           throw new Error(`Cannot cancel task with status: ${task!.status}`);
         }
 
+        await this.releaseExposedPorts(task!);
+
         // Update task status
         const updated = await taskRegistry.update(taskId, {
           status: "cancelled",
@@ -243,6 +348,128 @@ export class TaskLifecycle {
     );
   }
 
+  /**
+   * Pause a running task and its container (transition: running -> paused).
+   * Unlike the pause when the last writer detaches, only resumeTask ends it.
+   */
+  public async pauseTask(taskId: string): Promise<Task> {
+    return lockManager.withLock(
+      `task:${taskId}`,
+      "lifecycle:system",
+      async () => {
+        const task = await taskRegistry.getById(taskId);
+        if (!task) {
+          throw new Error(`Task not found: ${taskId}`);
+        }
+        if (task.status !== "running") {
+          throw new Error(`Cannot pause task with status: ${task.status}`);
+        }
+
+        return this.pauseRunningTask(task, "requested");
+      },
+    );
+  }
+
+  /**
+   * Resume a paused or blocked task (transition: paused -> running, or
+   * blocked -> the status it was blocked from). A task that runs again needs
+   * a writer agent attached.
+   */
+  public async resumeTask(taskId: string, agentId = "system"): Promise<Task> {
+    return lockManager.withLock(
+      `task:${taskId}`,
+      `lifecycle:${agentId}`,
+      async () => {
+        const task = await taskRegistry.getById(taskId);
+        if (!task) {
+          throw new Error(`Task not found: ${taskId}`);
+        }
+        if (!["paused", "blocked"].includes(task.status)) {
+          throw new Error(`Cannot resume task with status: ${task.status}`);
+        }
+
+        if (this.getResumeStatus(task) === "running") {
+          const agents = await taskAgentRegistry.listActive(taskId);
+          if (!agents.some((agent) => isWriterRole(agent.role))) {
+            throw new Error(
+              `Cannot resume task ${taskId}: no writer agents attached`,
+            );
+          }
+        }
+
+        return this.resumeStoppedTask(task, agentId);
+      },
+    );
+  }
+
+  /**
+   * Block a task on something outside the dependency graph, such as a human
+   * decision (transition: pending, running or paused -> blocked). The
+   * container of a running task is paused; the scheduler skips a blocked
+   * task until resumeTask.
+   * Executes: beforeTaskBlock hooks -> block -> afterTaskBlock hooks
+   */
+  public async blockTask(taskId: string, reason: string): Promise<Task> {
+    if (!reason.trim()) {
+      throw new Error("A reason is required to block a task");
+    }
+
+    return lockManager.withLock(
+      `task:${taskId}`,
+      "lifecycle:system",
+      async () => {
+        const task = await taskRegistry.getById(taskId);
+        if (!task) {
+          throw new Error(`Task not found: ${taskId}`);
+        }
+        if (!["pending", "running", "paused"].includes(task.status)) {
+          throw new Error(`Cannot block task with status: ${task.status}`);
+        }
+
+        await taskLifecycleHooks.executeBeforeTaskBlock(taskId, reason);
+
+        const containerId = task.metadata?.containerId;
+        if (task.status === "running" && containerId) {
+          const docker = DockerManager.getInstance();
+          await docker.assertTaskContainer(containerId, taskId);
+          await docker.pauseContainer(containerId);
+        }
+
+        // A paused task's container is already paused and runs again on resume
+        const { pausedAt, pauseReason, ...metadata } = task.metadata ?? {};
+        const updated = await taskRegistry.update(taskId, {
+          status: "blocked",
+          metadata: {
+            ...metadata,
+            // The pause ends here; the block is accounted for on resume
+            ...(task.status === "paused"
+              ? this.excludeStoppedTime(metadata, pausedAt)
+              : {}),
+            blockedAt: new Date().toISOString(),
+            blockReason: reason,
+            blockedFrom: task.status === "pending" ? "pending" : "running",
+          },
+        });
+        if (!updated) {
+          throw new Error(`Failed to update task: ${taskId}`);
+        }
+
+        await multiLayerPersistence.appendLog(taskId, {
+          timestamp: new Date().toISOString(),
+          level: "warning",
+          message: `Task blocked: ${reason}`,
+          data: { fromStatus: task.status, reason },
+        });
+
+        logger.warn("Task blocked", { taskId, reason });
+
+        await taskLifecycleHooks.executeAfterTaskBlock(taskId, reason);
+
+        return updated;
+      },
+    );
+  }
+
   /**
    * Delete a task (transition: any status -> deleted)
    */
@@ -252,10 +479,16 @@ export class TaskLifecycle {
       throw new Error(`Task not found: ${taskId}`);
     }
 
-    return lockManager.withLock(
+    // Deleting the task drops its dependency edges, so tasks waiting only
+    // for it become runnable
+    const dependents = await taskDependencyRegistry.listDependents(taskId);
+
+    await lockManager.withLock(
       `task:${taskId}`,
       `lifecycle:${task.owner || "system"}`,
       async () => {
+        await this.releaseExposedPorts(task);
+
         // Delete from registry
         await taskRegistry.delete(taskId);
 
@@ -265,6 +498,142 @@ export class TaskLifecycle {
         logger.info("Task deleted", { taskId });
       },
     );
+
+    await this.refreshDependents(dependents);
+  }
+
+  /**
+   * Attach an agent to a task with a role. A writer (owner or collaborator)
+   * starts a pending task and resumes one paused for lack of writers.
+   * Attaching again with the same role is a no-op.
+   */
+  public async attachAgent(
+    taskId: string,
+    agentId: string,
+    role: TaskAgentRole = "collaborator",
+  ): Promise<{ task: Task; attachment: TaskAgent }> {
+    const { task, attachment, created } = await lockManager.withLock(
+      `task:${taskId}`,
+      `lifecycle:${agentId}`,
+      async () => {
+        const task = await taskRegistry.getById(taskId);
+        if (!task) {
+          throw new Error(`Task not found: ${taskId}`);
+        }
+
+        if (TERMINAL_STATUSES.includes(task.status)) {
+          throw new Error(
+            `Cannot attach agent to task with status: ${task.status}`,
+          );
+        }
+
+        const active = await taskAgentRegistry.listActive(taskId);
+        const existing = active.find((agent) => agent.agentId === agentId);
+        if (existing) {
+          if (existing.role !== role) {
+            throw new Error(
+              `Agent ${agentId} is already attached to task ${taskId} as ${existing.role}`,
+            );
+          }
+          return { task, attachment: existing, created: false };
+        }
+
+        if (isWriterRole(role)) {
+          this.assertWriterCapacity(taskId, active, role);
+        }
+
+        const attachment = await taskAgentRegistry.attach(
+          taskId,
+          agentId,
+          role,
+        );
+
+        await multiLayerPersistence.appendLog(taskId, {
+          timestamp: new Date().toISOString(),
+          level: "info",
+          message: `Agent ${agentId} attached as ${role}`,
+          data: { agentId, role },
+        });
+
+        logger.info("Agent attached to task", { taskId, agentId, role });
+
+        const resumed =
+          isWriterRole(role) &&
+          task.status === "paused" &&
+          task.metadata?.pauseReason === "no_writers"
+            ? await this.resumeStoppedTask(task, agentId)
+            : task;
+
+        return { task: resumed, attachment, created: true };
+      },
+    );
+
+    // startTask takes the task lock itself, so it runs after release. A
+    // blocked task starts once its last prerequisite completes instead.
+    if (
+      isWriterRole(role) &&
+      task.status === "pending" &&
+      !task.metadata?.blockedBy?.length
+    ) {
+      try {
+        return { task: await this.startTask(taskId, agentId), attachment };
+      } catch (error) {
+        if (created) {
+          await taskAgentRegistry.detach(taskId, agentId);
+        }
+        throw error;
+      }
+    }
+
+    return { task, attachment };
+  }
+
+  /**
+   * Detach an agent. When the last writer leaves a running task, it is
+   * paused until a writer attaches again.
+   */
+  public async detachAgent(
+    taskId: string,
+    agentId: string,
+  ): Promise<{ task: Task; attachment: TaskAgent; paused: boolean }> {
+    return lockManager.withLock(
+      `task:${taskId}`,
+      `lifecycle:${agentId}`,
+      async () => {
+        const task = await taskRegistry.getById(taskId);
+        if (!task) {
+          throw new Error(`Task not found: ${taskId}`);
+        }
+
+        const attachment = await taskAgentRegistry.detach(taskId, agentId);
+        if (!attachment) {
+          throw new Error(`Agent ${agentId} is not attached to task ${taskId}`);
+        }
+
+        await multiLayerPersistence.appendLog(taskId, {
+          timestamp: new Date().toISOString(),
+          level: "info",
+          message: `Agent ${agentId} detached`,
+          data: { agentId, role: attachment.role },
+        });
+
+        logger.info("Agent detached from task", {
+          taskId,
+          agentId,
+          role: attachment.role,
+        });
+
+        if (isWriterRole(attachment.role) && task.status === "running") {
+          const remaining = await taskAgentRegistry.listActive(taskId);
+          if (!remaining.some((agent) => isWriterRole(agent.role))) {
+            const paused = await this.pauseRunningTask(task, "no_writers");
+            return { task: paused, attachment, paused: true };
+          }
+        }
+
+        return { task, attachment, paused: false };
+      },
+    );
   }
 
   /**
@@ -279,6 +648,399 @@ export class TaskLifecycle {
     return task.status;
   }
 
+  /**
+   * Validate a new task's deadline and run limit and turn them into the
+   * metadata the watchdog reads
+   */
+  private getTimeoutMetadata(config: TaskConfig): Partial<TaskMetadata> {
+    const metadata: Partial<TaskMetadata> = {};
+
+    if (config.deadline !== undefined) {
+      const deadline = new Date(config.deadline);
+      if (Number.isNaN(deadline.getTime())) {
+        throw new Error(`Invalid deadline: ${String(config.deadline)}`);
+      }
+      metadata.deadline = deadline.toISOString();
+    }
+
+    if (config.maxRunningMs !== undefined) {
+      if (!Number.isInteger(config.maxRunningMs) || config.maxRunningMs <= 0) {
+        throw new Error(
+          `maxRunningMs must be a positive integer: ${config.maxRunningMs}`,
+        );
+      }
+      metadata.maxRunningMs = config.maxRunningMs;
+    }
+
+    if (config.onTimeout !== undefined) {
+      if (!["fail", "cancel"].includes(config.onTimeout)) {
+        throw new Error(`Invalid onTimeout action: ${config.onTimeout}`);
+      }
+      metadata.timeoutAction = config.onTimeout;
+    }
+
+    return metadata;
+  }
+
+  /**
+   * Validate the prerequisites of a new task
+   * @returns The prerequisites that have not completed yet
+   */
+  private async checkPrerequisites(
+    taskId: string,
+    dependsOn: string[],
+  ): Promise<string[]> {
+    if (dependsOn.length === 0) {
+      return [];
+    }
+
+    const blockedBy: string[] = [];
+    for (const id of dependsOn) {
+      if (id === taskId) {
+        throw new Error(`Task ${taskId} cannot depend on itself`);
+      }
+      const prerequisite = await taskRegistry.getById(id);
+      if (!prerequisite) {
+        throw new Error(`Prerequisite task not found: ${id}`);
+      }
+      if (["failed", "cancelled"].includes(prerequisite.status)) {
+        throw new Error(
+          `Cannot depend on task ${id} with status: ${prerequisite.status}`,
+        );
+      }
+      if (prerequisite.status !== "completed") {
+        blockedBy.push(id);
+      }
+    }
+
+    await taskDependencyRegistry.assertAcyclic(taskId, dependsOn);
+    return blockedBy;
+  }
+
+  /**
+   * Prerequisites of the task that have not completed
+   */
+  private async listUnfinishedPrerequisites(taskId: string): Promise<string[]> {
+    const unfinished: string[] = [];
+    for (const id of await taskDependencyRegistry.listPrerequisites(taskId)) {
+      const prerequisite = await taskRegistry.getById(id);
+      if (prerequisite && prerequisite.status !== "completed") {
+        unfinished.push(id);
+      }
+    }
+    return unfinished;
+  }
+
+  /**
+   * Bring the blockedBy list of pending and blocked dependents up to date after a
+   * prerequisite completed or was deleted. A dependent whose last
+   * prerequisite is done becomes runnable, and is started right away when a
+   * writer agent is already attached. Failures are logged so they never
+   * undo the prerequisite's transition.
+   */
+  private async refreshDependents(dependentIds: string[]): Promise<void> {
+    for (const dependentId of dependentIds) {
+      try {
+        const unblocked = await lockManager.withLock(
+          `task:${dependentId}`,
+          "lifecycle:system",
+          async () => {
+            const dependent = await taskRegistry.getById(dependentId);
+            // A dependent blocked by hand keeps its prerequisites current
+            // but waits for resumeTask before it can start
+            if (
+              !dependent ||
+              !["pending", "blocked"].includes(dependent.status)
+            ) {
+              return false;
+            }
+
+            const unfinished =
+              await this.listUnfinishedPrerequisites(dependentId);
+            const { blockedBy, ...metadata } = dependent.metadata ?? {};
+            if (unfinished.length > 0) {
+              await taskRegistry.update(dependentId, {
+                metadata: { ...metadata, blockedBy: unfinished },
+              });
+              return false;
+            }
+
+            await taskRegistry.update(dependentId, { metadata });
+            await multiLayerPersistence.appendLog(dependentId, {
+              timestamp: new Date().toISOString(),
+              level: "info",
+              message: "Task unblocked: all prerequisites completed",
+              data: { blockedBy },
+            });
+            logger.info("Task unblocked", { taskId: dependentId });
+            return dependent.status === "pending";
+          },
+        );
+        if (!unblocked) {
+          continue;
+        }
+
+        const writer = (await taskAgentRegistry.listActive(dependentId)).find(
+          (agent) => isWriterRole(agent.role),
+        );
+        if (writer) {
+          await this.startTask(dependentId, writer.agentId);
+        }
+      } catch (error: unknown) {
+        logger.error("Failed to unblock dependent task", {
+          taskId: dependentId,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+  }
+
+  /**
+   * Move a failed task back to pending for its next attempt, after
+   * restoring its latest checkpoint when retryConfig.restoreCheckpoint is
+   * set. Agents of the failed run are detached, so the next attempt starts
+   * like a new task: the scheduler attaches its pool once metadata.retryAt
+   * has passed, or a writer attaching starts it.
+   */
+  private async requeueForRetry(task: Task): Promise<Task> {
+    return lockManager.withLock(
+      `task:${task.id}`,
+      `lifecycle:${task.owner || "system"}`,
+      async () => {
+        // Read the task again; metadata may have changed since it failed
+        const current = (await taskRegistry.getById(task.id)) ?? task;
+        const attempts = [...(current.metadata?.attempts ?? [])];
+        const attempt = attempts[attempts.length - 1]!;
+
+        if (current.metadata?.retryConfig?.restoreCheckpoint) {
+          const [latest] = await multiLayerPersistence.listCheckpoints(task.id);
+          if (latest) {
+            await multiLayerPersistence.restoreCheckpoint(task.id, latest.id);
+            attempts[attempts.length - 1] = {
+              ...attempt,
+              restoredCheckpointId: latest.id,
+            };
+          }
+        }
+
+        // A remaining owner or writer would make the next start fail on
+        // the owner or writer limit
+        const agents = await taskAgentRegistry.listActive(task.id);
+        for (const agent of agents) {
+          await taskAgentRegistry.detach(task.id, agent.agentId);
+        }
+
+        const updated = await taskRegistry.update(task.id, {
+          status: "pending",
+          metadata: { ...current.metadata, attempts, retryAt: attempt.retryAt },
+        });
+        if (!updated) {
+          throw new Error(`Failed to update task: ${task.id}`);
+        }
+
+        await multiLayerPersistence.appendLog(task.id, {
+          timestamp: new Date().toISOString(),
+          level: "info",
+          message: `Task re-queued for attempt ${attempt.attempt + 1}`,
+          data: {
+            retryAt: attempt.retryAt,
+            checkpointId: attempts[attempts.length - 1]!.restoredCheckpointId,
+            detachedAgents: agents.map((agent) => agent.agentId),
+          },
+        });
+
+        logger.info("Task re-queued for retry", {
+          taskId: task.id,
+          attempt: attempt.attempt + 1,
+          retryAt: attempt.retryAt,
+        });
+
+        return updated;
+      },
+    );
+  }
+
+  /**
+   * Enforce a single owner agent and the TASK_MAX_WRITERS limit
+   */
+  private assertWriterCapacity(
+    taskId: string,
+    active: TaskAgent[],
+    role: TaskAgentRole,
+  ): void {
+    const writers = active.filter((agent) => isWriterRole(agent.role));
+
+    const owner = writers.find((agent) => agent.role === "owner");
+    if (role === "owner" && owner) {
+      throw new Error(
+        `Task ${taskId} already has an owner agent: ${owner.agentId}`,
+      );
+    }
+
+    if (TASK_MAX_WRITERS > 0 && writers.length >= TASK_MAX_WRITERS) {
+      throw new Error(
+        `Task ${taskId} already has ${writers.length} writer agents (limit ${TASK_MAX_WRITERS})`,
+      );
+    }
+  }
+
+  /**
+   * Unmap the host ports exposed for a task that is stopping. Runs before
+   * the status update, which may replace metadata. Failures are logged so
+   * they never block the transition.
+   * @returns The task as stored afterwards, without the released ports, so
+   * a metadata update built from it does not bring them back
+   */
+  private async releaseExposedPorts(task: Task): Promise<Task> {
+    if (getExposedPorts(task).length === 0) {
+      return task;
+    }
+
+    try {
+      await portPreview.unexpose(task.id);
+    } catch (error: unknown) {
+      logger.error("Failed to unexpose task ports", {
+        taskId: task.id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    return (await taskRegistry.getById(task.id)) ?? task;
+  }
+
+  /**
+   * Pause a running task and its container (transition: running -> paused)
+   * Executes: beforeTaskPause hooks -> pause -> afterTaskPause hooks
+   */
+  private async pauseRunningTask(
+    task: Task,
+    reason: TaskPauseReason,
+  ): Promise<Task> {
+    await taskLifecycleHooks.executeBeforeTaskPause(task.id, reason);
+
+    const containerId = task.metadata?.containerId;
+    if (containerId) {
+      const docker = DockerManager.getInstance();
+      await docker.assertTaskContainer(containerId, task.id);
+      await docker.pauseContainer(containerId);
+    }
+
+    const updated = await taskRegistry.update(task.id, {
+      status: "paused",
+      metadata: {
+        ...task.metadata,
+        pausedAt: new Date().toISOString(),
+        pauseReason: reason,
+      },
+    });
+    if (!updated) {
+      throw new Error(`Failed to update task: ${task.id}`);
+    }
+
+    const message =
+      reason === "no_writers"
+        ? "Task paused: no writer agents attached"
+        : "Task paused";
+    await multiLayerPersistence.appendLog(task.id, {
+      timestamp: new Date().toISOString(),
+      level: "warning",
+      message,
+      data: { containerId, reason },
+    });
+
+    logger.warn(message, { taskId: task.id });
+
+    await taskLifecycleHooks.executeAfterTaskPause(task.id, reason);
+
+    return updated;
+  }
+
+  /**
+   * Return a paused or blocked task to the status it left, unpausing its
+   * container when it runs again, and clear the pause and block metadata
+   * Executes: beforeTaskResume hooks -> resume -> afterTaskResume hooks
+   */
+  private async resumeStoppedTask(task: Task, agentId: string): Promise<Task> {
+    await taskLifecycleHooks.executeBeforeTaskResume(task.id, agentId);
+
+    const toStatus = this.getResumeStatus(task);
+    const containerId = task.metadata?.containerId;
+    if (toStatus === "running" && containerId) {
+      const docker = DockerManager.getInstance();
+      await docker.assertTaskContainer(containerId, task.id);
+      await docker.unpauseContainer(containerId);
+    }
+
+    const {
+      pausedAt,
+      pauseReason,
+      blockedAt,
+      blockReason,
+      blockedFrom,
+      ...metadata
+    } = task.metadata ?? {};
+    const stoppedAt = task.status === "paused" ? pausedAt : blockedAt;
+    const updated = await taskRegistry.update(task.id, {
+      status: toStatus,
+      metadata:
+        toStatus === "running"
+          ? { ...metadata, ...this.excludeStoppedTime(metadata, stoppedAt) }
+          : metadata,
+    });
+    if (!updated) {
+      throw new Error(`Failed to update task: ${task.id}`);
+    }
+
+    await multiLayerPersistence.appendLog(task.id, {
+      timestamp: new Date().toISOString(),
+      level: "info",
+      message: `Task resumed by agent ${agentId}`,
+      data: {
+        fromStatus: task.status,
+        toStatus,
+        pausedAt,
+        pauseReason,
+        blockedAt,
+        blockReason,
+        agentId,
+      },
+    });
+
+    logger.info("Task resumed", { taskId: task.id, agentId, status: toStatus });
+
+    await taskLifecycleHooks.executeAfterTaskResume(task.id, agentId);
+
+    return updated;
+  }
+
+  /**
+   * Move startedAt forward by the time since stoppedAt, so the watchdog's
+   * maxRunningMs counts only the time a task actually ran
+   */
+  private excludeStoppedTime(
+    metadata: TaskMetadata,
+    stoppedAt: string | undefined,
+  ): Partial<TaskMetadata> {
+    if (!metadata.startedAt || !stoppedAt) {
+      return {};
+    }
+    const stoppedMs = Math.max(0, Date.now() - Date.parse(stoppedAt));
+    return {
+      startedAt: new Date(
+        Date.parse(metadata.startedAt) + stoppedMs,
+      ).toISOString(),
+    };
+  }
+
+  /**
+   * The status a paused or blocked task returns to when resumed
+   */
+  private getResumeStatus(task: Task): "pending" | "running" {
+    return task.status === "blocked" && task.metadata?.blockedFrom === "pending"
+      ? "pending"
+      : "running";
+  }
+
   /**
    * Initialize persistence layers for a new task
    */
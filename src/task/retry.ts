@@ -0,0 +1,78 @@
+// Task Retry Policy - Whether and when a failed task runs again
+// Reads TaskMetadata.retryConfig; TaskLifecycle.failTask applies the decision
+
+import type { TaskAttempt, TaskMetadata } from "../types/metadata";
+
+export const DEFAULT_RETRY_MAX_ATTEMPTS = 3;
+export const DEFAULT_RETRY_DELAY_MS = 30 * 1000;
+export const DEFAULT_RETRY_BACKOFF_MULTIPLIER = 2;
+
+// Failures that will fail the same way however often they are retried
+const NON_RETRYABLE_ERRORS: RegExp[] = [
+  /\bnot found\b/i,
+  /\binvalid\b/i,
+  /\bvalidation\b/i,
+  /\bpermission denied\b/i,
+  /\bunauthori[sz]ed\b/i,
+  /\bforbidden\b/i,
+  /\bnon-retryable\b/i,
+];
+
+export interface RetryDecision {
+  /** The attempt being recorded, appended to metadata.attempts */
+  attempt: TaskAttempt;
+  /** Whether the task is re-queued */
+  retry: boolean;
+}
+
+export function isRetryableError(error: string): boolean {
+  return !NON_RETRYABLE_ERRORS.some((pattern) => pattern.test(error));
+}
+
+/**
+ * Delay before the retry that follows the given failed attempt
+ * (retryDelayMs, then multiplied by backoffMultiplier per attempt)
+ */
+export function getRetryDelay(
+  retryConfig: NonNullable<TaskMetadata["retryConfig"]>,
+  attempt: number,
+): number {
+  const delay = retryConfig.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS;
+  const multiplier =
+    retryConfig.backoffMultiplier ?? DEFAULT_RETRY_BACKOFF_MULTIPLIER;
+  return Math.max(0, delay * Math.pow(multiplier, attempt - 1));
+}
+
+/**
+ * Record a failed run and decide whether it is retried. Tasks without a
+ * retryConfig are never retried.
+ * @param retryable Overrides the classification of the error message
+ */
+export function planRetry(
+  metadata: TaskMetadata | undefined,
+  error: string,
+  retryable: boolean = isRetryableError(error),
+  now = Date.now(),
+): RetryDecision {
+  const attemptNumber = (metadata?.attempts?.length ?? 0) + 1;
+  const attempt: TaskAttempt = {
+    attempt: attemptNumber,
+    error,
+    failedAt: new Date(now).toISOString(),
+    retryable,
+  };
+
+  const retryConfig = metadata?.retryConfig;
+  if (
+    !retryConfig ||
+    !retryable ||
+    attemptNumber >= (retryConfig.maxAttempts ?? DEFAULT_RETRY_MAX_ATTEMPTS)
+  ) {
+    return { attempt, retry: false };
+  }
+
+  attempt.retryAt = new Date(
+    now + getRetryDelay(retryConfig, attemptNumber),
+  ).toISOString();
+  return { attempt, retry: true };
+}
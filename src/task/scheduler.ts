@@ -0,0 +1,399 @@
+// Task Scheduler - Starts queued tasks by priority and age
+// Respects global and per-owner concurrency limits and host capacity
+
+import * as fs from "fs/promises";
+import { Task, TaskAgentRole } from "../types";
+import type { TaskMetadata } from "../types/metadata";
+import { taskRegistry } from "../task-registry/registry";
+import { taskLifecycle } from "./lifecycle";
+import { TASK_AGENT_ROLES, isWriterRole } from "./agent-roles";
+import { DockerManager } from "../docker/manager";
+import { resourceMonitor } from "../util/resource-monitor";
+import { getTaskWorkspacePath } from "../util/path-sanitizer";
+import { logger } from "../util/logger";
+import {
+  CONTAINER_MEMORY_MB,
+  CONTAINER_PIDS_LIMIT,
+  DOCKER_CONTAINER_PREFIX,
+  SCHEDULER_AGENT_POOL,
+  SCHEDULER_AGING_MS,
+  SCHEDULER_INTERVAL_MS,
+  SCHEDULER_MAX_RUNNING,
+  SCHEDULER_MAX_RUNNING_PER_OWNER,
+  SCHEDULER_TASK_IMAGE,
+  SCHEDULER_ALLOWED_IMAGES,
+} from "../config";
+
+export type TaskPriority = NonNullable<TaskMetadata["priority"]>;
+
+export const TASK_PRIORITIES: readonly TaskPriority[] = [
+  "low",
+  "medium",
+  "high",
+] as const;
+
+/**
+ * Whether a task may name this image in metadata.image: the default task
+ * image or one listed in SCHEDULER_ALLOWED_IMAGES
+ */
+export function isAllowedTaskImage(image: string): boolean {
+  return (
+    image === SCHEDULER_TASK_IMAGE ||
+    SCHEDULER_ALLOWED_IMAGES.split(",")
+      .map((entry) => entry.trim())
+      .includes(image)
+  );
+}
+
+/** A task failing to start is left alone for this long */
+const START_RETRY_DELAY_MS = 60 * 1000;
+
+export interface PoolAgent {
+  agentId: string;
+  role: TaskAgentRole;
+}
+
+export interface QueueEntry {
+  task: Task;
+  /** 1-based place in the queue */
+  position: number;
+  priority: TaskPriority;
+  /** Priority level plus one per SCHEDULER_AGING_MS waited */
+  score: number;
+  waitingMs: number;
+  pinned: boolean;
+  /** Prerequisites that have not completed; blocked tasks are not started */
+  blockedBy: string[];
+  /** A failed task waiting out its retry backoff is not started before this */
+  retryAt?: Date;
+  /** A task past its deadline is not started; it could only miss it */
+  deadline?: Date;
+}
+
+/**
+ * Parse SCHEDULER_AGENT_POOL ("agentId[:role]", comma-separated; the role
+ * defaults to collaborator)
+ */
+export function parseAgentPool(value: string): PoolAgent[] {
+  return value
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const [agentId = "", role = "collaborator"] = entry.split(":");
+      if (!agentId || !TASK_AGENT_ROLES.includes(role as TaskAgentRole)) {
+        throw new Error(`Invalid agent pool entry: ${entry}`);
+      }
+      return { agentId, role: role as TaskAgentRole };
+    });
+}
+
+/**
+ * Order pending tasks the way the scheduler starts them: pinned tasks
+ * first (earliest pin first), then by priority raised one level per
+ * SCHEDULER_AGING_MS of waiting, then oldest first
+ */
+export function buildQueue(tasks: Task[], now = Date.now()): QueueEntry[] {
+  return tasks
+    .map((task) => {
+      const priority: TaskPriority = TASK_PRIORITIES.includes(
+        task.metadata?.priority,
+      )
+        ? task.metadata!.priority
+        : "medium";
+      const waitingMs = Math.max(0, now - task.createdAt.getTime());
+      const aging =
+        SCHEDULER_AGING_MS > 0 ? Math.floor(waitingMs / SCHEDULER_AGING_MS) : 0;
+      return {
+        task,
+        position: 0,
+        priority,
+        score: TASK_PRIORITIES.indexOf(priority) + aging,
+        waitingMs,
+        pinned: Boolean(task.metadata?.queuePinnedAt),
+        blockedBy: (task.metadata?.blockedBy ?? []) as string[],
+        retryAt: task.metadata?.retryAt
+          ? new Date(task.metadata.retryAt)
+          : undefined,
+        deadline: task.metadata?.deadline
+          ? new Date(task.metadata.deadline)
+          : undefined,
+      };
+    })
+    .sort(
+      (a, b) =>
+        Number(b.pinned) - Number(a.pinned) ||
+        (a.pinned && b.pinned
+          ? String(a.task.metadata?.queuePinnedAt).localeCompare(
+              String(b.task.metadata?.queuePinnedAt),
+            )
+          : 0) ||
+        b.score - a.score ||
+        a.task.createdAt.getTime() - b.task.createdAt.getTime() ||
+        a.task.id.localeCompare(b.task.id),
+    )
+    .map((entry, index) => ({ ...entry, position: index + 1 }));
+}
+
+export class TaskScheduler {
+  private static instance: TaskScheduler;
+  private timer: NodeJS.Timeout | null = null;
+  private ticking = false;
+  private pool: PoolAgent[] = [];
+  // Tasks that failed to start, and when to try them again
+  private retryAt: Map<string, number> = new Map();
+
+  private constructor() {}
+
+  public static getInstance(): TaskScheduler {
+    if (!TaskScheduler.instance) {
+      TaskScheduler.instance = new TaskScheduler();
+    }
+    return TaskScheduler.instance;
+  }
+
+  /**
+   * Start polling the queue every SCHEDULER_INTERVAL_MS
+   */
+  public start(): void {
+    if (this.timer) {
+      return;
+    }
+    this.pool = this.loadPool();
+
+    this.timer = setInterval(() => {
+      this.runOnce().catch((error: unknown) => {
+        logger.error("Task scheduler run failed", {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      });
+    }, SCHEDULER_INTERVAL_MS);
+
+    logger.info("Task scheduler started", {
+      intervalMs: SCHEDULER_INTERVAL_MS,
+      maxRunning: SCHEDULER_MAX_RUNNING,
+      maxRunningPerOwner: SCHEDULER_MAX_RUNNING_PER_OWNER,
+      pool: this.pool.map((agent) => `${agent.agentId}:${agent.role}`),
+    });
+  }
+
+  public stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+      logger.info("Task scheduler stopped");
+    }
+  }
+
+  public get isRunning(): boolean {
+    return this.timer !== null;
+  }
+
+  /**
+   * The pending tasks in the order they will be started
+   */
+  public async getQueue(): Promise<QueueEntry[]> {
+    return buildQueue(await taskRegistry.list({ status: "pending" }));
+  }
+
+  /**
+   * Start as many queued tasks as the limits allow. A task whose owner is
+   * at its limit is skipped, so other owners' tasks behind it still start.
+   * @returns IDs of the tasks started
+   */
+  public async runOnce(): Promise<string[]> {
+    if (this.ticking) {
+      return [];
+    }
+    this.ticking = true;
+
+    try {
+      if (this.pool.length === 0) {
+        this.pool = this.loadPool();
+      }
+
+      const running = await taskRegistry.list({ status: "running" });
+      const perOwner = new Map<string, number>();
+      running.forEach((task) => {
+        const owner = task.owner || "system";
+        perOwner.set(owner, (perOwner.get(owner) ?? 0) + 1);
+      });
+      let total = running.length;
+
+      const now = Date.now();
+      const started: string[] = [];
+      for (const entry of await this.getQueue()) {
+        if (SCHEDULER_MAX_RUNNING > 0 && total >= SCHEDULER_MAX_RUNNING) {
+          break;
+        }
+
+        const { task } = entry;
+        const owner = task.owner || "system";
+        if (
+          entry.blockedBy.length > 0 ||
+          (entry.retryAt?.getTime() ?? 0) > now ||
+          (entry.deadline && entry.deadline.getTime() <= now) ||
+          (this.retryAt.get(task.id) ?? 0) > now ||
+          (SCHEDULER_MAX_RUNNING_PER_OWNER > 0 &&
+            (perOwner.get(owner) ?? 0) >= SCHEDULER_MAX_RUNNING_PER_OWNER)
+        ) {
+          continue;
+        }
+
+        if (!(await this.hasHostCapacity())) {
+          logger.info("Task scheduler waiting for host capacity", {
+            queued: entry.position,
+          });
+          break;
+        }
+
+        try {
+          await this.startQueuedTask(task);
+          this.retryAt.delete(task.id);
+          started.push(task.id);
+          total++;
+          perOwner.set(owner, (perOwner.get(owner) ?? 0) + 1);
+        } catch (error: unknown) {
+          this.retryAt.set(task.id, now + START_RETRY_DELAY_MS);
+          logger.error("Task scheduler failed to start task", {
+            taskId: task.id,
+            error: error instanceof Error ? error.message : String(error),
+          });
+        }
+      }
+
+      return started;
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  /**
+   * Whether one more container fits in the host's memory and PID budget,
+   * with the same headroom ResourceMonitor.checkResourceLimits keeps
+   */
+  private async hasHostCapacity(): Promise<boolean> {
+    const usage = await resourceMonitor.getSystemResourceUsage();
+    return (
+      usage.memory.used + CONTAINER_MEMORY_MB <= usage.memory.limit * 0.8 &&
+      usage.pids.used + CONTAINER_PIDS_LIMIT <= usage.pids.limit * 0.9
+    );
+  }
+
+  /**
+   * Provision the task's container unless it has one, then attach the agent
+   * pool; attaching the first writer starts the task
+   */
+  private async startQueuedTask(task: Task): Promise<void> {
+    const provisioned = task.metadata?.containerId
+      ? null
+      : await this.provisionContainer(task);
+
+    // The watchdog stops the container of a task that ran out of time
+    if (task.metadata?.containerId) {
+      const docker = DockerManager.getInstance();
+      await docker.assertTaskContainer(task.metadata.containerId, task.id);
+      const status = await docker.getContainerStatus(task.metadata.containerId);
+      if (status === "created" || status === "exited") {
+        await docker.startContainer(task.metadata.containerId);
+      }
+    }
+
+    const [writer, ...others] = this.pool;
+    try {
+      await taskLifecycle.attachAgent(task.id, writer!.agentId, writer!.role);
+    } catch (error) {
+      if (provisioned) {
+        resourceMonitor.unregisterContainer(provisioned);
+        await DockerManager.getInstance()
+          .removeContainer(provisioned, true)
+          .catch(() => undefined);
+        await taskRegistry.update(task.id, { metadata: task.metadata ?? {} });
+      }
+      throw error;
+    }
+
+    // The task is running now; a pool agent that cannot join does not stop it
+    for (const agent of others) {
+      await taskLifecycle
+        .attachAgent(task.id, agent.agentId, agent.role)
+        .catch((error: unknown) =>
+          logger.warn("Failed to attach pool agent", {
+            taskId: task.id,
+            agentId: agent.agentId,
+            error: error instanceof Error ? error.message : String(error),
+          }),
+        );
+    }
+
+    logger.info("Task started by scheduler", {
+      taskId: task.id,
+      containerId: provisioned ?? task.metadata?.containerId,
+    });
+  }
+
+  /**
+   * Create and start a container for the task with its workspace mounted,
+   * and record it in the task's metadata
+   */
+  private async provisionContainer(task: Task): Promise<string> {
+    const image = task.metadata?.image || SCHEDULER_TASK_IMAGE;
+    if (!isAllowedTaskImage(image)) {
+      throw new Error(`Image is not allowed for tasks: ${image}`);
+    }
+
+    const docker = DockerManager.getInstance();
+    const workspace = getTaskWorkspacePath(task.id);
+    await fs.mkdir(workspace, { recursive: true });
+
+    const containerId = await docker.createContainer({
+      name: `${DOCKER_CONTAINER_PREFIX}task_${task.id}`,
+      image,
+      command: ["sleep", "infinity"],
+      workingDir: "/workspace",
+      mounts: [{ source: workspace, target: "/workspace", type: "bind" }],
+      labels: {
+        // Lets the orphan detector remove containers of deleted tasks
+        "opencode.task.id": task.id,
+        "opencode.role": "task",
+      },
+    });
+
+    try {
+      await docker.startContainer(containerId);
+      resourceMonitor.registerContainer(
+        containerId,
+        resourceMonitor.getDefaultLimits(),
+      );
+      const updated = await taskRegistry.update(task.id, {
+        metadata: { ...task.metadata, containerId },
+      });
+      if (!updated) {
+        throw new Error(`Failed to update task: ${task.id}`);
+      }
+    } catch (error) {
+      resourceMonitor.unregisterContainer(containerId);
+      await docker.removeContainer(containerId, true).catch(() => undefined);
+      throw error;
+    }
+
+    return containerId;
+  }
+
+  private loadPool(): PoolAgent[] {
+    const pool = parseAgentPool(SCHEDULER_AGENT_POOL);
+    if (!pool.some((agent) => isWriterRole(agent.role))) {
+      throw new Error(
+        "SCHEDULER_AGENT_POOL needs an owner or collaborator to start tasks",
+      );
+    }
+    // Writers go first so the task is running when the others join
+    return [
+      ...pool.filter((agent) => isWriterRole(agent.role)),
+      ...pool.filter((agent) => !isWriterRole(agent.role)),
+    ];
+  }
+}
+
+// Export singleton instance
+export const taskScheduler = TaskScheduler.getInstance();
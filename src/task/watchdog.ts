@@ -0,0 +1,181 @@
+// Task Watchdog - Ends running tasks past their deadline or run time limit
+// Checkpoints the task, fails or cancels it through TaskLifecycle and stops its container
+
+import { Task } from "../types";
+import type { TaskFailReason } from "../types/lifecycle";
+import { taskRegistry } from "../task-registry/registry";
+import { taskLifecycle } from "./lifecycle";
+import { DockerManager } from "../docker/manager";
+import { multiLayerPersistence } from "../persistence/multi-layer";
+import { logger } from "../util/logger";
+import { TASK_WATCHDOG_INTERVAL_MS } from "../config";
+
+export interface TaskTimeout {
+  reason: Exclude<TaskFailReason, "error">;
+  message: string;
+}
+
+/**
+ * Whether a running task is past its deadline or has run longer than its
+ * maxRunningMs; the deadline is checked first
+ */
+export function findTimeout(task: Task, now = Date.now()): TaskTimeout | null {
+  const deadline = task.metadata?.deadline;
+  if (deadline && Date.parse(deadline) <= now) {
+    return {
+      reason: "deadline",
+      message: `Task missed its deadline (${deadline})`,
+    };
+  }
+
+  const { startedAt, maxRunningMs } = task.metadata ?? {};
+  if (
+    startedAt &&
+    maxRunningMs &&
+    Date.parse(startedAt) + maxRunningMs <= now
+  ) {
+    return {
+      reason: "timeout",
+      message: `Task exceeded its maximum running time of ${maxRunningMs}ms`,
+    };
+  }
+
+  return null;
+}
+
+export class TaskWatchdog {
+  private static instance: TaskWatchdog;
+  private timer: NodeJS.Timeout | null = null;
+  private checking = false;
+
+  private constructor() {}
+
+  public static getInstance(): TaskWatchdog {
+    if (!TaskWatchdog.instance) {
+      TaskWatchdog.instance = new TaskWatchdog();
+    }
+    return TaskWatchdog.instance;
+  }
+
+  /**
+   * Check running tasks every TASK_WATCHDOG_INTERVAL_MS
+   */
+  public start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      this.runOnce().catch((error: unknown) => {
+        logger.error("Task watchdog run failed", {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      });
+    }, TASK_WATCHDOG_INTERVAL_MS);
+
+    logger.info("Task watchdog started", {
+      intervalMs: TASK_WATCHDOG_INTERVAL_MS,
+    });
+  }
+
+  public stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+      logger.info("Task watchdog stopped");
+    }
+  }
+
+  public get isRunning(): boolean {
+    return this.timer !== null;
+  }
+
+  /**
+   * End every running task that is out of time. One task failing to end
+   * does not stop the others.
+   * @returns IDs of the tasks ended
+   */
+  public async runOnce(): Promise<string[]> {
+    if (this.checking) {
+      return [];
+    }
+    this.checking = true;
+
+    try {
+      const now = Date.now();
+      const ended: string[] = [];
+      for (const task of await taskRegistry.list({ status: "running" })) {
+        const timeout = findTimeout(task, now);
+        if (!timeout) {
+          continue;
+        }
+
+        try {
+          await this.endTask(task, timeout);
+          ended.push(task.id);
+        } catch (error: unknown) {
+          logger.error("Failed to end overdue task", {
+            taskId: task.id,
+            reason: timeout.reason,
+            error: error instanceof Error ? error.message : String(error),
+          });
+        }
+      }
+      return ended;
+    } finally {
+      this.checking = false;
+    }
+  }
+
+  /**
+   * Checkpoint the task so its work can be inspected or restored, fail or
+   * cancel it per metadata.timeoutAction, then stop its container
+   */
+  private async endTask(task: Task, timeout: TaskTimeout): Promise<void> {
+    logger.warn("Task out of time", {
+      taskId: task.id,
+      reason: timeout.reason,
+      message: timeout.message,
+    });
+
+    try {
+      await multiLayerPersistence.createCheckpoint(
+        task.id,
+        `Before ${timeout.reason}: ${timeout.message}`,
+      );
+    } catch (error: unknown) {
+      logger.error("Failed to checkpoint overdue task", {
+        taskId: task.id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    if (task.metadata?.timeoutAction === "cancel") {
+      await taskLifecycle.cancelTask(task.id);
+    } else {
+      // Retrying cannot bring a missed deadline back
+      await taskLifecycle.failTask(task.id, timeout.message, {
+        reason: timeout.reason,
+        retryable: timeout.reason === "deadline" ? false : undefined,
+      });
+    }
+
+    const containerId = task.metadata?.containerId;
+    if (containerId) {
+      const docker = DockerManager.getInstance();
+      await docker
+        .assertTaskContainer(containerId, task.id)
+        .then(() => docker.stopContainer(containerId))
+        .catch((error: unknown) =>
+          logger.error("Failed to stop container of overdue task", {
+            taskId: task.id,
+            containerId,
+            error: error instanceof Error ? error.message : String(error),
+          }),
+        );
+    }
+  }
+}
+
+// Export singleton instance
+export const taskWatchdog = TaskWatchdog.getInstance();
@@ -20,15 +20,62 @@ export type TaskStatus =
   | "running"
   | "completed"
   | "failed"
-  | "cancelled";
+  | "cancelled"
+  /** Container paused; by pauseTask or because the last writer detached */
+  | "paused"
+  /** Held by blockTask until resumeTask, e.g. waiting on outside input */
+  | "blocked";
+
+/** Owner and collaborator may write; reviewer may run commands; observer reads */
+export type TaskAgentRole = "owner" | "collaborator" | "reviewer" | "observer";
+
+export interface TaskAgent {
+  taskId: string;
+  agentId: string;
+  role: TaskAgentRole;
+  attachedAt: Date;
+  /** Set once the agent detached; active attachments have none */
+  detachedAt?: Date;
+}
+
+/** An edge of the task dependency graph: taskId waits for dependsOnTaskId */
+export interface TaskDependency {
+  taskId: string;
+  dependsOnTaskId: string;
+  createdAt: Date;
+}
+
+export type TaskSortField = "createdAt" | "updatedAt" | "name";
 
 export interface TaskFilters {
   status?: TaskStatus;
   owner?: string;
+  /** Only tasks whose metadata.tags include every one of these */
+  tags?: string[];
+  createdAfter?: Date;
+  createdBefore?: Date;
+  updatedAfter?: Date;
+  updatedBefore?: Date;
+  /** Only tasks whose metadata contains these keys and values */
+  metadata?: Record<string, any>;
+  /** Sort column (default: createdAt); ties are broken by task ID */
+  sortBy?: TaskSortField;
+  /** Sort direction (default: desc) */
+  sortOrder?: "asc" | "desc";
+  /** Opaque cursor from a previous page; cannot be combined with offset */
+  cursor?: string;
   limit?: number;
   offset?: number;
 }
 
+export interface TaskPage {
+  tasks: Task[];
+  /** Tasks matching the filters across all pages */
+  total: number;
+  /** Pass as filters.cursor to fetch the next page; null on the last page */
+  nextCursor: string | null;
+}
+
 // Container-related types
 export interface ContainerInfo {
   id: string;
@@ -61,6 +108,17 @@ export interface ContainerPort {
   protocol: "tcp" | "udp";
 }
 
+/**
+ * A task container port published on the host (task metadata.exposedPorts)
+ */
+export interface ExposedPort extends ContainerPort {
+  hostPort: number;
+  hostIp: string;
+  /** Forwarder container that publishes the port */
+  proxyContainerId: string;
+  exposedAt: string;
+}
+
 export interface ResourceLimits {
   memory?: number; // MB
   cpuShares?: number;
@@ -6,8 +6,30 @@ export interface TaskConfig {
   description?: string;
   owner?: string;
   metadata?: Record<string, any>;
+  /** IDs of tasks that must complete before this one can start */
+  dependsOn?: string[];
+  /** Wall-clock time by which the task must be done */
+  deadline?: Date | string;
+  /** Longest a single run may stay running, in milliseconds */
+  maxRunningMs?: number;
+  /** What the watchdog does with an overdue task (default: fail) */
+  onTimeout?: TaskTimeoutAction;
 }
 
+export type TaskTimeoutAction = 'fail' | 'cancel';
+
+/**
+ * Why a task failed, passed to the fail hooks: an error reported by the
+ * agent, a run longer than maxRunningMs, or a missed deadline
+ */
+export type TaskFailReason = 'error' | 'timeout' | 'deadline';
+
+/**
+ * Why a task was paused: its last writer agent detached, or pauseTask was
+ * called
+ */
+export type TaskPauseReason = 'no_writers' | 'requested';
+
 export interface TaskResult {
   success: boolean;
   status?: 'success' | 'error';
@@ -31,10 +31,15 @@ export interface TaskMetadata {
   tags?: string[];
 
   /**
-   * Priority level for task scheduling
+   * Priority level for task scheduling (default: medium)
    */
   priority?: "low" | "medium" | "high";
 
+  /**
+   * When the task was pinned to the front of the scheduler queue (ISO 8601)
+   */
+  queuePinnedAt?: string;
+
   /**
    * Estimated time to complete task (in hours)
    */
@@ -46,10 +51,18 @@ export interface TaskMetadata {
   completedAt?: Date;
 
   /**
-   * Parent task ID if this task was spawned from another task
+   * Parent task ID if this task was spawned from another task.
+   * Informational only; tasks that must finish first are recorded in the
+   * task_dependencies table
    */
   parentTaskId?: string;
 
+  /**
+   * Prerequisites that have not completed yet; the task cannot start until
+   * the last one completes, which clears this field
+   */
+  blockedBy?: string[];
+
   /**
    * Container ID if task is running in a container
    */
@@ -70,14 +83,80 @@ export interface TaskMetadata {
   };
 
   /**
-   * Retry configuration if task execution failed
+   * Retry policy: a failed task is re-queued until it has run maxAttempts
+   * times (default: 3), waiting retryDelayMs (default: 30000) times
+   * backoffMultiplier (default: 2) per earlier retry. With restoreCheckpoint
+   * the latest checkpoint is restored before each retry.
    */
   retryConfig?: {
     maxAttempts?: number;
     retryDelayMs?: number;
     backoffMultiplier?: number;
+    restoreCheckpoint?: boolean;
   };
 
+  /**
+   * One entry per failed run, oldest first
+   */
+  attempts?: TaskAttempt[];
+
+  /**
+   * A re-queued task is not started before this time (ISO 8601)
+   */
+  retryAt?: string;
+
+  /**
+   * Error message of the last failed run
+   */
+  error?: string;
+
+  /**
+   * When the current run started (ISO 8601)
+   */
+  startedAt?: string;
+
+  /**
+   * Wall-clock time by which the task must be done (ISO 8601)
+   */
+  deadline?: string;
+
+  /**
+   * Longest a single run may stay running, in milliseconds
+   */
+  maxRunningMs?: number;
+
+  /**
+   * What the watchdog does with a task past its deadline or maxRunningMs
+   * (default: fail)
+   */
+  timeoutAction?: "fail" | "cancel";
+
+  /**
+   * When the task entered the paused status (ISO 8601); cleared on resume
+   */
+  pausedAt?: string;
+
+  /**
+   * Why the task is paused. A task paused for no_writers resumes when a
+   * writer agent attaches; a requested pause only through resumeTask.
+   */
+  pauseReason?: "no_writers" | "requested";
+
+  /**
+   * When the task entered the blocked status (ISO 8601); cleared on resume
+   */
+  blockedAt?: string;
+
+  /**
+   * Why blockTask blocked the task
+   */
+  blockReason?: string;
+
+  /**
+   * Status resumeTask returns a blocked task to
+   */
+  blockedFrom?: "pending" | "running";
+
   /**
    * Security context for task execution
    */
@@ -98,6 +177,22 @@ export interface TaskMetadata {
   [key: string]: unknown;
 }
 
+/**
+ * A failed run of a task, recorded by TaskLifecycle.failTask
+ */
+export interface TaskAttempt {
+  /** 1 for the first run */
+  attempt: number;
+  error: string;
+  /** When the run failed (ISO 8601) */
+  failedAt: string;
+  retryable: boolean;
+  /** When the retry may start; absent when the task was not retried */
+  retryAt?: string;
+  /** Checkpoint restored before the retry */
+  restoredCheckpointId?: string;
+}
+
 /**
  * Task-specific metadata schemas
  *
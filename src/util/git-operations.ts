@@ -1,13 +1,14 @@
 // Git Operations Helper - Phase 2: Edge Cases
 // Week 15, Day 1-2: Git Branch Naming Conflicts
 
-import { exec } from "child_process";
+import { exec, execFile } from "child_process";
 import { logger } from "./logger";
 import * as fs from "fs/promises";
 import * as path from "path";
 import { promisify } from "util";
 
 const execAsync = promisify(exec);
+const execFileAsync = promisify(execFile);
 
 /**
  * Git Operations Helper - Provides atomic Git operations with conflict handling
@@ -413,3 +414,592 @@ export async function initSubmodule(
     return false;
   }
 }
+
+/**
+ * Task workspace Git commands used by the MCP git tools. Commands run
+ * without a shell and hold a lock in the repository's git directory, so
+ * concurrent agents don't race on the index. Agents can write anything in
+ * the workspace, so repositories that could make the host's git run their
+ * programs or leave the workspace are refused.
+ */
+
+const GIT_TIMEOUT_MS = 30000;
+const GIT_MAX_BUFFER = 16 * 1024 * 1024;
+export const MAX_DIFF_BYTES = 1024 * 1024;
+
+export interface GitFileStatus {
+  path: string;
+  /** Staged state (porcelain X column), e.g. "M", "A", "?" */
+  index: string;
+  /** Unstaged state (porcelain Y column) */
+  workingTree: string;
+  /** Previous path of a rename or copy */
+  originalPath?: string;
+}
+
+export interface GitStatusResult {
+  /** Null when HEAD is detached */
+  branch: string | null;
+  upstream?: string;
+  ahead: number;
+  behind: number;
+  clean: boolean;
+  files: GitFileStatus[];
+}
+
+export type GitDiffTarget = "unstaged" | "staged" | "base";
+
+export interface GitDiffOptions {
+  target?: GitDiffTarget;
+  /** Branch to compare against for target "base" (default: origin/HEAD, main or master) */
+  base?: string;
+  /** Limit the diff to these workspace-relative paths */
+  paths?: string[];
+}
+
+export interface GitDiffResult {
+  target: GitDiffTarget;
+  base?: string;
+  diff: string;
+  truncated: boolean;
+  files: { path: string; additions: number; deletions: number }[];
+}
+
+export interface GitCommitOptions {
+  message: string;
+  author: { name: string; email: string };
+  /** Stage these paths before committing */
+  paths?: string[];
+  /** Stage every change, including new files */
+  all?: boolean;
+}
+
+export interface GitCommitResult {
+  commit: string;
+  branch: string | null;
+  summary: string;
+}
+
+export interface GitLogEntry {
+  commit: string;
+  author: string;
+  email: string;
+  date: string;
+  subject: string;
+}
+
+export interface GitLogOptions {
+  ref?: string;
+  path?: string;
+  maxCount?: number;
+}
+
+export interface GitBranchInfo {
+  name: string;
+  commit: string;
+  current: boolean;
+}
+
+// Repository config a task workspace may carry. Anything else, such as
+// core.fsmonitor, core.worktree, filter or textconv drivers and includes,
+// could make the host's git run a command or read a path an agent chose.
+const ALLOWED_GIT_CONFIG: RegExp[] = [
+  /^core\.(repositoryformatversion|filemode|bare|logallrefupdates|ignorecase|precomposeunicode|symlinks|autocrlf|eol|safecrlf)$/,
+  /^extensions\.objectformat$/,
+  /^init\.defaultbranch$/,
+  /^user\.(name|email)$/,
+  /^remote\..+\.(url|pushurl|fetch)$/,
+  /^branch\..+\.(remote|merge|rebase)$/,
+];
+
+// Passed with -c on every call, so they override the repository config.
+// The config is checked first, but the task's container can rewrite it
+// before git reads it; with these set, it cannot make the host's git run
+// hooks, the fsmonitor, external diff, pager, editor, signing or gc programs.
+const PINNED_GIT_CONFIG = [
+  "core.hooksPath=/dev/null",
+  "core.fsmonitor=false",
+  "core.attributesFile=/dev/null",
+  "core.sshCommand=false",
+  "core.askPass=",
+  "core.pager=cat",
+  "core.editor=false",
+  "sequence.editor=false",
+  "credential.helper=",
+  "diff.external=",
+  "commit.gpgSign=false",
+  "tag.gpgSign=false",
+  "log.showSignature=false",
+  "protocol.allow=never",
+  "gc.auto=0",
+  "maintenance.auto=false",
+];
+
+// Files in the git directory that point git at other host paths
+const GIT_DIR_REDIRECTS = [
+  "commondir",
+  path.join("objects", "info", "alternates"),
+];
+
+async function runGit(
+  workspacePath: string,
+  args: string[],
+  env?: NodeJS.ProcessEnv,
+): Promise<string> {
+  // Only the repository's own (checked) config applies; inherited GIT_*
+  // variables could point git elsewhere
+  const inherited = Object.fromEntries(
+    Object.entries(process.env).filter(([key]) => !key.startsWith("GIT_")),
+  );
+
+  try {
+    const { stdout } = await execFileAsync(
+      "git",
+      [...PINNED_GIT_CONFIG.flatMap((entry) => ["-c", entry]), ...args],
+      {
+        cwd: workspacePath,
+        timeout: GIT_TIMEOUT_MS,
+        maxBuffer: GIT_MAX_BUFFER,
+        env: {
+          ...inherited,
+          GIT_CONFIG_NOSYSTEM: "1",
+          GIT_CONFIG_GLOBAL: "/dev/null",
+          GIT_ATTR_NOSYSTEM: "1",
+          GIT_TERMINAL_PROMPT: "0",
+          // Stop at the workspace instead of finding a repository above it
+          GIT_CEILING_DIRECTORIES: path.dirname(path.resolve(workspacePath)),
+          // Overrides core.worktree, which could point git at a host path
+          GIT_WORK_TREE: path.resolve(workspacePath),
+          ...env,
+        },
+      },
+    );
+    return stdout;
+  } catch (error: any) {
+    const detail = (error.stderr || error.stdout || error.message || "")
+      .toString()
+      .trim();
+    throw new Error(`git ${args[0]} failed: ${detail}`);
+  }
+}
+
+/**
+ * Refs come from agents; one starting with "-" would be read as an option
+ */
+function assertRef(ref: string, label: string): void {
+  if (ref.startsWith("-") || /[\s\0]/.test(ref)) {
+    throw new Error(`Invalid ${label}: ${ref}`);
+  }
+}
+
+/**
+ * Locate the workspace's git directory and refuse repositories git cannot
+ * safely run in on the host: a .git file or link (gitdir redirect), a
+ * git directory that borrows another one, or config outside
+ * ALLOWED_GIT_CONFIG. Reads the config without letting git act on it.
+ * @returns The git directory
+ */
+async function resolveSafeGitDir(workspacePath: string): Promise<string> {
+  const root = await fs.realpath(workspacePath);
+  const gitDir = path.join(root, ".git");
+
+  const stats = await fs.lstat(gitDir).catch(() => null);
+  if (!stats) {
+    throw new Error("Task workspace is not a git repository");
+  }
+  if (!stats.isDirectory()) {
+    throw new Error("Task workspace .git must be a directory");
+  }
+
+  for (const redirect of GIT_DIR_REDIRECTS) {
+    if (await fs.lstat(path.join(gitDir, redirect)).catch(() => null)) {
+      throw new Error(`Task workspace repository may not use ${redirect}`);
+    }
+  }
+
+  const configPath = path.join(gitDir, "config");
+  const config = await fs.lstat(configPath).catch(() => null);
+  if (config) {
+    if (!config.isFile()) {
+      throw new Error("Task workspace git config must be a regular file");
+    }
+    // --file reads only this file and does not follow includes
+    const entries = await runGit(root, [
+      "config",
+      "--file",
+      configPath,
+      "--list",
+      "-z",
+    ]);
+    for (const entry of entries.split("\0")) {
+      const key = entry.split("\n")[0] ?? "";
+      if (key && !ALLOWED_GIT_CONFIG.some((pattern) => pattern.test(key))) {
+        throw new Error(`Task workspace git config may not set ${key}`);
+      }
+    }
+  }
+
+  return gitDir;
+}
+
+/**
+ * Run a Git command sequence under the workspace's Git lock
+ */
+export async function withGitLock<T>(
+  workspacePath: string,
+  operation: () => Promise<T>,
+): Promise<T> {
+  const gitDir = await resolveSafeGitDir(workspacePath);
+  try {
+    const resolved = (
+      await runGit(workspacePath, ["rev-parse", "--absolute-git-dir"])
+    ).trim();
+    if (resolved !== gitDir) {
+      throw new Error("unexpected git directory");
+    }
+  } catch {
+    throw new Error("Task workspace is not a git repository");
+  }
+
+  const lockFile = path.join(gitDir, "opencode-git.lock");
+  await acquireLock(lockFile);
+  try {
+    return await operation();
+  } finally {
+    await releaseLock(lockFile);
+  }
+}
+
+function parseBranchLine(
+  line: string,
+): Omit<GitStatusResult, "clean" | "files"> {
+  const result = { branch: null as string | null, ahead: 0, behind: 0 };
+  const header = line.slice(3);
+
+  if (header.startsWith("No commits yet on ")) {
+    return { ...result, branch: header.slice("No commits yet on ".length) };
+  }
+  if (header.startsWith("HEAD (no branch)")) {
+    return result;
+  }
+
+  const match = /^(.+?)(?:\.\.\.(\S+))?(?: \[(.+)\])?$/.exec(header);
+  if (!match) {
+    return result;
+  }
+  const tracking = match[3] ?? "";
+  return {
+    branch: match[1] ?? null,
+    upstream: match[2],
+    ahead: Number(/ahead (\d+)/.exec(tracking)?.[1] ?? 0),
+    behind: Number(/behind (\d+)/.exec(tracking)?.[1] ?? 0),
+  };
+}
+
+/**
+ * Branch, tracking state and changed files of the workspace
+ */
+export async function getGitStatus(
+  workspacePath: string,
+): Promise<GitStatusResult> {
+  const output = await withGitLock(workspacePath, () =>
+    runGit(workspacePath, ["status", "--porcelain=v1", "--branch", "-z"]),
+  );
+
+  const records = output.split("\0");
+  let branchInfo: Omit<GitStatusResult, "clean" | "files"> = {
+    branch: null,
+    ahead: 0,
+    behind: 0,
+  };
+  const files: GitFileStatus[] = [];
+
+  for (let i = 0; i < records.length; i++) {
+    const record = records[i]!;
+    if (record.length === 0) {
+      continue;
+    }
+    if (record.startsWith("## ")) {
+      branchInfo = parseBranchLine(record);
+      continue;
+    }
+
+    const file: GitFileStatus = {
+      index: record[0]!,
+      workingTree: record[1]!,
+      path: record.slice(3),
+    };
+    // -z puts the source of a rename or copy in the next record
+    if (file.index === "R" || file.index === "C") {
+      file.originalPath = records[++i];
+    }
+    files.push(file);
+  }
+
+  return { ...branchInfo, clean: files.length === 0, files };
+}
+
+/**
+ * Default comparison branch: the remote's HEAD, else main, else master
+ */
+export async function resolveBaseBranch(
+  workspacePath: string,
+): Promise<string> {
+  try {
+    return (
+      await runGit(workspacePath, [
+        "symbolic-ref",
+        "--short",
+        "refs/remotes/origin/HEAD",
+      ])
+    ).trim();
+  } catch {
+    // No remote HEAD; fall back to conventional names
+  }
+
+  for (const candidate of ["main", "master"]) {
+    try {
+      await runGit(workspacePath, [
+        "rev-parse",
+        "--verify",
+        "--quiet",
+        `refs/heads/${candidate}`,
+      ]);
+      return candidate;
+    } catch {
+      continue;
+    }
+  }
+  throw new Error("No base branch found; pass one explicitly");
+}
+
+/**
+ * Unstaged changes, staged changes, or changes since the branch left base
+ * (merge base to working tree)
+ */
+export async function getGitDiff(
+  workspacePath: string,
+  options: GitDiffOptions = {},
+): Promise<GitDiffResult> {
+  const target = options.target ?? "unstaged";
+  const paths = options.paths ?? [];
+
+  return withGitLock(workspacePath, async () => {
+    const args: string[] = [];
+    let base: string | undefined;
+
+    if (target === "staged") {
+      args.push("--cached");
+    } else if (target === "base") {
+      base = options.base ?? (await resolveBaseBranch(workspacePath));
+      assertRef(base, "base branch");
+      const mergeBase = (
+        await runGit(workspacePath, ["merge-base", base, "HEAD"])
+      ).trim();
+      args.push(mergeBase);
+    }
+
+    const pathArgs = paths.length > 0 ? ["--", ...paths] : [];
+    const diff = await runGit(workspacePath, [
+      "diff",
+      "--no-color",
+      "--no-ext-diff",
+      "--no-textconv",
+      ...args,
+      ...pathArgs,
+    ]);
+    const numstat = await runGit(workspacePath, [
+      "diff",
+      "--numstat",
+      "--no-ext-diff",
+      "--no-textconv",
+      ...args,
+      ...pathArgs,
+    ]);
+
+    const files = numstat
+      .split("\n")
+      .filter((line) => line.length > 0)
+      .map((line) => {
+        const [additions, deletions, ...rest] = line.split("\t");
+        return {
+          path: rest.join("\t"),
+          // Binary files are reported as "-"
+          additions: Number(additions) || 0,
+          deletions: Number(deletions) || 0,
+        };
+      });
+
+    const truncated = Buffer.byteLength(diff) > MAX_DIFF_BYTES;
+    return {
+      target,
+      base,
+      diff: truncated
+        ? Buffer.from(diff).subarray(0, MAX_DIFF_BYTES).toString()
+        : diff,
+      truncated,
+      files,
+    };
+  });
+}
+
+/**
+ * Stage the requested changes and commit them as the given author
+ */
+export async function commitGitChanges(
+  workspacePath: string,
+  options: GitCommitOptions,
+): Promise<GitCommitResult> {
+  return withGitLock(workspacePath, async () => {
+    if (options.all) {
+      await runGit(workspacePath, ["add", "--all"]);
+    } else if (options.paths && options.paths.length > 0) {
+      await runGit(workspacePath, ["add", "--", ...options.paths]);
+    }
+
+    const staged = await runGit(workspacePath, [
+      "diff",
+      "--cached",
+      "--name-only",
+    ]);
+    if (staged.trim().length === 0) {
+      throw new Error("Nothing to commit");
+    }
+
+    const { name, email } = options.author;
+    const output = await runGit(
+      workspacePath,
+      ["commit", "-m", options.message],
+      {
+        GIT_AUTHOR_NAME: name,
+        GIT_AUTHOR_EMAIL: email,
+        GIT_COMMITTER_NAME: name,
+        GIT_COMMITTER_EMAIL: email,
+      },
+    );
+
+    const commit = (await runGit(workspacePath, ["rev-parse", "HEAD"])).trim();
+    const branch = (
+      await runGit(workspacePath, ["rev-parse", "--abbrev-ref", "HEAD"])
+    ).trim();
+
+    logger.info("Workspace changes committed", {
+      workspacePath,
+      commit,
+      author: name,
+    });
+
+    return {
+      commit,
+      branch: branch === "HEAD" ? null : branch,
+      summary: output.trim().split("\n").pop() ?? "",
+    };
+  });
+}
+
+/**
+ * Recent commits, newest first; empty for a repository without commits
+ */
+export async function getGitLog(
+  workspacePath: string,
+  options: GitLogOptions = {},
+): Promise<GitLogEntry[]> {
+  if (options.ref) {
+    assertRef(options.ref, "ref");
+  }
+
+  return withGitLock(workspacePath, async () => {
+    const hasCommits = await runGit(workspacePath, [
+      "rev-parse",
+      "--verify",
+      "--quiet",
+      "HEAD",
+    ]).then(
+      () => true,
+      () => false,
+    );
+    if (!hasCommits && !options.ref) {
+      return [];
+    }
+
+    const output = await runGit(workspacePath, [
+      "log",
+      `--max-count=${options.maxCount ?? 20}`,
+      "--format=%H%x1f%an%x1f%ae%x1f%aI%x1f%s%x1e",
+      options.ref ?? "HEAD",
+      ...(options.path ? ["--", options.path] : []),
+    ]);
+
+    return output
+      .split("\x1e")
+      .map((record) => record.trim())
+      .filter((record) => record.length > 0)
+      .map((record) => {
+        const [commit, author, email, date, subject] = record.split("\x1f");
+        return {
+          commit: commit ?? "",
+          author: author ?? "",
+          email: email ?? "",
+          date: date ?? "",
+          subject: subject ?? "",
+        };
+      });
+  });
+}
+
+/**
+ * Local branches with the current one marked
+ */
+export async function listGitBranches(
+  workspacePath: string,
+): Promise<GitBranchInfo[]> {
+  const output = await withGitLock(workspacePath, () =>
+    runGit(workspacePath, [
+      "for-each-ref",
+      "--format=%(HEAD)%1f%(refname:short)%1f%(objectname)",
+      "refs/heads",
+    ]),
+  );
+
+  return output
+    .split("\n")
+    .filter((line) => line.length > 0)
+    .map((line) => {
+      const [head, name, commit] = line.split("\x1f");
+      return { name: name ?? "", commit: commit ?? "", current: head === "*" };
+    });
+}
+
+/**
+ * Create a branch (optionally switching to it), or switch to an existing one
+ */
+export async function changeGitBranch(
+  workspacePath: string,
+  action: "create" | "switch",
+  name: string,
+  startPoint?: string,
+): Promise<GitBranchInfo> {
+  assertRef(name, "branch name");
+  if (startPoint) {
+    assertRef(startPoint, "start point");
+  }
+
+  return withGitLock(workspacePath, async () => {
+    await runGit(workspacePath, ["check-ref-format", "--branch", name]);
+
+    if (action === "create") {
+      await runGit(workspacePath, [
+        "switch",
+        "--create",
+        name,
+        ...(startPoint ? [startPoint] : []),
+      ]);
+    } else {
+      await runGit(workspacePath, ["switch", name]);
+    }
+
+    const commit = (await runGit(workspacePath, ["rev-parse", "HEAD"])).trim();
+    logger.info("Workspace branch changed", { workspacePath, action, name });
+    return { name, commit, current: true };
+  });
+}
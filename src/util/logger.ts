@@ -1,5 +1,5 @@
 import winston from 'winston';
-import { LOG_LEVEL, LOG_FILE, LOG_MAX_SIZE, LOG_MAX_FILES } from '../config';
+import { LOG_LEVEL, LOG_FILE, LOG_MAX_SIZE, LOG_MAX_FILES, MCP_TRANSPORT } from '../config';
 
 // Create logs directory if it doesn't exist
 import { mkdirSync } from 'fs';
@@ -28,7 +28,9 @@ export const logger = winston.createLogger({
   format: logFormat,
   transports: [
     // Console transport for development
+    // With the stdio MCP transport, stdout carries protocol messages, so log to stderr
     new winston.transports.Console({
+      stderrLevels: MCP_TRANSPORT === 'stdio' ? ['error', 'warn', 'info', 'debug'] : [],
       format: winston.format.combine(
         winston.format.colorize(),
         winston.format.simple()
@@ -45,6 +47,24 @@ export const logger = winston.createLogger({
   ],
 });
 
+/**
+ * Route all console log output to stderr.
+ * Used when stdout is reserved for stdio MCP protocol messages.
+ */
+export function useStderrForConsole(): void {
+  for (const transport of [...logger.transports]) {
+    // The stderrLevels option becomes a lookup at construction, so the transport is replaced
+    if (transport instanceof winston.transports.Console) {
+      logger.remove(transport);
+      logger.add(new winston.transports.Console({
+        level: transport.level,
+        format: transport.format,
+        stderrLevels: Object.keys(logger.levels),
+      }));
+    }
+  }
+}
+
 // Export convenience methods
 export const log = {
   error: (message: string, meta?: any) => logger.error(message, meta),
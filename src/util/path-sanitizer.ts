@@ -319,5 +319,8 @@ export function isInTaskWorkspace(filePath: string, taskId: string): boolean {
   const taskWorkspace = path.join(workspaceBase, taskId);
   const resolved = path.resolve(filePath);
 
-  return resolved.startsWith(taskWorkspace);
+  // Compare whole path segments so task "a" does not match "ab/..."
+  return (
+    resolved === taskWorkspace || resolved.startsWith(taskWorkspace + path.sep)
+  );
 }
@@ -0,0 +1,58 @@
+// Port Allocation - Free host ports for task service previews
+// Adapted from the test helper in tests/util/ports.ts, limited to a configured range
+
+import net from "net";
+
+export interface PortRange {
+  start: number;
+  end: number;
+}
+
+export interface FindPortOptions {
+  /** Address the port will be bound on (default: all interfaces) */
+  host?: string;
+  /** Ports to skip even if they look free (e.g. already handed out) */
+  exclude?: Iterable<number>;
+}
+
+/**
+ * Whether a TCP port can be bound right now on the given address
+ */
+export function isPortAvailable(port: number, host?: string): Promise<boolean> {
+  return new Promise((resolve) => {
+    const server = net.createServer();
+
+    server.once("error", () => {
+      server.close();
+      resolve(false);
+    });
+
+    server.once("listening", () => {
+      server.close(() => resolve(true));
+    });
+
+    server.listen(port, host);
+  });
+}
+
+/**
+ * First port in the range that is free and not excluded
+ * @throws Error when every port in the range is taken
+ */
+export async function findAvailablePort(
+  range: PortRange,
+  options: FindPortOptions = {},
+): Promise<number> {
+  if (range.start < 1 || range.end > 65535 || range.start > range.end) {
+    throw new Error(`Invalid port range: ${range.start}-${range.end}`);
+  }
+
+  const exclude = new Set(options.exclude ?? []);
+  for (let port = range.start; port <= range.end; port++) {
+    if (!exclude.has(port) && (await isPortAvailable(port, options.host))) {
+      return port;
+    }
+  }
+
+  throw new Error(`No free port in range ${range.start}-${range.end}`);
+}
@@ -0,0 +1,99 @@
+// Token Bucket Rate Limiter
+// Per-key request budgets that refill continuously up to a burst capacity
+
+export interface RateLimitResult {
+  allowed: boolean;
+  /** Whole tokens left after this call */
+  remaining: number;
+  /** How long until the request would be allowed (0 when allowed) */
+  retryAfterMs: number;
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+export class TokenBucketRateLimiter {
+  private buckets: Map<string, Bucket> = new Map();
+  private readonly refillPerMs: number;
+
+  /**
+   * @param capacity - Maximum burst size (bucket size)
+   * @param refillPerMinute - Tokens added per minute; 0 disables limiting
+   * @param now - Clock, injectable for tests
+   */
+  constructor(
+    private readonly capacity: number,
+    refillPerMinute: number,
+    private readonly now: () => number = Date.now,
+  ) {
+    this.refillPerMs = refillPerMinute / 60000;
+  }
+
+  public isEnabled(): boolean {
+    return this.refillPerMs > 0 && this.capacity > 0;
+  }
+
+  /**
+   * Take tokens from a key's bucket if enough are available
+   * @param key - Bucket key (e.g. agent ID)
+   * @param cost - Tokens this request needs
+   */
+  public tryConsume(key: string, cost: number = 1): RateLimitResult {
+    if (!this.isEnabled()) {
+      return { allowed: true, remaining: Infinity, retryAfterMs: 0 };
+    }
+
+    const bucket = this.refill(key);
+
+    if (bucket.tokens >= cost) {
+      bucket.tokens -= cost;
+      return {
+        allowed: true,
+        remaining: Math.floor(bucket.tokens),
+        retryAfterMs: 0,
+      };
+    }
+
+    return {
+      allowed: false,
+      remaining: Math.floor(bucket.tokens),
+      retryAfterMs: Math.ceil((cost - bucket.tokens) / this.refillPerMs),
+    };
+  }
+
+  /**
+   * Drop buckets that have refilled completely; they behave like new ones
+   */
+  public prune(): void {
+    for (const key of Array.from(this.buckets.keys())) {
+      if (this.refill(key).tokens >= this.capacity) {
+        this.buckets.delete(key);
+      }
+    }
+  }
+
+  public reset(): void {
+    this.buckets.clear();
+  }
+
+  private refill(key: string): Bucket {
+    const now = this.now();
+    let bucket = this.buckets.get(key);
+
+    if (!bucket) {
+      bucket = { tokens: this.capacity, updatedAt: now };
+      this.buckets.set(key, bucket);
+      return bucket;
+    }
+
+    const elapsed = now - bucket.updatedAt;
+    bucket.tokens = Math.min(
+      this.capacity,
+      bucket.tokens + elapsed * this.refillPerMs,
+    );
+    bucket.updatedAt = now;
+    return bucket;
+  }
+}
@@ -0,0 +1,204 @@
+// Unified Diff - Parse and apply `diff -u` / `git diff` patches
+// Pure string operations; callers decide where the files live
+
+import { OpenCodeError } from "../types";
+
+export interface DiffHunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  /** Hunk body lines including their " ", "-" or "+" prefix */
+  lines: string[];
+}
+
+export interface FilePatch {
+  /** Path before the change; null for a new file */
+  oldPath: string | null;
+  /** Path after the change; null for a deleted file */
+  newPath: string | null;
+  hunks: DiffHunk[];
+}
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+const NO_NEWLINE_MARKER = "\\ No newline at end of file";
+
+/**
+ * Strip the a/ b/ prefixes git adds and any trailing timestamp
+ */
+function parseHeaderPath(header: string): string | null {
+  const value = (header.split("\t")[0] ?? "").trim();
+  if (value === "/dev/null") {
+    return null;
+  }
+  return value.replace(/^[ab]\//, "");
+}
+
+/**
+ * Parse a unified diff that may touch several files
+ * @throws OpenCodeError PATCH_INVALID when the patch is malformed
+ */
+export function parseUnifiedDiff(patch: string): FilePatch[] {
+  const lines = patch.replace(/\r\n/g, "\n").split("\n");
+  const files: FilePatch[] = [];
+  let current: FilePatch | null = null;
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i] as string;
+
+    if (line.startsWith("--- ") && lines[i + 1]?.startsWith("+++ ")) {
+      current = {
+        oldPath: parseHeaderPath(line.slice(4)),
+        newPath: parseHeaderPath((lines[i + 1] as string).slice(4)),
+        hunks: [],
+      };
+      files.push(current);
+      i += 2;
+      continue;
+    }
+
+    const header = HUNK_HEADER.exec(line);
+    if (header) {
+      if (!current) {
+        throw new OpenCodeError(
+          "PATCH_INVALID",
+          "Hunk found before a ---/+++ file header",
+          { line: i + 1 },
+        );
+      }
+
+      const hunk: DiffHunk = {
+        oldStart: Number(header[1]),
+        oldLines: header[2] === undefined ? 1 : Number(header[2]),
+        newStart: Number(header[3]),
+        newLines: header[4] === undefined ? 1 : Number(header[4]),
+        lines: [],
+      };
+      i++;
+
+      let oldSeen = 0;
+      let newSeen = 0;
+      while (oldSeen < hunk.oldLines || newSeen < hunk.newLines) {
+        const body = lines[i];
+        if (body === undefined) {
+          throw new OpenCodeError("PATCH_INVALID", "Hunk is truncated", {
+            line: i + 1,
+          });
+        }
+        // Some tools drop the leading space of empty context lines
+        const normalized = body === "" ? " " : body;
+        const kind = normalized[0];
+
+        if (kind === " ") {
+          oldSeen++;
+          newSeen++;
+        } else if (kind === "-") {
+          oldSeen++;
+        } else if (kind === "+") {
+          newSeen++;
+        } else if (normalized !== NO_NEWLINE_MARKER) {
+          throw new OpenCodeError(
+            "PATCH_INVALID",
+            `Unexpected line in hunk: ${body}`,
+            { line: i + 1 },
+          );
+        }
+
+        hunk.lines.push(normalized);
+        i++;
+      }
+
+      while (lines[i] === NO_NEWLINE_MARKER) {
+        hunk.lines.push(NO_NEWLINE_MARKER);
+        i++;
+      }
+
+      current.hunks.push(hunk);
+      continue;
+    }
+
+    // diff --git, index, mode lines and free text between files
+    i++;
+  }
+
+  if (files.length === 0) {
+    throw new OpenCodeError("PATCH_INVALID", "Patch contains no file changes");
+  }
+
+  return files;
+}
+
+/**
+ * Apply hunks to file content. Hunks may have drifted a few lines from
+ * their recorded position, but their context must match exactly.
+ * @param content - Current content, or null when the file does not exist
+ * @returns The patched content
+ * @throws OpenCodeError PATCH_CONFLICT when a hunk does not apply
+ */
+export function applyHunks(content: string | null, hunks: DiffHunk[]): string {
+  const original = content ?? "";
+  const hadTrailingNewline = original.endsWith("\n");
+  const lines = original === "" ? [] : original.replace(/\n$/, "").split("\n");
+
+  let offset = 0;
+  let endsWithNewline = original === "" ? true : hadTrailingNewline;
+
+  for (const [index, hunk] of hunks.entries()) {
+    const oldBlock: string[] = [];
+    const newBlock: string[] = [];
+    let previous = "";
+
+    for (const line of hunk.lines) {
+      if (line === NO_NEWLINE_MARKER) {
+        // The marker applies to the line before it: after a removed line
+        // the old file lacked the newline, otherwise the new file does
+        endsWithNewline = previous === "-";
+        continue;
+      }
+      const text = line.slice(1);
+      previous = line[0] as string;
+      if (previous !== "+") oldBlock.push(text);
+      if (previous !== "-") newBlock.push(text);
+    }
+
+    // A pure insertion (empty old range) goes after line oldStart
+    const base = hunk.oldLines === 0 ? hunk.oldStart : hunk.oldStart - 1;
+    const position = findBlock(lines, oldBlock, Math.max(0, base + offset));
+    if (position === -1) {
+      throw new OpenCodeError(
+        "PATCH_CONFLICT",
+        `Hunk ${index + 1} does not apply (expected at line ${hunk.oldStart})`,
+        { hunk: index + 1, oldStart: hunk.oldStart },
+      );
+    }
+
+    lines.splice(position, oldBlock.length, ...newBlock);
+    // Later hunks shift by this hunk's drift and size change
+    offset = position - base + newBlock.length - oldBlock.length;
+  }
+
+  if (lines.length === 0) {
+    return "";
+  }
+  return lines.join("\n") + (endsWithNewline ? "\n" : "");
+}
+
+/**
+ * Find where a block of lines occurs, searching outwards from the expected
+ * position so the nearest match wins
+ */
+function findBlock(lines: string[], block: string[], expected: number): number {
+  const matchesAt = (start: number): boolean =>
+    start >= 0 &&
+    start + block.length <= lines.length &&
+    block.every((line, i) => lines[start + i] === line);
+
+  for (let distance = 0; distance <= lines.length; distance++) {
+    if (matchesAt(expected - distance)) return expected - distance;
+    if (distance > 0 && matchesAt(expected + distance)) {
+      return expected + distance;
+    }
+  }
+  return -1;
+}
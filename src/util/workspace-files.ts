@@ -0,0 +1,805 @@
+// Workspace Files - Confined file access for task workspaces
+// Read, write, list, search and patch files without leaving the task workspace
+
+import * as fs from "fs/promises";
+import { constants as fsConstants, Dirent, Stats } from "fs";
+import * as path from "path";
+import { Worker } from "worker_threads";
+import { OpenCodeError } from "../types";
+import { logger } from "./logger";
+import {
+  getTaskWorkspacePath,
+  isInTaskWorkspace,
+  safeResolvePath,
+} from "./path-sanitizer";
+import { applyHunks, parseUnifiedDiff } from "./unified-diff";
+
+export const MAX_READ_BYTES = 1024 * 1024;
+const MAX_SEARCH_FILE_BYTES = 1024 * 1024;
+export const MAX_SEARCH_PATTERN_LENGTH = 1000;
+const SEARCH_TIMEOUT_MS = 10000;
+const DEFAULT_MAX_ENTRIES = 1000;
+const DEFAULT_MAX_MATCHES = 200;
+
+export interface ReadFileOptions {
+  /** First line to return, 1-based (default: 1) */
+  startLine?: number;
+  /** Last line to return, inclusive (default: end of file) */
+  endLine?: number;
+}
+
+export interface ReadFileResult {
+  path: string;
+  content: string;
+  startLine: number;
+  endLine: number;
+  totalLines: number;
+}
+
+export interface WriteFileResult {
+  path: string;
+  bytesWritten: number;
+  created: boolean;
+}
+
+export interface DirectoryEntry {
+  path: string;
+  type: "file" | "directory" | "symlink" | "other";
+  size: number;
+}
+
+export interface ListDirectoryOptions {
+  /** Glob matched against paths relative to the listed directory */
+  pattern?: string;
+  recursive?: boolean;
+  maxEntries?: number;
+}
+
+export interface SearchMatch {
+  path: string;
+  line: number;
+  column: number;
+  text: string;
+}
+
+export interface SearchFilesOptions {
+  /** Directory to search, relative to the workspace (default: root) */
+  path?: string;
+  /** Only search files matching this glob */
+  include?: string;
+  caseSensitive?: boolean;
+  maxResults?: number;
+}
+
+export interface PatchFileResult {
+  path: string;
+  action: "created" | "modified" | "deleted";
+}
+
+/**
+ * Workspace root for a task. The task ID must name a direct child of the
+ * workspace base so it cannot point elsewhere.
+ */
+function getWorkspaceRoot(taskId: string): string {
+  const root = path.resolve(getTaskWorkspacePath(taskId));
+  const base = path.resolve(getTaskWorkspacePath(""));
+  if (path.dirname(root) !== base || path.basename(root) !== taskId) {
+    throw new OpenCodeError("PATH_OUTSIDE_WORKSPACE", "Invalid task ID", {
+      taskId,
+    });
+  }
+  return root;
+}
+
+function isWithin(root: string, target: string): boolean {
+  return target === root || target.startsWith(root + path.sep);
+}
+
+/**
+ * Resolve the real path of the deepest existing ancestor of a target, so
+ * symlinks anywhere along the way are taken into account
+ */
+async function realpathOfExisting(target: string): Promise<string> {
+  let current = target;
+  const missing: string[] = [];
+
+  for (;;) {
+    try {
+      const real = await fs.realpath(current);
+      return path.join(real, ...missing.reverse());
+    } catch (error: any) {
+      if (error.code !== "ENOENT" && error.code !== "ENOTDIR") {
+        throw error;
+      }
+      const parent = path.dirname(current);
+      if (parent === current) {
+        return target;
+      }
+      missing.push(path.basename(current));
+      current = parent;
+    }
+  }
+}
+
+/**
+ * Resolve a path inside a task workspace, rejecting traversal and symlinks
+ * that lead outside it
+ * @param relativePath - Path relative to the workspace root
+ * @returns Absolute path inside the workspace
+ * @throws OpenCodeError PATH_OUTSIDE_WORKSPACE
+ */
+export async function resolveWorkspacePath(
+  taskId: string,
+  relativePath: string,
+): Promise<string> {
+  if (relativePath.includes("\0")) {
+    throw new OpenCodeError("PATH_OUTSIDE_WORKSPACE", "Path contains NUL", {
+      taskId,
+    });
+  }
+
+  const root = getWorkspaceRoot(taskId);
+  const target = path.resolve(safeResolvePath(root, relativePath));
+
+  if (!isWithin(root, target) || !isInTaskWorkspace(target, taskId)) {
+    logger.warn("Workspace path traversal rejected", {
+      taskId,
+      path: relativePath,
+    });
+    throw new OpenCodeError(
+      "PATH_OUTSIDE_WORKSPACE",
+      `Path is outside the task workspace: ${relativePath}`,
+      { taskId, path: relativePath },
+    );
+  }
+
+  const realRoot = await realpathOfExisting(root);
+  const realTarget = await realpathOfExisting(target);
+  if (!isWithin(realRoot, realTarget)) {
+    logger.warn("Workspace symlink escape rejected", {
+      taskId,
+      path: relativePath,
+    });
+    throw new OpenCodeError(
+      "PATH_OUTSIDE_WORKSPACE",
+      `Path resolves outside the task workspace: ${relativePath}`,
+      { taskId, path: relativePath },
+    );
+  }
+
+  return target;
+}
+
+/**
+ * Open a workspace file for reading. The path is resolved and checked
+ * again, O_NOFOLLOW refuses a symlink swapped in afterwards, and the opened
+ * file must be the inode that was checked, which catches a directory along
+ * the path being swapped as well.
+ * @throws OpenCodeError PATH_OUTSIDE_WORKSPACE
+ */
+async function openWorkspaceFile(
+  taskId: string,
+  target: string,
+): Promise<{ handle: fs.FileHandle; stats: Stats }> {
+  const realRoot = await realpathOfExisting(getWorkspaceRoot(taskId));
+  const realTarget = await realpathOfExisting(target);
+  const changed = () =>
+    new OpenCodeError(
+      "PATH_OUTSIDE_WORKSPACE",
+      `Path changed while it was opened: ${toRelative(taskId, target)}`,
+      { taskId },
+    );
+  if (!isWithin(realRoot, realTarget)) {
+    throw changed();
+  }
+
+  const checked = await fs.lstat(realTarget);
+  let handle: fs.FileHandle;
+  try {
+    handle = await fs.open(
+      realTarget,
+      fsConstants.O_RDONLY | fsConstants.O_NOFOLLOW,
+    );
+  } catch (error: any) {
+    throw error.code === "ELOOP" ? changed() : error;
+  }
+
+  try {
+    const stats = await handle.stat();
+    if (stats.dev !== checked.dev || stats.ino !== checked.ino) {
+      throw changed();
+    }
+    return { handle, stats };
+  } catch (error) {
+    await handle.close();
+    throw error;
+  }
+}
+
+function toRelative(taskId: string, absolutePath: string): string {
+  const relative = path.relative(getWorkspaceRoot(taskId), absolutePath);
+  return (relative || ".").split(path.sep).join("/");
+}
+
+/**
+ * Read a text file, optionally limited to a line range
+ */
+export async function readWorkspaceFile(
+  taskId: string,
+  filePath: string,
+  options: ReadFileOptions = {},
+): Promise<ReadFileResult> {
+  const target = await resolveWorkspacePath(taskId, filePath);
+  const { handle, stats } = await openWorkspaceFile(taskId, target);
+
+  let range: { lines: string[]; totalLines: number };
+  const startLine = Math.max(1, options.startLine ?? 1);
+  try {
+    if (!stats.isFile()) {
+      throw new OpenCodeError("NOT_A_FILE", `Not a file: ${filePath}`);
+    }
+    if (stats.size > MAX_READ_BYTES && options.endLine === undefined) {
+      throw new OpenCodeError(
+        "FILE_TOO_LARGE",
+        `File is larger than ${MAX_READ_BYTES} bytes; read it with a line range`,
+        { size: stats.size },
+      );
+    }
+
+    range = await readLineRange(handle, startLine, options.endLine ?? Infinity);
+  } finally {
+    await handle.close();
+  }
+  const { lines, totalLines } = range;
+  const content = lines.join("\n");
+
+  if (Buffer.byteLength(content) > MAX_READ_BYTES) {
+    throw new OpenCodeError(
+      "FILE_TOO_LARGE",
+      `Requested range is larger than ${MAX_READ_BYTES} bytes`,
+    );
+  }
+
+  return {
+    path: toRelative(taskId, target),
+    content,
+    startLine,
+    endLine: Math.min(totalLines, options.endLine ?? totalLines),
+    totalLines,
+  };
+}
+
+/**
+ * Stream a file and keep only the lines in a range, so large files are
+ * never held in memory; lines after the range are only counted
+ * @throws OpenCodeError FILE_TOO_LARGE when the range exceeds MAX_READ_BYTES
+ */
+async function readLineRange(
+  handle: fs.FileHandle,
+  startLine: number,
+  endLine: number,
+): Promise<{ lines: string[]; totalLines: number }> {
+  const lines: string[] = [];
+  let totalLines = 0;
+  let current = "";
+  let rangeBytes = 0;
+  let partial = false;
+
+  const stream = handle.createReadStream({
+    encoding: "utf8",
+    autoClose: false,
+  });
+  try {
+    for await (const chunk of stream as AsyncIterable<string>) {
+      let start = 0;
+      for (;;) {
+        const newline = chunk.indexOf("\n", start);
+        const piece = chunk.slice(start, newline === -1 ? undefined : newline);
+        const lineNumber = totalLines + 1;
+
+        if (lineNumber >= startLine && lineNumber <= endLine) {
+          current += piece;
+          rangeBytes += Buffer.byteLength(piece);
+          if (rangeBytes > MAX_READ_BYTES) {
+            throw new OpenCodeError(
+              "FILE_TOO_LARGE",
+              `Requested range is larger than ${MAX_READ_BYTES} bytes`,
+            );
+          }
+        }
+
+        if (newline === -1) {
+          partial = partial || piece.length > 0;
+          break;
+        }
+
+        totalLines++;
+        if (lineNumber >= startLine && lineNumber <= endLine) {
+          lines.push(current);
+          rangeBytes++;
+        }
+        current = "";
+        partial = false;
+        start = newline + 1;
+      }
+    }
+  } finally {
+    stream.destroy();
+  }
+
+  // A last line without a trailing newline
+  if (partial) {
+    totalLines++;
+    if (totalLines >= startLine && totalLines <= endLine) {
+      lines.push(current);
+    }
+  }
+
+  return { lines, totalLines };
+}
+
+/**
+ * Write a file, creating parent directories
+ */
+export async function writeWorkspaceFile(
+  taskId: string,
+  filePath: string,
+  content: string,
+): Promise<WriteFileResult> {
+  const target = await resolveWorkspacePath(taskId, filePath);
+  await fs.mkdir(path.dirname(target), { recursive: true });
+
+  // Write through symlinks inside the workspace to their (checked) target;
+  // O_NOFOLLOW refuses a link swapped in after the check
+  const realTarget = await realpathOfExisting(target);
+
+  const created = !(await exists(realTarget));
+  const handle = await fs.open(
+    realTarget,
+    fsConstants.O_WRONLY |
+      fsConstants.O_CREAT |
+      fsConstants.O_TRUNC |
+      fsConstants.O_NOFOLLOW,
+    0o644,
+  );
+  try {
+    await handle.writeFile(content, "utf8");
+  } finally {
+    await handle.close();
+  }
+
+  return {
+    path: toRelative(taskId, target),
+    bytesWritten: Buffer.byteLength(content),
+    created,
+  };
+}
+
+/**
+ * List a directory. Symlinks are reported but never followed.
+ */
+export async function listWorkspaceDirectory(
+  taskId: string,
+  dirPath: string = ".",
+  options: ListDirectoryOptions = {},
+): Promise<{ entries: DirectoryEntry[]; truncated: boolean }> {
+  const root = await resolveWorkspacePath(taskId, dirPath);
+  const matcher = options.pattern ? globToRegExp(options.pattern) : null;
+  const maxEntries = options.maxEntries ?? DEFAULT_MAX_ENTRIES;
+  const entries: DirectoryEntry[] = [];
+  let truncated = false;
+
+  await walk(root, options.recursive ?? false, async (absolute, dirent) => {
+    const relative = path.relative(root, absolute).split(path.sep).join("/");
+    if (matcher && !matcher.test(relative)) {
+      return true;
+    }
+    if (entries.length >= maxEntries) {
+      truncated = true;
+      return false;
+    }
+
+    const stats = await fs.lstat(absolute);
+    entries.push({
+      path: toRelative(taskId, absolute),
+      type: dirent.isSymbolicLink()
+        ? "symlink"
+        : dirent.isDirectory()
+          ? "directory"
+          : dirent.isFile()
+            ? "file"
+            : "other",
+      size: stats.size,
+    });
+    return true;
+  });
+
+  return { entries, truncated };
+}
+
+/**
+ * Search file contents with a regular expression, like grep -rn. Lines are
+ * matched in a worker that is terminated at the search deadline, so a
+ * pattern that backtracks catastrophically cannot block the server.
+ */
+export async function searchWorkspaceFiles(
+  taskId: string,
+  pattern: string,
+  options: SearchFilesOptions = {},
+): Promise<{ matches: SearchMatch[]; truncated: boolean }> {
+  const flags = options.caseSensitive !== false ? "" : "i";
+  validateSearchPattern(pattern, flags);
+
+  const root = await resolveWorkspacePath(taskId, options.path ?? ".");
+  const include = options.include ? globToRegExp(options.include) : null;
+  const maxResults = options.maxResults ?? DEFAULT_MAX_MATCHES;
+  const matches: SearchMatch[] = [];
+  const deadline = Date.now() + SEARCH_TIMEOUT_MS;
+  const matcher = new LineMatcher(pattern, flags);
+  let truncated = false;
+
+  try {
+    await walk(root, true, async (absolute, dirent) => {
+      if (Date.now() > deadline) {
+        truncated = true;
+        return false;
+      }
+      if (!dirent.isFile()) {
+        return true;
+      }
+      const relative = path.relative(root, absolute).split(path.sep).join("/");
+      if (include && !include.test(relative)) {
+        return true;
+      }
+
+      const { handle, stats } = await openWorkspaceFile(taskId, absolute);
+      let buffer: Buffer;
+      try {
+        if (!stats.isFile() || stats.size > MAX_SEARCH_FILE_BYTES) {
+          return true;
+        }
+        buffer = await handle.readFile();
+      } finally {
+        await handle.close();
+      }
+      if (buffer.includes(0)) {
+        return true; // binary
+      }
+
+      // One more than fits, to tell whether the results were cut off
+      const found = await matcher.match(
+        buffer.toString("utf8"),
+        maxResults - matches.length + 1,
+        deadline,
+      );
+      if (!found) {
+        logger.warn("Workspace search timed out", { taskId, pattern });
+        truncated = true;
+        return false;
+      }
+      for (const match of found) {
+        if (matches.length >= maxResults) {
+          truncated = true;
+          return false;
+        }
+        matches.push({ path: toRelative(taskId, absolute), ...match });
+      }
+      return true;
+    });
+  } finally {
+    await matcher.close();
+  }
+
+  return { matches, truncated };
+}
+
+// Runs in the search worker; plain JavaScript, as it is evaluated as is
+const LINE_MATCHER_SOURCE = `
+const { parentPort, workerData } = require("worker_threads");
+const regex = new RegExp(workerData.pattern, workerData.flags);
+parentPort.on("message", ({ text, limit }) => {
+  const matches = [];
+  const lines = text.split("\\n");
+  for (let i = 0; i < lines.length && matches.length < limit; i++) {
+    const match = regex.exec(lines[i]);
+    if (match) {
+      matches.push({ line: i + 1, column: match.index + 1, text: lines[i] });
+    }
+  }
+  parentPort.postMessage(matches);
+});
+`;
+
+/**
+ * A search pattern running in its own worker thread, one file at a time
+ */
+class LineMatcher {
+  private worker: Worker;
+
+  constructor(pattern: string, flags: string) {
+    this.worker = new Worker(LINE_MATCHER_SOURCE, {
+      eval: true,
+      workerData: { pattern, flags },
+    });
+    this.worker.unref();
+  }
+
+  /**
+   * Up to limit matching lines of text
+   * @returns null when the deadline passed first; the worker is stopped
+   */
+  public async match(
+    text: string,
+    limit: number,
+    deadline: number,
+  ): Promise<Omit<SearchMatch, "path">[] | null> {
+    let timer: NodeJS.Timeout | undefined;
+    const timedOut = new Promise<null>((resolve) => {
+      timer = setTimeout(
+        () => resolve(null),
+        Math.max(0, deadline - Date.now()),
+      );
+    });
+    const matched = new Promise<Omit<SearchMatch, "path">[]>(
+      (resolve, reject) => {
+        this.worker.once("message", resolve);
+        this.worker.once("error", reject);
+      },
+    );
+
+    this.worker.postMessage({ text, limit });
+    try {
+      const result = await Promise.race([matched, timedOut]);
+      if (!result) {
+        await this.worker.terminate();
+      }
+      return result;
+    } finally {
+      clearTimeout(timer);
+      this.worker.removeAllListeners("message");
+      this.worker.removeAllListeners("error");
+    }
+  }
+
+  public async close(): Promise<void> {
+    await this.worker.terminate();
+  }
+}
+
+/**
+ * Check a search pattern before it is handed to the worker. Over-long
+ * patterns and obvious nested quantifiers such as (a+)+ are refused up
+ * front; the worker's deadline catches the rest.
+ */
+function validateSearchPattern(pattern: string, flags: string): void {
+  if (pattern.length > MAX_SEARCH_PATTERN_LENGTH) {
+    throw new OpenCodeError(
+      "INVALID_PATTERN",
+      `Regex is longer than ${MAX_SEARCH_PATTERN_LENGTH} characters`,
+      { length: pattern.length },
+    );
+  }
+  if (/\((?:[^()\\]|\\.)*[+*}](?:[^()\\]|\\.)*\)[+*{]/.test(pattern)) {
+    throw new OpenCodeError(
+      "INVALID_PATTERN",
+      `Nested quantifiers are not supported: ${pattern}`,
+    );
+  }
+
+  try {
+    new RegExp(pattern, flags);
+  } catch (error: unknown) {
+    throw new OpenCodeError("INVALID_PATTERN", `Invalid regex: ${pattern}`, {
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+/**
+ * Apply a unified diff to the workspace. Every file is patched in memory
+ * first, so a conflict in any file leaves the workspace unchanged.
+ */
+export async function applyWorkspacePatch(
+  taskId: string,
+  patch: string,
+): Promise<PatchFileResult[]> {
+  const filePatches = parseUnifiedDiff(patch);
+
+  const planned: Array<{
+    target: string;
+    content: string | null;
+    action: PatchFileResult["action"];
+  }> = [];
+
+  for (const filePatch of filePatches) {
+    const relativePath = filePatch.newPath ?? filePatch.oldPath;
+    if (!relativePath) {
+      throw new OpenCodeError("PATCH_INVALID", "Patch entry has no path");
+    }
+
+    const target = await resolveWorkspacePath(taskId, relativePath);
+    const current =
+      filePatch.oldPath === null ? null : await readIfExists(target);
+
+    if (filePatch.oldPath !== null && current === null) {
+      throw new OpenCodeError(
+        "PATCH_CONFLICT",
+        `File to patch does not exist: ${relativePath}`,
+      );
+    }
+    if (filePatch.oldPath === null && (await exists(target))) {
+      throw new OpenCodeError(
+        "PATCH_CONFLICT",
+        `File to create already exists: ${relativePath}`,
+      );
+    }
+
+    let patched: string;
+    try {
+      patched = applyHunks(current, filePatch.hunks);
+    } catch (error) {
+      if (error instanceof OpenCodeError) {
+        throw new OpenCodeError(
+          error.code,
+          `${relativePath}: ${error.message}`,
+          {
+            path: relativePath,
+            ...error.details,
+          },
+        );
+      }
+      throw error;
+    }
+
+    if (filePatch.newPath === null) {
+      if (patched !== "") {
+        throw new OpenCodeError(
+          "PATCH_CONFLICT",
+          `File to delete does not match the patch: ${relativePath}`,
+        );
+      }
+      planned.push({ target, content: null, action: "deleted" });
+    } else {
+      planned.push({
+        target,
+        content: patched,
+        action: filePatch.oldPath === null ? "created" : "modified",
+      });
+    }
+  }
+
+  const results: PatchFileResult[] = [];
+  for (const change of planned) {
+    const relativePath = toRelative(taskId, change.target);
+    if (change.content === null) {
+      await fs.unlink(change.target);
+    } else {
+      await writeWorkspaceFile(taskId, relativePath, change.content);
+    }
+    results.push({ path: relativePath, action: change.action });
+  }
+
+  logger.info("Patch applied to workspace", {
+    taskId,
+    files: results.length,
+  });
+
+  return results;
+}
+
+/**
+ * Convert a glob to a regular expression.
+ * Supports *, ** (any number of directories), ? and {a,b} alternatives,
+ * which may contain wildcards and further alternatives.
+ */
+export function globToRegExp(glob: string): RegExp {
+  return new RegExp(`^${globToSource(glob)}$`);
+}
+
+function globToSource(glob: string): string {
+  let source = "";
+
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i] as string;
+
+    if (char === "*") {
+      if (glob[i + 1] === "*") {
+        const slashAfter = glob[i + 2] === "/";
+        source += slashAfter ? "(?:.*/)?" : ".*";
+        i += slashAfter ? 2 : 1;
+      } else {
+        source += "[^/]*";
+      }
+    } else if (char === "?") {
+      source += "[^/]";
+    } else if (char === "{") {
+      const alternatives = splitBraces(glob, i);
+      if (!alternatives) {
+        source += "\\{";
+        continue;
+      }
+      source += `(?:${alternatives.options.map(globToSource).join("|")})`;
+      i = alternatives.end;
+    } else {
+      source += char.replace(/[.+^$()|[\]\\{}]/g, "\\$&");
+    }
+  }
+
+  return source;
+}
+
+/**
+ * Split the {a,b} group opening at start into its alternatives, keeping
+ * commas of nested groups
+ * @returns null when the group is never closed
+ */
+function splitBraces(
+  glob: string,
+  start: number,
+): { options: string[]; end: number } | null {
+  const options: string[] = [];
+  let depth = 0;
+  let optionStart = start + 1;
+
+  for (let i = start + 1; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === "{") {
+      depth++;
+    } else if (char === "}" && depth > 0) {
+      depth--;
+    } else if (char === "}") {
+      options.push(glob.slice(optionStart, i));
+      return { options, end: i };
+    } else if (char === "," && depth === 0) {
+      options.push(glob.slice(optionStart, i));
+      optionStart = i + 1;
+    }
+  }
+  return null;
+}
+
+/**
+ * Visit directory entries depth-first without following symlinks
+ * @param visit - Return false to stop the walk
+ */
+async function walk(
+  dir: string,
+  recursive: boolean,
+  visit: (absolute: string, dirent: Dirent) => Promise<boolean>,
+): Promise<boolean> {
+  const dirents = await fs.readdir(dir, { withFileTypes: true });
+  dirents.sort((a, b) => a.name.localeCompare(b.name));
+
+  for (const dirent of dirents) {
+    const absolute = path.join(dir, dirent.name);
+    if (!(await visit(absolute, dirent))) {
+      return false;
+    }
+    if (recursive && dirent.isDirectory() && !dirent.isSymbolicLink()) {
+      if (!(await walk(absolute, recursive, visit))) {
+        return false;
+      }
+    }
+  }
+  return true;
+}
+
+async function exists(target: string): Promise<boolean> {
+  try {
+    await fs.lstat(target);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+async function readIfExists(target: string): Promise<string | null> {
+  try {
+    return await fs.readFile(target, "utf8");
+  } catch (error: any) {
+    if (error.code === "ENOENT") {
+      return null;
+    }
+    throw error;
+  }
+}
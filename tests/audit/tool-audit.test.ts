@@ -0,0 +1,132 @@
+// Tool Audit Tests
+// Redaction of recorded arguments and writes to both audit layers
+
+const mockValues = jest.fn();
+const mockAppendLog = jest.fn();
+
+jest.mock("../../src/persistence/database", () => ({
+  DatabaseManager: {
+    getInstance: () => ({
+      getDatabase: () => ({
+        insert: () => ({ values: mockValues }),
+      }),
+    }),
+  },
+}));
+
+jest.mock("../../src/persistence/multi-layer", () => ({
+  multiLayerPersistence: { appendLog: mockAppendLog },
+}));
+
+import { redactParams, summarizeResult } from "../../src/audit/redact";
+import { NewToolAuditRecord, toolAuditLog } from "../../src/audit/tool-audit";
+
+const entry = (
+  overrides: Partial<NewToolAuditRecord> = {},
+): NewToolAuditRecord => ({
+  requestId: "7",
+  sessionId: "session-1",
+  keyId: "key-a",
+  agentId: "agent-a",
+  owner: "alice",
+  tool: "execute_in_task",
+  taskId: "t-1",
+  params: { taskId: "t-1", command: "ls" },
+  outcome: "success",
+  resultSummary: { success: true, exitCode: 0 },
+  durationMs: 12,
+  createdAt: new Date("2026-01-01T00:00:00Z"),
+  ...overrides,
+});
+
+describe("redactParams", () => {
+  it("masks values under secret-looking keys at any depth", () => {
+    expect(
+      redactParams({
+        command: "deploy",
+        env: { DB_PASSWORD: "hunter2", API_KEY: "k", REGION: "eu" },
+        headers: [{ Authorization: "Bearer x" }],
+      }),
+    ).toEqual({
+      command: "deploy",
+      env: { DB_PASSWORD: "[REDACTED]", API_KEY: "[REDACTED]", REGION: "eu" },
+      headers: [{ Authorization: "[REDACTED]" }],
+    });
+  });
+
+  it("replaces large strings with their length and hash", () => {
+    const content = "x".repeat(1000);
+
+    const redacted = redactParams({ path: "a.txt", content }) as any;
+
+    expect(redacted.path).toBe("a.txt");
+    expect(redacted.content).toMatch(/^\[1000 chars, sha256:[0-9a-f]{16}\]$/);
+  });
+});
+
+describe("summarizeResult", () => {
+  it("keeps scalar fields and reduces lists and long output", () => {
+    expect(
+      summarizeResult({
+        success: true,
+        exitCode: 0,
+        stdout: "y".repeat(300),
+        tasks: [{}, {}],
+        nested: { a: 1 },
+      }),
+    ).toEqual({
+      success: true,
+      exitCode: 0,
+      stdout: `${"y".repeat(200)}… (300 chars)`,
+      tasks: "[2 items]",
+    });
+  });
+});
+
+describe("ToolAuditLog.record", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockValues.mockResolvedValue([]);
+    mockAppendLog.mockResolvedValue(undefined);
+  });
+
+  it("writes the row and the task log entry", async () => {
+    const record = await toolAuditLog.record(entry());
+
+    expect(mockValues).toHaveBeenCalledWith(
+      expect.objectContaining({
+        id: record.id,
+        tool: "execute_in_task",
+        taskId: "t-1",
+        outcome: "success",
+        durationMs: 12,
+      }),
+    );
+    expect(mockAppendLog).toHaveBeenCalledWith("t-1", {
+      timestamp: "2026-01-01T00:00:00.000Z",
+      level: "info",
+      message: "MCP tool execute_in_task: success",
+      data: { audit: record },
+    });
+  });
+
+  it("only writes the row for calls without a task", async () => {
+    await toolAuditLog.record(entry({ taskId: undefined, tool: "list_tasks" }));
+
+    expect(mockValues).toHaveBeenCalledWith(
+      expect.objectContaining({ taskId: null }),
+    );
+    expect(mockAppendLog).not.toHaveBeenCalled();
+  });
+
+  it("never throws when a layer is unavailable", async () => {
+    mockValues.mockRejectedValue(new Error("connection refused"));
+    mockAppendLog.mockRejectedValue(
+      Object.assign(new Error("missing"), { code: "ENOENT" }),
+    );
+
+    await expect(
+      toolAuditLog.record(entry({ outcome: "error", error: "boom" })),
+    ).resolves.toMatchObject({ outcome: "error" });
+  });
+});
@@ -0,0 +1,73 @@
+// API Key Store Tests
+// Key generation, hashing and authentication against stored hashes
+
+const mockLimit = jest.fn();
+const mockUpdateWhere = jest.fn();
+
+jest.mock("../../src/persistence/database", () => ({
+  DatabaseManager: {
+    getInstance: () => ({
+      getDatabase: () => ({
+        select: () => ({
+          from: () => ({ where: () => ({ limit: mockLimit }) }),
+        }),
+        update: () => ({ set: () => ({ where: mockUpdateWhere }) }),
+      }),
+    }),
+  },
+}));
+
+import {
+  apiKeyStore,
+  generateApiKey,
+  hashApiKey,
+} from "../../src/auth/api-keys";
+
+describe("API keys", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockUpdateWhere.mockResolvedValue([]);
+  });
+
+  it("generates unique prefixed keys", () => {
+    const first = generateApiKey();
+    const second = generateApiKey();
+
+    expect(first).toMatch(/^oc_[A-Za-z0-9_-]{32}$/);
+    expect(first).not.toBe(second);
+  });
+
+  it("hashes keys deterministically without storing the key", () => {
+    const key = generateApiKey();
+
+    expect(hashApiKey(key)).toBe(hashApiKey(key));
+    expect(hashApiKey(key)).toMatch(/^[0-9a-f]{64}$/);
+    expect(hashApiKey(key)).not.toContain(key);
+  });
+
+  it("maps a stored key to its agent and owner", async () => {
+    mockLimit.mockResolvedValue([
+      { id: "key-1", agentId: "agent-7", owner: "alice" },
+    ]);
+
+    const principal = await apiKeyStore.authenticate(generateApiKey());
+
+    expect(principal).toEqual({
+      keyId: "key-1",
+      agentId: "agent-7",
+      owner: "alice",
+    });
+    expect(mockUpdateWhere).toHaveBeenCalled();
+  });
+
+  it("returns null for unknown or revoked keys", async () => {
+    mockLimit.mockResolvedValue([]);
+
+    expect(await apiKeyStore.authenticate(generateApiKey())).toBeNull();
+  });
+
+  it("rejects malformed keys without a database lookup", async () => {
+    expect(await apiKeyStore.authenticate("not-a-key")).toBeNull();
+    expect(mockLimit).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,299 @@
+// OpenCode Client Tests
+// Handshake, result decoding, retries with idempotency keys and timeouts
+
+import { PassThrough } from "stream";
+import {
+  ClientTransport,
+  MCPError,
+  OpenCodeClient,
+  StdioClientTransport,
+} from "../../src/client";
+import {
+  JSON_RPC_ERRORS,
+  JsonRpcRequest,
+  JsonRpcResponse,
+} from "../../src/mcp/protocol";
+
+type Handler = (
+  message: JsonRpcRequest,
+  signal?: AbortSignal,
+) => Promise<JsonRpcResponse>;
+
+class FakeTransport implements ClientTransport {
+  public requests: JsonRpcRequest[] = [];
+  public notifications: string[] = [];
+  public cancelled: unknown[] = [];
+
+  constructor(private readonly handler: Handler) {}
+
+  public async request(
+    message: JsonRpcRequest,
+    options: { signal?: AbortSignal } = {},
+  ): Promise<JsonRpcResponse> {
+    this.requests.push(message);
+    if (message.method === "initialize") {
+      return {
+        jsonrpc: "2.0",
+        id: message.id,
+        result: {
+          protocolVersion: "2025-06-18",
+          capabilities: {},
+          serverInfo: { name: "opencode-mcp-server", version: "1.0.0" },
+        },
+      };
+    }
+    return this.handler(message, options.signal);
+  }
+
+  public async notify(message: { method: string }): Promise<void> {
+    this.notifications.push(message.method);
+  }
+
+  public async cancel(id: unknown): Promise<void> {
+    this.cancelled.push(id);
+  }
+
+  public async close(): Promise<void> {}
+
+  public toolCalls(): JsonRpcRequest[] {
+    return this.requests.filter((message) => message.method === "tools/call");
+  }
+}
+
+const toolResult = (id: JsonRpcRequest["id"], result: unknown) => ({
+  jsonrpc: "2.0" as const,
+  id,
+  result: {
+    content: [{ type: "text", text: JSON.stringify(result) }],
+    structuredContent: result,
+    isError: false,
+  },
+});
+
+describe("OpenCodeClient", () => {
+  it("initializes once and returns structured tool results", async () => {
+    const transport = new FakeTransport(async (message) =>
+      toolResult(message.id, { success: true, tasks: [], count: 0 }),
+    );
+    const client = new OpenCodeClient({ transport });
+
+    const first = await client.listTasks();
+    await client.listTasks({ status: "running" });
+
+    expect(first).toEqual({ success: true, tasks: [], count: 0 });
+    expect(
+      transport.requests.filter((message) => message.method === "initialize"),
+    ).toHaveLength(1);
+    expect(transport.notifications).toEqual(["notifications/initialized"]);
+    expect(transport.toolCalls()[1]?.params).toEqual({
+      name: "list_tasks",
+      arguments: { status: "running" },
+    });
+  });
+
+  it("calls tools outside the typed surface, such as plugin tools", async () => {
+    const transport = new FakeTransport(async (message) =>
+      toolResult(message.id, { linked: true }),
+    );
+    const client = new OpenCodeClient({ transport });
+
+    const result = await client.callUntypedTool("jira_link_task", {
+      taskId: "t-1",
+    });
+
+    expect(result).toEqual({ linked: true });
+    expect(transport.toolCalls()[0]?.params).toEqual({
+      name: "jira_link_task",
+      arguments: { taskId: "t-1" },
+    });
+  });
+
+  it("raises tool failures as MCPError of kind tool", async () => {
+    const transport = new FakeTransport(async (message) => ({
+      jsonrpc: "2.0",
+      id: message.id,
+      result: {
+        content: [{ type: "text", text: "Task not found: t-1" }],
+        isError: true,
+      },
+    }));
+    const client = new OpenCodeClient({ transport });
+
+    const error = await client
+      .getTaskStatus({ taskId: "t-1" })
+      .catch((caught: unknown) => caught);
+
+    expect(error).toBeInstanceOf(MCPError);
+    expect(error).toMatchObject({
+      kind: "tool",
+      message: "Task not found: t-1",
+      retryable: false,
+    });
+  });
+
+  it("retries rate limits with the same idempotency key", async () => {
+    let calls = 0;
+    const transport = new FakeTransport(async (message) => {
+      calls++;
+      if (calls === 1) {
+        return {
+          jsonrpc: "2.0",
+          id: message.id,
+          error: {
+            code: JSON_RPC_ERRORS.RATE_LIMITED,
+            message: "Rate limit exceeded",
+            data: { reason: "rate_limit", retryAfterMs: 1 },
+          },
+        };
+      }
+      return toolResult(message.id, { success: true, taskId: "t-1" });
+    });
+    const client = new OpenCodeClient({ transport, retryDelayMs: 1 });
+
+    const result = await client.createTaskSandbox({
+      name: "Build",
+      owner: "alice",
+    });
+
+    const [first, second] = transport.toolCalls();
+    expect(result).toEqual({ success: true, taskId: "t-1" });
+    expect(first?.id).not.toEqual(second?.id);
+    expect(first?.params?.arguments.idempotencyKey).toEqual(expect.any(String));
+    expect(second?.params?.arguments.idempotencyKey).toBe(
+      first?.params?.arguments.idempotencyKey,
+    );
+  });
+
+  it("does not retry quota rejections or add keys to read-only tools", async () => {
+    const transport = new FakeTransport(async (message) => ({
+      jsonrpc: "2.0",
+      id: message.id,
+      error: {
+        code: JSON_RPC_ERRORS.RATE_LIMITED,
+        message: "Quota exceeded",
+        data: { reason: "quota" },
+      },
+    }));
+    const client = new OpenCodeClient({ transport, retryDelayMs: 1 });
+
+    await expect(
+      client.readFile({ taskId: "t-1", path: "README.md" }),
+    ).rejects.toMatchObject({
+      kind: "rpc",
+      code: JSON_RPC_ERRORS.RATE_LIMITED,
+      data: { reason: "quota" },
+    });
+    expect(transport.toolCalls()).toHaveLength(1);
+    expect(
+      transport.toolCalls()[0]?.params?.arguments.idempotencyKey,
+    ).toBeUndefined();
+  });
+
+  it("cancels a request on the server when it times out", async () => {
+    const transport = new FakeTransport(
+      (_message, signal) =>
+        new Promise((_, reject) =>
+          signal?.addEventListener("abort", () => reject(new Error("aborted"))),
+        ),
+    );
+    const client = new OpenCodeClient({ transport, retryDelayMs: 1 });
+
+    const error = await client
+      .executeInTask({ taskId: "t-1", command: "sleep 60" }, { timeoutMs: 10 })
+      .catch((caught: unknown) => caught);
+
+    expect(error).toMatchObject({
+      kind: "transport",
+      code: JSON_RPC_ERRORS.REQUEST_TIMEOUT,
+      retryable: false,
+    });
+    expect(transport.toolCalls()).toHaveLength(1);
+    expect(transport.cancelled).toEqual([transport.toolCalls()[0]?.id]);
+  });
+
+  it("starts jobs with the async flag", async () => {
+    const transport = new FakeTransport(async (message) =>
+      toolResult(message.id, {
+        success: true,
+        jobId: "job-1",
+        tool: "execute_in_task",
+        status: "running",
+        createdAt: new Date(0).toISOString(),
+      }),
+    );
+    const client = new OpenCodeClient({ transport });
+
+    const job = await client.startJob("execute_in_task", {
+      taskId: "t-1",
+      command: "npm test",
+    });
+
+    expect(job.jobId).toBe("job-1");
+    expect(transport.toolCalls()[0]?.params?.arguments).toMatchObject({
+      taskId: "t-1",
+      async: true,
+    });
+  });
+});
+
+describe("StdioClientTransport", () => {
+  it("matches responses by id and routes progress notifications", async () => {
+    const toClient = new PassThrough();
+    const toServer = new PassThrough();
+    const transport = new StdioClientTransport({
+      input: toClient,
+      output: toServer,
+    });
+    const notifications: unknown[] = [];
+
+    const pending = transport.request(
+      {
+        jsonrpc: "2.0",
+        id: 7,
+        method: "tools/call",
+        params: { name: "list_tasks", _meta: { progressToken: 7 } },
+      },
+      { onNotification: (notification) => notifications.push(notification) },
+    );
+    toClient.write(
+      JSON.stringify({
+        jsonrpc: "2.0",
+        method: "notifications/progress",
+        params: { progressToken: 7, progress: 1 },
+      }) + "\n",
+    );
+    toClient.write(
+      JSON.stringify({ jsonrpc: "2.0", id: 7, result: { ok: true } }) + "\n",
+    );
+
+    await expect(pending).resolves.toEqual({
+      jsonrpc: "2.0",
+      id: 7,
+      result: { ok: true },
+    });
+    expect(notifications).toHaveLength(1);
+    expect(JSON.parse(toServer.read().toString().trim())).toMatchObject({
+      id: 7,
+      method: "tools/call",
+    });
+
+    await transport.close();
+  });
+
+  it("fails waiting requests when the server output closes", async () => {
+    const toClient = new PassThrough();
+    const transport = new StdioClientTransport({
+      input: toClient,
+      output: new PassThrough(),
+    });
+
+    const pending = transport.request({
+      jsonrpc: "2.0",
+      id: 1,
+      method: "ping",
+    });
+    toClient.end();
+
+    await expect(pending).rejects.toMatchObject({ kind: "transport" });
+  });
+});
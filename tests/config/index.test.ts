@@ -0,0 +1,39 @@
+// Config Tests
+// Validation of environment settings at startup
+
+/**
+ * Load the config module as a fresh process would, with MCP_TRANSPORT set
+ */
+function loadConfig(transport: string): typeof import("../../src/config") {
+  const previous = process.env.MCP_TRANSPORT;
+  process.env.MCP_TRANSPORT = transport;
+  try {
+    let config: typeof import("../../src/config") | undefined;
+    jest.isolateModules(() => {
+      config = require("../../src/config");
+    });
+    return config!;
+  } finally {
+    if (previous === undefined) {
+      delete process.env.MCP_TRANSPORT;
+    } else {
+      process.env.MCP_TRANSPORT = previous;
+    }
+  }
+}
+
+describe("MCP_TRANSPORT", () => {
+  it("accepts the supported transports", () => {
+    expect(loadConfig("stdio").MCP_TRANSPORT).toBe("stdio");
+  });
+
+  it("falls back to http when empty", () => {
+    expect(loadConfig("").MCP_TRANSPORT).toBe("http");
+  });
+
+  it("rejects other values at startup", () => {
+    expect(() => loadConfig("websocket")).toThrow(
+      "MCP_TRANSPORT must be one of: http, stdio",
+    );
+  });
+});
@@ -0,0 +1,201 @@
+// DockerManager.execCommand Tests
+// Exec inside a task container with stdout/stderr capture, timeouts and cancellation
+
+import { execFileSync, spawn } from "child_process";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { PassThrough } from "stream";
+
+const mockExecStart = jest.fn();
+const mockExecInspect = jest.fn();
+const mockContainerExec = jest.fn();
+const mockDemuxStream = jest.fn();
+
+jest.mock("dockerode", () =>
+  jest.fn().mockImplementation(() => ({
+    info: jest.fn().mockResolvedValue({ ServerVersion: "test" }),
+    getContainer: jest.fn().mockImplementation((id: string) => ({
+      id,
+      exec: mockContainerExec,
+    })),
+    modem: { demuxStream: mockDemuxStream },
+  })),
+);
+
+import { DockerManager } from "../../src/docker/manager";
+
+describe("DockerManager.execCommand", () => {
+  let stream: PassThrough;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    stream = new PassThrough();
+    mockExecStart.mockResolvedValue(stream);
+    mockExecInspect.mockResolvedValue({ ExitCode: 0 });
+    mockContainerExec.mockResolvedValue({
+      start: mockExecStart,
+      inspect: mockExecInspect,
+    });
+  });
+
+  it("captures stdout and stderr separately with the real exit code", async () => {
+    mockExecInspect.mockResolvedValue({ ExitCode: 2 });
+    mockDemuxStream.mockImplementation(
+      (source: PassThrough, stdout: PassThrough, stderr: PassThrough) => {
+        source.resume();
+        stdout.write("hello\n");
+        stderr.write("oops\n");
+        setImmediate(() => source.end());
+      },
+    );
+
+    const result = await DockerManager.getInstance().execCommand(
+      "container-1",
+      "echo hello; echo oops >&2; exit 2",
+    );
+
+    expect(result.stdout).toBe("hello\n");
+    expect(result.stderr).toBe("oops\n");
+    expect(result.exitCode).toBe(2);
+    expect(result.timedOut).toBe(false);
+    expect(result.durationMs).toBeGreaterThanOrEqual(0);
+
+    const createOptions = mockContainerExec.mock.calls[0][0];
+    expect(createOptions.Cmd.slice(-3)).toEqual([
+      "sh",
+      "-c",
+      "echo hello; echo oops >&2; exit 2",
+    ]);
+    expect(createOptions.AttachStdout).toBe(true);
+    expect(createOptions.AttachStderr).toBe(true);
+  });
+
+  it("streams output chunks to onOutput as they arrive", async () => {
+    mockDemuxStream.mockImplementation(
+      (source: PassThrough, stdout: PassThrough, stderr: PassThrough) => {
+        source.resume();
+        stdout.write("building...\n");
+        stderr.write("warning\n");
+        stdout.write("done\n");
+        setImmediate(() => source.end());
+      },
+    );
+    const chunks: Array<{ stream: string; data: string }> = [];
+
+    const result = await DockerManager.getInstance().execCommand(
+      "container-1",
+      "make",
+      { onOutput: (chunk) => chunks.push(chunk) },
+    );
+
+    expect(chunks).toEqual([
+      { stream: "stdout", data: "building...\n" },
+      { stream: "stderr", data: "warning\n" },
+      { stream: "stdout", data: "done\n" },
+    ]);
+    expect(result.stdout).toBe("building...\ndone\n");
+  });
+
+  it("passes argv commands through without a shell", async () => {
+    mockDemuxStream.mockImplementation((source: PassThrough) => {
+      source.resume();
+      setImmediate(() => source.end());
+    });
+
+    await DockerManager.getInstance().execCommand("container-1", ["ls", "-la"]);
+
+    const createOptions = mockContainerExec.mock.calls[0][0];
+    expect(createOptions.Cmd.slice(-2)).toEqual(["ls", "-la"]);
+  });
+
+  it("kills the process and reports a timeout", async () => {
+    mockDemuxStream.mockImplementation(() => undefined);
+
+    const result = await DockerManager.getInstance().execCommand(
+      "container-1",
+      "sleep 60",
+      { timeoutMs: 20 },
+    );
+
+    expect(result.timedOut).toBe(true);
+    expect(result.exitCode).toBe(137);
+
+    const killCmd = mockContainerExec.mock.calls[1][0].Cmd;
+    expect(killCmd[2]).toContain("kill -KILL");
+    expect(killCmd[3]).toBe(mockContainerExec.mock.calls[0][0].Cmd[3]);
+  });
+
+  it("kills the process when the signal aborts", async () => {
+    mockDemuxStream.mockImplementation(() => undefined);
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 10);
+
+    const result = await DockerManager.getInstance().execCommand(
+      "container-1",
+      "sleep 60",
+      { timeoutMs: 60000, signal: controller.signal },
+    );
+
+    expect(result.cancelled).toBe(true);
+    expect(result.timedOut).toBe(false);
+    expect(result.exitCode).toBe(137);
+    expect(mockContainerExec.mock.calls[1][0].Cmd[2]).toContain("kill -KILL");
+  });
+
+  it("kills every process the command started", async () => {
+    const childPidFile = path.join(os.tmpdir(), `exec-child-${process.pid}`);
+    mockDemuxStream.mockImplementation(() => undefined);
+    // Run the wrapper and the kill command on this host's shell
+    mockContainerExec.mockImplementation(
+      async ({ Cmd }: { Cmd: string[] }) => ({
+        start: async () => {
+          if (mockContainerExec.mock.calls.length === 1) {
+            spawn(Cmd[0] as string, Cmd.slice(1), { stdio: "ignore" });
+            return stream;
+          }
+          execFileSync(Cmd[0] as string, Cmd.slice(1));
+          return undefined;
+        },
+        inspect: mockExecInspect,
+      }),
+    );
+
+    try {
+      await DockerManager.getInstance().execCommand(
+        "container-1",
+        `sleep 30 & echo $! > ${childPidFile}; wait`,
+        { timeoutMs: 500 },
+      );
+
+      const childPid = fs.readFileSync(childPidFile, "utf8").trim();
+      // Gone, or a zombie nobody reaps
+      const state = fs.existsSync(`/proc/${childPid}/stat`)
+        ? fs.readFileSync(`/proc/${childPid}/stat`, "utf8").split(" ")[2]
+        : "gone";
+      expect(["gone", "Z"]).toContain(state);
+    } finally {
+      fs.rmSync(childPidFile, { force: true });
+    }
+  });
+
+  it("does not start a command whose signal already aborted", async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(
+      DockerManager.getInstance().execCommand("container-1", "true", {
+        signal: controller.signal,
+      }),
+    ).rejects.toMatchObject({ code: "CONTAINER_EXEC_CANCELLED" });
+    expect(mockContainerExec).not.toHaveBeenCalled();
+  });
+
+  it("wraps Docker failures in CONTAINER_EXEC_FAILED", async () => {
+    mockContainerExec.mockRejectedValue(new Error("No such container"));
+
+    await expect(
+      DockerManager.getInstance().execCommand("missing", "true"),
+    ).rejects.toMatchObject({ code: "CONTAINER_EXEC_FAILED" });
+  });
+});
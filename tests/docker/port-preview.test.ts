@@ -0,0 +1,198 @@
+// Port Preview Tests
+// Forwarder containers for exposed ports, metadata records and host port allocation
+
+const mockGetById = jest.fn();
+const mockUpdate = jest.fn();
+const mockGetContainerAddress = jest.fn();
+const mockCreateContainer = jest.fn();
+const mockStartContainer = jest.fn();
+const mockRemoveContainer = jest.fn();
+const mockFindAvailablePort = jest.fn();
+
+jest.mock("../../src/task-registry/registry", () => ({
+  taskRegistry: { getById: mockGetById, update: mockUpdate },
+}));
+
+jest.mock("../../src/docker/manager", () => ({
+  DockerManager: {
+    getInstance: () => ({
+      assertTaskContainer: async () => undefined,
+      getContainerAddress: mockGetContainerAddress,
+      createContainer: mockCreateContainer,
+      startContainer: mockStartContainer,
+      removeContainer: mockRemoveContainer,
+    }),
+  },
+}));
+
+jest.mock("../../src/util/lock-manager", () => ({
+  lockManager: {
+    withLock: (_resource: string, _owner: string, fn: () => Promise<any>) =>
+      fn(),
+  },
+}));
+
+jest.mock("../../src/util/ports", () => ({
+  ...jest.requireActual("../../src/util/ports"),
+  findAvailablePort: mockFindAvailablePort,
+}));
+
+import net from "net";
+import { portPreview, previewUrl } from "../../src/docker/port-preview";
+import type { ExposedPort, Task } from "../../src/types";
+
+const { findAvailablePort } = jest.requireActual("../../src/util/ports");
+
+const makeTask = (metadata: Record<string, any> = {}): Task => ({
+  id: "task-1",
+  name: "Task",
+  status: "running",
+  metadata: { containerId: "container-1", ...metadata },
+  createdAt: new Date(),
+  updatedAt: new Date(),
+});
+
+const exposedPort = (overrides: Partial<ExposedPort> = {}): ExposedPort => ({
+  containerPort: 3000,
+  hostPort: 20000,
+  hostIp: "127.0.0.1",
+  protocol: "tcp",
+  proxyContainerId: "proxy-1",
+  exposedAt: new Date(0).toISOString(),
+  ...overrides,
+});
+
+describe("PortPreview", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockUpdate.mockImplementation(async (_id, updates) => updates);
+    mockGetContainerAddress.mockResolvedValue({
+      network: "opencode_task-1",
+      ipAddress: "172.18.0.5",
+    });
+    mockCreateContainer.mockResolvedValue("proxy-1");
+    mockRemoveContainer.mockResolvedValue(undefined);
+    mockFindAvailablePort.mockResolvedValue(20000);
+  });
+
+  it("starts a forwarder on the task network and records the mapping", async () => {
+    mockGetById.mockResolvedValue(makeTask());
+
+    const { port, created } = await portPreview.expose("task-1", 3000);
+
+    expect(created).toBe(true);
+    expect(port).toMatchObject({
+      containerPort: 3000,
+      hostPort: 20000,
+      protocol: "tcp",
+      proxyContainerId: "proxy-1",
+    });
+    expect(mockCreateContainer).toHaveBeenCalledWith(
+      expect.objectContaining({
+        command: ["TCP-LISTEN:3000,fork,reuseaddr", "TCP:172.18.0.5:3000"],
+        network: "opencode_task-1",
+        ports: [
+          {
+            containerPort: 3000,
+            hostPort: 20000,
+            hostIp: "127.0.0.1",
+            protocol: "tcp",
+          },
+        ],
+        labels: expect.objectContaining({ "opencode.task.id": "task-1" }),
+      }),
+    );
+    expect(mockStartContainer).toHaveBeenCalledWith("proxy-1");
+    expect(mockUpdate).toHaveBeenCalledWith("task-1", {
+      metadata: { containerId: "container-1", exposedPorts: [port] },
+    });
+    expect(previewUrl(port)).toBe("http://127.0.0.1:20000");
+  });
+
+  it("returns the existing mapping when a port is exposed again", async () => {
+    const existing = exposedPort();
+    mockGetById.mockResolvedValue(makeTask({ exposedPorts: [existing] }));
+
+    const result = await portPreview.expose("task-1", 3000);
+
+    expect(result).toEqual({ port: existing, created: false });
+    expect(mockCreateContainer).not.toHaveBeenCalled();
+  });
+
+  it("tries another host port when the forwarder cannot bind", async () => {
+    mockGetById.mockResolvedValue(makeTask());
+    mockFindAvailablePort
+      .mockResolvedValueOnce(20000)
+      .mockResolvedValueOnce(20001);
+    mockStartContainer
+      .mockRejectedValueOnce(new Error("port is already allocated"))
+      .mockResolvedValueOnce(undefined);
+
+    const { port } = await portPreview.expose("task-1", 3000);
+
+    expect(port.hostPort).toBe(20001);
+    expect(mockRemoveContainer).toHaveBeenCalledWith("proxy-1", true);
+    expect(mockFindAvailablePort).toHaveBeenLastCalledWith(
+      expect.anything(),
+      expect.objectContaining({ exclude: [20000] }),
+    );
+  });
+
+  it("rejects tasks without a container", async () => {
+    mockGetById.mockResolvedValue({ ...makeTask(), metadata: {} });
+
+    await expect(portPreview.expose("task-1", 3000)).rejects.toThrow(
+      "Task has no container",
+    );
+  });
+
+  it("removes forwarders and drops their metadata when unexposing", async () => {
+    const web = exposedPort();
+    const api = exposedPort({
+      containerPort: 8080,
+      hostPort: 20001,
+      proxyContainerId: "proxy-2",
+    });
+    mockGetById.mockResolvedValue(makeTask({ exposedPorts: [web, api] }));
+
+    const removed = await portPreview.unexpose("task-1", 8080);
+
+    expect(removed).toEqual([api]);
+    expect(mockRemoveContainer).toHaveBeenCalledWith("proxy-2", true);
+    expect(mockUpdate).toHaveBeenCalledWith("task-1", {
+      metadata: { containerId: "container-1", exposedPorts: [web] },
+    });
+
+    await portPreview.unexpose("task-1");
+    expect(mockUpdate).toHaveBeenLastCalledWith("task-1", {
+      metadata: { containerId: "container-1" },
+    });
+  });
+});
+
+describe("findAvailablePort", () => {
+  it("skips ports that are bound or excluded", async () => {
+    const server = net.createServer();
+    await new Promise<void>((resolve) =>
+      server.listen(0, "127.0.0.1", resolve),
+    );
+    const taken = (server.address() as net.AddressInfo).port;
+
+    try {
+      const port = await findAvailablePort(
+        { start: taken, end: Math.min(taken + 10, 65535) },
+        { host: "127.0.0.1", exclude: [taken + 1] },
+      );
+      expect(port).not.toBe(taken);
+      expect(port).not.toBe(taken + 1);
+    } finally {
+      server.close();
+    }
+  });
+
+  it("rejects invalid ranges", async () => {
+    await expect(findAvailablePort({ start: 2000, end: 1000 })).rejects.toThrow(
+      "Invalid port range",
+    );
+  });
+});
@@ -103,6 +103,47 @@ describe("TaskLifecycleHooks", () => {
     });
   });
 
+  describe("Fail Reasons", () => {
+    test("should pass the fail reason to fail hooks", async () => {
+      const before = jest.fn().mockResolvedValue(undefined);
+      const after = jest.fn().mockResolvedValue(undefined);
+      taskLifecycleHooks.registerBeforeTaskFail(before);
+      taskLifecycleHooks.registerAfterTaskFail(after);
+      await taskLifecycleHooks.executeBeforeTaskFail(
+        "task-1",
+        "Task missed its deadline",
+        "deadline",
+      );
+      await taskLifecycleHooks.executeAfterTaskFail("task-1", "Boom");
+      expect(before).toHaveBeenCalledWith(
+        "task-1",
+        "Task missed its deadline",
+        "deadline",
+      );
+      expect(after).toHaveBeenCalledWith("task-1", "Boom", "error");
+    });
+  });
+
+  describe("Pause, Resume and Block Hooks", () => {
+    test("should pass the pause reason, resuming agent and block reason", async () => {
+      const pause = jest.fn().mockResolvedValue(undefined);
+      const resume = jest.fn().mockResolvedValue(undefined);
+      const block = jest.fn().mockResolvedValue(undefined);
+      taskLifecycleHooks.registerBeforeTaskPause(pause);
+      taskLifecycleHooks.registerAfterTaskResume(resume);
+      taskLifecycleHooks.registerBeforeTaskBlock(block);
+      await taskLifecycleHooks.executeBeforeTaskPause("task-1", "requested");
+      await taskLifecycleHooks.executeAfterTaskResume("task-1", "agent-1");
+      await taskLifecycleHooks.executeBeforeTaskBlock(
+        "task-1",
+        "Waiting for review",
+      );
+      expect(pause).toHaveBeenCalledWith("task-1", "requested");
+      expect(resume).toHaveBeenCalledWith("task-1", "agent-1");
+      expect(block).toHaveBeenCalledWith("task-1", "Waiting for review");
+    });
+  });
+
   describe("Error Handling", () => {
     test("should continue executing remaining hooks if one fails", async () => {
       const hook1 = jest.fn().mockResolvedValue(undefined);
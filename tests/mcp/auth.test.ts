@@ -0,0 +1,400 @@
+// MCP Server Authentication Tests
+// API keys on the HTTP transport, session binding and principal propagation
+
+import { AddressInfo } from "net";
+import { Server } from "http";
+
+const mockAuthenticate = jest.fn();
+const mockGetById = jest.fn();
+const mockGetActive = jest.fn();
+
+jest.mock("../../src/config", () => ({
+  ...jest.requireActual("../../src/config"),
+  MCP_REQUEST_JOURNAL_PATH: "",
+}));
+
+jest.mock("../../src/auth/api-keys", () => ({
+  apiKeyStore: { authenticate: mockAuthenticate },
+}));
+
+jest.mock("../../src/audit/tool-audit", () => ({
+  toolAuditLog: { record: jest.fn() },
+}));
+
+jest.mock("../../src/mcp/jobs", () => ({
+  jobManager: {
+    recoverInterrupted: jest.fn().mockResolvedValue(0),
+    getRunningJobIds: () => [],
+  },
+}));
+
+jest.mock("../../src/task-registry/registry", () => ({
+  taskRegistry: { getById: mockGetById },
+}));
+
+jest.mock("../../src/task-registry/task-agents", () => ({
+  taskAgentRegistry: { getActive: mockGetActive },
+}));
+
+jest.mock("../../src/mcp/idempotency", () => ({
+  idempotencyStore: { releaseInterrupted: jest.fn() },
+}));
+
+jest.mock("../../src/plugins/loader", () => ({
+  pluginLoader: {
+    loadAll: jest.fn().mockResolvedValue([]),
+    unloadAll: jest.fn().mockResolvedValue(undefined),
+    getTools: () => [],
+  },
+}));
+
+jest.mock("../../src/mcp/tools", () => ({
+  TOOL_DEFINITIONS: [
+    {
+      name: "whoami",
+      description: "Return the caller's principal",
+      execute: async (_params: Record<string, any>, context?: any) =>
+        context?.principal,
+    },
+    {
+      name: "wait",
+      description: "Run until cancelled",
+      execute: (_params: Record<string, any>, context?: any) =>
+        new Promise((resolve) =>
+          context.signal.addEventListener("abort", () => resolve(null)),
+        ),
+    },
+  ],
+}));
+
+import { MCPServerEnhanced, mcpServerReady } from "../../src/mcp/server";
+import { JSON_RPC_ERRORS } from "../../src/mcp/protocol";
+import { taskArtifactEvents } from "../../src/persistence/artifact-events";
+
+const ALICE = { keyId: "key-a", agentId: "agent-a", owner: "alice" };
+const BOB = { keyId: "key-b", agentId: "agent-b", owner: "bob" };
+
+describe("MCPServerEnhanced authentication", () => {
+  const server = MCPServerEnhanced.getInstance();
+  let baseUrl: string;
+
+  const post = (body: unknown, headers: Record<string, string> = {}) =>
+    fetch(baseUrl, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...headers },
+      body: JSON.stringify(body),
+    });
+
+  const readJson = async (response: Response): Promise<any> => response.json();
+
+  const initialize = (key: string) =>
+    post(
+      {
+        jsonrpc: "2.0",
+        id: 1,
+        method: "initialize",
+        params: { protocolVersion: "2025-06-18" },
+      },
+      { Authorization: `Bearer ${key}` },
+    );
+
+  beforeAll(async () => {
+    await mcpServerReady;
+    const httpServer = (server as any).server as Server;
+    await new Promise<void>((resolve) =>
+      httpServer.listen(0, "127.0.0.1", resolve),
+    );
+    const { port } = httpServer.address() as AddressInfo;
+    baseUrl = `http://127.0.0.1:${port}`;
+  });
+
+  afterAll(async () => {
+    await server.stop();
+  });
+
+  beforeEach(() => {
+    mockAuthenticate.mockImplementation(async (key: string) => {
+      if (key === "oc_alice") return ALICE;
+      if (key === "oc_bob") return BOB;
+      return null;
+    });
+  });
+
+  it("rejects requests without an API key", async () => {
+    const response = await post({ jsonrpc: "2.0", id: 1, method: "ping" });
+
+    expect(response.status).toBe(401);
+    expect(response.headers.get("www-authenticate")).toBe("Bearer");
+    expect((await readJson(response)).error.code).toBe(
+      JSON_RPC_ERRORS.UNAUTHORIZED,
+    );
+  });
+
+  it("rejects unknown or revoked keys", async () => {
+    const response = await initialize("oc_revoked");
+
+    expect(response.status).toBe(401);
+    expect((await readJson(response)).error.message).toBe("Invalid API key");
+  });
+
+  it("accepts the key in the X-API-Key header", async () => {
+    const response = await post(
+      { jsonrpc: "2.0", id: 1, method: "initialize", params: {} },
+      { "X-API-Key": "oc_alice" },
+    );
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("mcp-session-id")).toBeTruthy();
+  });
+
+  it("passes the authenticated principal to tools", async () => {
+    const init = await initialize("oc_alice");
+    const sessionId = init.headers.get("mcp-session-id") as string;
+
+    const response = await post(
+      {
+        jsonrpc: "2.0",
+        id: 2,
+        method: "tools/call",
+        params: { name: "whoami", arguments: {} },
+      },
+      { Authorization: "Bearer oc_alice", "Mcp-Session-Id": sessionId },
+    );
+
+    expect((await readJson(response)).result.structuredContent).toEqual(ALICE);
+  });
+
+  it("denies access to tasks without an owner", async () => {
+    mockGetById.mockResolvedValue({ id: "t-1" });
+    const init = await initialize("oc_alice");
+    const sessionId = init.headers.get("mcp-session-id") as string;
+
+    const response = await post(
+      {
+        jsonrpc: "2.0",
+        id: 2,
+        method: "resources/subscribe",
+        params: { uri: "task://t-1/plan" },
+      },
+      { Authorization: "Bearer oc_alice", "Mcp-Session-Id": sessionId },
+    );
+
+    expect((await readJson(response)).error).toMatchObject({
+      code: JSON_RPC_ERRORS.RESOURCE_NOT_FOUND,
+      message: "Access denied to task: t-1",
+    });
+  });
+
+  it("denies resources of tasks the agent is not attached to", async () => {
+    mockGetById.mockResolvedValue({ id: "t-1", owner: "alice" });
+    mockGetActive.mockResolvedValue(null);
+    const init = await initialize("oc_alice");
+    const sessionId = init.headers.get("mcp-session-id") as string;
+
+    const response = await post(
+      {
+        jsonrpc: "2.0",
+        id: 2,
+        method: "resources/read",
+        params: { uri: "task://t-1/state" },
+      },
+      { Authorization: "Bearer oc_alice", "Mcp-Session-Id": sessionId },
+    );
+
+    expect((await readJson(response)).error).toMatchObject({
+      code: JSON_RPC_ERRORS.RESOURCE_NOT_FOUND,
+      message: "Agent agent-a is not attached to task t-1",
+    });
+  });
+
+  it("refuses a session opened by a different key", async () => {
+    const init = await initialize("oc_alice");
+    const sessionId = init.headers.get("mcp-session-id") as string;
+
+    const response = await post(
+      { jsonrpc: "2.0", id: 2, method: "ping" },
+      { Authorization: "Bearer oc_bob", "Mcp-Session-Id": sessionId },
+    );
+
+    expect(response.status).toBe(403);
+  });
+
+  describe("session lifetime", () => {
+    const ping = (sessionId: string) =>
+      post(
+        { jsonrpc: "2.0", id: 2, method: "ping" },
+        { Authorization: "Bearer oc_alice", "Mcp-Session-Id": sessionId },
+      );
+
+    const deleteSession = (sessionId: string, key: string) =>
+      fetch(baseUrl, {
+        method: "DELETE",
+        headers: {
+          Authorization: `Bearer ${key}`,
+          "Mcp-Session-Id": sessionId,
+        },
+      });
+
+    it("ends a session with DELETE", async () => {
+      const init = await initialize("oc_alice");
+      const sessionId = init.headers.get("mcp-session-id") as string;
+
+      const response = await deleteSession(sessionId, "oc_alice");
+
+      expect(response.status).toBe(204);
+      expect((await ping(sessionId)).status).toBe(404);
+    });
+
+    it("refuses to end a session opened by a different key", async () => {
+      const init = await initialize("oc_alice");
+      const sessionId = init.headers.get("mcp-session-id") as string;
+
+      const response = await deleteSession(sessionId, "oc_bob");
+
+      expect(response.status).toBe(403);
+      expect((await ping(sessionId)).status).toBe(200);
+    });
+
+    it("expires idle sessions", async () => {
+      const active = (await initialize("oc_alice")).headers.get(
+        "mcp-session-id",
+      ) as string;
+      const idle = (await initialize("oc_alice")).headers.get(
+        "mcp-session-id",
+      ) as string;
+      (server as any).sessions.get(idle).lastActivityAt = new Date(0);
+
+      (server as any).expireIdleSessions(Date.now());
+
+      expect((await ping(idle)).status).toBe(404);
+      expect((await ping(active)).status).toBe(200);
+    });
+  });
+
+  it("does not send CORS headers to unlisted origins", async () => {
+    const response = await post(
+      { jsonrpc: "2.0", id: 1, method: "initialize", params: {} },
+      { Authorization: "Bearer oc_alice", Origin: "http://evil.example" },
+    );
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("access-control-allow-origin")).toBeNull();
+  });
+
+  describe("request cancellation", () => {
+    const cancel = (sessionId: string, requestId: string, key: string) =>
+      fetch(`${baseUrl}/requests/${requestId}`, {
+        method: "DELETE",
+        headers: {
+          Authorization: `Bearer ${key}`,
+          "Mcp-Session-Id": sessionId,
+        },
+      });
+
+    it("cancels an in-flight request with DELETE /requests/<id>", async () => {
+      const init = await initialize("oc_alice");
+      const sessionId = init.headers.get("mcp-session-id") as string;
+      const pending = post(
+        {
+          jsonrpc: "2.0",
+          id: 42,
+          method: "tools/call",
+          params: { name: "wait", arguments: {} },
+        },
+        { Authorization: "Bearer oc_alice", "Mcp-Session-Id": sessionId },
+      );
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      const response = await cancel(sessionId, "42", "oc_alice");
+
+      expect(response.status).toBe(202);
+      expect((await readJson(await pending)).error.code).toBe(
+        JSON_RPC_ERRORS.REQUEST_CANCELLED,
+      );
+    });
+
+    it("returns 404 for requests that are not running", async () => {
+      const init = await initialize("oc_alice");
+      const sessionId = init.headers.get("mcp-session-id") as string;
+
+      const response = await cancel(sessionId, "42", "oc_alice");
+
+      expect(response.status).toBe(404);
+    });
+
+    it("refuses cancellation with a different key", async () => {
+      const init = await initialize("oc_alice");
+      const sessionId = init.headers.get("mcp-session-id") as string;
+
+      const response = await cancel(sessionId, "1", "oc_bob");
+
+      expect(response.status).toBe(403);
+    });
+  });
+
+  describe("event stream", () => {
+    const openStream = (sessionId: string, key: string, signal?: AbortSignal) =>
+      fetch(baseUrl, {
+        method: "GET",
+        headers: {
+          Accept: "text/event-stream",
+          Authorization: `Bearer ${key}`,
+          "Mcp-Session-Id": sessionId,
+        },
+        signal,
+      });
+
+    it("delivers resource updates to the subscribed session", async () => {
+      mockGetById.mockResolvedValue({ id: "t-1", owner: "alice" });
+      mockGetActive.mockResolvedValue({ role: "observer" });
+      const init = await initialize("oc_alice");
+      const sessionId = init.headers.get("mcp-session-id") as string;
+      const controller = new AbortController();
+
+      const stream = await openStream(sessionId, "oc_alice", controller.signal);
+      expect(stream.status).toBe(200);
+      expect(stream.headers.get("content-type")).toBe("text/event-stream");
+
+      await post(
+        {
+          jsonrpc: "2.0",
+          id: 2,
+          method: "resources/subscribe",
+          params: { uri: "task://t-1/plan" },
+        },
+        { Authorization: "Bearer oc_alice", "Mcp-Session-Id": sessionId },
+      );
+      taskArtifactEvents.changed("t-1", "plan");
+
+      const reader = stream.body!.getReader();
+      const { value } = await reader.read();
+      controller.abort();
+
+      const event = new TextDecoder().decode(value);
+      expect(event).toContain("event: message");
+      expect(JSON.parse(event.split("data: ")[1] as string)).toEqual({
+        jsonrpc: "2.0",
+        method: "notifications/resources/updated",
+        params: { uri: "task://t-1/plan" },
+      });
+    });
+
+    it("refuses a stream for a session opened by a different key", async () => {
+      const init = await initialize("oc_alice");
+      const sessionId = init.headers.get("mcp-session-id") as string;
+
+      const response = await openStream(sessionId, "oc_bob");
+
+      expect(response.status).toBe(403);
+    });
+
+    it("requires an event-stream Accept header", async () => {
+      const response = await fetch(baseUrl, {
+        method: "GET",
+        headers: { Authorization: "Bearer oc_alice" },
+      });
+
+      expect(response.status).toBe(406);
+    });
+  });
+});
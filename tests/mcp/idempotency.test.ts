@@ -0,0 +1,200 @@
+// MCP Idempotency Tests
+// Replaying stored results and rejecting reused keys
+
+const mockDelete = jest.fn();
+const mockInsertReturning = jest.fn();
+const mockSelectLimit = jest.fn();
+const mockUpdateSet = jest.fn();
+
+jest.mock("../../src/persistence/database", () => ({
+  DatabaseManager: {
+    getInstance: () => ({
+      getDatabase: () => ({
+        delete: () => ({
+          where: (...args: unknown[]) => {
+            const result = mockDelete(...args);
+            return Object.assign(Promise.resolve(result), {
+              returning: async () => [],
+            });
+          },
+        }),
+        insert: () => ({
+          values: () => ({
+            onConflictDoNothing: () => ({ returning: mockInsertReturning }),
+          }),
+        }),
+        select: () => ({
+          from: () => ({ where: () => ({ limit: mockSelectLimit }) }),
+        }),
+        update: () => ({
+          set: (values: unknown) => ({
+            where: async () => mockUpdateSet(values),
+          }),
+        }),
+      }),
+    }),
+  },
+}));
+
+import { hashToolRequest, idempotencyStore } from "../../src/mcp/idempotency";
+import { JSON_RPC_ERRORS } from "../../src/mcp/protocol";
+import { MCP_REQUEST_TIMEOUT_MS } from "../../src/config";
+
+const params = { idempotencyKey: "retry-1", name: "Build", owner: "alice" };
+
+const storedRow = (overrides: Record<string, unknown> = {}) => ({
+  id: "row-1",
+  scope: "alice",
+  key: "retry-1",
+  tool: "create_task_sandbox",
+  requestHash: hashToolRequest("create_task_sandbox", params),
+  response: { success: true, taskId: "t-1" },
+  createdAt: new Date(),
+  completedAt: new Date(),
+  expiresAt: new Date(Date.now() + 60_000),
+  ...overrides,
+});
+
+describe("hashToolRequest", () => {
+  it("ignores argument order and the idempotency key", () => {
+    expect(
+      hashToolRequest("create_task_sandbox", {
+        owner: "alice",
+        name: "Build",
+        idempotencyKey: "other",
+      }),
+    ).toBe(hashToolRequest("create_task_sandbox", params));
+  });
+
+  it("distinguishes tools and argument values", () => {
+    const hash = hashToolRequest("create_task_sandbox", params);
+
+    expect(hashToolRequest("delete_task", params)).not.toBe(hash);
+    expect(
+      hashToolRequest("create_task_sandbox", { ...params, name: "Test" }),
+    ).not.toBe(hash);
+  });
+});
+
+describe("IdempotencyStore.run", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("executes and stores the result for a new key", async () => {
+    mockInsertReturning.mockResolvedValue([{ id: "row-1" }]);
+    const execute = jest.fn().mockResolvedValue({ taskId: "t-1" });
+
+    const result = await idempotencyStore.run(
+      "alice",
+      "retry-1",
+      "create_task_sandbox",
+      params,
+      execute,
+    );
+
+    expect(result).toEqual({ taskId: "t-1" });
+    expect(execute).toHaveBeenCalledTimes(1);
+    expect(mockUpdateSet).toHaveBeenCalledWith(
+      expect.objectContaining({ response: { taskId: "t-1" } }),
+    );
+  });
+
+  it("replays the stored result for a retry", async () => {
+    mockInsertReturning.mockResolvedValue([]);
+    mockSelectLimit.mockResolvedValue([storedRow()]);
+    const execute = jest.fn();
+
+    const result = await idempotencyStore.run(
+      "alice",
+      "retry-1",
+      "create_task_sandbox",
+      params,
+      execute,
+    );
+
+    expect(result).toEqual({ success: true, taskId: "t-1" });
+    expect(execute).not.toHaveBeenCalled();
+  });
+
+  it("rejects a retry with different arguments", async () => {
+    mockInsertReturning.mockResolvedValue([]);
+    mockSelectLimit.mockResolvedValue([storedRow()]);
+
+    await expect(
+      idempotencyStore.run(
+        "alice",
+        "retry-1",
+        "create_task_sandbox",
+        { ...params, name: "Other" },
+        jest.fn(),
+      ),
+    ).rejects.toMatchObject({
+      code: JSON_RPC_ERRORS.IDEMPOTENCY_CONFLICT,
+      data: { reason: "params_mismatch", idempotencyKey: "retry-1" },
+    });
+  });
+
+  it("rejects a retry while the first call is running", async () => {
+    mockInsertReturning.mockResolvedValue([]);
+    mockSelectLimit.mockResolvedValue([
+      storedRow({ response: null, completedAt: null }),
+    ]);
+
+    await expect(
+      idempotencyStore.run(
+        "alice",
+        "retry-1",
+        "create_task_sandbox",
+        params,
+        jest.fn(),
+      ),
+    ).rejects.toMatchObject({ data: { reason: "in_progress" } });
+  });
+
+  it("releases the key when the call fails", async () => {
+    mockInsertReturning.mockResolvedValue([{ id: "row-1" }]);
+
+    await expect(
+      idempotencyStore.run(
+        "alice",
+        "retry-1",
+        "create_task_sandbox",
+        params,
+        jest.fn().mockRejectedValue(new Error("quota")),
+      ),
+    ).rejects.toThrow("quota");
+    expect(mockUpdateSet).not.toHaveBeenCalled();
+    // Clearing expired rows before the claim, then the release
+    expect(mockDelete).toHaveBeenCalledTimes(2);
+  });
+
+  it("keeps the claim alive while a long call runs", async () => {
+    jest.useFakeTimers();
+    mockInsertReturning.mockResolvedValue([{ id: "row-1" }]);
+    let finish!: (value: unknown) => void;
+    const execute = jest.fn(() => new Promise((resolve) => (finish = resolve)));
+
+    try {
+      const running = idempotencyStore.run(
+        "alice",
+        "retry-1",
+        "create_task_sandbox",
+        params,
+        execute,
+      );
+      await jest.advanceTimersByTimeAsync(MCP_REQUEST_TIMEOUT_MS * 3);
+      expect(mockUpdateSet).toHaveBeenCalledWith({
+        heartbeatAt: expect.any(Date),
+      });
+
+      finish({ taskId: "t-1" });
+      await running;
+      mockUpdateSet.mockClear();
+      await jest.advanceTimersByTimeAsync(MCP_REQUEST_TIMEOUT_MS * 3);
+      expect(mockUpdateSet).not.toHaveBeenCalled();
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
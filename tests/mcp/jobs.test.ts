@@ -0,0 +1,138 @@
+// MCP Job Tests
+// Background tool runs: outcomes, cancellation and restart recovery
+
+const mockInsertValues = jest.fn();
+const mockUpdateSet = jest.fn();
+const mockUpdateReturning = jest.fn();
+
+jest.mock("../../src/persistence/database", () => ({
+  DatabaseManager: {
+    getInstance: () => ({
+      getDatabase: () => ({
+        insert: () => ({ values: mockInsertValues }),
+        update: () => ({
+          set: (values: unknown) => ({
+            where: (condition: unknown) => {
+              const done = Promise.resolve(mockUpdateSet(values, condition));
+              return Object.assign(done, { returning: mockUpdateReturning });
+            },
+          }),
+        }),
+      }),
+    }),
+  },
+}));
+
+import { jobManager } from "../../src/mcp/jobs";
+import type { ToolContext } from "../../src/mcp/server";
+
+const context: ToolContext = {
+  requestId: 1,
+  sessionId: "session-1",
+  principal: { keyId: "key-a", agentId: "agent-a", owner: "alice" },
+};
+
+const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+describe("JobManager", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockInsertValues.mockResolvedValue([]);
+    mockUpdateReturning.mockResolvedValue([]);
+  });
+
+  it("stores a running job with redacted arguments", async () => {
+    const job = await jobManager.start(
+      "execute_in_task",
+      { taskId: "t-1", env: { API_TOKEN: "s3cret" } },
+      context,
+      async () => ({ exitCode: 0 }),
+    );
+
+    expect(job).toMatchObject({
+      tool: "execute_in_task",
+      status: "running",
+      owner: "alice",
+      agentId: "agent-a",
+    });
+    expect(mockInsertValues).toHaveBeenCalledWith(
+      expect.objectContaining({
+        id: job.id,
+        params: { taskId: "t-1", env: { API_TOKEN: "[REDACTED]" } },
+      }),
+    );
+  });
+
+  it("stores the result and last progress when the tool returns", async () => {
+    const job = await jobManager.start("slow", {}, context, async (ctx) => {
+      ctx.onProgress?.({ progress: 1, total: 2 });
+      return { done: true };
+    });
+    await flush();
+
+    expect(jobManager.getRunningJobIds()).not.toContain(job.id);
+    expect(mockUpdateSet).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        status: "completed",
+        result: { done: true },
+        progress: { progress: 1, total: 2 },
+        error: null,
+      }),
+      expect.anything(),
+    );
+  });
+
+  it("records a failed tool as failed", async () => {
+    await jobManager.start("explode", {}, context, async () => {
+      throw new Error("boom");
+    });
+    await flush();
+
+    expect(mockUpdateSet).toHaveBeenLastCalledWith(
+      expect.objectContaining({ status: "failed", error: "boom" }),
+      expect.anything(),
+    );
+  });
+
+  it("aborts a cancelled job and ignores its late result", async () => {
+    let signal: AbortSignal | undefined;
+    const job = await jobManager.start(
+      "wait",
+      {},
+      context,
+      (ctx) =>
+        new Promise((resolve) => {
+          signal = ctx.signal;
+          ctx.signal?.addEventListener("abort", () =>
+            resolve({ stopped: true }),
+          );
+        }),
+    );
+
+    await expect(jobManager.cancel(job.id, "no longer needed")).resolves.toBe(
+      true,
+    );
+    await flush();
+
+    expect(signal?.aborted).toBe(true);
+    expect(mockUpdateSet).toHaveBeenCalledTimes(1);
+    expect(mockUpdateSet).toHaveBeenCalledWith(
+      expect.objectContaining({
+        status: "cancelled",
+        error: "no longer needed",
+      }),
+      expect.anything(),
+    );
+    await expect(jobManager.cancel(job.id)).resolves.toBe(false);
+  });
+
+  it("marks jobs left running by another process as interrupted", async () => {
+    mockUpdateReturning.mockResolvedValue([{ id: "old-1" }, { id: "old-2" }]);
+
+    await expect(jobManager.recoverInterrupted()).resolves.toBe(2);
+    expect(mockUpdateSet).toHaveBeenCalledWith(
+      expect.objectContaining({ status: "interrupted" }),
+      expect.anything(),
+    );
+  });
+});
@@ -0,0 +1,101 @@
+// MCP Quota Tests
+// Per-owner limits on active tasks and containers
+
+const mockList = jest.fn();
+
+jest.mock("../../src/task-registry/registry", () => ({
+  taskRegistry: { list: mockList },
+}));
+
+jest.mock("../../src/config", () => ({
+  ...jest.requireActual("../../src/config"),
+  MCP_MAX_TASKS_PER_OWNER: 3,
+  MCP_MAX_CONTAINERS_PER_OWNER: 1,
+}));
+
+import { assertOwnerQuota } from "../../src/mcp/quotas";
+import { JSON_RPC_ERRORS } from "../../src/mcp/protocol";
+import { metrics } from "../../src/monitoring/metrics";
+
+const task = (id: string, containerId?: string) => ({
+  id,
+  metadata: containerId ? { containerId } : undefined,
+});
+
+describe("assertOwnerQuota", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    metrics.reset();
+    mockList.mockResolvedValue([]);
+  });
+
+  it("allows owners below their quotas", async () => {
+    mockList.mockResolvedValueOnce([task("t1")]).mockResolvedValueOnce([]);
+
+    await expect(
+      assertOwnerQuota("alice", { container: true }),
+    ).resolves.toBeUndefined();
+    expect(mockList).toHaveBeenCalledWith({
+      owner: "alice",
+      status: "pending",
+    });
+    expect(mockList).toHaveBeenCalledWith({
+      owner: "alice",
+      status: "running",
+    });
+  });
+
+  it("counts paused and blocked tasks, which keep their containers", async () => {
+    mockList.mockImplementation(async ({ status }: { status: string }) =>
+      status === "paused"
+        ? [task("t1", "container-1")]
+        : status === "blocked"
+          ? [task("t2"), task("t3")]
+          : [],
+    );
+
+    await expect(
+      assertOwnerQuota("alice", { container: false }),
+    ).rejects.toMatchObject({ data: { reason: "task_quota", current: 3 } });
+  });
+
+  it("rejects when pending and running tasks reach the task quota", async () => {
+    mockList
+      .mockResolvedValueOnce([task("t1"), task("t2")])
+      .mockResolvedValueOnce([task("t3")]);
+
+    await expect(
+      assertOwnerQuota("alice", { container: false }),
+    ).rejects.toMatchObject({
+      code: JSON_RPC_ERRORS.RATE_LIMITED,
+      data: { reason: "task_quota", limit: 3, current: 3 },
+    });
+
+    const rejected = metrics
+      .getCounters()
+      .find((counter) => counter.name === "mcp_requests_rejected_total");
+    expect(rejected).toMatchObject({
+      value: 1,
+      labels: { reason: "task_quota" },
+    });
+  });
+
+  it("only applies the container quota to tasks with a container", async () => {
+    mockList.mockImplementation(async ({ status }: { status: string }) =>
+      status === "running" ? [task("t1", "container-1")] : [],
+    );
+
+    await expect(
+      assertOwnerQuota("alice", { container: false }),
+    ).resolves.toBeUndefined();
+    await expect(
+      assertOwnerQuota("alice", { container: true }),
+    ).rejects.toMatchObject({ data: { reason: "container_quota" } });
+  });
+
+  it("skips tasks without an owner", async () => {
+    await assertOwnerQuota(undefined, { container: true });
+
+    expect(mockList).not.toHaveBeenCalled();
+  });
+});
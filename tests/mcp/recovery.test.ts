@@ -0,0 +1,211 @@
+// MCP Crash Recovery Tests
+// Tool calls journaled by a crashed process are answered, replayed or failed after restart
+
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { AddressInfo } from "net";
+import { Server } from "http";
+import type { MCPServerEnhanced } from "../../src/mcp/server";
+import { JSON_RPC_ERRORS } from "../../src/mcp/protocol";
+
+const mockJournalPath = path.join(
+  fs.mkdtempSync(path.join(os.tmpdir(), "mcp-recovery-")),
+  "journal.jsonl",
+);
+const mockCreate = jest.fn();
+const mockReleaseInterrupted = jest.fn();
+
+jest.mock("../../src/config", () => ({
+  ...jest.requireActual("../../src/config"),
+  MCP_REQUEST_JOURNAL_PATH: mockJournalPath,
+}));
+
+jest.mock("../../src/auth/api-keys", () => ({
+  apiKeyStore: {
+    authenticate: async (key: string) =>
+      key === "oc_alice"
+        ? { keyId: "key-a", agentId: "agent-a", owner: "alice" }
+        : null,
+  },
+}));
+
+jest.mock("../../src/audit/tool-audit", () => ({
+  toolAuditLog: { record: jest.fn() },
+}));
+
+jest.mock("../../src/mcp/jobs", () => ({
+  jobManager: {
+    recoverInterrupted: jest.fn().mockResolvedValue(0),
+    getRunningJobIds: () => [],
+  },
+}));
+
+jest.mock("../../src/task-registry/registry", () => ({
+  taskRegistry: { getById: jest.fn() },
+}));
+
+jest.mock("../../src/task-registry/task-agents", () => ({
+  taskAgentRegistry: { getActive: jest.fn() },
+}));
+
+jest.mock("../../src/mcp/idempotency", () => ({
+  idempotencyStore: { releaseInterrupted: mockReleaseInterrupted },
+}));
+
+jest.mock("../../src/plugins/loader", () => ({
+  pluginLoader: {
+    loadAll: jest.fn().mockResolvedValue([]),
+    unloadAll: jest.fn().mockResolvedValue(undefined),
+    getTools: () => [],
+  },
+}));
+
+jest.mock("../../src/mcp/tools", () => {
+  const { z } = require("zod");
+  return {
+    TOOL_DEFINITIONS: [
+      {
+        name: "create_item",
+        description: "Idempotent create",
+        inputSchema: z.object({
+          value: z.number(),
+          idempotencyKey: z.string().optional(),
+        }),
+        execute: (params: Record<string, any>) => mockCreate(params),
+      },
+      {
+        name: "remove_item",
+        description: "Not idempotent",
+        execute: async () => ({ removed: true }),
+      },
+    ],
+  };
+});
+
+const SESSION_ID = "session-before-crash";
+const ALICE = { keyId: "key-a", agentId: "agent-a", owner: "alice" };
+
+const journaled = (requestId: number, tool: string, extra: object = {}) => ({
+  key: `${SESSION_ID}:${requestId}`,
+  sessionId: SESSION_ID,
+  requestId,
+  transport: "http",
+  protocolVersion: "2025-06-18",
+  principal: ALICE,
+  tool,
+  idempotent: false,
+  acceptedAt: new Date().toISOString(),
+  ...extra,
+});
+
+describe("MCPServerEnhanced crash recovery", () => {
+  let server: MCPServerEnhanced;
+  let baseUrl: string;
+
+  const call = (id: number, name: string, args: object = {}) =>
+    fetch(baseUrl, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: "Bearer oc_alice",
+        "Mcp-Session-Id": SESSION_ID,
+      },
+      body: JSON.stringify({
+        jsonrpc: "2.0",
+        id,
+        method: "tools/call",
+        params: { name, arguments: args },
+      }),
+    }).then((response) => response.json() as Promise<any>);
+
+  beforeAll(async () => {
+    // What the crashed process left behind
+    const entries = [
+      journaled(1, "remove_item", {
+        response: {
+          jsonrpc: "2.0",
+          id: 1,
+          result: { structuredContent: { removed: true }, isError: false },
+        },
+      }),
+      journaled(2, "create_item", {
+        idempotent: true,
+        params: {
+          name: "create_item",
+          arguments: { value: 7, idempotencyKey: "key-7" },
+        },
+      }),
+      journaled(3, "remove_item"),
+    ];
+    fs.writeFileSync(
+      mockJournalPath,
+      entries.map((entry) => JSON.stringify(entry) + "\n").join(""),
+    );
+    mockCreate.mockResolvedValue({ created: 7 });
+    mockReleaseInterrupted.mockResolvedValue(undefined);
+
+    const mcp = require("../../src/mcp/server");
+    await mcp.mcpServerReady;
+    server = mcp.MCPServerEnhanced.getInstance();
+
+    const httpServer = (server as any).server as Server;
+    await new Promise<void>((resolve) =>
+      httpServer.listen(0, "127.0.0.1", resolve),
+    );
+    const { port } = httpServer.address() as AddressInfo;
+    baseUrl = `http://127.0.0.1:${port}`;
+  });
+
+  afterAll(async () => {
+    await server.stop();
+    fs.rmSync(path.dirname(mockJournalPath), { recursive: true, force: true });
+  });
+
+  it("answers a call that finished before the crash from the journal", async () => {
+    const response = await call(1, "remove_item");
+
+    expect(response.result.structuredContent).toEqual({ removed: true });
+  });
+
+  it("runs an interrupted idempotent call again after releasing its key", async () => {
+    const response = await call(2, "create_item", {
+      value: 7,
+      idempotencyKey: "key-7",
+    });
+
+    expect(response.result.structuredContent).toEqual({ created: 7 });
+    expect(mockReleaseInterrupted).toHaveBeenCalledWith("alice", "key-7");
+    expect(mockCreate).toHaveBeenCalledTimes(1);
+  });
+
+  it("fails an interrupted call that is not idempotent", async () => {
+    const response = await call(3, "remove_item");
+
+    expect(response.error.code).toBe(JSON_RPC_ERRORS.REQUEST_INTERRUPTED);
+    expect(response.error.data).toMatchObject({
+      reason: "server_restart",
+      tool: "remove_item",
+    });
+  });
+
+  it("runs the call normally once the recovered answer was delivered", async () => {
+    const response = await call(3, "remove_item");
+
+    expect(response.result.structuredContent).toEqual({ removed: true });
+  });
+
+  it("journals new calls until they finish", async () => {
+    await call(4, "create_item", { value: 1 });
+
+    const lines = fs
+      .readFileSync(mockJournalPath, "utf8")
+      .trim()
+      .split("\n")
+      .map((line) => JSON.parse(line));
+    const entry = lines.filter((line) => line.key === `${SESSION_ID}:4`);
+    expect(entry.map((line) => Boolean(line.response))).toEqual([false, true]);
+    // Without an idempotencyKey the call would not be run again
+    expect(entry[0].idempotent).toBe(false);
+  });
+});
@@ -0,0 +1,141 @@
+// MCP Request Journal Tests
+// Accepted and finished calls on disk, recovery by a new process, delivery and compaction
+
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import type { RequestJournal } from "../../src/mcp/request-journal";
+
+const mockJournalPath = path.join(
+  fs.mkdtempSync(path.join(os.tmpdir(), "request-journal-")),
+  "journal.jsonl",
+);
+
+jest.mock("../../src/config", () => ({
+  ...jest.requireActual("../../src/config"),
+  MCP_REQUEST_JOURNAL_PATH: mockJournalPath,
+}));
+
+/**
+ * A fresh journal instance, as a restarted process would have
+ */
+function openJournal(): RequestJournal {
+  let journal: RequestJournal | undefined;
+  jest.isolateModules(() => {
+    journal = require("../../src/mcp/request-journal").requestJournal;
+  });
+  return journal!;
+}
+
+const call = (requestId: number, idempotent = false) => ({
+  key: `session-1:${requestId}`,
+  sessionId: "session-1",
+  requestId,
+  transport: "http" as const,
+  protocolVersion: "2025-06-18",
+  tool: "write_file",
+  params: {
+    name: "write_file",
+    arguments: { path: "a.txt", idempotencyKey: "k" },
+  },
+  idempotent,
+});
+
+const success = (id: number) => ({
+  jsonrpc: "2.0" as const,
+  id,
+  result: { isError: false },
+});
+
+describe("RequestJournal", () => {
+  afterEach(() => {
+    fs.rmSync(mockJournalPath, { force: true });
+  });
+
+  it("hands finished and interrupted calls to the next process", () => {
+    const crashed = openJournal();
+    crashed.accept(call(1));
+    crashed.finish("session-1:1", success(1));
+    crashed.accept(call(2, true));
+    crashed.accept(call(3));
+
+    const entries = openJournal().recover();
+
+    expect(entries.map((entry) => entry.key)).toEqual([
+      "session-1:1",
+      "session-1:2",
+      "session-1:3",
+    ]);
+    expect(entries[0]!.response).toEqual(success(1));
+    expect(entries[1]!.idempotent).toBe(true);
+    expect(entries[1]!.response).toBeUndefined();
+    expect(entries[1]!.params?.arguments.idempotencyKey).toBe("k");
+    // Arguments of calls that are never run again are not kept
+    expect(entries[2]!.params).toBeUndefined();
+  });
+
+  it("never writes arguments that hold secrets", () => {
+    const crashed = openJournal();
+    crashed.accept({
+      ...call(1, true),
+      tool: "execute_in_task",
+      params: {
+        name: "execute_in_task",
+        arguments: {
+          command: "deploy",
+          env: { DEPLOY_TOKEN: "s3cr3t" },
+          idempotencyKey: "k",
+        },
+      },
+    });
+
+    const [entry] = openJournal().recover();
+
+    expect(fs.readFileSync(mockJournalPath, "utf8")).not.toContain("s3cr3t");
+    // Without its arguments the call cannot be replayed
+    expect(entry).toMatchObject({ key: "session-1:1", idempotent: false });
+    expect(entry!.params).toBeUndefined();
+  });
+
+  it("keeps recovered answers across another restart until delivered", () => {
+    const crashed = openJournal();
+    crashed.accept(call(1));
+    crashed.accept(call(2));
+
+    const restarted = openJournal();
+    restarted.recover();
+    restarted.finish("session-1:1", success(1));
+    restarted.delivered("session-1:2");
+
+    const entries = openJournal().recover();
+
+    expect(entries).toHaveLength(1);
+    expect(entries[0]).toMatchObject({
+      key: "session-1:1",
+      response: success(1),
+    });
+  });
+
+  it("compacts calls answered by the running process", () => {
+    const journal = openJournal();
+    journal.recover();
+    journal.accept(call(1));
+    journal.finish("session-1:1", success(1));
+    journal.accept(call(2));
+
+    journal.compact();
+
+    const lines = fs.readFileSync(mockJournalPath, "utf8").trim().split("\n");
+    expect(lines.map((line) => JSON.parse(line).key)).toEqual(["session-1:2"]);
+  });
+
+  it("skips a half-written last line", () => {
+    const crashed = openJournal();
+    crashed.accept(call(1));
+    fs.appendFileSync(mockJournalPath, '{"key":"session-1:2","sess');
+
+    const entries = openJournal().recover();
+
+    expect(entries.map((entry) => entry.key)).toEqual(["session-1:1"]);
+  });
+});
@@ -0,0 +1,78 @@
+// MCP Tool Schema Tests
+// zod to JSON Schema conversion and field-level validation errors
+
+import { z } from "zod";
+import { formatValidationErrors, zodToJsonSchema } from "../../src/mcp/schema";
+
+describe("zodToJsonSchema", () => {
+  it("converts objects with required and optional fields", () => {
+    const schema = z.object({
+      name: z.string().min(1).describe("Task name"),
+      owner: z.string().optional(),
+      timeout: z.number().int().positive().default(30000),
+    });
+
+    expect(zodToJsonSchema(schema)).toEqual({
+      type: "object",
+      properties: {
+        name: { type: "string", minLength: 1, description: "Task name" },
+        owner: { type: "string" },
+        timeout: { type: "integer", exclusiveMinimum: 0, default: 30000 },
+      },
+      required: ["name"],
+    });
+  });
+
+  it("converts unions, arrays, records and enums", () => {
+    const schema = z.object({
+      command: z.union([z.string(), z.array(z.string()).min(1)]),
+      env: z.record(z.string()),
+      status: z.enum(["pending", "running"]),
+    });
+
+    expect(zodToJsonSchema(schema).properties).toEqual({
+      command: {
+        anyOf: [
+          { type: "string" },
+          { type: "array", items: { type: "string" }, minItems: 1 },
+        ],
+      },
+      env: { type: "object", additionalProperties: { type: "string" } },
+      status: { type: "string", enum: ["pending", "running"] },
+    });
+  });
+
+  it("publishes datetime strings with a date-time format", () => {
+    expect(zodToJsonSchema(z.string().datetime({ offset: true }))).toEqual({
+      type: "string",
+      format: "date-time",
+    });
+  });
+
+  it("marks strict objects as closed", () => {
+    const schema = z.object({ taskId: z.string() }).strict();
+
+    expect(zodToJsonSchema(schema).additionalProperties).toBe(false);
+  });
+});
+
+describe("formatValidationErrors", () => {
+  it("reports one error per field with a dotted path", () => {
+    const schema = z.object({
+      taskId: z.string(),
+      env: z.record(z.string()),
+    });
+    const result = schema.safeParse({ env: { PATH: 1 } });
+
+    expect(result.success).toBe(false);
+    const errors = formatValidationErrors((result as any).error);
+    expect(errors).toEqual([
+      { path: "taskId", message: "Required", code: "invalid_type" },
+      {
+        path: "env.PATH",
+        message: "Expected string, received number",
+        code: "invalid_type",
+      },
+    ]);
+  });
+});
@@ -0,0 +1,755 @@
+// MCP Server Protocol Tests
+// JSON-RPC 2.0 framing, initialize handshake, tools/list, tools/call, cancellation, jobs and resources
+
+const mockGetById = jest.fn();
+const mockSignals: AbortSignal[] = [];
+const mockAuditRecord = jest.fn();
+const mockJobStart = jest.fn();
+
+jest.mock("../../src/config", () => ({
+  ...jest.requireActual("../../src/config"),
+  MCP_REQUEST_JOURNAL_PATH: "",
+}));
+
+jest.mock("../../src/auth/api-keys", () => ({
+  apiKeyStore: { authenticate: jest.fn() },
+}));
+
+jest.mock("../../src/audit/tool-audit", () => ({
+  toolAuditLog: { record: mockAuditRecord },
+}));
+
+jest.mock("../../src/mcp/jobs", () => ({
+  jobManager: {
+    start: mockJobStart,
+    recoverInterrupted: jest.fn().mockResolvedValue(0),
+    getRunningJobIds: () => [],
+  },
+}));
+
+jest.mock("../../src/task-registry/registry", () => ({
+  taskRegistry: { getById: mockGetById },
+}));
+
+jest.mock("../../src/task-registry/task-agents", () => ({
+  taskAgentRegistry: { getActive: jest.fn() },
+}));
+
+jest.mock("../../src/mcp/idempotency", () => ({
+  idempotencyStore: { releaseInterrupted: jest.fn() },
+}));
+
+jest.mock("../../src/plugins/loader", () => ({
+  pluginLoader: {
+    loadAll: jest.fn().mockResolvedValue([]),
+    unloadAll: jest.fn().mockResolvedValue(undefined),
+    getTools: () => [],
+  },
+}));
+
+jest.mock("../../src/mcp/tools", () => {
+  const { z } = require("zod");
+  return {
+    TOOL_DEFINITIONS: [
+      {
+        name: "echo",
+        description: "Echo the arguments back",
+        execute: async (params: Record<string, any>) => ({ echoed: params }),
+      },
+      {
+        name: "count",
+        description: "Report progress twice",
+        execute: async (_params: Record<string, any>, context?: any) => {
+          context?.onProgress?.({ progress: 1, message: "one" });
+          context?.onProgress?.({ progress: 2, message: "two" });
+          return { done: true };
+        },
+      },
+      {
+        name: "wait",
+        description: "Run until cancelled, then stop after a short cleanup",
+        execute: (_params: Record<string, any>, context?: any) =>
+          new Promise((resolve) => {
+            mockSignals.push(context.signal);
+            context.signal.addEventListener("abort", () =>
+              setTimeout(() => resolve({ stopped: true }), 20),
+            );
+          }),
+      },
+      {
+        name: "explode",
+        description: "Always fails",
+        execute: async () => {
+          throw new Error("boom");
+        },
+      },
+      {
+        name: "typed",
+        description: "Requires a taskId and an integer count",
+        inputSchema: z.object({
+          taskId: z.string().min(1),
+          count: z.number().int().default(1),
+        }),
+        execute: async (params: Record<string, any>) => params,
+      },
+    ],
+  };
+});
+
+import {
+  MCPServerEnhanced,
+  MCPSession,
+  mcpServerReady,
+} from "../../src/mcp/server";
+import {
+  JSON_RPC_ERRORS,
+  LATEST_PROTOCOL_VERSION,
+} from "../../src/mcp/protocol";
+import { metrics } from "../../src/monitoring/metrics";
+import { multiLayerPersistence } from "../../src/persistence/multi-layer";
+import { checkpointOptimizer } from "../../src/persistence/checkpoint-optimizer";
+
+describe("MCPServerEnhanced protocol", () => {
+  const server = MCPServerEnhanced.getInstance();
+  let session: MCPSession;
+
+  const send = async (message: unknown): Promise<any> => {
+    const reply = await server.handleRawMessage(
+      typeof message === "string" ? message : JSON.stringify(message),
+      session,
+    );
+    return reply === null ? null : JSON.parse(reply);
+  };
+
+  const initialize = () =>
+    send({
+      jsonrpc: "2.0",
+      id: 1,
+      method: "initialize",
+      params: {
+        protocolVersion: "2025-03-26",
+        capabilities: {},
+        clientInfo: { name: "test-client", version: "1.0.0" },
+      },
+    });
+
+  beforeAll(async () => {
+    await mcpServerReady;
+  });
+
+  afterAll(async () => {
+    await server.stop();
+  });
+
+  beforeEach(() => {
+    session = server.createSession("stdio");
+  });
+
+  it("negotiates the protocol version during initialize", async () => {
+    const response = await initialize();
+
+    expect(response.jsonrpc).toBe("2.0");
+    expect(response.id).toBe(1);
+    expect(response.result.protocolVersion).toBe("2025-03-26");
+    expect(response.result.capabilities.tools).toBeDefined();
+    expect(response.result.serverInfo.name).toBe("opencode-tools");
+  });
+
+  it("offers the latest version for unknown client versions", async () => {
+    const response = await send({
+      jsonrpc: "2.0",
+      id: 1,
+      method: "initialize",
+      params: { protocolVersion: "1999-01-01" },
+    });
+
+    expect(response.result.protocolVersion).toBe(LATEST_PROTOCOL_VERSION);
+  });
+
+  it("does not reply to the initialized notification", async () => {
+    await initialize();
+    const reply = await send({
+      jsonrpc: "2.0",
+      method: "notifications/initialized",
+    });
+
+    expect(reply).toBeNull();
+    expect(session.initialized).toBe(true);
+  });
+
+  it("rejects requests before initialize", async () => {
+    const response = await send({
+      jsonrpc: "2.0",
+      id: 7,
+      method: "tools/list",
+    });
+
+    expect(response.error.code).toBe(JSON_RPC_ERRORS.SERVER_NOT_INITIALIZED);
+  });
+
+  it("lists tools with an input schema", async () => {
+    await initialize();
+    const response = await send({
+      jsonrpc: "2.0",
+      id: 2,
+      method: "tools/list",
+    });
+
+    const names = response.result.tools.map((tool: any) => tool.name);
+    expect(names).toEqual(expect.arrayContaining(["echo", "explode"]));
+    expect(response.result.tools[0].inputSchema).toEqual({ type: "object" });
+  });
+
+  it("calls a tool and returns text and structured content", async () => {
+    await initialize();
+    const response = await send({
+      jsonrpc: "2.0",
+      id: "call-1",
+      method: "tools/call",
+      params: { name: "echo", arguments: { value: 42 } },
+    });
+
+    expect(response.id).toBe("call-1");
+    expect(response.result.isError).toBe(false);
+    expect(response.result.structuredContent).toEqual({
+      echoed: { value: 42 },
+    });
+    expect(JSON.parse(response.result.content[0].text)).toEqual({
+      echoed: { value: 42 },
+    });
+  });
+
+  it("reports tool failures in the result", async () => {
+    await initialize();
+    const response = await send({
+      jsonrpc: "2.0",
+      id: 3,
+      method: "tools/call",
+      params: { name: "explode" },
+    });
+
+    expect(response.error).toBeUndefined();
+    expect(response.result.isError).toBe(true);
+    expect(response.result.content[0].text).toBe("boom");
+  });
+
+  it("returns INVALID_PARAMS for unknown tools", async () => {
+    await initialize();
+    const response = await send({
+      jsonrpc: "2.0",
+      id: 4,
+      method: "tools/call",
+      params: { name: "missing" },
+    });
+
+    expect(response.error.code).toBe(JSON_RPC_ERRORS.INVALID_PARAMS);
+  });
+
+  it("returns METHOD_NOT_FOUND for unknown methods", async () => {
+    await initialize();
+    const response = await send({ jsonrpc: "2.0", id: 5, method: "nope" });
+
+    expect(response.error.code).toBe(JSON_RPC_ERRORS.METHOD_NOT_FOUND);
+  });
+
+  it("returns PARSE_ERROR with a null id for malformed JSON", async () => {
+    const response = await send("{not json");
+
+    expect(response.id).toBeNull();
+    expect(response.error.code).toBe(JSON_RPC_ERRORS.PARSE_ERROR);
+  });
+
+  it("returns INVALID_REQUEST for messages without jsonrpc 2.0", async () => {
+    const response = await send({ id: 9, method: "ping" });
+
+    expect(response.id).toBe(9);
+    expect(response.error.code).toBe(JSON_RPC_ERRORS.INVALID_REQUEST);
+  });
+
+  it("answers batches with one response per request", async () => {
+    await initialize();
+    const response = await send([
+      { jsonrpc: "2.0", id: 10, method: "ping" },
+      { jsonrpc: "2.0", method: "notifications/initialized" },
+      { jsonrpc: "2.0", id: 11, method: "tools/list" },
+    ]);
+
+    expect(Array.isArray(response)).toBe(true);
+    expect(response.map((r: any) => r.id)).toEqual([10, 11]);
+  });
+
+  it("forwards tool progress as notifications when a token is given", async () => {
+    await initialize();
+    const notifications: any[] = [];
+    const reply = await server.handleRawMessage(
+      JSON.stringify({
+        jsonrpc: "2.0",
+        id: 12,
+        method: "tools/call",
+        params: { name: "count", _meta: { progressToken: "tok-1" } },
+      }),
+      session,
+      (notification) => notifications.push(notification),
+    );
+
+    expect(JSON.parse(reply as string).result.structuredContent).toEqual({
+      done: true,
+    });
+    expect(notifications).toEqual([
+      {
+        jsonrpc: "2.0",
+        method: "notifications/progress",
+        params: { progressToken: "tok-1", progress: 1, message: "one" },
+      },
+      {
+        jsonrpc: "2.0",
+        method: "notifications/progress",
+        params: { progressToken: "tok-1", progress: 2, message: "two" },
+      },
+    ]);
+  });
+
+  it("sends no progress without a progress token", async () => {
+    await initialize();
+    const notifications: any[] = [];
+    await server.handleRawMessage(
+      JSON.stringify({
+        jsonrpc: "2.0",
+        id: 13,
+        method: "tools/call",
+        params: { name: "count" },
+      }),
+      session,
+      (notification) => notifications.push(notification),
+    );
+
+    expect(notifications).toHaveLength(0);
+  });
+
+  it("publishes tool input schemas as JSON Schema", async () => {
+    await initialize();
+    const response = await send({
+      jsonrpc: "2.0",
+      id: 14,
+      method: "tools/list",
+    });
+
+    const typed = response.result.tools.find(
+      (tool: any) => tool.name === "typed",
+    );
+    expect(typed.inputSchema).toEqual({
+      type: "object",
+      properties: {
+        taskId: { type: "string", minLength: 1 },
+        count: { type: "integer", default: 1 },
+      },
+      required: ["taskId"],
+    });
+  });
+
+  it("rejects invalid arguments with field-level errors", async () => {
+    await initialize();
+    const response = await send({
+      jsonrpc: "2.0",
+      id: 15,
+      method: "tools/call",
+      params: { name: "typed", arguments: { count: 1.5 } },
+    });
+
+    expect(response.error.code).toBe(JSON_RPC_ERRORS.INVALID_PARAMS);
+    expect(response.error.data.tool).toBe("typed");
+    expect(response.error.data.errors.map((e: any) => e.path)).toEqual([
+      "taskId",
+      "count",
+    ]);
+  });
+
+  it("passes parsed arguments with defaults to the tool", async () => {
+    await initialize();
+    const response = await send({
+      jsonrpc: "2.0",
+      id: 16,
+      method: "tools/call",
+      params: { name: "typed", arguments: { taskId: "t-1" } },
+    });
+
+    expect(response.result.structuredContent).toEqual({
+      taskId: "t-1",
+      count: 1,
+    });
+  });
+
+  it("rate limits each caller with a token bucket", async () => {
+    metrics.reset();
+    const batch = Array.from({ length: 31 }, (_, i) => ({
+      jsonrpc: "2.0",
+      id: i,
+      method: "ping",
+    }));
+
+    const responses = await send(batch);
+
+    expect(responses.slice(0, 30).every((r: any) => r.result)).toBe(true);
+    expect(responses[30].error.code).toBe(JSON_RPC_ERRORS.RATE_LIMITED);
+    expect(responses[30].error.data.reason).toBe("rate_limit");
+    expect(responses[30].error.data.retryAfterMs).toBeGreaterThan(0);
+    expect(
+      metrics
+        .getCounters()
+        .find((counter) => counter.name === "mcp_requests_rejected_total")
+        ?.value,
+    ).toBe(1);
+  });
+
+  it("cancels a running request on notifications/cancelled", async () => {
+    await initialize();
+    metrics.reset();
+    const activeRequests = (server as any).state.activeRequests as Map<
+      string,
+      any
+    >;
+    const key = `${session.id}:7`;
+
+    const pending = send({
+      jsonrpc: "2.0",
+      id: 7,
+      method: "tools/call",
+      params: { name: "wait", arguments: {} },
+    });
+    await new Promise((resolve) => setImmediate(resolve));
+    expect(activeRequests.get(key)?.status).toBe("running");
+
+    const ack = await send({
+      jsonrpc: "2.0",
+      method: "notifications/cancelled",
+      params: { requestId: 7, reason: "user pressed stop" },
+    });
+    const response = await pending;
+
+    expect(ack).toBeNull();
+    expect(response.error.code).toBe(JSON_RPC_ERRORS.REQUEST_CANCELLED);
+    expect(response.error.data.reason).toBe("user pressed stop");
+    expect(mockSignals[mockSignals.length - 1]?.aborted).toBe(true);
+    expect(
+      metrics
+        .getCounters()
+        .find((counter) => counter.name === "mcp_requests_cancelled_total")
+        ?.value,
+    ).toBe(1);
+
+    // Listed as cancelled until the handler has stopped
+    expect(activeRequests.get(key)?.status).toBe("cancelled");
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    expect(activeRequests.has(key)).toBe(false);
+  });
+
+  it("ignores cancellation of unknown requests and initialize", async () => {
+    await initialize();
+
+    expect(server.cancelRequest(session.id, 999)).toBe(false);
+    expect(
+      await send({
+        jsonrpc: "2.0",
+        method: "notifications/cancelled",
+        params: { requestId: 1 },
+      }),
+    ).toBeNull();
+  });
+
+  describe("audit trail", () => {
+    beforeEach(async () => {
+      mockAuditRecord.mockClear();
+      await initialize();
+    });
+
+    it("records successful calls with redacted arguments", async () => {
+      await send({
+        jsonrpc: "2.0",
+        id: 2,
+        method: "tools/call",
+        params: {
+          name: "echo",
+          arguments: { taskId: "t-1", env: { API_TOKEN: "s3cret" } },
+        },
+      });
+
+      expect(mockAuditRecord).toHaveBeenCalledTimes(1);
+      const record = mockAuditRecord.mock.calls[0][0];
+      expect(record).toMatchObject({
+        requestId: "2",
+        sessionId: session.id,
+        tool: "echo",
+        taskId: "t-1",
+        outcome: "success",
+        params: { taskId: "t-1", env: { API_TOKEN: "[REDACTED]" } },
+      });
+      expect(record.durationMs).toBeGreaterThanOrEqual(0);
+      expect(record.createdAt).toBeInstanceOf(Date);
+    });
+
+    it("records tool failures and rejected arguments", async () => {
+      await send({
+        jsonrpc: "2.0",
+        id: 2,
+        method: "tools/call",
+        params: { name: "explode", arguments: {} },
+      });
+      await send({
+        jsonrpc: "2.0",
+        id: 3,
+        method: "tools/call",
+        params: { name: "typed", arguments: { taskId: "" } },
+      });
+
+      const [failed, rejected] = mockAuditRecord.mock.calls.map(
+        (call) => call[0],
+      );
+      expect(failed).toMatchObject({
+        tool: "explode",
+        outcome: "error",
+        error: "boom",
+      });
+      expect(rejected).toMatchObject({
+        tool: "typed",
+        outcome: "error",
+        params: { taskId: "" },
+      });
+      expect(rejected.error).toContain("Invalid arguments for typed");
+    });
+  });
+
+  describe("async jobs", () => {
+    let jobRun: Promise<unknown> | undefined;
+
+    beforeEach(async () => {
+      mockAuditRecord.mockClear();
+      mockJobStart.mockReset();
+      mockJobStart.mockImplementation(
+        async (tool: string, _params: any, context: any, run: any) => {
+          jobRun = run({ ...context, signal: new AbortController().signal });
+          return {
+            id: "job-1",
+            tool,
+            status: "running",
+            createdAt: new Date("2026-01-01T00:00:00Z"),
+          };
+        },
+      );
+      await initialize();
+    });
+
+    it("returns a job ID and runs the tool without the async flag", async () => {
+      const response = await send({
+        jsonrpc: "2.0",
+        id: 2,
+        method: "tools/call",
+        params: {
+          name: "typed",
+          arguments: { taskId: "t-1", async: true },
+        },
+      });
+
+      expect(response.result.structuredContent).toEqual({
+        success: true,
+        jobId: "job-1",
+        tool: "typed",
+        status: "running",
+        createdAt: "2026-01-01T00:00:00.000Z",
+      });
+      expect(mockJobStart.mock.calls[0][1]).toEqual({
+        taskId: "t-1",
+        count: 1,
+      });
+      await expect(jobRun).resolves.toEqual({ taskId: "t-1", count: 1 });
+    });
+
+    it("audits the call when the job finishes", async () => {
+      await send({
+        jsonrpc: "2.0",
+        id: 2,
+        method: "tools/call",
+        params: { name: "explode", arguments: { async: true } },
+      });
+      await expect(jobRun).rejects.toThrow("boom");
+
+      expect(mockAuditRecord).toHaveBeenCalledTimes(1);
+      expect(mockAuditRecord.mock.calls[0][0]).toMatchObject({
+        tool: "explode",
+        outcome: "error",
+        error: "boom",
+      });
+    });
+
+    it("validates arguments before starting a job", async () => {
+      const response = await send({
+        jsonrpc: "2.0",
+        id: 2,
+        method: "tools/call",
+        params: { name: "typed", arguments: { async: true } },
+      });
+
+      expect(response.error.code).toBe(JSON_RPC_ERRORS.INVALID_PARAMS);
+      expect(mockJobStart).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("resources", () => {
+    const taskId = `resource-test-${process.pid}`;
+    const uri = (artifact: string) => `task://${taskId}/${artifact}`;
+    const state = (step: number) => ({
+      taskId,
+      status: "running",
+      data: { step },
+      lastUpdated: new Date().toISOString(),
+    });
+
+    beforeEach(async () => {
+      mockGetById.mockImplementation(async (id: string) =>
+        id === taskId ? { id, name: "Resource test" } : null,
+      );
+      await initialize();
+    });
+
+    afterAll(async () => {
+      await multiLayerPersistence.cleanup(taskId);
+    });
+
+    it("advertises resource subscriptions", async () => {
+      session = server.createSession("stdio");
+      const response = await initialize();
+
+      expect(response.result.capabilities.resources).toEqual({
+        subscribe: true,
+        listChanged: false,
+      });
+    });
+
+    it("reads task state as JSON", async () => {
+      await multiLayerPersistence.saveState(taskId, state(1));
+
+      const response = await send({
+        jsonrpc: "2.0",
+        id: 2,
+        method: "resources/read",
+        params: { uri: uri("state") },
+      });
+
+      const [content] = response.result.contents;
+      expect(content.uri).toBe(uri("state"));
+      expect(content.mimeType).toBe("application/json");
+      expect(JSON.parse(content.text).data).toEqual({ step: 1 });
+    });
+
+    it("reads artifacts that were never written as empty", async () => {
+      const response = await send({
+        jsonrpc: "2.0",
+        id: 2,
+        method: "resources/read",
+        params: { uri: uri("plan") },
+      });
+
+      expect(response.result.contents[0].text).toBe("");
+    });
+
+    it("returns RESOURCE_NOT_FOUND for unknown tasks", async () => {
+      const response = await send({
+        jsonrpc: "2.0",
+        id: 2,
+        method: "resources/read",
+        params: { uri: "task://missing/plan" },
+      });
+
+      expect(response.error.code).toBe(JSON_RPC_ERRORS.RESOURCE_NOT_FOUND);
+    });
+
+    it("rejects URIs outside the task scheme", async () => {
+      const response = await send({
+        jsonrpc: "2.0",
+        id: 2,
+        method: "resources/read",
+        params: { uri: `task://${taskId}/secrets` },
+      });
+
+      expect(response.error.code).toBe(JSON_RPC_ERRORS.INVALID_PARAMS);
+    });
+
+    it("notifies subscribers when an artifact changes", async () => {
+      const notify = jest.fn();
+      session.notify = notify;
+
+      await send({
+        jsonrpc: "2.0",
+        id: 2,
+        method: "resources/subscribe",
+        params: { uri: uri("logs") },
+      });
+      await multiLayerPersistence.saveState(taskId, state(2));
+      await multiLayerPersistence.appendLog(taskId, {
+        timestamp: new Date().toISOString(),
+        level: "info",
+        message: "hello",
+      });
+
+      expect(notify).toHaveBeenCalledTimes(1);
+      expect(notify).toHaveBeenCalledWith({
+        jsonrpc: "2.0",
+        method: "notifications/resources/updated",
+        params: { uri: uri("logs") },
+      });
+    });
+
+    it("notifies subscribers of a checkpoint when it is deleted", async () => {
+      const notify = jest.fn();
+      session.notify = notify;
+      const checkpointId = await multiLayerPersistence.createCheckpoint(
+        taskId,
+        "Before refactor",
+      );
+
+      await send({
+        jsonrpc: "2.0",
+        id: 2,
+        method: "resources/subscribe",
+        params: { uri: `${uri("checkpoints")}/${checkpointId}` },
+      });
+      await checkpointOptimizer.rotateCheckpoints(taskId, {
+        keepLastN: 0,
+        keepDaily: 0,
+        keepWeekly: 0,
+      });
+
+      expect(notify).toHaveBeenCalledTimes(1);
+      expect(notify).toHaveBeenCalledWith({
+        jsonrpc: "2.0",
+        method: "notifications/resources/updated",
+        params: { uri: `${uri("checkpoints")}/${checkpointId}` },
+      });
+    });
+
+    it("stops notifying after unsubscribe", async () => {
+      const notify = jest.fn();
+      session.notify = notify;
+
+      await send({
+        jsonrpc: "2.0",
+        id: 2,
+        method: "resources/subscribe",
+        params: { uri: uri("decisions") },
+      });
+      await send({
+        jsonrpc: "2.0",
+        id: 3,
+        method: "resources/unsubscribe",
+        params: { uri: uri("decisions") },
+      });
+      await multiLayerPersistence.appendDecision(taskId, {
+        timestamp: new Date().toISOString(),
+        agentId: "agent-1",
+        decision: "Use tabs",
+        reasoning: "Consistency",
+      });
+
+      expect(notify).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,186 @@
+// MCP Tool Definition Tests
+// Named tool exports, the tool list they come from, and access by role
+
+const mockGetById = jest.fn();
+const mockGetActive = jest.fn();
+
+jest.mock("../../src/persistence/database", () => ({
+  DatabaseManager: { getInstance: () => ({ getDatabase: () => ({}) }) },
+}));
+
+jest.mock("../../src/docker/manager", () => ({
+  DockerManager: { getInstance: () => ({}) },
+}));
+
+jest.mock("../../src/util/lock-manager", () => ({
+  lockManager: { withLock: jest.fn() },
+}));
+
+jest.mock("../../src/task-registry/registry", () => ({
+  taskRegistry: { getById: mockGetById },
+}));
+
+jest.mock("../../src/task-registry/task-agents", () => ({
+  taskAgentRegistry: { getActive: mockGetActive },
+}));
+
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import * as tools from "../../src/mcp/tools";
+
+describe("MCP tool exports", () => {
+  it("exports every tool under the identifier of its name", () => {
+    const toIdentifier = (name: string) =>
+      name.replace(/_(\w)/g, (_match, letter: string) => letter.toUpperCase());
+    // Names whose export drops the "_to_task" suffix
+    const aliases: Record<string, string> = {
+      attach_agent_to_task: "attachAgentTool",
+      detach_agent_from_task: "detachAgentTool",
+    };
+
+    const exported = Object.entries(tools).filter(([identifier]) =>
+      identifier.endsWith("Tool"),
+    );
+
+    for (const [identifier, tool] of exported) {
+      const name = (tool as { name: string }).name;
+      expect(aliases[name] ?? `${toIdentifier(name)}Tool`).toBe(identifier);
+    }
+    expect(exported.map(([, tool]) => tool)).toEqual(
+      expect.arrayContaining([...tools.TOOL_DEFINITIONS]),
+    );
+    expect(exported).toHaveLength(tools.TOOL_DEFINITIONS.length);
+  });
+});
+
+describe("MCP read tools", () => {
+  const originalWorkspace = process.env.OPENCODE_WORKSPACE;
+  const context = {
+    requestId: 1,
+    sessionId: "session-1",
+    principal: { keyId: "key-a", agentId: "agent-a", owner: "alice" },
+  };
+  let base: string;
+
+  beforeEach(() => {
+    base = fs.mkdtempSync(path.join(os.tmpdir(), "read-tools-"));
+    process.env.OPENCODE_WORKSPACE = base;
+    fs.mkdirSync(path.join(base, "t-1"));
+    fs.writeFileSync(path.join(base, "t-1", "README.md"), "hello\n");
+    mockGetById.mockResolvedValue({
+      id: "t-1",
+      owner: "alice",
+      status: "paused",
+    });
+  });
+
+  afterEach(() => {
+    process.env.OPENCODE_WORKSPACE = originalWorkspace;
+    fs.rmSync(base, { recursive: true, force: true });
+  });
+
+  it("refuses agents that are not attached to the task", async () => {
+    mockGetActive.mockResolvedValue(null);
+
+    await expect(
+      tools.readFileTool.execute({ taskId: "t-1", path: "README.md" }, context),
+    ).rejects.toThrow("Agent agent-a is not attached to task t-1");
+    await expect(
+      tools.listDirectoryTool.execute({ taskId: "t-1", path: "." }, context),
+    ).rejects.toThrow("Agent agent-a is not attached to task t-1");
+    await expect(
+      tools.getTaskStatusTool.execute({ taskId: "t-1" }, context),
+    ).rejects.toThrow("Agent agent-a is not attached to task t-1");
+    await expect(
+      tools.listCheckpointsTool.execute({ taskId: "t-1" }, context),
+    ).rejects.toThrow("Agent agent-a is not attached to task t-1");
+  });
+
+  it("lets observers read a paused task", async () => {
+    mockGetActive.mockResolvedValue({
+      taskId: "t-1",
+      agentId: "agent-a",
+      role: "observer",
+    });
+
+    await expect(
+      tools.readFileTool.execute({ taskId: "t-1", path: "README.md" }, context),
+    ).resolves.toMatchObject({ success: true, content: "hello" });
+  });
+});
+
+describe("MCP lifecycle tools", () => {
+  const context = {
+    requestId: 1,
+    sessionId: "session-1",
+    principal: { keyId: "key-a", agentId: "agent-a", owner: "alice" },
+  };
+
+  it("refuses observers", async () => {
+    mockGetById.mockResolvedValue({
+      id: "t-1",
+      owner: "alice",
+      status: "running",
+    });
+    mockGetActive.mockResolvedValue({
+      taskId: "t-1",
+      agentId: "agent-a",
+      role: "observer",
+    });
+
+    for (const call of [
+      () => tools.stopTaskTool.execute({ taskId: "t-1" }, context),
+      () => tools.pauseTaskTool.execute({ taskId: "t-1" }, context),
+      () => tools.resumeTaskTool.execute({ taskId: "t-1" }, context),
+      () =>
+        tools.blockTaskTool.execute({ taskId: "t-1", reason: "CI" }, context),
+      () => tools.deleteTaskTool.execute({ taskId: "t-1" }, context),
+    ]) {
+      await expect(call()).rejects.toThrow(
+        "Agent agent-a (observer) may not write in task t-1",
+      );
+    }
+  });
+});
+
+describe("create_task_sandbox", () => {
+  const context = {
+    requestId: 1,
+    sessionId: "session-1",
+    principal: { keyId: "key-a", agentId: "agent-a", owner: "alice" },
+  };
+
+  it("refuses a caller-supplied container ID", async () => {
+    await expect(
+      tools.createTaskSandboxTool.execute(
+        { name: "Build", metadata: { containerId: "host-db" } },
+        context,
+      ),
+    ).rejects.toThrow("metadata.containerId is set by the server");
+  });
+
+  it("refuses images outside the allowlist", async () => {
+    await expect(
+      tools.createTaskSandboxTool.execute(
+        { name: "Build", metadata: { image: "attacker/miner:latest" } },
+        context,
+      ),
+    ).rejects.toThrow("Image is not allowed for tasks: attacker/miner:latest");
+  });
+});
+
+describe("task ID validation", () => {
+  it("rejects IDs that could leave the data directory", () => {
+    for (const taskId of ["../../..", "a/b", ".", ""]) {
+      expect(
+        tools.deleteTaskTool.inputSchema.safeParse({ taskId }).success,
+      ).toBe(false);
+    }
+    expect(
+      tools.deleteTaskTool.inputSchema.safeParse({
+        taskId: "task_1700000000000",
+      }).success,
+    ).toBe(true);
+  });
+});
@@ -0,0 +1,173 @@
+// Checkpoint Tests
+// Reading compressed checkpoints, restoring state and diffing snapshots
+
+import { promises as fs } from "fs";
+import { join } from "path";
+import { checkpointOptimizer } from "../../src/persistence/checkpoint-optimizer";
+import { diffCheckpoints } from "../../src/persistence/checkpoint-diff";
+import { logger } from "../../src/util/logger";
+import {
+  multiLayerPersistence,
+  TaskState,
+} from "../../src/persistence/multi-layer";
+
+const taskId = `checkpoint-test-${process.pid}`;
+
+const state = (data: Record<string, any>): TaskState => ({
+  taskId,
+  status: "running",
+  data,
+  lastUpdated: new Date().toISOString(),
+});
+
+const log = (message: string) => ({
+  timestamp: new Date().toISOString(),
+  level: "info",
+  message,
+});
+
+describe("checkpoints", () => {
+  beforeEach(async () => {
+    await multiLayerPersistence.cleanup(taskId);
+    await multiLayerPersistence.saveState(taskId, state({ step: 1 }));
+  });
+
+  afterAll(async () => {
+    await multiLayerPersistence.cleanup(taskId);
+  });
+
+  it("round-trips state through saveState and loadState", async () => {
+    const loaded = await multiLayerPersistence.loadState(taskId);
+
+    expect(loaded?.data).toEqual({ step: 1 });
+    expect(loaded).not.toHaveProperty("checksum");
+  });
+
+  it("loads state files written with the legacy zero checksum", async () => {
+    const legacy = { ...state({ step: 1 }), checksum: "0".repeat(90) };
+    await fs.writeFile(
+      join(process.cwd(), "data", "tasks", taskId, "state.json"),
+      JSON.stringify(legacy, null, 2),
+      "utf-8",
+    );
+
+    const warn = jest.spyOn(logger, "warn");
+
+    try {
+      const loaded = await multiLayerPersistence.loadState(taskId);
+
+      expect(loaded?.data).toEqual({ step: 1 });
+      expect(warn).toHaveBeenCalledWith(
+        "Loaded state without a verifiable checksum",
+        expect.objectContaining({ taskId }),
+      );
+    } finally {
+      warn.mockRestore();
+    }
+  });
+
+  it("rejects state files whose checksum does not match", async () => {
+    const tampered = { ...state({ step: 1 }), checksum: "f".repeat(64) };
+    await fs.writeFile(
+      join(process.cwd(), "data", "tasks", taskId, "state.json"),
+      JSON.stringify(tampered, null, 2),
+      "utf-8",
+    );
+
+    await expect(multiLayerPersistence.loadState(taskId)).rejects.toThrow(
+      new RegExp(
+        `checksum mismatch \\(expected \\w+, got ${"f".repeat(64)}\\)`,
+      ),
+    );
+  });
+
+  it("gives checkpoints created in the same millisecond distinct IDs", async () => {
+    const ids = await Promise.all([
+      multiLayerPersistence.createCheckpoint(taskId, "a"),
+      multiLayerPersistence.createCheckpoint(taskId, "b"),
+    ]);
+
+    expect(new Set(ids).size).toBe(2);
+  });
+
+  it("reads and restores checkpoints compressed by the optimizer", async () => {
+    await multiLayerPersistence.appendLog(taskId, log("before"));
+    const id = await checkpointOptimizer.createIncrementalCheckpoint(
+      taskId,
+      "Before risky edit",
+    );
+    await multiLayerPersistence.saveState(taskId, state({ step: 2 }));
+
+    const [listed] = await multiLayerPersistence.listCheckpoints(taskId);
+    expect(listed?.id).toBe(id);
+    expect(listed?.description).toBe("Before risky edit");
+
+    await multiLayerPersistence.restoreCheckpoint(taskId, id);
+
+    const restored = await multiLayerPersistence.loadState(taskId);
+    expect(restored?.data).toEqual({ step: 1 });
+  });
+
+  it("skips an incremental checkpoint when the state did not change", async () => {
+    const first = await checkpointOptimizer.createIncrementalCheckpoint(taskId);
+    const second =
+      await checkpointOptimizer.createIncrementalCheckpoint(taskId);
+
+    expect(second).toBe(first);
+  });
+
+  it("rejects checkpoint IDs that leave the checkpoints directory", async () => {
+    await expect(
+      multiLayerPersistence.loadCheckpoint(taskId, "../state.json"),
+    ).rejects.toThrow("Invalid checkpoint ID");
+  });
+
+  it("rejects task IDs that leave the data directory", async () => {
+    await expect(multiLayerPersistence.cleanup("../../..")).rejects.toThrow(
+      "Invalid task ID: ../../..",
+    );
+  });
+
+  it("reports unknown checkpoints", async () => {
+    await expect(
+      multiLayerPersistence.restoreCheckpoint(taskId, "checkpoint_1"),
+    ).rejects.toThrow("Checkpoint not found: checkpoint_1");
+  });
+});
+
+describe("diffCheckpoints", () => {
+  it("reports added, removed and changed state paths", () => {
+    const diff = diffCheckpoints(
+      {
+        id: "checkpoint_1",
+        state: state({ step: 1, files: ["a"], progress: { done: 1, old: 1 } }),
+        logs: [log("one")],
+      },
+      {
+        id: "current",
+        state: state({ step: 2, files: ["a"], progress: { done: 2 }, next: 3 }),
+        logs: [log("one"), log("two")],
+      },
+    );
+
+    expect(diff.from).toBe("checkpoint_1");
+    expect(diff.to).toBe("current");
+    expect(diff.changes).toEqual([
+      { path: "next", change: "added", after: 3 },
+      { path: "progress.done", change: "changed", before: 1, after: 2 },
+      { path: "progress.old", change: "removed", before: 1 },
+      { path: "step", change: "changed", before: 1, after: 2 },
+    ]);
+    expect(diff.logs).toEqual({ before: 1, after: 2 });
+  });
+
+  it("treats a missing state as empty", () => {
+    const diff = diffCheckpoints(
+      { id: "checkpoint_1", state: null, logs: [] },
+      { id: "checkpoint_2", state: state({ step: 1 }), logs: [] },
+    );
+
+    expect(diff.status).toEqual({ before: null, after: "running" });
+    expect(diff.changes).toEqual([{ path: "step", change: "added", after: 1 }]);
+  });
+});
@@ -0,0 +1,226 @@
+// Plugin Loader Tests
+// Discovery from a directory, scoped context, tools, hooks, health checks and disabling
+
+const mockGetById = jest.fn();
+
+jest.mock("../../src/task-registry/registry", () => ({
+  taskRegistry: { getById: mockGetById },
+}));
+
+jest.mock("../../src/docker/manager", () => ({
+  DockerManager: { getInstance: () => ({ docker: true }) },
+}));
+
+jest.mock("../../src/monitoring/health", () => {
+  const checks = new Map<string, () => Promise<any>>();
+  return {
+    health: {
+      registerCheck: (name: string, check: () => Promise<any>) =>
+        checks.set(name, check),
+      unregisterCheck: (name: string) => checks.delete(name),
+      checkOne: async (name: string) =>
+        (checks.get(name) ?? (async () => null))(),
+    },
+  };
+});
+
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { pluginLoader } from "../../src/plugins";
+import { health } from "../../src/monitoring/health";
+import { taskLifecycleHooks } from "../../src/hooks/task-lifecycle";
+
+const HELLO_PLUGIN = `
+let tornDown = 0;
+module.exports = {
+  name: "hello",
+  version: "1.2.0",
+  setup(context) {
+    return {
+      tools: [
+        {
+          name: "hello_task",
+          description: "Greet a task",
+          execute: async (params) => {
+            const task = await context.taskRegistry.getById(params.taskId);
+            return { plugin: context.name, task: task.name, docker: context.docker.docker };
+          },
+        },
+      ],
+      hooks: { afterTaskComplete: async () => {} },
+      healthChecks: [
+        { name: "upstream", check: async () => ({ status: "warning", message: "slow" }) },
+      ],
+    };
+  },
+  teardown() {
+    tornDown++;
+    module.exports.tornDown = tornDown;
+  },
+};
+`;
+
+describe("PluginLoader", () => {
+  let dir: string;
+
+  const writePlugin = (file: string, source: string) =>
+    fs.writeFileSync(path.join(dir, file), source);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "plugins-"));
+  });
+
+  afterEach(async () => {
+    await pluginLoader.unloadAll();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("sets up plugins with a scoped context and registers their contributions", async () => {
+    writePlugin("hello.js", HELLO_PLUGIN);
+    writePlugin("README.md", "not a plugin");
+    mockGetById.mockResolvedValue({ id: "task-1", name: "Build" });
+
+    const [info] = await pluginLoader.loadAll({ dir, packages: [] });
+
+    expect(info).toMatchObject({
+      name: "hello",
+      version: "1.2.0",
+      status: "loaded",
+      tools: ["hello_task"],
+      hooks: ["afterTaskComplete"],
+      healthChecks: ["plugin:hello:upstream"],
+    });
+
+    const [tool] = pluginLoader.getTools();
+    await expect(tool!.execute({ taskId: "task-1" })).resolves.toEqual({
+      plugin: "hello",
+      task: "Build",
+      docker: true,
+    });
+    expect(taskLifecycleHooks.getHooksByType("afterTaskComplete")).toHaveLength(
+      1,
+    );
+    await expect(
+      health.checkOne("plugin:hello:upstream"),
+    ).resolves.toMatchObject({
+      name: "plugin:hello:upstream",
+      status: "warning",
+      message: "slow",
+    });
+  });
+
+  it("removes hooks and health checks and tears plugins down on unload", async () => {
+    writePlugin("hello.js", HELLO_PLUGIN);
+    await pluginLoader.loadAll({ dir, packages: [] });
+
+    await pluginLoader.unloadAll();
+
+    expect(pluginLoader.getTools()).toEqual([]);
+    expect(taskLifecycleHooks.getHooksByType("afterTaskComplete")).toHaveLength(
+      0,
+    );
+    await expect(health.checkOne("plugin:hello:upstream")).resolves.toBeNull();
+    expect(require(path.join(dir, "hello.js")).tornDown).toBe(1);
+  });
+
+  it("skips disabled plugins without setting them up", async () => {
+    writePlugin(
+      "off.js",
+      `module.exports = { name: "off", setup() { throw new Error("set up"); } };`,
+    );
+
+    const [info] = await pluginLoader.loadAll({
+      dir,
+      packages: [],
+      disabled: ["off"],
+    });
+
+    expect(info).toMatchObject({ name: "off", status: "disabled" });
+    expect(pluginLoader.getTools()).toEqual([]);
+  });
+
+  it("skips disabled plugins by file or package name without running them", async () => {
+    writePlugin("noisy.js", `throw new Error("module ran");`);
+    fs.mkdirSync(path.join(dir, "pkg"));
+    writePlugin("pkg/package.json", JSON.stringify({ name: "named-plugin" }));
+    writePlugin("pkg/index.js", `throw new Error("module ran");`);
+
+    const results = await pluginLoader.loadAll({
+      dir,
+      packages: [],
+      disabled: ["noisy", "named-plugin"],
+    });
+
+    expect(results).toEqual([
+      expect.objectContaining({ name: "noisy", status: "disabled" }),
+      expect.objectContaining({ name: "named-plugin", status: "disabled" }),
+    ]);
+  });
+
+  it("rejects hook names inherited from Object.prototype", async () => {
+    writePlugin(
+      "proto.js",
+      `module.exports = {
+        name: "proto",
+        setup: () => ({ hooks: { toString: async () => {} } }),
+      };`,
+    );
+
+    const [info] = await pluginLoader.loadAll({ dir, packages: [] });
+
+    expect(info).toMatchObject({
+      status: "failed",
+      error: "Unknown hook: toString",
+    });
+  });
+
+  it("fails plugins that clash with built-in tools or are invalid, and loads the rest", async () => {
+    writePlugin(
+      "a-clash.js",
+      `module.exports = {
+        name: "clash",
+        setup: () => ({
+          tools: [{ name: "read_file", description: "x", execute: async () => ({}) }],
+        }),
+      };`,
+    );
+    writePlugin("b-invalid.js", `module.exports = { version: "1.0.0" };`);
+    writePlugin("c-hello.js", HELLO_PLUGIN);
+    writePlugin(
+      "d-partial.js",
+      `const check = { name: "twice", check: async () => ({ status: "healthy", message: "ok" }) };
+      module.exports = {
+        name: "partial",
+        setup: () => ({
+          hooks: { beforeTaskStart: async () => {} },
+          healthChecks: [check, check],
+        }),
+      };`,
+    );
+
+    const results = await pluginLoader.loadAll({
+      dir,
+      packages: [],
+      reservedToolNames: ["read_file"],
+    });
+
+    expect(results.map((info) => info.status)).toEqual([
+      "failed",
+      "failed",
+      "loaded",
+      "failed",
+    ]);
+    expect(results[0]!.error).toBe("Tool name already registered: read_file");
+    expect(results[1]!.error).toContain("Not a plugin");
+    expect(results[3]!.error).toBe("Duplicate health check: twice");
+    expect(pluginLoader.getTools().map((tool) => tool.name)).toEqual([
+      "hello_task",
+    ]);
+    // The partial plugin's hook is rolled back with it
+    expect(taskLifecycleHooks.getHooksByType("beforeTaskStart")).toHaveLength(
+      0,
+    );
+  });
+});
@@ -0,0 +1,65 @@
+// Task Registry Page Tests
+// listPage trims the look-ahead row, reports totals and issues cursors
+
+jest.mock("../../src/persistence/database", () => ({
+  DatabaseManager: { getInstance: () => ({ getDatabase: () => ({}) }) },
+}));
+
+import { taskRegistry } from "../../src/task-registry/registry";
+import { buildCursorCondition } from "../../src/task-registry/query";
+import type { Task } from "../../src/types";
+
+const makeTask = (id: string): Task => ({
+  id,
+  name: id,
+  status: "pending",
+  createdAt: new Date("2026-01-01T00:00:00Z"),
+  updatedAt: new Date("2026-01-01T00:00:00Z"),
+});
+
+describe("TaskRegistry.listPage", () => {
+  let list: jest.SpyInstance;
+  let count: jest.SpyInstance;
+
+  beforeEach(() => {
+    list = jest.spyOn(taskRegistry, "list");
+    count = jest.spyOn(taskRegistry, "count").mockResolvedValue(3);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("returns a cursor when more tasks follow", async () => {
+    list.mockResolvedValue([makeTask("t3"), makeTask("t2"), makeTask("t1")]);
+
+    const page = await taskRegistry.listPage({ owner: "alice", limit: 2 });
+
+    expect(list).toHaveBeenCalledWith({ owner: "alice", limit: 3 });
+    expect(count).toHaveBeenCalledWith({ owner: "alice", limit: 2 });
+    expect(page.tasks.map((task) => task.id)).toEqual(["t3", "t2"]);
+    expect(page.total).toBe(3);
+    expect(page.nextCursor).not.toBeNull();
+    expect(() =>
+      buildCursorCondition({ cursor: page.nextCursor as string }),
+    ).not.toThrow();
+  });
+
+  it("returns no cursor on the last page", async () => {
+    list.mockResolvedValue([makeTask("t1")]);
+
+    const page = await taskRegistry.listPage({ limit: 2 });
+
+    expect(page.tasks).toHaveLength(1);
+    expect(page.nextCursor).toBeNull();
+  });
+
+  it("returns every task when no limit is given", async () => {
+    list.mockResolvedValue([makeTask("t2"), makeTask("t1")]);
+
+    const page = await taskRegistry.listPage();
+
+    expect(list).toHaveBeenCalledWith({ limit: undefined });
+    expect(page.nextCursor).toBeNull();
+  });
+});
@@ -0,0 +1,129 @@
+// Task Query Tests
+// Filter conditions, ordering and keyset cursors for TaskRegistry.list
+
+import { PgDialect } from "drizzle-orm/pg-core";
+import type { SQL } from "drizzle-orm";
+import {
+  buildCursorCondition,
+  buildTaskConditions,
+  buildTaskOrder,
+  encodeTaskCursor,
+} from "../../src/task-registry/query";
+import type { Task } from "../../src/types";
+
+const dialect = new PgDialect();
+const render = (condition: SQL | undefined) =>
+  condition ? dialect.sqlToQuery(condition) : undefined;
+
+const task: Task = {
+  id: "task-b",
+  name: "Build",
+  status: "running",
+  createdAt: new Date("2026-01-02T03:04:05.678Z"),
+  updatedAt: new Date("2026-01-03T00:00:00.000Z"),
+};
+
+describe("buildTaskConditions", () => {
+  it("returns no condition without filters", () => {
+    expect(buildTaskConditions({})).toBeUndefined();
+  });
+
+  it("combines status, owner and date range filters", () => {
+    const query = render(
+      buildTaskConditions({
+        status: "running",
+        owner: "alice",
+        createdAfter: new Date("2026-01-01T00:00:00Z"),
+        createdBefore: new Date("2026-02-01T00:00:00Z"),
+      }),
+    );
+
+    expect(query?.sql).toBe(
+      '("tasks"."status" = $1 and "tasks"."owner" = $2 and "tasks"."createdAt" >= $3 and "tasks"."createdAt" < $4)',
+    );
+    expect(query?.params.slice(0, 2)).toEqual(["running", "alice"]);
+  });
+
+  it("matches tags and metadata by JSON containment", () => {
+    const query = render(
+      buildTaskConditions({
+        tags: ["bug", "p1"],
+        metadata: { agentId: "agent-1" },
+      }),
+    );
+
+    expect(query?.sql).toBe(
+      '("tasks"."metadata" @> $1::jsonb and "tasks"."metadata" @> $2::jsonb)',
+    );
+    expect(query?.params).toEqual([
+      '{"tags":["bug","p1"]}',
+      '{"agentId":"agent-1"}',
+    ]);
+  });
+});
+
+describe("buildTaskOrder", () => {
+  it("sorts newest first with the ID as tie-breaker by default", () => {
+    const order = buildTaskOrder({}).map((part) => render(part)?.sql);
+
+    expect(order).toEqual(['"tasks"."createdAt" desc', '"tasks"."id" desc']);
+  });
+
+  it("honours the requested column and direction", () => {
+    const order = buildTaskOrder({ sortBy: "name", sortOrder: "asc" }).map(
+      (part) => render(part)?.sql,
+    );
+
+    expect(order).toEqual(['"tasks"."name" asc', '"tasks"."id" asc']);
+  });
+});
+
+describe("task cursors", () => {
+  it("selects tasks after the cursor position", () => {
+    const cursor = encodeTaskCursor(task, {});
+    const query = render(buildCursorCondition({ cursor }));
+
+    expect(query?.sql).toBe(
+      '("tasks"."createdAt" < $1 or ("tasks"."createdAt" = $2 and "tasks"."id" < $3))',
+    );
+    expect(query?.params[2]).toBe("task-b");
+  });
+
+  it("uses the name as sort value when sorting by name", () => {
+    const filters = { sortBy: "name" as const, sortOrder: "asc" as const };
+    const cursor = encodeTaskCursor(task, filters);
+    const query = render(buildCursorCondition({ ...filters, cursor }));
+
+    expect(query?.sql).toBe(
+      '("tasks"."name" > $1 or ("tasks"."name" = $2 and "tasks"."id" > $3))',
+    );
+    expect(query?.params).toEqual(["Build", "Build", "task-b"]);
+  });
+
+  it("rejects cursors issued for another sort", () => {
+    const cursor = encodeTaskCursor(task, {});
+
+    expect(() => buildCursorCondition({ cursor, sortBy: "name" })).toThrow(
+      "Cursor was issued for sort createdAt desc",
+    );
+  });
+
+  it("rejects malformed cursors", () => {
+    for (const cursor of [
+      "not-a-cursor",
+      Buffer.from("{}").toString("base64url"),
+    ]) {
+      expect(() => buildCursorCondition({ cursor })).toThrow(
+        expect.objectContaining({ code: "INVALID_CURSOR" }),
+      );
+    }
+  });
+
+  it("rejects combining a cursor with an offset", () => {
+    const cursor = encodeTaskCursor(task, {});
+
+    expect(() => buildCursorCondition({ cursor, offset: 10 })).toThrow(
+      "Use either cursor or offset, not both",
+    );
+  });
+});
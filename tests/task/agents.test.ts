@@ -0,0 +1,241 @@
+// Task Agent Attachment Tests
+// Roles, writer limits, and pausing when the last writer detaches
+
+const mockGetById = jest.fn();
+const mockUpdate = jest.fn();
+const mockAttach = jest.fn();
+const mockDetach = jest.fn();
+const mockListActive = jest.fn();
+const mockPause = jest.fn();
+const mockUnpause = jest.fn();
+
+jest.mock("../../src/task-registry/registry", () => ({
+  taskRegistry: { getById: mockGetById, update: mockUpdate },
+}));
+
+jest.mock("../../src/task-registry/task-agents", () => ({
+  taskAgentRegistry: {
+    attach: mockAttach,
+    detach: mockDetach,
+    listActive: mockListActive,
+  },
+}));
+
+jest.mock("../../src/task-registry/task-dependencies", () => ({
+  taskDependencyRegistry: { listPrerequisites: async () => [] },
+}));
+
+jest.mock("../../src/docker/manager", () => ({
+  DockerManager: {
+    getInstance: () => ({
+      assertTaskContainer: async () => undefined,
+      pauseContainer: mockPause,
+      unpauseContainer: mockUnpause,
+    }),
+  },
+}));
+
+jest.mock("../../src/persistence/multi-layer", () => ({
+  multiLayerPersistence: { appendLog: jest.fn() },
+}));
+
+jest.mock("../../src/util/lock-manager", () => ({
+  lockManager: {
+    withLock: (_resource: string, _owner: string, fn: () => Promise<any>) =>
+      fn(),
+  },
+}));
+
+jest.mock("../../src/hooks/task-lifecycle", () => ({
+  taskLifecycleHooks: {
+    executeBeforeTaskStart: jest.fn(),
+    executeAfterTaskStart: jest.fn(),
+    executeBeforeTaskPause: jest.fn(),
+    executeAfterTaskPause: jest.fn(),
+    executeBeforeTaskResume: jest.fn(),
+    executeAfterTaskResume: jest.fn(),
+  },
+}));
+
+jest.mock("../../src/config", () => ({
+  ...jest.requireActual("../../src/config"),
+  TASK_MAX_WRITERS: 2,
+}));
+
+import { taskLifecycle } from "../../src/task/lifecycle";
+import { isWriterRole, roleAllows } from "../../src/task/agent-roles";
+import type { Task, TaskAgent, TaskAgentRole } from "../../src/types";
+
+const makeTask = (overrides: Partial<Task> = {}): Task => ({
+  id: "task-1",
+  name: "Task",
+  status: "running",
+  metadata: { containerId: "container-1" },
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...overrides,
+});
+
+const agent = (agentId: string, role: TaskAgentRole): TaskAgent => ({
+  taskId: "task-1",
+  agentId,
+  role,
+  attachedAt: new Date(),
+});
+
+describe("agent roles", () => {
+  it("lets writers edit, reviewers execute and observers only read", () => {
+    expect(isWriterRole("owner")).toBe(true);
+    expect(isWriterRole("collaborator")).toBe(true);
+    expect(isWriterRole("reviewer")).toBe(false);
+    expect(roleAllows("reviewer", "execute")).toBe(true);
+    expect(roleAllows("reviewer", "write")).toBe(false);
+    expect(roleAllows("observer", "execute")).toBe(false);
+    expect(roleAllows("observer", "read")).toBe(true);
+  });
+});
+
+describe("TaskLifecycle agent attachment", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockAttach.mockImplementation(async (_taskId, agentId, role) =>
+      agent(agentId, role),
+    );
+    mockUpdate.mockImplementation(async (id, updates) =>
+      makeTask({ id, ...updates }),
+    );
+  });
+
+  it("attaches a reviewer next to a coder", async () => {
+    mockGetById.mockResolvedValue(makeTask());
+    mockListActive.mockResolvedValue([agent("coder", "collaborator")]);
+
+    const { attachment } = await taskLifecycle.attachAgent(
+      "task-1",
+      "reviewer",
+      "reviewer",
+    );
+
+    expect(attachment.role).toBe("reviewer");
+    expect(mockAttach).toHaveBeenCalledWith("task-1", "reviewer", "reviewer");
+  });
+
+  it("starts a pending task when a writer attaches", async () => {
+    mockGetById.mockResolvedValue(makeTask({ status: "pending" }));
+    mockListActive.mockResolvedValue([]);
+
+    const { task } = await taskLifecycle.attachAgent("task-1", "coder");
+
+    expect(task.status).toBe("running");
+    expect(mockUpdate).toHaveBeenCalledWith("task-1", {
+      status: "running",
+      metadata: { containerId: "container-1", startedAt: expect.any(String) },
+    });
+  });
+
+  it("does not start a pending task for an observer", async () => {
+    mockGetById.mockResolvedValue(makeTask({ status: "pending" }));
+    mockListActive.mockResolvedValue([]);
+
+    const { task } = await taskLifecycle.attachAgent(
+      "task-1",
+      "watcher",
+      "observer",
+    );
+
+    expect(task.status).toBe("pending");
+    expect(mockUpdate).not.toHaveBeenCalled();
+  });
+
+  it("enforces the writer limit and a single owner", async () => {
+    mockGetById.mockResolvedValue(makeTask());
+    mockListActive.mockResolvedValue([
+      agent("a", "owner"),
+      agent("b", "collaborator"),
+    ]);
+
+    await expect(
+      taskLifecycle.attachAgent("task-1", "c", "collaborator"),
+    ).rejects.toThrow("already has 2 writer agents (limit 2)");
+    await expect(
+      taskLifecycle.attachAgent("task-1", "c", "owner"),
+    ).rejects.toThrow("already has an owner agent: a");
+    await expect(
+      taskLifecycle.attachAgent("task-1", "c", "observer"),
+    ).resolves.toBeDefined();
+  });
+
+  it("rejects re-attaching with a different role", async () => {
+    mockGetById.mockResolvedValue(makeTask());
+    mockListActive.mockResolvedValue([agent("coder", "collaborator")]);
+
+    await expect(
+      taskLifecycle.attachAgent("task-1", "coder", "reviewer"),
+    ).rejects.toThrow("already attached to task task-1 as collaborator");
+    expect(mockAttach).not.toHaveBeenCalled();
+  });
+
+  it("rejects finished tasks", async () => {
+    mockGetById.mockResolvedValue(makeTask({ status: "completed" }));
+
+    await expect(taskLifecycle.attachAgent("task-1", "coder")).rejects.toThrow(
+      "Cannot attach agent to task with status: completed",
+    );
+  });
+
+  it("pauses the task when the last writer detaches", async () => {
+    mockGetById.mockResolvedValue(makeTask());
+    mockDetach.mockResolvedValue(agent("coder", "collaborator"));
+    mockListActive.mockResolvedValue([agent("reviewer", "reviewer")]);
+
+    const { task, paused } = await taskLifecycle.detachAgent("task-1", "coder");
+
+    expect(paused).toBe(true);
+    expect(mockPause).toHaveBeenCalledWith("container-1");
+    expect(task.status).toBe("paused");
+    expect(task.metadata).toMatchObject({
+      containerId: "container-1",
+      pauseReason: "no_writers",
+    });
+  });
+
+  it("keeps the task running while a writer remains", async () => {
+    mockGetById.mockResolvedValue(makeTask());
+    mockDetach.mockResolvedValue(agent("coder", "collaborator"));
+    mockListActive.mockResolvedValue([agent("owner", "owner")]);
+
+    const { paused } = await taskLifecycle.detachAgent("task-1", "coder");
+
+    expect(paused).toBe(false);
+    expect(mockPause).not.toHaveBeenCalled();
+  });
+
+  it("resumes a paused task when a writer attaches", async () => {
+    mockGetById.mockResolvedValue(
+      makeTask({
+        status: "paused",
+        metadata: {
+          containerId: "container-1",
+          pausedAt: "2026-01-01T00:00:00.000Z",
+          pauseReason: "no_writers",
+        },
+      }),
+    );
+    mockListActive.mockResolvedValue([]);
+
+    const { task } = await taskLifecycle.attachAgent("task-1", "coder");
+
+    expect(mockUnpause).toHaveBeenCalledWith("container-1");
+    expect(task.status).toBe("running");
+    expect(task.metadata).toEqual({ containerId: "container-1" });
+  });
+
+  it("rejects detaching an agent that is not attached", async () => {
+    mockGetById.mockResolvedValue(makeTask());
+    mockDetach.mockResolvedValue(null);
+
+    await expect(
+      taskLifecycle.detachAgent("task-1", "stranger"),
+    ).rejects.toThrow("Agent stranger is not attached to task task-1");
+  });
+});
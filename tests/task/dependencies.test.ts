@@ -0,0 +1,165 @@
+// Task Dependency Tests
+// Blocked creation, cycle detection, refusing to start and unblocking dependents
+
+const mockTasks = new Map<string, any>();
+const mockEdges: Array<[string, string]> = [];
+const mockListActive = jest.fn();
+
+jest.mock("../../src/task-registry/registry", () => ({
+  taskRegistry: {
+    getById: async (id: string) => mockTasks.get(id) ?? null,
+    create: async (task: any) => {
+      mockTasks.set(task.id, task);
+      return task;
+    },
+    update: async (id: string, updates: any) => {
+      const task = { ...mockTasks.get(id), ...updates };
+      mockTasks.set(id, task);
+      return task;
+    },
+    delete: async (id: string) => mockTasks.delete(id),
+  },
+}));
+
+jest.mock("../../src/persistence/database", () => ({
+  DatabaseManager: { getInstance: () => ({ getDatabase: () => ({}) }) },
+}));
+
+jest.mock("../../src/task-registry/task-agents", () => ({
+  taskAgentRegistry: { listActive: mockListActive },
+}));
+
+jest.mock("../../src/docker/manager", () => ({
+  DockerManager: { getInstance: () => ({}) },
+}));
+
+jest.mock("../../src/persistence/multi-layer", () => ({
+  multiLayerPersistence: {
+    appendLog: jest.fn(),
+    saveState: jest.fn(),
+    cleanup: jest.fn(),
+  },
+}));
+
+jest.mock("../../src/util/lock-manager", () => ({
+  lockManager: {
+    withLock: (_resource: string, _owner: string, fn: () => Promise<any>) =>
+      fn(),
+  },
+}));
+
+jest.mock("../../src/hooks/task-lifecycle", () => ({
+  taskLifecycleHooks: {
+    executeBeforeTaskStart: jest.fn(),
+    executeAfterTaskStart: jest.fn(),
+    executeBeforeTaskComplete: jest.fn(),
+    executeAfterTaskComplete: jest.fn(),
+  },
+}));
+
+import { taskLifecycle } from "../../src/task/lifecycle";
+import { taskDependencyRegistry } from "../../src/task-registry/task-dependencies";
+
+const createTask = (id: string, dependsOn?: string[]) =>
+  taskLifecycle.createTask({ id, name: id, dependsOn });
+
+describe("TaskLifecycle task dependencies", () => {
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    mockTasks.clear();
+    mockEdges.length = 0;
+    mockListActive.mockResolvedValue([]);
+
+    jest
+      .spyOn(taskDependencyRegistry, "listPrerequisites")
+      .mockImplementation(async (id) =>
+        mockEdges.filter(([from]) => from === id).map(([, to]) => to),
+      );
+    jest
+      .spyOn(taskDependencyRegistry, "listDependents")
+      .mockImplementation(async (id) =>
+        mockEdges.filter(([, to]) => to === id).map(([from]) => from),
+      );
+    jest
+      .spyOn(taskDependencyRegistry, "add")
+      .mockImplementation(async (id, dependsOn) => {
+        await taskDependencyRegistry.assertAcyclic(id, dependsOn);
+        dependsOn.forEach((to) => mockEdges.push([id, to]));
+        return [];
+      });
+  });
+
+  it("creates a task blocked by its unfinished prerequisites", async () => {
+    await createTask("build");
+    await createTask("lint");
+    mockTasks.get("lint").status = "completed";
+
+    const test = await createTask("test", ["build", "lint"]);
+
+    expect(test.metadata?.blockedBy).toEqual(["build"]);
+    expect(mockEdges).toEqual([
+      ["test", "build"],
+      ["test", "lint"],
+    ]);
+  });
+
+  it("rejects unknown, failed and self prerequisites", async () => {
+    await createTask("broken");
+    mockTasks.get("broken").status = "failed";
+
+    await expect(createTask("a", ["missing"])).rejects.toThrow(
+      "Prerequisite task not found: missing",
+    );
+    await expect(createTask("a", ["broken"])).rejects.toThrow(
+      "Cannot depend on task broken with status: failed",
+    );
+    await expect(createTask("a", ["a"])).rejects.toThrow(
+      "Task a cannot depend on itself",
+    );
+    expect(mockTasks.has("a")).toBe(false);
+  });
+
+  it("detects cycles through other tasks", async () => {
+    await createTask("a");
+    await createTask("b", ["a"]);
+    await createTask("c", ["b"]);
+
+    await expect(
+      taskDependencyRegistry.assertAcyclic("a", ["c"]),
+    ).rejects.toThrow("Task dependencies would form a cycle: a -> c -> b -> a");
+    await expect(
+      taskDependencyRegistry.assertAcyclic("c", ["a"]),
+    ).resolves.toBeUndefined();
+  });
+
+  it("refuses to start a task before its prerequisites complete", async () => {
+    await createTask("build");
+    await createTask("test", ["build"]);
+
+    await expect(taskLifecycle.startTask("test", "agent-1")).rejects.toThrow(
+      "Task test is blocked by unfinished prerequisites: build",
+    );
+    expect(mockTasks.get("test").status).toBe("pending");
+  });
+
+  it("unblocks dependents when their last prerequisite completes", async () => {
+    await createTask("build");
+    await createTask("lint");
+    await createTask("test", ["build", "lint"]);
+    await createTask("deploy", ["build"]);
+    mockListActive.mockImplementation(async (id: string) =>
+      id === "deploy"
+        ? [{ taskId: id, agentId: "deployer", role: "owner" }]
+        : [],
+    );
+    mockTasks.get("build").status = "running";
+
+    await taskLifecycle.completeTask("build", { success: true });
+
+    // Still waiting for lint
+    expect(mockTasks.get("test").metadata.blockedBy).toEqual(["lint"]);
+    // Runnable, and started because a writer was already attached
+    expect(mockTasks.get("deploy").metadata.blockedBy).toBeUndefined();
+    expect(mockTasks.get("deploy").status).toBe("running");
+  });
+});
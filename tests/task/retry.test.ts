@@ -0,0 +1,288 @@
+// Task Retry Tests
+// Backoff, retry classification, attempt history and re-queueing failed tasks
+
+const mockTasks = new Map<string, any>();
+const mockListCheckpoints = jest.fn();
+const mockRestoreCheckpoint = jest.fn();
+const mockAfterTaskFail = jest.fn();
+const mockUnexpose = jest.fn();
+const mockAgents = new Map<string, any[]>();
+
+jest.mock("../../src/task-registry/registry", () => ({
+  taskRegistry: {
+    getById: async (id: string) => mockTasks.get(id) ?? null,
+    update: async (id: string, updates: any) => {
+      const task = { ...mockTasks.get(id), ...updates };
+      mockTasks.set(id, task);
+      return task;
+    },
+  },
+}));
+
+jest.mock("../../src/persistence/database", () => ({
+  DatabaseManager: { getInstance: () => ({ getDatabase: () => ({}) }) },
+}));
+
+jest.mock("../../src/task-registry/task-agents", () => ({
+  taskAgentRegistry: {
+    listActive: async (taskId: string) => mockAgents.get(taskId) ?? [],
+    attach: async (taskId: string, agentId: string, role: string) => {
+      const agent = { taskId, agentId, role, attachedAt: new Date() };
+      mockAgents.set(taskId, [...(mockAgents.get(taskId) ?? []), agent]);
+      return agent;
+    },
+    detach: async (taskId: string, agentId: string) => {
+      const agents = mockAgents.get(taskId) ?? [];
+      mockAgents.set(
+        taskId,
+        agents.filter((agent) => agent.agentId !== agentId),
+      );
+      return agents.find((agent) => agent.agentId === agentId) ?? null;
+    },
+  },
+}));
+
+jest.mock("../../src/task-registry/task-dependencies", () => ({
+  taskDependencyRegistry: { listDependents: jest.fn() },
+}));
+
+jest.mock("../../src/docker/manager", () => ({
+  DockerManager: { getInstance: () => ({}) },
+}));
+
+jest.mock("../../src/docker/port-preview", () => ({
+  getExposedPorts: (task: any) => task.metadata?.exposedPorts ?? [],
+  portPreview: { unexpose: mockUnexpose },
+}));
+
+jest.mock("../../src/persistence/multi-layer", () => ({
+  multiLayerPersistence: {
+    appendLog: jest.fn(),
+    listCheckpoints: mockListCheckpoints,
+    restoreCheckpoint: mockRestoreCheckpoint,
+  },
+}));
+
+jest.mock("../../src/util/lock-manager", () => ({
+  lockManager: {
+    withLock: (_resource: string, _owner: string, fn: () => Promise<any>) =>
+      fn(),
+  },
+}));
+
+jest.mock("../../src/hooks/task-lifecycle", () => ({
+  taskLifecycleHooks: {
+    executeBeforeTaskFail: jest.fn(),
+    executeAfterTaskFail: mockAfterTaskFail,
+  },
+}));
+
+import { taskLifecycle } from "../../src/task/lifecycle";
+import {
+  getRetryDelay,
+  isRetryableError,
+  planRetry,
+} from "../../src/task/retry";
+
+const NOW = Date.parse("2026-10-19T12:00:00Z");
+
+const addRunningTask = (id: string, metadata: Record<string, any> = {}) => {
+  mockTasks.set(id, {
+    id,
+    name: id,
+    status: "running",
+    owner: "alice",
+    metadata,
+    createdAt: new Date(NOW),
+    updatedAt: new Date(NOW),
+  });
+};
+
+describe("retry policy", () => {
+  it("backs off exponentially", () => {
+    const config = { retryDelayMs: 1000, backoffMultiplier: 3 };
+
+    expect(getRetryDelay(config, 1)).toBe(1000);
+    expect(getRetryDelay(config, 2)).toBe(3000);
+    expect(getRetryDelay(config, 3)).toBe(9000);
+    expect(getRetryDelay({}, 2)).toBe(60000);
+  });
+
+  it("classifies errors that cannot succeed on retry", () => {
+    expect(isRetryableError("Connection reset by peer")).toBe(true);
+    expect(isRetryableError("Command timed out after 30000ms")).toBe(true);
+    expect(isRetryableError("File not found: src/index.ts")).toBe(false);
+    expect(isRetryableError("Permission denied")).toBe(false);
+    expect(isRetryableError("Invalid configuration")).toBe(false);
+  });
+
+  it("stops at maxAttempts", () => {
+    const metadata = {
+      retryConfig: { maxAttempts: 2, retryDelayMs: 1000 },
+      attempts: [
+        {
+          attempt: 1,
+          error: "boom",
+          failedAt: "2026-10-19T11:00:00.000Z",
+          retryable: true,
+        },
+      ],
+    };
+
+    const decision = planRetry(metadata, "boom again", undefined, NOW);
+
+    expect(decision.retry).toBe(false);
+    expect(decision.attempt).toEqual({
+      attempt: 2,
+      error: "boom again",
+      failedAt: "2026-10-19T12:00:00.000Z",
+      retryable: true,
+    });
+  });
+
+  it("never retries tasks without a retryConfig", () => {
+    expect(planRetry({}, "boom", true, NOW).retry).toBe(false);
+  });
+});
+
+describe("TaskLifecycle.failTask retries", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockTasks.clear();
+    mockAgents.clear();
+    jest.spyOn(Date, "now").mockReturnValue(NOW);
+    mockListCheckpoints.mockResolvedValue([]);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("re-queues a retryable failure after the backoff", async () => {
+    addRunningTask("build", {
+      containerId: "c1",
+      retryConfig: { maxAttempts: 3, retryDelayMs: 1000, backoffMultiplier: 2 },
+      attempts: [
+        {
+          attempt: 1,
+          error: "Connection reset",
+          failedAt: "2026-10-19T11:59:00.000Z",
+          retryable: true,
+          retryAt: "2026-10-19T11:59:01.000Z",
+        },
+      ],
+    });
+
+    const task = await taskLifecycle.failTask("build", "Connection reset");
+
+    expect(task.status).toBe("pending");
+    // Second retry: 1000ms doubled once
+    expect(task.metadata?.retryAt).toBe("2026-10-19T12:00:02.000Z");
+    expect(task.metadata?.containerId).toBe("c1");
+    expect(task.metadata?.error).toBe("Connection reset");
+    expect(task.metadata?.attempts).toHaveLength(2);
+    expect(task.metadata?.attempts?.[1]).toMatchObject({
+      attempt: 2,
+      retryable: true,
+      retryAt: "2026-10-19T12:00:02.000Z",
+    });
+    expect(mockAfterTaskFail).toHaveBeenCalledWith(
+      "build",
+      "Connection reset",
+      "error",
+    );
+  });
+
+  it("detaches the failed run's agents so the retry can start", async () => {
+    addRunningTask("build", { retryConfig: { maxAttempts: 3 } });
+    mockAgents.set("build", [
+      { taskId: "build", agentId: "agent-a", role: "owner" },
+    ]);
+    const startTask = jest
+      .spyOn(taskLifecycle, "startTask")
+      .mockImplementation(async (taskId) => mockTasks.get(taskId));
+
+    const task = await taskLifecycle.failTask("build", "Connection reset");
+    expect(task.status).toBe("pending");
+    expect(mockAgents.get("build")).toEqual([]);
+
+    // The scheduler's pool writer would otherwise hit the owner limit
+    await taskLifecycle.attachAgent("build", "scheduler:owner", "owner");
+    expect(startTask).toHaveBeenCalledWith("build", "scheduler:owner");
+  });
+
+  it("drops released port mappings from the failed and re-queued task", async () => {
+    addRunningTask("build", {
+      retryConfig: { maxAttempts: 3 },
+      exposedPorts: [{ containerPort: 3000, proxyContainerId: "proxy-1" }],
+    });
+    mockUnexpose.mockImplementation(async (taskId: string) => {
+      const { exposedPorts, ...metadata } = mockTasks.get(taskId).metadata;
+      mockTasks.set(taskId, { ...mockTasks.get(taskId), metadata });
+      return exposedPorts;
+    });
+
+    const task = await taskLifecycle.failTask("build", "Connection reset");
+
+    expect(mockUnexpose).toHaveBeenCalledWith("build");
+    expect(task.status).toBe("pending");
+    expect(task.metadata?.exposedPorts).toBeUndefined();
+    expect(task.metadata?.attempts).toHaveLength(1);
+  });
+
+  it("restores the latest checkpoint before retrying", async () => {
+    addRunningTask("build", {
+      retryConfig: { restoreCheckpoint: true },
+    });
+    mockListCheckpoints.mockResolvedValue([
+      { id: "checkpoint_2" },
+      { id: "checkpoint_1" },
+    ]);
+
+    const task = await taskLifecycle.failTask("build", "Out of memory");
+
+    expect(mockRestoreCheckpoint).toHaveBeenCalledWith("build", "checkpoint_2");
+    expect(task.status).toBe("pending");
+    expect(task.metadata?.attempts?.[0]?.restoredCheckpointId).toBe(
+      "checkpoint_2",
+    );
+  });
+
+  it("leaves the task failed when the error is not retryable", async () => {
+    addRunningTask("build", { retryConfig: { maxAttempts: 5 } });
+
+    const task = await taskLifecycle.failTask(
+      "build",
+      "Image not found: node:99",
+    );
+
+    expect(task.status).toBe("failed");
+    expect(task.metadata?.retryAt).toBeUndefined();
+    expect(task.metadata?.attempts).toEqual([
+      expect.objectContaining({ attempt: 1, retryable: false }),
+    ]);
+  });
+
+  it("lets the caller override the classification", async () => {
+    addRunningTask("build", { retryConfig: { maxAttempts: 5 } });
+
+    const task = await taskLifecycle.failTask("build", "Tests failed", {
+      retryable: false,
+    });
+
+    expect(task.status).toBe("failed");
+  });
+
+  it("leaves the task failed when the checkpoint cannot be restored", async () => {
+    addRunningTask("build", { retryConfig: { restoreCheckpoint: true } });
+    mockListCheckpoints.mockResolvedValue([{ id: "checkpoint_1" }]);
+    mockRestoreCheckpoint.mockRejectedValueOnce(
+      new Error("Checkpoint has no state: checkpoint_1"),
+    );
+
+    const task = await taskLifecycle.failTask("build", "Out of memory");
+
+    expect(task.status).toBe("failed");
+    expect(mockTasks.get("build").status).toBe("failed");
+  });
+});
@@ -0,0 +1,315 @@
+// Task Scheduler Tests
+// Queue order, concurrency limits, host capacity and container provisioning
+
+const mockTasks = new Map<string, any>();
+const mockAttachAgent = jest.fn();
+const mockCreateContainer = jest.fn();
+const mockStartContainer = jest.fn();
+const mockRemoveContainer = jest.fn();
+const mockContainerStatus = jest.fn();
+const mockUsage = jest.fn();
+
+jest.mock("../../src/config", () => ({
+  ...jest.requireActual("../../src/config"),
+  SCHEDULER_MAX_RUNNING: 3,
+  SCHEDULER_MAX_RUNNING_PER_OWNER: 2,
+  SCHEDULER_AGING_MS: 60000,
+  SCHEDULER_TASK_IMAGE: "node:20-alpine",
+  SCHEDULER_ALLOWED_IMAGES: "python:3.12",
+  SCHEDULER_AGENT_POOL: "reviewer-bot:reviewer,scheduler:owner",
+  CONTAINER_MEMORY_MB: 512,
+  CONTAINER_PIDS_LIMIT: 100,
+  DOCKER_CONTAINER_PREFIX: "opencode_",
+}));
+
+jest.mock("../../src/task-registry/registry", () => ({
+  taskRegistry: {
+    list: async (filters: { status?: string }) =>
+      [...mockTasks.values()].filter(
+        (task) => !filters.status || task.status === filters.status,
+      ),
+    update: async (id: string, updates: any) => {
+      const task = { ...mockTasks.get(id), ...updates };
+      mockTasks.set(id, task);
+      return task;
+    },
+  },
+}));
+
+jest.mock("../../src/task/lifecycle", () => ({
+  taskLifecycle: { attachAgent: mockAttachAgent },
+}));
+
+jest.mock("../../src/docker/manager", () => ({
+  DockerManager: {
+    getInstance: () => ({
+      assertTaskContainer: async () => undefined,
+      createContainer: mockCreateContainer,
+      startContainer: mockStartContainer,
+      removeContainer: mockRemoveContainer,
+      getContainerStatus: mockContainerStatus,
+    }),
+  },
+}));
+
+jest.mock("../../src/util/resource-monitor", () => ({
+  resourceMonitor: {
+    getSystemResourceUsage: mockUsage,
+    getDefaultLimits: () => ({
+      memoryMB: 512,
+      cpuShares: 1024,
+      pidsLimit: 100,
+    }),
+    registerContainer: jest.fn(),
+    unregisterContainer: jest.fn(),
+  },
+}));
+
+jest.mock("fs/promises", () => ({
+  mkdir: jest.fn(),
+}));
+
+import { buildQueue, taskScheduler } from "../../src/task/scheduler";
+
+const NOW = Date.parse("2026-10-19T12:00:00Z");
+const minutesAgo = (minutes: number) => new Date(NOW - minutes * 60000);
+
+const addTask = (
+  id: string,
+  options: {
+    owner?: string;
+    status?: string;
+    priority?: string;
+    minutes?: number;
+    metadata?: Record<string, any>;
+  } = {},
+) => {
+  const task = {
+    id,
+    name: id,
+    status: options.status ?? "pending",
+    owner: options.owner ?? "alice",
+    createdAt: minutesAgo(options.minutes ?? 0),
+    updatedAt: minutesAgo(options.minutes ?? 0),
+    metadata: {
+      ...(options.priority ? { priority: options.priority } : {}),
+      ...options.metadata,
+    },
+  };
+  mockTasks.set(id, task);
+  return task;
+};
+
+const plenty = {
+  memory: { used: 1024, limit: 16384 },
+  cpu: { used: 1, limit: 8 },
+  pids: { used: 200, limit: 4096 },
+};
+
+describe("buildQueue", () => {
+  it("orders by priority, then by age", () => {
+    const queue = buildQueue(
+      [
+        addTask("old-low", { priority: "low", minutes: 0.5 }),
+        addTask("new-high", { priority: "high" }),
+        addTask("medium"),
+        addTask("old-medium", { minutes: 0.9 }),
+      ] as any,
+      NOW,
+    );
+
+    expect(queue.map((entry) => entry.task.id)).toEqual([
+      "new-high",
+      "old-medium",
+      "medium",
+      "old-low",
+    ]);
+    expect(queue.map((entry) => entry.position)).toEqual([1, 2, 3, 4]);
+    expect(queue[2]!.priority).toBe("medium");
+  });
+
+  it("raises waiting tasks one level per aging interval", () => {
+    const queue = buildQueue(
+      [
+        addTask("fresh-high", { priority: "high", minutes: 1 }),
+        addTask("starving-low", { priority: "low", minutes: 3 }),
+      ] as any,
+      NOW,
+    );
+
+    expect(queue[0]!.task.id).toBe("starving-low");
+    expect(queue[0]!.score).toBe(3);
+    expect(queue[1]!.score).toBe(3);
+  });
+
+  it("puts pinned tasks first, earliest pin first", () => {
+    const queue = buildQueue(
+      [
+        addTask("high", { priority: "high", minutes: 10 }),
+        addTask("pinned-later", {
+          priority: "low",
+          metadata: { queuePinnedAt: "2026-10-19T11:30:00.000Z" },
+        }),
+        addTask("pinned-first", {
+          priority: "low",
+          metadata: { queuePinnedAt: "2026-10-19T11:00:00.000Z" },
+        }),
+      ] as any,
+      NOW,
+    );
+
+    expect(queue.map((entry) => entry.task.id)).toEqual([
+      "pinned-first",
+      "pinned-later",
+      "high",
+    ]);
+  });
+});
+
+describe("TaskScheduler.runOnce", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockTasks.clear();
+    jest.spyOn(Date, "now").mockReturnValue(NOW);
+    mockUsage.mockResolvedValue(plenty);
+    mockRemoveContainer.mockResolvedValue(undefined);
+    mockContainerStatus.mockResolvedValue("running");
+    mockCreateContainer.mockImplementation(
+      async (options: { name: string }) => `container-${options.name}`,
+    );
+    mockAttachAgent.mockImplementation(async (taskId: string) => {
+      mockTasks.get(taskId).status = "running";
+    });
+  });
+
+  it("provisions a container and attaches the agent pool, writer first", async () => {
+    addTask("build", { metadata: { image: "python:3.12" } });
+
+    await expect(taskScheduler.runOnce()).resolves.toEqual(["build"]);
+
+    expect(mockCreateContainer).toHaveBeenCalledWith(
+      expect.objectContaining({
+        name: "opencode_task_build",
+        image: "python:3.12",
+        labels: { "opencode.task.id": "build", "opencode.role": "task" },
+      }),
+    );
+    expect(mockStartContainer).toHaveBeenCalledWith(
+      "container-opencode_task_build",
+    );
+    expect(mockTasks.get("build").metadata.containerId).toBe(
+      "container-opencode_task_build",
+    );
+    expect(mockAttachAgent.mock.calls).toEqual([
+      ["build", "scheduler", "owner"],
+      ["build", "reviewer-bot", "reviewer"],
+    ]);
+  });
+
+  it("does not provision images outside the allowlist", async () => {
+    addTask("untrusted", { metadata: { image: "attacker/miner:latest" } });
+
+    await expect(taskScheduler.runOnce()).resolves.toEqual([]);
+
+    expect(mockCreateContainer).not.toHaveBeenCalled();
+    expect(mockAttachAgent).not.toHaveBeenCalled();
+  });
+
+  it("reuses an existing container", async () => {
+    addTask("build", { metadata: { containerId: "existing" } });
+
+    await taskScheduler.runOnce();
+
+    expect(mockCreateContainer).not.toHaveBeenCalled();
+    expect(mockStartContainer).not.toHaveBeenCalled();
+    expect(mockAttachAgent).toHaveBeenCalledWith("build", "scheduler", "owner");
+  });
+
+  it("starts an existing container that was stopped", async () => {
+    addTask("build", { metadata: { containerId: "existing" } });
+    mockContainerStatus.mockResolvedValue("exited");
+
+    await taskScheduler.runOnce();
+
+    expect(mockStartContainer).toHaveBeenCalledWith("existing");
+  });
+
+  it("skips owners at their limit so other owners are not starved", async () => {
+    addTask("alice-running", { status: "running" });
+    addTask("alice-1", { priority: "high", minutes: 2 });
+    addTask("alice-2", { priority: "high", minutes: 1 });
+    addTask("bob-1", { owner: "bob", priority: "low" });
+
+    const started = await taskScheduler.runOnce();
+
+    // alice-2 would exceed alice's limit of two; the global limit is three
+    expect(started).toEqual(["alice-1", "bob-1"]);
+    expect(mockTasks.get("alice-2").status).toBe("pending");
+  });
+
+  it("stops at the global limit", async () => {
+    addTask("a", { owner: "a" });
+    addTask("b", { owner: "b" });
+    addTask("c", { owner: "c" });
+    addTask("d", { owner: "d" });
+
+    await expect(taskScheduler.runOnce()).resolves.toHaveLength(3);
+    expect(mockTasks.get("d").status).toBe("pending");
+  });
+
+  it("leaves blocked tasks in the queue", async () => {
+    addTask("test", { priority: "high", metadata: { blockedBy: ["build"] } });
+    addTask("lint");
+
+    await expect(taskScheduler.runOnce()).resolves.toEqual(["lint"]);
+  });
+
+  it("waits out a failed task's retry backoff", async () => {
+    addTask("retry-later", {
+      priority: "high",
+      metadata: { retryAt: "2026-10-19T12:00:30.000Z" },
+    });
+    addTask("retry-now", { metadata: { retryAt: "2026-10-19T11:59:00.000Z" } });
+
+    await expect(taskScheduler.runOnce()).resolves.toEqual(["retry-now"]);
+  });
+
+  it("does not start a task whose deadline has passed", async () => {
+    addTask("overdue", {
+      priority: "high",
+      metadata: { deadline: "2026-10-19T11:00:00.000Z" },
+    });
+    addTask("due-later", {
+      metadata: { deadline: "2026-10-19T13:00:00.000Z" },
+    });
+
+    await expect(taskScheduler.runOnce()).resolves.toEqual(["due-later"]);
+  });
+
+  it("waits when the host has no room for another container", async () => {
+    addTask("build");
+    mockUsage.mockResolvedValue({
+      ...plenty,
+      memory: { used: 13000, limit: 16384 },
+    });
+
+    await expect(taskScheduler.runOnce()).resolves.toEqual([]);
+    expect(mockCreateContainer).not.toHaveBeenCalled();
+  });
+
+  it("removes the container and backs off when the task cannot start", async () => {
+    addTask("build");
+    mockAttachAgent.mockRejectedValueOnce(new Error("Task not found: build"));
+
+    await expect(taskScheduler.runOnce()).resolves.toEqual([]);
+    expect(mockRemoveContainer).toHaveBeenCalledWith(
+      "container-opencode_task_build",
+      true,
+    );
+    expect(mockTasks.get("build").metadata.containerId).toBeUndefined();
+
+    // Not retried until the back-off passes
+    await expect(taskScheduler.runOnce()).resolves.toEqual([]);
+    expect(mockAttachAgent).toHaveBeenCalledTimes(1);
+  });
+});
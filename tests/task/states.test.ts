@@ -0,0 +1,280 @@
+// Paused and Blocked Task State Tests
+// Pause, resume and block transitions, their containers and hooks
+
+const mockTasks = new Map<string, any>();
+const mockListActive = jest.fn();
+const mockPause = jest.fn();
+const mockUnpause = jest.fn();
+const mockAssertTaskContainer = jest.fn();
+const mockHooks = {
+  executeBeforeTaskPause: jest.fn(),
+  executeAfterTaskPause: jest.fn(),
+  executeBeforeTaskResume: jest.fn(),
+  executeAfterTaskResume: jest.fn(),
+  executeBeforeTaskBlock: jest.fn(),
+  executeAfterTaskBlock: jest.fn(),
+};
+
+jest.mock("../../src/task-registry/registry", () => ({
+  taskRegistry: {
+    getById: async (id: string) => mockTasks.get(id) ?? null,
+    update: async (id: string, updates: any) => {
+      const task = { ...mockTasks.get(id), ...updates };
+      mockTasks.set(id, task);
+      return task;
+    },
+  },
+}));
+
+jest.mock("../../src/task-registry/task-agents", () => ({
+  taskAgentRegistry: {
+    listActive: mockListActive,
+    attach: async (taskId: string, agentId: string, role: string) => ({
+      taskId,
+      agentId,
+      role,
+      attachedAt: new Date(),
+    }),
+  },
+}));
+
+jest.mock("../../src/task-registry/task-dependencies", () => ({
+  taskDependencyRegistry: { listDependents: jest.fn() },
+}));
+
+jest.mock("../../src/docker/manager", () => ({
+  DockerManager: {
+    getInstance: () => ({
+      assertTaskContainer: mockAssertTaskContainer,
+      pauseContainer: mockPause,
+      unpauseContainer: mockUnpause,
+    }),
+  },
+}));
+
+jest.mock("../../src/persistence/multi-layer", () => ({
+  multiLayerPersistence: { appendLog: jest.fn() },
+}));
+
+jest.mock("../../src/util/lock-manager", () => ({
+  lockManager: {
+    withLock: (_resource: string, _owner: string, fn: () => Promise<any>) =>
+      fn(),
+  },
+}));
+
+jest.mock("../../src/hooks/task-lifecycle", () => ({
+  taskLifecycleHooks: mockHooks,
+}));
+
+import { taskLifecycle } from "../../src/task/lifecycle";
+
+const addTask = (
+  id: string,
+  status: string,
+  metadata: Record<string, any> = {},
+) => {
+  mockTasks.set(id, {
+    id,
+    name: id,
+    status,
+    owner: "alice",
+    metadata: { containerId: `container-${id}`, ...metadata },
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  });
+};
+
+const writer = { taskId: "build", agentId: "coder", role: "owner" };
+
+describe("TaskLifecycle paused and blocked states", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockTasks.clear();
+    mockListActive.mockResolvedValue([writer]);
+  });
+
+  it("pauses a running task and its container", async () => {
+    addTask("build", "running");
+
+    const task = await taskLifecycle.pauseTask("build");
+
+    expect(task.status).toBe("paused");
+    expect(task.metadata).toMatchObject({
+      containerId: "container-build",
+      pauseReason: "requested",
+      pausedAt: expect.any(String),
+    });
+    expect(mockPause).toHaveBeenCalledWith("container-build");
+    expect(mockHooks.executeBeforeTaskPause).toHaveBeenCalledWith(
+      "build",
+      "requested",
+    );
+    expect(mockHooks.executeAfterTaskPause).toHaveBeenCalledWith(
+      "build",
+      "requested",
+    );
+  });
+
+  it("refuses to pause a container that belongs to another task", async () => {
+    addTask("build", "running");
+    mockAssertTaskContainer.mockRejectedValueOnce(
+      new Error("Container container-build does not belong to task build"),
+    );
+
+    await expect(taskLifecycle.pauseTask("build")).rejects.toThrow(
+      "does not belong to task build",
+    );
+    expect(mockAssertTaskContainer).toHaveBeenCalledWith(
+      "container-build",
+      "build",
+    );
+    expect(mockPause).not.toHaveBeenCalled();
+    expect(mockTasks.get("build").status).toBe("running");
+  });
+
+  it("only pauses running tasks", async () => {
+    addTask("build", "pending");
+
+    await expect(taskLifecycle.pauseTask("build")).rejects.toThrow(
+      "Cannot pause task with status: pending",
+    );
+    expect(mockHooks.executeBeforeTaskPause).not.toHaveBeenCalled();
+  });
+
+  it("does not end a requested pause when a writer attaches", async () => {
+    addTask("build", "paused", { pauseReason: "requested" });
+    mockListActive.mockResolvedValue([]);
+
+    const { task } = await taskLifecycle.attachAgent("build", "coder");
+
+    expect(task.status).toBe("paused");
+    expect(mockUnpause).not.toHaveBeenCalled();
+  });
+
+  it("resumes a paused task and unpauses its container", async () => {
+    addTask("build", "paused", {
+      pausedAt: "2026-10-19T12:00:00.000Z",
+      pauseReason: "requested",
+    });
+
+    const task = await taskLifecycle.resumeTask("build", "coder");
+
+    expect(task.status).toBe("running");
+    expect(task.metadata).toEqual({ containerId: "container-build" });
+    expect(mockUnpause).toHaveBeenCalledWith("container-build");
+    expect(mockHooks.executeAfterTaskResume).toHaveBeenCalledWith(
+      "build",
+      "coder",
+    );
+  });
+
+  it("does not count paused or blocked time as running time", async () => {
+    const now = Date.parse("2026-10-19T12:00:00.000Z");
+    const spy = jest.spyOn(Date, "now").mockReturnValue(now);
+    addTask("build", "paused", {
+      startedAt: "2026-10-19T10:00:00.000Z",
+      pausedAt: "2026-10-19T11:00:00.000Z",
+      pauseReason: "requested",
+    });
+
+    try {
+      // One hour paused, then half an hour blocked
+      await taskLifecycle.blockTask("build", "Needs design review");
+      expect(mockTasks.get("build").metadata.startedAt).toBe(
+        "2026-10-19T11:00:00.000Z",
+      );
+      mockTasks.get("build").metadata.blockedAt = "2026-10-19T11:30:00.000Z";
+
+      const task = await taskLifecycle.resumeTask("build");
+
+      expect(task.metadata?.startedAt).toBe("2026-10-19T11:30:00.000Z");
+    } finally {
+      spy.mockRestore();
+    }
+  });
+
+  it("refuses to run a task again without a writer", async () => {
+    addTask("build", "paused", { pauseReason: "no_writers" });
+    mockListActive.mockResolvedValue([
+      { taskId: "build", agentId: "bot", role: "reviewer" },
+    ]);
+
+    await expect(taskLifecycle.resumeTask("build")).rejects.toThrow(
+      "Cannot resume task build: no writer agents attached",
+    );
+    expect(mockTasks.get("build").status).toBe("paused");
+  });
+
+  it("blocks a running task with a reason and pauses its container", async () => {
+    addTask("build", "running");
+
+    const task = await taskLifecycle.blockTask("build", "Waiting for API key");
+
+    expect(task.status).toBe("blocked");
+    expect(task.metadata).toMatchObject({
+      blockReason: "Waiting for API key",
+      blockedFrom: "running",
+      blockedAt: expect.any(String),
+    });
+    expect(mockPause).toHaveBeenCalledWith("container-build");
+    expect(mockHooks.executeAfterTaskBlock).toHaveBeenCalledWith(
+      "build",
+      "Waiting for API key",
+    );
+  });
+
+  it("requires a reason to block a task", async () => {
+    addTask("build", "running");
+
+    await expect(taskLifecycle.blockTask("build", "  ")).rejects.toThrow(
+      "A reason is required to block a task",
+    );
+  });
+
+  it("returns a blocked task to the status it was blocked from", async () => {
+    addTask("build", "pending", { containerId: undefined });
+    await taskLifecycle.blockTask("build", "Needs design review");
+    mockListActive.mockResolvedValue([]);
+
+    const task = await taskLifecycle.resumeTask("build");
+
+    expect(task.status).toBe("pending");
+    expect(task.metadata?.blockReason).toBeUndefined();
+    expect(mockPause).not.toHaveBeenCalled();
+    expect(mockUnpause).not.toHaveBeenCalled();
+  });
+
+  it("runs a task blocked while paused when it is resumed", async () => {
+    addTask("build", "paused", { pauseReason: "requested" });
+    await taskLifecycle.blockTask("build", "Needs design review");
+
+    expect(mockPause).not.toHaveBeenCalled();
+    expect(mockTasks.get("build").metadata.pauseReason).toBeUndefined();
+
+    const task = await taskLifecycle.resumeTask("build");
+
+    expect(task.status).toBe("running");
+    expect(mockUnpause).toHaveBeenCalledWith("container-build");
+  });
+
+  it("cancels paused and blocked tasks", async () => {
+    addTask("paused", "paused");
+    addTask("blocked", "blocked");
+
+    await expect(taskLifecycle.cancelTask("paused")).resolves.toMatchObject({
+      status: "cancelled",
+    });
+    await expect(taskLifecycle.cancelTask("blocked")).resolves.toMatchObject({
+      status: "cancelled",
+    });
+  });
+
+  it("only resumes paused or blocked tasks", async () => {
+    addTask("build", "running");
+
+    await expect(taskLifecycle.resumeTask("build")).rejects.toThrow(
+      "Cannot resume task with status: running",
+    );
+  });
+});
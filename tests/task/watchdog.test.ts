@@ -0,0 +1,166 @@
+// Task Watchdog Tests
+// Deadlines, run time limits, checkpoints and stopping overdue tasks' containers
+
+const mockTasks = new Map<string, any>();
+const mockFailTask = jest.fn();
+const mockCancelTask = jest.fn();
+const mockStopContainer = jest.fn();
+const mockCreateCheckpoint = jest.fn();
+
+jest.mock("../../src/task-registry/registry", () => ({
+  taskRegistry: {
+    list: async (filters: { status?: string }) =>
+      [...mockTasks.values()].filter(
+        (task) => !filters.status || task.status === filters.status,
+      ),
+  },
+}));
+
+jest.mock("../../src/task/lifecycle", () => ({
+  taskLifecycle: { failTask: mockFailTask, cancelTask: mockCancelTask },
+}));
+
+jest.mock("../../src/docker/manager", () => ({
+  DockerManager: {
+    getInstance: () => ({
+      assertTaskContainer: async () => undefined,
+      stopContainer: mockStopContainer,
+    }),
+  },
+}));
+
+jest.mock("../../src/persistence/multi-layer", () => ({
+  multiLayerPersistence: { createCheckpoint: mockCreateCheckpoint },
+}));
+
+import { findTimeout, taskWatchdog } from "../../src/task/watchdog";
+
+const NOW = Date.parse("2026-10-19T12:00:00Z");
+
+const addRunningTask = (id: string, metadata: Record<string, any>) => {
+  const task = {
+    id,
+    name: id,
+    status: "running",
+    owner: "alice",
+    metadata: { containerId: `container-${id}`, ...metadata },
+    createdAt: new Date(NOW),
+    updatedAt: new Date(NOW),
+  };
+  mockTasks.set(id, task);
+  return task;
+};
+
+describe("findTimeout", () => {
+  it("reports a missed deadline before a run time limit", () => {
+    const task = addRunningTask("a", {
+      deadline: "2026-10-19T11:00:00.000Z",
+      startedAt: "2026-10-19T10:00:00.000Z",
+      maxRunningMs: 60000,
+    });
+
+    expect(findTimeout(task as any, NOW)).toEqual({
+      reason: "deadline",
+      message: "Task missed its deadline (2026-10-19T11:00:00.000Z)",
+    });
+  });
+
+  it("measures the run time limit from the current run's start", () => {
+    const task = addRunningTask("a", {
+      startedAt: "2026-10-19T11:58:00.000Z",
+      maxRunningMs: 60000,
+    });
+
+    expect(findTimeout(task as any, NOW)?.reason).toBe("timeout");
+    expect(
+      findTimeout(task as any, Date.parse("2026-10-19T11:58:30Z")),
+    ).toBeNull();
+  });
+
+  it("ignores tasks without limits", () => {
+    expect(findTimeout(addRunningTask("a", {}) as any, NOW)).toBeNull();
+  });
+});
+
+describe("TaskWatchdog.runOnce", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockTasks.clear();
+    jest.spyOn(Date, "now").mockReturnValue(NOW);
+    mockStopContainer.mockResolvedValue(undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("checkpoints, fails and stops a task that ran too long", async () => {
+    addRunningTask("slow", {
+      startedAt: "2026-10-19T10:00:00.000Z",
+      maxRunningMs: 3600000,
+    });
+    addRunningTask("fine", {
+      startedAt: "2026-10-19T11:30:00.000Z",
+      maxRunningMs: 3600000,
+    });
+
+    await expect(taskWatchdog.runOnce()).resolves.toEqual(["slow"]);
+
+    expect(mockCreateCheckpoint).toHaveBeenCalledWith(
+      "slow",
+      "Before timeout: Task exceeded its maximum running time of 3600000ms",
+    );
+    expect(mockFailTask).toHaveBeenCalledWith(
+      "slow",
+      "Task exceeded its maximum running time of 3600000ms",
+      { reason: "timeout", retryable: undefined },
+    );
+    expect(mockCreateCheckpoint.mock.invocationCallOrder[0]).toBeLessThan(
+      mockFailTask.mock.invocationCallOrder[0]!,
+    );
+    expect(mockStopContainer).toHaveBeenCalledWith("container-slow");
+  });
+
+  it("does not retry a missed deadline", async () => {
+    addRunningTask("late", { deadline: "2026-10-19T11:00:00.000Z" });
+
+    await taskWatchdog.runOnce();
+
+    expect(mockFailTask).toHaveBeenCalledWith("late", expect.any(String), {
+      reason: "deadline",
+      retryable: false,
+    });
+  });
+
+  it("cancels instead of failing when asked to", async () => {
+    addRunningTask("late", {
+      deadline: "2026-10-19T11:00:00.000Z",
+      timeoutAction: "cancel",
+    });
+
+    await taskWatchdog.runOnce();
+
+    expect(mockCancelTask).toHaveBeenCalledWith("late");
+    expect(mockFailTask).not.toHaveBeenCalled();
+    expect(mockStopContainer).toHaveBeenCalledWith("container-late");
+  });
+
+  it("still ends the task when the checkpoint fails", async () => {
+    addRunningTask("late", { deadline: "2026-10-19T11:00:00.000Z" });
+    mockCreateCheckpoint.mockRejectedValueOnce(new Error("Disk full"));
+
+    await expect(taskWatchdog.runOnce()).resolves.toEqual(["late"]);
+    expect(mockFailTask).toHaveBeenCalled();
+  });
+
+  it("keeps going when one task cannot be ended", async () => {
+    addRunningTask("a", { deadline: "2026-10-19T11:00:00.000Z" });
+    addRunningTask("b", { deadline: "2026-10-19T11:00:00.000Z" });
+    mockFailTask.mockRejectedValueOnce(
+      new Error("Cannot fail task with status: completed"),
+    );
+
+    await expect(taskWatchdog.runOnce()).resolves.toEqual(["b"]);
+    expect(mockStopContainer).toHaveBeenCalledTimes(1);
+  });
+});
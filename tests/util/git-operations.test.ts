@@ -0,0 +1,237 @@
+// Git Operations Tests
+// Workspace status, diff, commit, log and branch commands against a real repository
+
+import { execFileSync } from "child_process";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+// Runs before every fs/promises open, such as the git lock being taken
+let mockBeforeOpen: (() => void) | undefined;
+
+jest.mock("fs/promises", () => {
+  const actual = jest.requireActual("fs/promises");
+  return {
+    ...actual,
+    open: (...args: unknown[]) => {
+      mockBeforeOpen?.();
+      return actual.open(...args);
+    },
+  };
+});
+
+import {
+  changeGitBranch,
+  commitGitChanges,
+  getGitDiff,
+  getGitLog,
+  getGitStatus,
+  listGitBranches,
+} from "../../src/util/git-operations";
+
+const identity = {
+  GIT_AUTHOR_NAME: "setup",
+  GIT_AUTHOR_EMAIL: "setup@example.com",
+  GIT_COMMITTER_NAME: "setup",
+  GIT_COMMITTER_EMAIL: "setup@example.com",
+};
+
+const author = { name: "agent-a", email: "agent-a@agents.opencode.local" };
+
+describe("git operations", () => {
+  let workspace: string;
+
+  const git = (...args: string[]) =>
+    execFileSync("git", args, {
+      cwd: workspace,
+      env: { ...process.env, ...identity },
+    }).toString();
+
+  beforeEach(() => {
+    workspace = fs.mkdtempSync(path.join(os.tmpdir(), "git-operations-"));
+    git("init", "--quiet", "--initial-branch=main");
+    fs.writeFileSync(path.join(workspace, "README.md"), "# Title\n");
+    git("add", "README.md");
+    git("commit", "--quiet", "-m", "Initial commit");
+  });
+
+  afterEach(() => {
+    fs.rmSync(workspace, { recursive: true, force: true });
+  });
+
+  it("reports the branch and changed files", async () => {
+    fs.writeFileSync(path.join(workspace, "README.md"), "# Changed\n");
+    fs.writeFileSync(path.join(workspace, "new file.txt"), "new\n");
+
+    const status = await getGitStatus(workspace);
+
+    expect(status.branch).toBe("main");
+    expect(status.clean).toBe(false);
+    expect(status.files).toEqual([
+      { index: " ", workingTree: "M", path: "README.md" },
+      { index: "?", workingTree: "?", path: "new file.txt" },
+    ]);
+  });
+
+  it("diffs staged and unstaged changes separately", async () => {
+    fs.writeFileSync(path.join(workspace, "README.md"), "# Changed\n");
+    git("add", "README.md");
+    fs.writeFileSync(path.join(workspace, "other.txt"), "a\n");
+    git("add", "other.txt");
+    fs.writeFileSync(path.join(workspace, "other.txt"), "a\nb\n");
+
+    const staged = await getGitDiff(workspace, { target: "staged" });
+    const unstaged = await getGitDiff(workspace);
+
+    expect(staged.files.map((file) => file.path).sort()).toEqual([
+      "README.md",
+      "other.txt",
+    ]);
+    expect(staged.diff).toContain("+# Changed");
+    expect(unstaged.files).toEqual([
+      { path: "other.txt", additions: 1, deletions: 0 },
+    ]);
+  });
+
+  it("diffs a task branch against its base", async () => {
+    git("switch", "--quiet", "--create", "task/t-1");
+    fs.writeFileSync(path.join(workspace, "feature.ts"), "export {};\n");
+    git("add", "feature.ts");
+    git("commit", "--quiet", "-m", "Add feature");
+
+    const result = await getGitDiff(workspace, { target: "base" });
+
+    expect(result.base).toBe("main");
+    expect(result.files).toEqual([
+      { path: "feature.ts", additions: 1, deletions: 0 },
+    ]);
+  });
+
+  it("commits as the agent without running workspace hooks", async () => {
+    const hook = path.join(workspace, ".git", "hooks", "pre-commit");
+    fs.writeFileSync(hook, "#!/bin/sh\nexit 1\n", { mode: 0o755 });
+    fs.writeFileSync(path.join(workspace, "a.txt"), "a\n");
+
+    const result = await commitGitChanges(workspace, {
+      message: "Add a",
+      author,
+      all: true,
+    });
+    const [latest] = await getGitLog(workspace, { maxCount: 1 });
+
+    expect(result.branch).toBe("main");
+    expect(latest).toMatchObject({
+      commit: result.commit,
+      author: "agent-a",
+      email: "agent-a@agents.opencode.local",
+      subject: "Add a",
+    });
+    expect(git("log", "-1", "--format=%cn").trim()).toBe("agent-a");
+  });
+
+  it("refuses to commit when nothing is staged", async () => {
+    await expect(
+      commitGitChanges(workspace, { message: "Empty", author }),
+    ).rejects.toThrow("Nothing to commit");
+  });
+
+  it("creates, switches and lists branches", async () => {
+    await changeGitBranch(workspace, "create", "feature/x");
+    await changeGitBranch(workspace, "switch", "main");
+
+    const branches = await listGitBranches(workspace);
+
+    expect(branches.map((branch) => branch.name)).toEqual([
+      "feature/x",
+      "main",
+    ]);
+    expect(branches.find((branch) => branch.current)?.name).toBe("main");
+  });
+
+  it("rejects refs that look like options", async () => {
+    await expect(
+      changeGitBranch(workspace, "create", "--orphan"),
+    ).rejects.toThrow("Invalid branch name");
+    await expect(getGitLog(workspace, { ref: "--all" })).rejects.toThrow(
+      "Invalid ref",
+    );
+  });
+
+  it("refuses repository config that would run workspace programs", async () => {
+    const marker = path.join(workspace, "ran");
+    git("config", "core.fsmonitor", `touch ${marker}`);
+
+    await expect(getGitStatus(workspace)).rejects.toThrow(
+      "Task workspace git config may not set core.fsmonitor",
+    );
+
+    git("config", "--unset", "core.fsmonitor");
+    git("config", "filter.evil.clean", `touch ${marker}`);
+    fs.writeFileSync(path.join(workspace, ".gitattributes"), "* filter=evil\n");
+
+    await expect(
+      commitGitChanges(workspace, { message: "Add", author, all: true }),
+    ).rejects.toThrow("may not set filter.evil.clean");
+    expect(fs.existsSync(marker)).toBe(false);
+  });
+
+  it("ignores repository config rewritten after the check", async () => {
+    const marker = path.join(workspace, "ran");
+    const program = path.join(os.tmpdir(), `git-program-${process.pid}`);
+    fs.writeFileSync(program, `#!/bin/sh\ntouch ${marker}\n`, { mode: 0o755 });
+    fs.writeFileSync(path.join(workspace, "a.txt"), "a\n");
+
+    // The container rewrites the config while the git lock is taken
+    mockBeforeOpen = () => {
+      git("config", "core.fsmonitor", program);
+      git("config", "commit.gpgSign", "true");
+      git("config", "gpg.program", program);
+      git("config", "core.worktree", os.tmpdir());
+    };
+
+    try {
+      const result = await commitGitChanges(workspace, {
+        message: "Add a",
+        author,
+        paths: ["a.txt"],
+      });
+
+      expect(result.commit).toBe(git("rev-parse", "HEAD").trim());
+      expect(git("show", "--format=", "--name-only", "HEAD").trim()).toBe(
+        "a.txt",
+      );
+      expect(fs.existsSync(marker)).toBe(false);
+    } finally {
+      mockBeforeOpen = undefined;
+      fs.rmSync(program, { force: true });
+    }
+  });
+
+  it("refuses a .git file pointing outside the workspace", async () => {
+    const outside = fs.mkdtempSync(path.join(os.tmpdir(), "git-outside-"));
+    try {
+      fs.renameSync(path.join(workspace, ".git"), path.join(outside, ".git"));
+      fs.writeFileSync(
+        path.join(workspace, ".git"),
+        `gitdir: ${path.join(outside, ".git")}\n`,
+      );
+
+      await expect(getGitStatus(workspace)).rejects.toThrow(
+        "Task workspace .git must be a directory",
+      );
+      expect(
+        fs.existsSync(path.join(outside, ".git", "opencode-git.lock")),
+      ).toBe(false);
+    } finally {
+      fs.rmSync(outside, { recursive: true, force: true });
+    }
+  });
+
+  it("rejects workspaces that are not repositories", async () => {
+    const plain = fs.mkdtempSync(path.join(os.tmpdir(), "git-plain-"));
+    try {
+      await expect(getGitStatus(plain)).rejects.toThrow("not a git repository");
+    } finally {
+      fs.rmSync(plain, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,19 @@
+// Logger Tests
+// Console output routing for the stdio transport
+
+import winston from "winston";
+import { logger, useStderrForConsole } from "../../src/util/logger";
+
+describe("useStderrForConsole", () => {
+  it("sends every console level to stderr", () => {
+    useStderrForConsole();
+
+    const consoles = logger.transports.filter(
+      (transport) => transport instanceof winston.transports.Console,
+    );
+    expect(consoles).toHaveLength(1);
+    expect(Object.keys((consoles[0] as any).stderrLevels)).toEqual(
+      Object.keys(logger.levels),
+    );
+  });
+});
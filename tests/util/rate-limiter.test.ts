@@ -0,0 +1,64 @@
+// Token Bucket Rate Limiter Tests
+// Burst capacity, continuous refill and retry hints
+
+import { TokenBucketRateLimiter } from "../../src/util/rate-limiter";
+
+describe("TokenBucketRateLimiter", () => {
+  let now: number;
+  const clock = () => now;
+
+  beforeEach(() => {
+    now = 1_000_000;
+  });
+
+  it("allows a burst up to the capacity", () => {
+    const limiter = new TokenBucketRateLimiter(3, 60, clock);
+
+    expect(limiter.tryConsume("agent-a").allowed).toBe(true);
+    expect(limiter.tryConsume("agent-a").allowed).toBe(true);
+    expect(limiter.tryConsume("agent-a").remaining).toBe(0);
+
+    const rejected = limiter.tryConsume("agent-a");
+    expect(rejected.allowed).toBe(false);
+    expect(rejected.retryAfterMs).toBe(1000);
+  });
+
+  it("keeps separate buckets per key", () => {
+    const limiter = new TokenBucketRateLimiter(1, 60, clock);
+
+    expect(limiter.tryConsume("agent-a").allowed).toBe(true);
+    expect(limiter.tryConsume("agent-a").allowed).toBe(false);
+    expect(limiter.tryConsume("agent-b").allowed).toBe(true);
+  });
+
+  it("refills continuously without exceeding the capacity", () => {
+    const limiter = new TokenBucketRateLimiter(2, 60, clock);
+    limiter.tryConsume("agent-a");
+    limiter.tryConsume("agent-a");
+
+    now += 1000;
+    expect(limiter.tryConsume("agent-a").allowed).toBe(true);
+    expect(limiter.tryConsume("agent-a").allowed).toBe(false);
+
+    now += 60_000;
+    expect(limiter.tryConsume("agent-a").remaining).toBe(1);
+  });
+
+  it("prunes buckets that are full again", () => {
+    const limiter = new TokenBucketRateLimiter(1, 60, clock);
+    limiter.tryConsume("agent-a");
+
+    now += 5000;
+    limiter.prune();
+
+    expect((limiter as any).buckets.size).toBe(0);
+  });
+
+  it("allows everything when the rate is zero", () => {
+    const limiter = new TokenBucketRateLimiter(1, 0, clock);
+
+    expect(limiter.isEnabled()).toBe(false);
+    expect(limiter.tryConsume("agent-a").allowed).toBe(true);
+    expect(limiter.tryConsume("agent-a").allowed).toBe(true);
+  });
+});
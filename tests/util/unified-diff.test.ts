@@ -0,0 +1,117 @@
+// Unified Diff Tests
+// Parsing multi-file patches and applying hunks with drift and conflicts
+
+import { applyHunks, parseUnifiedDiff } from "../../src/util/unified-diff";
+
+const ORIGINAL = ["one", "two", "three", "four", "five", ""].join("\n");
+
+describe("parseUnifiedDiff", () => {
+  it("parses git-style multi-file patches", () => {
+    const files = parseUnifiedDiff(
+      [
+        "diff --git a/src/a.ts b/src/a.ts",
+        "index 123..456 100644",
+        "--- a/src/a.ts",
+        "+++ b/src/a.ts",
+        "@@ -1,2 +1,2 @@",
+        "-old",
+        "+new",
+        " same",
+        "--- /dev/null",
+        "+++ b/src/new.ts",
+        "@@ -0,0 +1 @@",
+        "+created",
+        "",
+      ].join("\n"),
+    );
+
+    expect(files).toHaveLength(2);
+    expect(files[0]).toMatchObject({
+      oldPath: "src/a.ts",
+      newPath: "src/a.ts",
+    });
+    expect(files[0]?.hunks[0]?.lines).toEqual(["-old", "+new", " same"]);
+    expect(files[1]).toMatchObject({ oldPath: null, newPath: "src/new.ts" });
+  });
+
+  it("rejects truncated hunks", () => {
+    expect(() =>
+      parseUnifiedDiff(
+        ["--- a/x", "+++ b/x", "@@ -1,3 +1,3 @@", " a"].join("\n"),
+      ),
+    ).toThrow("Hunk is truncated");
+  });
+
+  it("rejects input without file changes", () => {
+    expect(() => parseUnifiedDiff("just text")).toThrow(
+      "Patch contains no file changes",
+    );
+  });
+});
+
+describe("applyHunks", () => {
+  const patchFor = (lines: string[]) =>
+    parseUnifiedDiff(["--- a/f", "+++ b/f", ...lines].join("\n"))[0]!.hunks;
+
+  it("replaces lines at the recorded position", () => {
+    const result = applyHunks(
+      ORIGINAL,
+      patchFor(["@@ -2,3 +2,3 @@", " two", "-three", "+THREE", " four"]),
+    );
+
+    expect(result).toBe("one\ntwo\nTHREE\nfour\nfive\n");
+  });
+
+  it("finds hunks that drifted from their line numbers", () => {
+    const result = applyHunks(
+      "zero\n" + ORIGINAL,
+      patchFor(["@@ -4,2 +4,1 @@", " four", "-five"]),
+    );
+
+    expect(result).toBe("zero\none\ntwo\nthree\nfour\n");
+  });
+
+  it("applies several hunks in order", () => {
+    const result = applyHunks(
+      ORIGINAL,
+      patchFor([
+        "@@ -1,2 +1,3 @@",
+        " one",
+        "+one-and-a-half",
+        " two",
+        "@@ -4,2 +5,2 @@",
+        " four",
+        "-five",
+        "+FIVE",
+      ]),
+    );
+
+    expect(result).toBe("one\none-and-a-half\ntwo\nthree\nfour\nFIVE\n");
+  });
+
+  it("creates files from an empty source", () => {
+    expect(applyHunks(null, patchFor(["@@ -0,0 +1,2 @@", "+a", "+b"]))).toBe(
+      "a\nb\n",
+    );
+  });
+
+  it("honours the missing newline marker", () => {
+    const result = applyHunks(
+      ORIGINAL,
+      patchFor([
+        "@@ -5 +5 @@",
+        "-five",
+        "+last",
+        "\\ No newline at end of file",
+      ]),
+    );
+
+    expect(result).toBe("one\ntwo\nthree\nfour\nlast");
+  });
+
+  it("reports a conflict when the context does not match", () => {
+    expect(() =>
+      applyHunks(ORIGINAL, patchFor(["@@ -2,1 +2,1 @@", "-missing", "+x"])),
+    ).toThrow("Hunk 1 does not apply");
+  });
+});
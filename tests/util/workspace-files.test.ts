@@ -0,0 +1,326 @@
+// Workspace Files Tests
+// Confinement to the task workspace plus read, write, list, search and patch
+
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+// Runs before every fs/promises open, between the path check and the open
+let mockBeforeOpen: (() => void) | undefined;
+
+jest.mock("fs/promises", () => {
+  const actual = jest.requireActual("fs/promises");
+  return {
+    ...actual,
+    open: (...args: unknown[]) => {
+      mockBeforeOpen?.();
+      return actual.open(...args);
+    },
+  };
+});
+
+import {
+  applyWorkspacePatch,
+  globToRegExp,
+  listWorkspaceDirectory,
+  readWorkspaceFile,
+  resolveWorkspacePath,
+  searchWorkspaceFiles,
+  writeWorkspaceFile,
+} from "../../src/util/workspace-files";
+
+describe("workspace files", () => {
+  const originalWorkspace = process.env.OPENCODE_WORKSPACE;
+  let base: string;
+  let outside: string;
+  let workspace: string;
+  const taskId = "task-1";
+
+  beforeEach(() => {
+    base = fs.mkdtempSync(path.join(os.tmpdir(), "workspace-files-"));
+    outside = fs.mkdtempSync(path.join(os.tmpdir(), "workspace-outside-"));
+    process.env.OPENCODE_WORKSPACE = base;
+    workspace = path.join(base, taskId);
+    fs.mkdirSync(path.join(workspace, "src", "lib"), { recursive: true });
+    fs.writeFileSync(path.join(workspace, "README.md"), "# Title\nhello\n");
+    fs.writeFileSync(
+      path.join(workspace, "src", "index.ts"),
+      "export const a = 1;\n",
+    );
+    fs.writeFileSync(
+      path.join(workspace, "src", "lib", "util.ts"),
+      "// TODO: a\nconst x = 2;\n",
+    );
+    fs.writeFileSync(path.join(outside, "secret.txt"), "secret\n");
+  });
+
+  afterEach(() => {
+    mockBeforeOpen = undefined;
+    process.env.OPENCODE_WORKSPACE = originalWorkspace;
+    fs.rmSync(base, { recursive: true, force: true });
+    fs.rmSync(outside, { recursive: true, force: true });
+  });
+
+  describe("confinement", () => {
+    it("rejects parent directory traversal", async () => {
+      await expect(
+        resolveWorkspacePath(taskId, "../task-10/file"),
+      ).rejects.toMatchObject({ code: "PATH_OUTSIDE_WORKSPACE" });
+      await expect(
+        resolveWorkspacePath(taskId, "src/../../../etc/passwd"),
+      ).rejects.toMatchObject({ code: "PATH_OUTSIDE_WORKSPACE" });
+    });
+
+    it("rejects absolute paths outside the workspace", async () => {
+      await expect(
+        resolveWorkspacePath(taskId, "/etc/passwd"),
+      ).rejects.toMatchObject({ code: "PATH_OUTSIDE_WORKSPACE" });
+    });
+
+    it("rejects task IDs that are not a single path segment", async () => {
+      await expect(resolveWorkspacePath("../x", "a")).rejects.toMatchObject({
+        code: "PATH_OUTSIDE_WORKSPACE",
+      });
+    });
+
+    it("rejects symlinks that escape the workspace", async () => {
+      fs.symlinkSync(
+        path.join(outside, "secret.txt"),
+        path.join(workspace, "link"),
+      );
+      fs.symlinkSync(outside, path.join(workspace, "dir-link"));
+
+      await expect(readWorkspaceFile(taskId, "link")).rejects.toMatchObject({
+        code: "PATH_OUTSIDE_WORKSPACE",
+      });
+      await expect(
+        writeWorkspaceFile(taskId, "dir-link/new.txt", "x"),
+      ).rejects.toMatchObject({ code: "PATH_OUTSIDE_WORKSPACE" });
+      expect(fs.existsSync(path.join(outside, "new.txt"))).toBe(false);
+    });
+
+    it("refuses a file swapped for a symlink before it is opened", async () => {
+      mockBeforeOpen = () => {
+        fs.rmSync(path.join(workspace, "README.md"));
+        fs.symlinkSync(
+          path.join(outside, "secret.txt"),
+          path.join(workspace, "README.md"),
+        );
+      };
+
+      await expect(
+        readWorkspaceFile(taskId, "README.md"),
+      ).rejects.toMatchObject({ code: "PATH_OUTSIDE_WORKSPACE" });
+    });
+
+    it("refuses a searched file swapped for a symlink", async () => {
+      mockBeforeOpen = () => {
+        mockBeforeOpen = undefined;
+        fs.rmSync(path.join(workspace, "README.md"));
+        fs.symlinkSync(
+          path.join(outside, "secret.txt"),
+          path.join(workspace, "README.md"),
+        );
+      };
+
+      await expect(
+        searchWorkspaceFiles(taskId, "secret"),
+      ).rejects.toMatchObject({ code: "PATH_OUTSIDE_WORKSPACE" });
+    });
+
+    it("refuses a directory swapped for a symlink before a file is opened", async () => {
+      fs.writeFileSync(path.join(outside, "index.ts"), "secret\n");
+      mockBeforeOpen = () => {
+        fs.rmSync(path.join(workspace, "src"), { recursive: true });
+        fs.symlinkSync(outside, path.join(workspace, "src"));
+      };
+
+      await expect(
+        readWorkspaceFile(taskId, "src/index.ts"),
+      ).rejects.toMatchObject({ code: "PATH_OUTSIDE_WORKSPACE" });
+    });
+
+    it("follows symlinks that stay inside the workspace", async () => {
+      fs.symlinkSync(
+        path.join(workspace, "README.md"),
+        path.join(workspace, "alias.md"),
+      );
+
+      await writeWorkspaceFile(taskId, "alias.md", "changed\n");
+
+      expect(fs.readFileSync(path.join(workspace, "README.md"), "utf8")).toBe(
+        "changed\n",
+      );
+    });
+  });
+
+  it("reads files by line range", async () => {
+    const result = await readWorkspaceFile(taskId, "README.md", {
+      startLine: 2,
+      endLine: 2,
+    });
+
+    expect(result).toEqual({
+      path: "README.md",
+      content: "hello",
+      startLine: 2,
+      endLine: 2,
+      totalLines: 2,
+    });
+  });
+
+  it("reads a line range from files over the read limit", async () => {
+    const line = "x".repeat(99);
+    fs.writeFileSync(
+      path.join(workspace, "big.log"),
+      `${line}\n`.repeat(20000) + "last",
+    );
+
+    const result = await readWorkspaceFile(taskId, "big.log", {
+      startLine: 19999,
+      endLine: 30000,
+    });
+
+    expect(result).toEqual({
+      path: "big.log",
+      content: `${line}\n${line}\nlast`,
+      startLine: 19999,
+      endLine: 20001,
+      totalLines: 20001,
+    });
+    await expect(
+      readWorkspaceFile(taskId, "big.log", { endLine: 20001 }),
+    ).rejects.toMatchObject({ code: "FILE_TOO_LARGE" });
+  });
+
+  it("writes files and creates parent directories", async () => {
+    const result = await writeWorkspaceFile(
+      taskId,
+      "docs/new/guide.md",
+      "hi\n",
+    );
+
+    expect(result).toEqual({
+      path: "docs/new/guide.md",
+      bytesWritten: 3,
+      created: true,
+    });
+    expect(
+      fs.readFileSync(path.join(workspace, "docs/new/guide.md"), "utf8"),
+    ).toBe("hi\n");
+  });
+
+  it("lists directories recursively with a glob", async () => {
+    const { entries } = await listWorkspaceDirectory(taskId, ".", {
+      pattern: "**/*.ts",
+      recursive: true,
+    });
+
+    expect(entries.map((entry) => entry.path)).toEqual([
+      "src/index.ts",
+      "src/lib/util.ts",
+    ]);
+  });
+
+  it("searches file contents with a regex", async () => {
+    const { matches } = await searchWorkspaceFiles(taskId, "todo", {
+      caseSensitive: false,
+      include: "**/*.ts",
+    });
+
+    expect(matches).toEqual([
+      { path: "src/lib/util.ts", line: 1, column: 4, text: "// TODO: a" },
+    ]);
+  });
+
+  it("refuses search patterns prone to catastrophic backtracking", async () => {
+    await expect(searchWorkspaceFiles(taskId, "(a+)+$")).rejects.toMatchObject({
+      code: "INVALID_PATTERN",
+    });
+    await expect(
+      searchWorkspaceFiles(taskId, "a".repeat(1001)),
+    ).rejects.toMatchObject({ code: "INVALID_PATTERN" });
+  });
+
+  it("stops a search whose pattern backtracks past the deadline", async () => {
+    fs.writeFileSync(path.join(workspace, "slow.txt"), `${"a".repeat(64)}b\n`);
+    // Start the 10 second search deadline 9.8 seconds in the past
+    const now = Date.now();
+    jest.spyOn(Date, "now").mockReturnValueOnce(now - 9800);
+
+    try {
+      const result = await searchWorkspaceFiles(taskId, "(a|aa)+$", {
+        include: "slow.txt",
+      });
+
+      expect(result).toEqual({ matches: [], truncated: true });
+      expect(Date.now() - now).toBeLessThan(5000);
+    } finally {
+      jest.restoreAllMocks();
+    }
+  });
+
+  it("applies patches atomically across files", async () => {
+    const patch = [
+      "--- a/src/index.ts",
+      "+++ b/src/index.ts",
+      "@@ -1 +1 @@",
+      "-export const a = 1;",
+      "+export const a = 2;",
+      "--- a/README.md",
+      "+++ b/README.md",
+      "@@ -1 +1 @@",
+      "-# Wrong title",
+      "+# New",
+    ].join("\n");
+
+    await expect(applyWorkspacePatch(taskId, patch)).rejects.toMatchObject({
+      code: "PATCH_CONFLICT",
+    });
+    expect(fs.readFileSync(path.join(workspace, "src/index.ts"), "utf8")).toBe(
+      "export const a = 1;\n",
+    );
+
+    const results = await applyWorkspacePatch(
+      taskId,
+      patch.replace("-# Wrong title", "-# Title"),
+    );
+    expect(results).toEqual([
+      { path: "src/index.ts", action: "modified" },
+      { path: "README.md", action: "modified" },
+    ]);
+    expect(fs.readFileSync(path.join(workspace, "README.md"), "utf8")).toBe(
+      "# New\nhello\n",
+    );
+  });
+
+  it("rejects patches that target paths outside the workspace", async () => {
+    const patch = [
+      "--- /dev/null",
+      "+++ b/../escape.txt",
+      "@@ -0,0 +1 @@",
+      "+x",
+    ].join("\n");
+
+    await expect(applyWorkspacePatch(taskId, patch)).rejects.toMatchObject({
+      code: "PATH_OUTSIDE_WORKSPACE",
+    });
+  });
+
+  it("converts globs to anchored regular expressions", () => {
+    expect(globToRegExp("*.ts").test("a.ts")).toBe(true);
+    expect(globToRegExp("*.ts").test("dir/a.ts")).toBe(false);
+    expect(globToRegExp("**/*.{ts,js}").test("a/b/c.js")).toBe(true);
+    expect(globToRegExp("**/*.{ts,js}").test("c.ts")).toBe(true);
+  });
+
+  it("translates wildcards inside brace alternatives", () => {
+    const matcher = globToRegExp("{*.ts,docs/**/*.md}");
+    expect(matcher.test("a.ts")).toBe(true);
+    expect(matcher.test("docs/guide/intro.md")).toBe(true);
+    expect(matcher.test("src/a.ts")).toBe(false);
+    expect(globToRegExp("{src,test}/{*.ts,{a,b}?.js}").test("test/b1.js")).toBe(
+      true,
+    );
+    expect(globToRegExp("{a,b").test("{a,b")).toBe(true);
+  });
+});